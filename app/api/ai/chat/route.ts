@@ -1,5 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { listAttachments } from '@/lib/attachments';
+import { buildConversationMemory, formatConversationSummaries } from '@/lib/conversation-memory';
+import {
+  DocumentSource,
+  attachmentToSource,
+  extractPastedDocuments,
+  formatExcerpts,
+  retrieveDocumentExcerpts,
+} from '@/lib/document-retrieval';
+import { getDocumentPageUnit } from '@/lib/document-formats';
+import { getLLMProvider, LLMMessage, LLMProvider, LLMProviderError, LLMStreamEvent, LLMToolCall } from '@/lib/llm';
+import { ICPToolResult, ICP_AGENT_TOOLS, executeICPTool } from '@/lib/icp-tools';
+import { Attachment } from '@/types/chat';
+import { ICP_FIELDS, ICP_SECTIONS } from '@/types/icp';
+
+// Model/tool round trips per reply before the agent must answer in text
+const MAX_TOOL_ROUNDS = 3;
 
 // POST: Generate AI response based on chat history
 export async function POST(request: NextRequest) {
@@ -14,21 +31,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get API key from environment
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
+    // Resolve the configured LLM provider for chat
+    let llm: LLMProvider;
+    try {
+      llm = getLLMProvider('chat');
+    } catch (error: any) {
       return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
+        { error: error.message || 'LLM provider not configured' },
         { status: 500 }
       );
     }
 
+    const { supabase, requester } = await createRequestClient(request.cookies);
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
     // Get chat history and ICP data from database
-    const supabase = createServerClient();
     const [messagesResult, icpResult] = await Promise.all([
       supabase
         .from('messages')
-        .select('role, content')
+        .select('id, role, content')
         .eq('chat_id', chatId)
         .order('created_at', { ascending: true }),
       supabase
@@ -48,6 +75,14 @@ export async function POST(request: NextRequest) {
 
     const messages = messagesResult.data || [];
     const icpData = icpResult.data;
+
+    // Uploaded documents reach the model as retrieved excerpts, not as message text
+    let attachments: Attachment[] = [];
+    try {
+      attachments = await listAttachments(supabase, chatId);
+    } catch (error) {
+      console.error('[AI Chat API] Error fetching attachments:', error);
+    }
     
     console.log('[AI Chat API] Received request', {
       chatId,
@@ -55,11 +90,54 @@ export async function POST(request: NextRequest) {
       lastMessage: messages.length > 0 ? messages[messages.length - 1]?.content?.substring(0, 50) : 'none'
     });
 
-    // Format messages for OpenAI API
-    const formattedMessages = messages.map((msg) => ({
-      role: msg.role,
-      content: msg.content,
-    }));
+    const latestUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+
+    // Documents to retrieve from: stored uploads, plus any text pasted into older messages
+    const documentSources: DocumentSource[] = attachments.map(attachmentToSource);
+
+    // Tools can be switched off for providers/models without tool support
+    const toolsEnabled = process.env.LLM_CHAT_TOOLS !== 'off';
+
+    // Format messages for the LLM provider
+    const formattedMessages = messages.map((msg) => {
+      const pasted = extractPastedDocuments(msg.id, msg.content);
+      documentSources.push(...pasted.sources);
+
+      const uploadNotes = attachments
+        .filter(attachment => attachment.message_id === msg.id)
+        .map(attachment => `[Uploaded document "${attachment.file_name}" (${attachment.page_count} ${getDocumentPageUnit(attachment.format)}${attachment.page_count === 1 ? '' : 's'}) - relevant excerpts are in the system prompt]`);
+
+      return {
+        id: msg.id,
+        role: msg.role as 'user' | 'assistant',
+        content: [pasted.content, ...uploadNotes].filter(Boolean).join('\n\n') || msg.content,
+      };
+    });
+
+    // Older turns are replaced by per-stage summaries once the history outgrows its budget
+    let summaryLLM: LLMProvider | null = null;
+    try {
+      summaryLLM = getLLMProvider('summary');
+    } catch (error) {
+      console.error('[AI Chat API] Summary provider unavailable:', error);
+    }
+    const memory = await buildConversationMemory(supabase, chatId, formattedMessages, summaryLLM);
+    const earlierConversation = formatConversationSummaries(memory);
+
+    // Excerpts relevant to what the user just said and to the stage being explored
+    const focusSection = ICP_SECTIONS.find(section => icpData?.[section.completeKey] !== true);
+    const retrievalQueries = [
+      latestUserMessage ? extractPastedDocuments(latestUserMessage.id, latestUserMessage.content).content : '',
+      focusSection
+        ? [focusSection.name, focusSection.intent, ...focusSection.fields.map(field => field.prompt)].join('. ')
+        : '',
+    ];
+    let documentExcerpts = '';
+    try {
+      documentExcerpts = formatExcerpts(await retrieveDocumentExcerpts(supabase, documentSources, retrievalQueries));
+    } catch (error) {
+      console.error('[AI Chat API] Document retrieval failed:', error);
+    }
 
     // Build system prompt with ICP context
     let systemPrompt = `# Personality
@@ -228,11 +306,11 @@ Intent: Confirm understanding and synthesize the complete ICP.
 
 2. MANDATORY START: You CANNOT proceed with any discovery stages until you have collected: User's Name, Designation, and Company name. These are mandatory.
 
-3. When a user uploads a PDF or document, the full content is automatically extracted and provided to you. You CAN access and read uploaded files. Never say you cannot access files.
+3. When a user uploads a PDF or document, its content is automatically extracted and the relevant parts are provided to you. You CAN access and read uploaded files. Never say you cannot access files.
 
 4. CRITICAL: ALWAYS check the conversation history, uploaded document content, AND the ICP data that has already been extracted before asking any question. The ICP data shown below represents information that has already been extracted from documents or previous conversations.
 
-5. If you see document content in the conversation (marked as "[Document content from...]"), that content is AUTHORITATIVE and COMPLETE. Extract ALL information from it directly. DO NOT ask the user to repeat what's already in the document.
+5. Uploaded documents are shown to you as the excerpts most relevant to this turn, under "# Uploaded Documents" below, each marked with its document and pages. That content is AUTHORITATIVE. Extract ALL information from it directly. DO NOT ask the user to repeat what's already in the document.
 
 6. If user says "it's in the document", "check the document", "it's already there", or "I already provided that", IMMEDIATELY stop asking and trust the document. Extract the information from the document content and move forward immediately.
 
@@ -254,13 +332,10 @@ Always prioritize clarification over assumptions.`;
 
     // Add ICP progress context if available
     if (icpData) {
-      const sections = [
-        { name: 'Company Overview', key: 'company_basics_complete', complete: icpData.company_basics_complete },
-        { name: 'Target Customer & Market', key: 'target_customer_complete', complete: icpData.target_customer_complete },
-        { name: 'Pain Points & Motivations', key: 'problem_pain_complete', complete: icpData.problem_pain_complete },
-        { name: 'Buyer Personas & Decision Makers', key: 'buying_process_complete', complete: icpData.buying_process_complete },
-        { name: 'Budget & Decision Maker', key: 'budget_decision_complete', complete: icpData.budget_decision_complete },
-      ];
+      const sections = ICP_SECTIONS.map(section => ({
+        ...section,
+        complete: icpData[section.completeKey] === true,
+      }));
 
       const completedSections = sections.filter(s => s.complete).map(s => s.name);
       const incompleteSections = sections.filter(s => !s.complete).map(s => s.name);
@@ -285,34 +360,10 @@ ${incompleteSections.length === 0
       }
 
       // Add ALL filled data context so AI knows what's already been gathered
-      const filledData: string[] = [];
-      
-      // Company Basics
-      if (icpData.company_name) filledData.push(`Company Name: ${icpData.company_name}`);
-      if (icpData.company_size) filledData.push(`Company Size: ${icpData.company_size}`);
-      if (icpData.industry) filledData.push(`Industry: ${icpData.industry}`);
-      if (icpData.location) filledData.push(`Location: ${icpData.location}`);
-      
-      // Target Customer
-      if (icpData.target_customer_type) filledData.push(`Target Customer Type: ${icpData.target_customer_type}`);
-      if (icpData.target_demographics) filledData.push(`Target Demographics: ${icpData.target_demographics}`);
-      if (icpData.target_psychographics) filledData.push(`Target Psychographics: ${icpData.target_psychographics}`);
-      
-      // Problem & Pain
-      if (icpData.main_problems) filledData.push(`Main Problems: ${icpData.main_problems}`);
-      if (icpData.pain_points) filledData.push(`Pain Points: ${icpData.pain_points}`);
-      if (icpData.current_solutions) filledData.push(`Current Solutions: ${icpData.current_solutions}`);
-      
-      // Buying Process
-      if (icpData.decision_makers) filledData.push(`Decision Makers: ${icpData.decision_makers}`);
-      if (icpData.buying_process_steps) filledData.push(`Buying Process Steps: ${icpData.buying_process_steps}`);
-      if (icpData.evaluation_criteria) filledData.push(`Evaluation Criteria: ${icpData.evaluation_criteria}`);
-      
-      // Budget & Decision Maker
-      if (icpData.budget_range) filledData.push(`Budget Range: ${icpData.budget_range}`);
-      if (icpData.decision_maker_role) filledData.push(`Decision Maker Role: ${icpData.decision_maker_role}`);
-      if (icpData.approval_process) filledData.push(`Approval Process: ${icpData.approval_process}`);
-      
+      const filledData: string[] = ICP_FIELDS
+        .filter(field => icpData[field.key])
+        .map(field => `${field.label}: ${icpData[field.key]}`);
+
       if (filledData.length > 0) {
         systemPrompt += `\n\n# Information Already Gathered (DO NOT RE-ASK)
 
@@ -326,30 +377,10 @@ CRITICAL: If the user says "it's in the document" or "I already provided that" f
       // Add context for what's still needed in the current incomplete section
       const currentIncompleteSection = sections.find(s => !s.complete);
       if (currentIncompleteSection) {
-        let stillNeeded: string[] = [];
-        
-        if (currentIncompleteSection.name === 'Company Overview') {
-          if (!icpData.company_name) stillNeeded.push('What the company does and company name');
-          if (!icpData.company_size) stillNeeded.push('Company size and maturity');
-          if (!icpData.industry) stillNeeded.push('Industry focus');
-          if (!icpData.location) stillNeeded.push('Geography/location');
-        } else if (currentIncompleteSection.name === 'Target Customer & Market') {
-          if (!icpData.target_customer_type) stillNeeded.push('Customer type (B2B/B2C) and market segment');
-          if (!icpData.target_demographics) stillNeeded.push('Company size sweet spot, revenue scale, demographics');
-          if (!icpData.target_psychographics) stillNeeded.push('Psychographics, values, motivations');
-        } else if (currentIncompleteSection.name === 'Pain Points & Motivations') {
-          if (!icpData.main_problems) stillNeeded.push('Main problems customers face');
-          if (!icpData.pain_points) stillNeeded.push('Operational, strategic, and people pain points');
-          if (!icpData.current_solutions) stillNeeded.push('Current solutions they use');
-        } else if (currentIncompleteSection.name === 'Buyer Personas & Decision Makers') {
-          if (!icpData.decision_makers) stillNeeded.push('Decision makers, champions, budget owners');
-          if (!icpData.buying_process_steps) stillNeeded.push('Buying process steps and approval flow');
-          if (!icpData.evaluation_criteria) stillNeeded.push('Evaluation criteria and decision factors');
-        } else if (currentIncompleteSection.name === 'Budget & Decision Maker') {
-          if (!icpData.budget_range) stillNeeded.push('Budget range and typical spending');
-          if (!icpData.decision_maker_role) stillNeeded.push('Decision maker role and job title');
-          if (!icpData.approval_process) stillNeeded.push('Approval process and decision flow');
-        }
+        // Synthesis has no fields of its own, so fall back to its intent
+        const stillNeeded: string[] = currentIncompleteSection.fields.length > 0
+          ? currentIncompleteSection.fields.filter(field => !icpData[field.key]).map(field => field.prompt)
+          : [currentIncompleteSection.intent];
 
         if (stillNeeded.length > 0) {
           systemPrompt += `\n\n# Current Focus: ${currentIncompleteSection.name}
@@ -375,122 +406,180 @@ Once you have Name, Designation, and Company name, proceed to Stage 1: Company O
 Follow the 9-stage discovery sequence naturally through conversation. Be curious, conversational, and help them think through each aspect of their business and ideal customer.`;
     }
 
-    // Call OpenAI API with streaming
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
+    if (earlierConversation) {
+      systemPrompt += `\n\n# Earlier Conversation
+
+Older turns of this conversation, summarized by discovery stage. Treat them like the conversation history: don't ask again for anything they contain.
+
+${earlierConversation}`;
+    }
+
+    if (documentExcerpts) {
+      systemPrompt += `\n\n# Uploaded Documents
+
+Excerpts from the documents the user uploaded, chosen for the current stage and their latest message. Other parts of the documents were already used to fill the ICP data above.
+
+${documentExcerpts}`;
+    }
+
+    if (toolsEnabled) {
+      systemPrompt += `\n\n# Tools
+
+Keep the ICP up to date yourself with your tools. Never mention the tools to the user.
+- update_icp_fields: whenever the founder tells you something new or corrects something. Quote their words as evidence.
+- mark_section_complete: once the founder confirms your summary of a stage.
+- flag_conflict: when information contradicts what is already known (e.g. conversation vs document). Still ask which one is right.
+- request_document_generation: when every stage is complete and the founder wants the final document.`;
+    }
+
+    const conversation: LLMMessage[] = [
+      {
+        role: 'system',
+        content: systemPrompt,
       },
-      body: JSON.stringify({
-        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          ...formattedMessages,
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
-        stream: true, // Enable streaming
-      }),
+      ...memory.recent.map(({ role, content }) => ({ role, content })),
+    ];
+
+    const streamRound = (round: number) => llm.stream({
+      messages: conversation,
+      temperature: 0.7,
+      maxTokens: 2000,
+      // The last round has no tools so the agent has to answer
+      tools: toolsEnabled && round < MAX_TOOL_ROUNDS ? ICP_AGENT_TOOLS : undefined,
     });
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error('OpenAI API error:', errorData);
+    // Call the LLM provider with streaming
+    let events: AsyncIterable<LLMStreamEvent>;
+    try {
+      events = await streamRound(0);
+    } catch (error: any) {
+      console.error(`LLM API error (${llm.name}):`, error);
       return NextResponse.json(
-        { error: 'Failed to generate AI response', details: errorData },
-        { status: response.status }
+        { error: 'Failed to generate AI response', details: error.details ?? error.message },
+        { status: error instanceof LLMProviderError ? error.status : 500 }
       );
     }
 
     // Create a streaming response
     const stream = new ReadableStream({
       async start(controller) {
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
         let fullContent = '';
 
+        const send = (payload: Record<string, unknown>) => {
+          controller.enqueue(
+            new TextEncoder().encode(
+              `data: ${JSON.stringify(payload)}\n\n`
+            )
+          );
+        };
+
         try {
-          while (true) {
-            const { done, value } = await reader!.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value);
-            const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
-                if (data === '[DONE]') {
-                  // Save complete message to database
-                  const { data: savedMessage, error: saveError } = await supabase
-                    .from('messages')
-                    .insert({
-                      chat_id: chatId,
-                      role: 'assistant',
-                      content: fullContent,
-                    })
-                    .select('id, role, content, created_at')
-                    .single();
-
-                  if (saveError) {
-                    console.error('Error saving AI message:', saveError);
-                    try {
-                      controller.enqueue(
-                        new TextEncoder().encode(
-                          `data: ${JSON.stringify({ error: 'Failed to save message' })}\n\n`
-                        )
-                      );
-                    } catch (e) {
-                      // Controller already closed (client disconnected/aborted)
-                      console.log('Client disconnected before final message could be sent');
-                    }
-                  } else {
-                    try {
-                      controller.enqueue(
-                        new TextEncoder().encode(
-                          `data: ${JSON.stringify({ done: true, message: savedMessage })}\n\n`
-                        )
-                      );
-                    } catch (e) {
-                      // Controller already closed (client disconnected/aborted)
-                      console.log('Client disconnected before final message could be sent');
-                    }
-                  }
-                  
-                  try {
-                    controller.close();
-                  } catch (e) {
-                    // Already closed, ignore
-                  }
-                  return;
-                }
-
-                try {
-                  const json = JSON.parse(data);
-                  const content = json.choices[0]?.delta?.content || '';
-                  if (content) {
-                    fullContent += content;
-                    try {
-                      controller.enqueue(
-                        new TextEncoder().encode(
-                          `data: ${JSON.stringify({ content })}\n\n`
-                        )
-                      );
-                    } catch (enqueueError) {
-                      // Controller closed (client disconnected/aborted) - stop processing
-                      console.log('Client disconnected, stopping stream processing');
-                      return;
-                    }
-                  }
-                } catch (e) {
-                  // Skip invalid JSON
-                }
+          for (let round = 0; ; round++) {
+            let roundContent = '';
+            const toolCalls: LLMToolCall[] = [];
+
+            for await (const event of events) {
+              if (event.type === 'tool_call') {
+                toolCalls.push(event.call);
+                continue;
+              }
+
+              fullContent += event.content;
+              roundContent += event.content;
+              try {
+                send({ content: event.content });
+              } catch (enqueueError) {
+                // Controller closed (client disconnected/aborted) - stop processing
+                console.log('Client disconnected, stopping stream processing');
+                return;
               }
             }
+
+            if (toolCalls.length === 0) break;
+
+            // Run the tools and hand the results back to the model for the next round
+            conversation.push({ role: 'assistant', content: roundContent, toolCalls });
+            for (const call of toolCalls) {
+              try {
+                send({ type: 'tool_call', id: call.id, name: call.name, arguments: call.arguments });
+              } catch (enqueueError) {
+                console.log('Client disconnected, stopping stream processing');
+                return;
+              }
+
+              let toolResult: ICPToolResult;
+              try {
+                toolResult = await executeICPTool(call, {
+                  supabase,
+                  chatId,
+                  userMessageId: latestUserMessage?.id,
+                  userMessageText: latestUserMessage?.content,
+                });
+              } catch (toolError: any) {
+                console.error(`[AI Chat] Tool ${call.name} failed:`, toolError);
+                toolResult = { ok: false, result: { error: 'Tool failed, continue without it' } };
+              }
+
+              console.log('[AI Chat] Tool call:', { name: call.name, ok: toolResult.ok, result: toolResult.result });
+              conversation.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(toolResult.result) });
+
+              try {
+                send({ type: 'tool_result', id: call.id, name: call.name, ...toolResult });
+              } catch (enqueueError) {
+                console.log('Client disconnected, stopping stream processing');
+                return;
+              }
+            }
+
+            try {
+              events = await streamRound(round + 1);
+            } catch (error: any) {
+              // Keep whatever was already streamed rather than failing the whole reply
+              console.error(`LLM API error after tool calls (${llm.name}):`, error);
+              break;
+            }
+          }
+
+          // Save complete message to database
+          const { data: savedMessage, error: saveError } = await supabase
+            .from('messages')
+            .insert({
+              chat_id: chatId,
+              role: 'assistant',
+              content: fullContent,
+            })
+            .select('id, role, content, created_at')
+            .single();
+
+          if (saveError) {
+            console.error('Error saving AI message:', saveError);
+            try {
+              controller.enqueue(
+                new TextEncoder().encode(
+                  `data: ${JSON.stringify({ error: 'Failed to save message' })}\n\n`
+                )
+              );
+            } catch (e) {
+              // Controller already closed (client disconnected/aborted)
+              console.log('Client disconnected before final message could be sent');
+            }
+          } else {
+            try {
+              controller.enqueue(
+                new TextEncoder().encode(
+                  `data: ${JSON.stringify({ done: true, message: savedMessage })}\n\n`
+                )
+              );
+            } catch (e) {
+              // Controller already closed (client disconnected/aborted)
+              console.log('Client disconnected before final message could be sent');
+            }
+          }
+
+          try {
+            controller.close();
+          } catch (e) {
+            // Already closed, ignore
           }
         } catch (error) {
           console.error('Streaming error:', error);
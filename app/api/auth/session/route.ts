@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, createServiceClient } from '@/lib/supabase';
+import {
+  ACCESS_TOKEN_COOKIE,
+  ACCESS_TOKEN_MAX_AGE,
+  AUTH_COOKIE_OPTIONS,
+  claimSession,
+  getAuthUser,
+  getRequester,
+  upsertUser,
+} from '@/lib/auth';
+
+// GET: The signed-in user, or null
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createServerClient();
+    const { user } = await getRequester(supabase, request.cookies);
+    return NextResponse.json({ user });
+  } catch (error: any) {
+    console.error('[Auth] Failed to read session:', error);
+    return NextResponse.json(
+      { error: 'Failed to read session', details: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Sign the browser in with a Supabase Auth access token ({ access_token })
+// Sent after every sign-in and token refresh. Claims the browser's anonymous session and its chats.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const accessToken = body.access_token;
+
+    if (typeof accessToken !== 'string' || !accessToken) {
+      return NextResponse.json(
+        { error: 'access_token is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerClient();
+    const user = await getAuthUser(supabase, accessToken);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid or expired access token' },
+        { status: 401 }
+      );
+    }
+
+    // Claiming moves rows between owners, which RLS doesn't allow the requester to do
+    const service = createServiceClient();
+    await upsertUser(service, user);
+
+    const { sessionId } = await getRequester(supabase, request.cookies);
+    const claimedChats = sessionId ? await claimSession(service, sessionId, user.id) : 0;
+
+    const response = NextResponse.json({ user, claimedChats });
+    response.cookies.set(ACCESS_TOKEN_COOKIE, accessToken, { ...AUTH_COOKIE_OPTIONS, maxAge: ACCESS_TOKEN_MAX_AGE });
+    return response;
+  } catch (error: any) {
+    console.error('[Auth] Failed to sign in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in', details: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Sign the browser out - its anonymous session stays, the account's chats are no longer visible
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete({ name: ACCESS_TOKEN_COOKIE, path: '/' });
+  return response;
+}
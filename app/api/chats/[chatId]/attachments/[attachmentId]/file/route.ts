@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { getAttachment, readAttachmentFile } from '@/lib/attachments';
+import { BlobStorageError } from '@/lib/blob-storage';
+
+// GET: Download the original uploaded file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; attachmentId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId, attachmentId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const attachment = await getAttachment(supabase, chatId, attachmentId);
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    const file = await readAttachmentFile(attachment);
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        'Content-Type': attachment.mime_type || 'application/octet-stream',
+        'Content-Length': String(file.length),
+        // inline so PDFs, text and HTML open in the browser; other formats download
+        'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`,
+        'X-Content-Type-Options': 'nosniff',
+        // Uploaded HTML must not run scripts on this origin
+        'Content-Security-Policy': 'sandbox',
+      },
+    });
+  } catch (error) {
+    console.error('Unexpected error in attachment file API:', error);
+    if (error instanceof BlobStorageError && error.status === 404) {
+      return NextResponse.json(
+        { error: 'Stored file not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to load attachment file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { getAttachment, readAttachmentFile, toAttachmentSummary } from '@/lib/attachments';
+import { indexAttachment } from '@/lib/document-retrieval';
+import { BlobStorageError } from '@/lib/blob-storage';
+import { DocumentExtractionError, ExtractedDocument, extractDocumentText } from '@/lib/document-extractors';
+import { getDocumentFormatLabel } from '@/lib/document-formats';
+import { extractDocumentICP, toAttachmentExtraction } from '@/lib/document-processing';
+
+// POST: Run text and ICP extraction again on a stored document
+// (e.g. after the extractors or the extraction model improved)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; attachmentId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId, attachmentId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const attachment = await getAttachment(supabase, chatId, attachmentId);
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    let document: ExtractedDocument;
+    try {
+      const buffer = await readAttachmentFile(attachment);
+      document = await extractDocumentText(buffer, attachment.format);
+    } catch (error: any) {
+      console.error('[Attachment Re-extract] Error during text extraction:', error);
+      if (error instanceof DocumentExtractionError) {
+        return NextResponse.json(
+          {
+            error: `Failed to parse ${getDocumentFormatLabel(attachment.format)} file`,
+            message: error.message,
+            details: error.code,
+          },
+          { status: error.status }
+        );
+      }
+      if (error instanceof BlobStorageError && error.status === 404) {
+        return NextResponse.json(
+          { error: 'Stored file not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    const result = await extractDocumentICP(supabase, chatId, document, attachment.file_name);
+
+    const { data: updated, error } = await supabase
+      .from('attachments')
+      .update({
+        extracted_text: document.text,
+        pages: document.pages,
+        page_count: document.pageCount,
+        extraction: toAttachmentExtraction(result),
+        ocr: document.ocr,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', attachment.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('[Attachment Re-extract] Error updating attachment:', error);
+      return NextResponse.json(
+        { error: 'Failed to update attachment' },
+        { status: 500 }
+      );
+    }
+
+    await indexAttachment(supabase, updated).catch(error =>
+      console.error('[Attachment Re-extract] Error indexing attachment:', error)
+    );
+
+    return NextResponse.json({
+      attachment: toAttachmentSummary(updated),
+      summary: result.summary,
+      extractedFields: result.extractedFields,
+      filledSections: result.filledSections,
+      icpData: result.icpData,
+      fieldPages: result.fieldPages,
+      documentConflicts: result.documentConflicts,
+      ocr: document.ocr,
+    });
+  } catch (error) {
+    console.error('Unexpected error in attachment re-extract API:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-extract attachment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { deleteAttachment, getAttachment, toAttachmentSummary } from '@/lib/attachments';
+
+// GET: One uploaded document with its extracted text and extraction results
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; attachmentId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId, attachmentId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const attachment = await getAttachment(supabase, chatId, attachmentId);
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...toAttachmentSummary(attachment),
+      text: attachment.extracted_text,
+      extraction: attachment.extraction,
+      ocr: attachment.ocr,
+    });
+  } catch (error) {
+    console.error('Unexpected error in attachment API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load attachment' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove an uploaded document and its stored file
+// ICP values already taken from it are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; attachmentId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId, attachmentId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const attachment = await getAttachment(supabase, chatId, attachmentId);
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteAttachment(supabase, attachment);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Unexpected error in delete attachment API:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete attachment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { listAttachments, toAttachmentSummary } from '@/lib/attachments';
+
+// GET: List a chat's uploaded documents
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId } = await params;
+
+    if (!chatId) {
+      return NextResponse.json(
+        { error: 'chat_id is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const attachments = await listAttachments(supabase, chatId);
+    return NextResponse.json(attachments.map(toAttachmentSummary));
+  } catch (error) {
+    console.error('Unexpected error in attachments API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load attachments' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { getDocumentTemplate } from '@/lib/document-templates';
+import { DOCUMENT_EXPORT_FORMATS, exportICPDocument } from '@/lib/document-export';
+import { isICPDocument } from '@/lib/icp-document';
+import { DocumentExportFormat } from '@/types/document';
+
+// POST: Export a generated ICP document as Markdown, Word or PDF
+// Exports the document in the body, or the chat's last generated document when there is none
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { chatId } = await params;
+    const body = await request.json();
+    const { format, template: templateId } = body;
+    let document = body.document;
+
+    if (!chatId) {
+      return NextResponse.json(
+        { error: 'chatId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!DOCUMENT_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${DOCUMENT_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { supabase, requester } = await createRequestClient(request.cookies);
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!document) {
+      const { data, error } = await supabase
+        .from('icp_data')
+        .select('generated_document')
+        .eq('chat_id', chatId)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        throw error;
+      }
+      if (!data?.generated_document) {
+        return NextResponse.json(
+          { error: 'No generated document for this chat' },
+          { status: 404 }
+        );
+      }
+      document = data.generated_document;
+    }
+
+    if (!isICPDocument(document)) {
+      return NextResponse.json(
+        { error: 'document must be a generated ICP document' },
+        { status: 400 }
+      );
+    }
+
+    const template = await getDocumentTemplate(templateId);
+    const exported = await exportICPDocument(document, format as DocumentExportFormat, template);
+
+    return new NextResponse(new Uint8Array(exported.body), {
+      headers: {
+        'Content-Type': exported.contentType,
+        'Content-Length': String(exported.body.length),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(exported.fileName)}`,
+      },
+    });
+  } catch (error: any) {
+    console.error('[Document Export] Failed to export document:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export document',
+        details: error.message || 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { evaluateDocumentReadiness } from '@/lib/document-readiness';
+
+// GET: Score how ready the chat's ICP is for document generation, per section, with its gaps
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { chatId } = await params;
+    const { supabase, requester } = await createRequestClient(request.cookies);
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: icpData, error } = await supabase
+      .from('icp_data')
+      .select('*')
+      .eq('chat_id', chatId)
+      .single();
+
+    // No ICP row yet - every field is a gap
+    if (error && error.code !== 'PGRST116') {
+      throw error;
+    }
+
+    return NextResponse.json({ readiness: evaluateDocumentReadiness(icpData) });
+  } catch (error: any) {
+    console.error('[Document Readiness] Failed to check readiness:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to check document readiness',
+        details: error.message || 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { documentToPlainText, isICPDocument } from '@/lib/icp-document';
+
+// GET: The chat's last generated ICP document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('icp_data')
+      .select('generated_document')
+      .eq('chat_id', chatId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('[Document] Failed to load generated document:', error);
+      return NextResponse.json(
+        { error: 'Failed to load document' },
+        { status: 500 }
+      );
+    }
+
+    if (!data?.generated_document) {
+      return NextResponse.json(
+        { error: 'No generated document for this chat' },
+        { status: 404 }
+      );
+    }
+
+    // Documents from an older schema version can't be rendered - generate again
+    if (!isICPDocument(data.generated_document)) {
+      return NextResponse.json(
+        { error: 'Stored document uses an unsupported schema, generate it again' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      model: data.generated_document,
+      document: documentToPlainText(data.generated_document),
+    });
+  } catch (error) {
+    console.error('Unexpected error in document API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import {
+  GENERATED_SECTIONS,
+  applySectionText,
+  documentToPlainText,
+  isDocumentSectionId,
+  isICPDocument,
+  replaceDocumentSection,
+} from '@/lib/icp-document';
+import { ICPDocumentSection } from '@/types/document';
+
+const MAX_SECTION_TEXT_LENGTH = 20000;
+
+// PATCH: Edit a section's text or lock it ({ text?, locked? })
+// Changes that section of the chat's stored document
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; sectionId: string }> }
+) {
+  try {
+    const { chatId, sectionId } = await params;
+    const body = await request.json();
+    const { text, locked } = body;
+
+    if (!isDocumentSectionId(sectionId)) {
+      return NextResponse.json(
+        { error: `section must be one of: ${GENERATED_SECTIONS.map(section => section.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (text === undefined && locked === undefined) {
+      return NextResponse.json(
+        { error: 'text or locked is required' },
+        { status: 400 }
+      );
+    }
+
+    if (text !== undefined && (typeof text !== 'string' || text.length > MAX_SECTION_TEXT_LENGTH)) {
+      return NextResponse.json(
+        { error: `text must be a string of at most ${MAX_SECTION_TEXT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (locked !== undefined && typeof locked !== 'boolean') {
+      return NextResponse.json(
+        { error: 'locked must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const { supabase, requester } = await createRequestClient(request.cookies);
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    // Always the stored document - only the target section changes, so edits made elsewhere are kept
+    const { data, error } = await supabase
+      .from('icp_data')
+      .select('generated_document')
+      .eq('chat_id', chatId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw error;
+    }
+    if (!data?.generated_document) {
+      return NextResponse.json(
+        { error: 'No generated document for this chat' },
+        { status: 404 }
+      );
+    }
+
+    const document = data.generated_document;
+    if (!isICPDocument(document)) {
+      console.error('[Document Sections] Stored document is malformed for chat', chatId);
+      return NextResponse.json(
+        { error: 'Stored document is invalid, generate the whole document again' },
+        { status: 500 }
+      );
+    }
+
+    // A section that wasn't generated can be written by hand
+    const definition = GENERATED_SECTIONS.find(section => section.id === sectionId)!;
+    let section: ICPDocumentSection | undefined = document.sections.find(existing => existing.id === sectionId);
+    if (!section && text === undefined) {
+      return NextResponse.json(
+        { error: 'Section not found in the document' },
+        { status: 404 }
+      );
+    }
+    section = section ?? { id: definition.id, title: definition.title, blocks: [] };
+
+    if (text !== undefined) {
+      section = { ...applySectionText(section, text), editedAt: new Date().toISOString() };
+      if (section.blocks.length === 0) {
+        return NextResponse.json(
+          { error: 'text is empty' },
+          { status: 400 }
+        );
+      }
+    }
+    if (locked !== undefined) {
+      section = { ...section, locked };
+    }
+
+    const model = replaceDocumentSection(document, sectionId, section);
+
+    const { error: updateError } = await supabase
+      .from('icp_data')
+      .update({
+        generated_document: model,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('chat_id', chatId);
+
+    if (updateError) {
+      console.error('[Document Sections] Failed to save section:', updateError);
+      return NextResponse.json(
+        { error: 'Failed to save section' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      model,
+      document: documentToPlainText(model),
+    });
+  } catch (error: any) {
+    console.error('[Document Sections] Failed to update section:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update section',
+        details: error.message || 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { getDocumentVersion } from '@/lib/document-versions';
+
+// GET: One document version with its document and the ICP it was generated from
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; version: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId, version: versionParam } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const version = parseInt(versionParam, 10);
+
+    if (!Number.isInteger(version) || version < 1 || String(version) !== versionParam) {
+      return NextResponse.json(
+        { error: 'version must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const found = await getDocumentVersion(supabase, chatId, version);
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Document version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ version: found });
+  } catch (error) {
+    console.error('[Document Versions] Failed to load version:', error);
+    return NextResponse.json(
+      { error: 'Failed to load document version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { listDocumentVersions } from '@/lib/document-versions';
+
+// GET: List the chat's generated document versions, newest first (without their content)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const versions = await listDocumentVersions(supabase, chatId);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('[Document Versions] Failed to list versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list document versions' },
+      { status: 500 }
+    );
+  }
+}
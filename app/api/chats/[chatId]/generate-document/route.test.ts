@@ -0,0 +1,132 @@
+/**
+ * Document generation with the mock LLM provider
+ *
+ * Sections can be edited or locked through /document/sections while a
+ * generation runs; saving the generated document must not overwrite them.
+ * The concurrent request is made from inside the first LLM call.
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sectionToEditableText } from '@/lib/icp-document';
+import { MockProvider } from '@/lib/llm/mock';
+import { fakeSupabase } from '@/test/fake-supabase';
+import { ICPDocument } from '@/types/document';
+
+vi.mock('@/lib/supabase', async () => (await import('@/test/fake-supabase')).supabaseModule);
+
+import { POST as generateDocument } from './route';
+import { PATCH as updateSection } from '../document/sections/[sectionId]/route';
+
+const SESSION = randomUUID();
+const CHAT = randomUUID();
+
+function request(method: string, body: unknown) {
+  return new NextRequest(`http://localhost/api/chats/${CHAT}`, {
+    method,
+    headers: { cookie: `icp_session_id=${SESSION}`, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// Run a generation to the end and return its final event
+async function generate(body: Record<string, unknown>) {
+  const response = await generateDocument(request('POST', body), { params: Promise.resolve({ chatId: CHAT }) });
+  expect(response.status).toBe(200);
+
+  const events = (await response.text())
+    .split('\n\n')
+    .filter(event => event.startsWith('data: '))
+    .map(event => JSON.parse(event.slice('data: '.length)));
+  return events[events.length - 1];
+}
+
+function editSection(sectionId: string, changes: { text?: string; locked?: boolean }) {
+  return updateSection(request('PATCH', changes), { params: Promise.resolve({ chatId: CHAT, sectionId }) });
+}
+
+function storedDocument(): ICPDocument {
+  return fakeSupabase.tables.icp_data[0].generated_document;
+}
+
+function storedSection(sectionId: string) {
+  return storedDocument().sections.find(section => section.id === sectionId)!;
+}
+
+// Make a request while the generation is waiting on its first LLM call
+function duringGeneration(change: () => Promise<unknown>) {
+  const complete = MockProvider.prototype.complete;
+  let changed = false;
+  vi.spyOn(MockProvider.prototype, 'complete').mockImplementation(async function (this: MockProvider, options) {
+    if (!changed) {
+      changed = true;
+      await change();
+    }
+    return complete.call(this, options);
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+beforeEach(async () => {
+  vi.stubEnv('LLM_PROVIDER', 'mock');
+  vi.stubEnv('LLM_MOCK_SCENARIO', 'default');
+  fakeSupabase.reset({
+    chats: [{ id: CHAT, session_id: SESSION, user_id: null }],
+    messages: [],
+    icp_data: [{
+      id: randomUUID(),
+      chat_id: CHAT,
+      company_name: 'Northwind Analytics',
+      industry: 'B2B SaaS - revenue analytics',
+      product_description: 'Revenue forecasting software',
+      generated_document: null,
+    }],
+  });
+
+  // A first generation to regenerate over
+  expect((await generate({ force: true })).done).toBe(true);
+});
+
+describe('POST /api/chats/[chatId]/generate-document', () => {
+  it('keeps a section locked and edited while a full generation ran', async () => {
+    duringGeneration(async () => {
+      await editSection('pain_points', { text: 'Forecasts are built in spreadsheets.' });
+      await editSection('pain_points', { locked: true });
+    });
+
+    expect((await generate({ force: true })).done).toBe(true);
+
+    expect(storedSection('pain_points')).toMatchObject({ locked: true });
+    expect(sectionToEditableText(storedSection('pain_points'))).toBe('Forecasts are built in spreadsheets.');
+  });
+
+  it('keeps edits to other sections made while a section was regenerated', async () => {
+    duringGeneration(async () => {
+      await editSection('introduction', { text: 'Written by hand.' });
+      await editSection('pain_points', { locked: true });
+    });
+
+    expect((await generate({ section: 'value_proposition' })).done).toBe(true);
+
+    expect(sectionToEditableText(storedSection('introduction'))).toBe('Written by hand.');
+    expect(storedSection('pain_points')).toMatchObject({ locked: true });
+  });
+
+  it("doesn't save a regenerated section that was locked meanwhile", async () => {
+    duringGeneration(async () => {
+      await editSection('value_proposition', { text: 'Keep this wording.' });
+      await editSection('value_proposition', { locked: true });
+    });
+
+    const result = await generate({ section: 'value_proposition' });
+
+    expect(result.error).toBe('Section was locked while it was being regenerated');
+    expect(storedSection('value_proposition')).toMatchObject({ locked: true });
+    expect(sectionToEditableText(storedSection('value_proposition'))).toBe('Keep this wording.');
+  });
+});
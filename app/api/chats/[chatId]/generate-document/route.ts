@@ -1,12 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { getLLMProvider, LLMProvider } from '@/lib/llm';
+import {
+  GENERATED_SECTIONS,
+  ICPDocumentContent,
+  alignCitations,
+  buildCitations,
+  buildGeneratedSection,
+  buildICPDocument,
+  documentToPlainText,
+  emptyDocumentContent,
+  isDocumentSectionId,
+  isICPDocument,
+  replaceDocumentSection,
+} from '@/lib/icp-document';
+import {
+  DOCUMENT_PROMPT_VERSION,
+  MAX_GUIDANCE_LENGTH,
+  generateDocumentSections,
+  hasDocumentContent,
+  mergeDocumentContent,
+} from '@/lib/icp-document-generation';
+import { saveDocumentVersion } from '@/lib/document-versions';
+import { evaluateDocumentReadiness } from '@/lib/document-readiness';
+import { ICPDocument, ICPDocumentVersionSummary } from '@/types/document';
 
+// POST: Generate the ICP document section by section, streamed as Server-Sent Events
+// With { section, guidance? } only that section is regenerated, into the stored document as it is when saving.
+// Locked sections are never regenerated - a full generation keeps them from the stored document, re-read before
+// saving so sections locked or edited meanwhile (and not generated by this run) aren't overwritten.
+// A full generation from an ICP that isn't ready is refused (409 with the readiness report) unless { force: true }.
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ chatId: string }> }
 ) {
   try {
     const { chatId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const sectionId: string | null = body.section ?? null;
+    const guidance = typeof body.guidance === 'string' ? body.guidance.trim() : '';
 
     if (!chatId) {
       return NextResponse.json(
@@ -15,16 +47,39 @@ export async function POST(
       );
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
+    if (sectionId !== null && !isDocumentSectionId(sectionId)) {
       return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
+        { error: `section must be one of: ${GENERATED_SECTIONS.map(section => section.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (guidance.length > MAX_GUIDANCE_LENGTH) {
+      return NextResponse.json(
+        { error: `guidance must be at most ${MAX_GUIDANCE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    let llm: LLMProvider;
+    try {
+      llm = getLLMProvider('document');
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message || 'LLM provider not configured' },
         { status: 500 }
       );
     }
 
-    const supabase = createServerClient();
-    
+    const { supabase, requester } = await createRequestClient(request.cookies);
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
     // Get ICP data
     const { data: icpData, error: icpError } = await supabase
       .from('icp_data')
@@ -39,137 +94,258 @@ export async function POST(
       );
     }
 
+    if (sectionId === null && body.force !== true) {
+      const readiness = evaluateDocumentReadiness(icpData);
+      if (readiness.verdict === 'not_ready') {
+        return NextResponse.json(
+          { error: readiness.message, readiness },
+          { status: 409 }
+        );
+      }
+    }
+
+    // A single section is regenerated into an existing document
+    let baseDocument: ICPDocument | null = null;
+    if (sectionId !== null) {
+      // Always the stored document - a client's copy could be stale or have dropped a lock
+      baseDocument = icpData.generated_document ?? null;
+      if (!baseDocument) {
+        return NextResponse.json(
+          { error: 'No generated document for this chat' },
+          { status: 404 }
+        );
+      }
+      if (!isICPDocument(baseDocument)) {
+        console.error('[Document Generation] Stored document is malformed for chat', chatId);
+        return NextResponse.json(
+          { error: 'Stored document is invalid, generate the whole document again' },
+          { status: 500 }
+        );
+      }
+      if (baseDocument.sections.some(section => section.id === sectionId && section.locked)) {
+        return NextResponse.json(
+          { error: 'Section is locked, unlock it to regenerate' },
+          { status: 409 }
+        );
+      }
+    }
+
+    // A full generation keeps the stored document's locked sections
+    const storedDocument: ICPDocument | null = isICPDocument(icpData.generated_document) ? icpData.generated_document : null;
+    const lockedSections = sectionId === null && storedDocument
+      ? storedDocument.sections.filter(section => section.locked && isDocumentSectionId(section.id))
+      : [];
+
     // Get conversation history
     const { data: messages } = await supabase
       .from('messages')
-      .select('role, content')
+      .select('id, role, content, created_at')
       .eq('chat_id', chatId)
       .order('created_at', { ascending: true });
 
-    const conversationContext = messages?.map(m => `${m.role}: ${m.content}`).join('\n\n') || '';
-
-    // Generate document with LLM
-    const prompt = `You are creating a professional Ideal Customer Profile (ICP) document.
-
-Use ALL the information provided below to create a comprehensive, well-formatted ICP document.
-
-COLLECTED ICP DATA:
-${JSON.stringify(icpData, null, 2)}
-
-CONVERSATION HISTORY (for additional context):
-${conversationContext.substring(0, 10000)}
-
-Create a professional ICP document with these sections:
-
-1. COMPANY OVERVIEW
-   - Company Name
-   - Industry
-   - Size
-   - Location
-   - Brief Description
-
-2. TARGET CUSTOMER
-   - Customer Type (B2B/B2C)
-   - Firmographics (company size, revenue, industry)
-   - Demographics (decision maker roles, titles)
-   - Psychographics (beliefs, motivations, frustrations)
-
-3. PROBLEMS & PAIN POINTS
-   - Top challenges they face
-   - Specific pain points with impact
-   - Current solutions they use
-   - Quantified pain (costs, time, metrics)
-
-4. BUYING PROCESS
-   - Key decision makers and their roles
-   - Buying stages and typical timeline
-   - Evaluation criteria
-   - Decision-making process
-
-5. BUDGET & DECISION MAKING
-   - Budget range
-   - Budget holder
-   - Approval process
-   - Financial considerations
-
-6. VALUE PROPOSITION & POSITIONING
-   - How solutions should address their pain
-   - Key benefits they seek
-   - Success metrics they care about
-
-IMPORTANT:
-- Use plain text only, NO markdown formatting (no **, ##, ###, *, -)
-- Write in a clear, professional business tone
-- Include all specific details from the data
-- Use section headers with numbers (1. SECTION NAME)
-- Use bullet points with simple dashes (-)
-- If a field is missing, skip it rather than saying "not provided"
-
-Output the complete ICP document now:`;
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert business analyst creating professional ICP documents. Use plain text formatting only.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-      }),
-    });
+    // New sections cite with the stored document's numbering, so sections kept from it stay correct
+    const allCitations = buildCitations(icpData, messages || []);
+    const keptFrom = baseDocument ?? storedDocument;
+    const citations = keptFrom ? alignCitations(allCitations, keptFrom.sources) : allCitations;
+    const context = { icpData, citations, messages: messages || [], guidance: guidance || undefined };
+    const sectionIds = sectionId !== null
+      ? [sectionId]
+      : GENERATED_SECTIONS.map(section => section.id).filter(id => !lockedSections.some(section => section.id === id));
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || 'Failed to generate document');
-    }
+    // Locked sections go back into a newly built document, with the sources they cite
+    const withLockedSections = (document: ICPDocument) => lockedSections.length > 0
+      ? lockedSections.reduce(
+          (current, section) => replaceDocumentSection(current, section.id, section, citations),
+          { ...document, sources: storedDocument!.sources }
+        )
+      : document;
 
-    const data = await response.json();
-    const generatedDocument = data.choices[0]?.message?.content;
+    // The stored document as it is now - sections can be edited or locked while this run generates
+    const readStoredDocument = async (): Promise<ICPDocument | null> => {
+      const { data, error } = await supabase
+        .from('icp_data')
+        .select('generated_document')
+        .eq('chat_id', chatId)
+        .single();
 
-    if (!generatedDocument) {
-      throw new Error('No document generated');
-    }
-
-    // Save generated document to ICP data
-    // Note: generated_document column may not exist in all schemas
-    // If it doesn't exist, we'll just return the document without saving
-    const { error: updateError } = await supabase
-      .from('icp_data')
-      .update({ 
-        generated_document: generatedDocument,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('chat_id', chatId);
-
-    if (updateError) {
-      // If error is about missing column, that's okay - we'll just return the document
-      if (updateError.code === 'PGRST204' || updateError.message?.includes('generated_document')) {
-        console.log('Note: generated_document column not found in schema. Document will be returned but not saved to database.');
-      } else {
-        console.error('Error saving generated document:', updateError);
+      if (error && error.code !== 'PGRST116') {
+        throw error;
       }
-    }
+      return isICPDocument(data?.generated_document) ? data.generated_document : null;
+    };
+
+    // A full generation keeps what changed in the stored document meanwhile: sections locked
+    // since it started, and edits to the sections it didn't generate
+    const withStoredChanges = (document: ICPDocument, stored: ICPDocument | null) => {
+      const kept = (stored?.sections || []).filter(
+        section => isDocumentSectionId(section.id) && (section.locked || !sectionIds.includes(section.id))
+      );
+      if (kept.length === 0) return document;
+
+      const sources = new Map(stored!.sources.map(source => [source.marker, source]));
+      for (const source of document.sources) sources.set(source.marker, source);
+      return kept.reduce(
+        (current, section) => replaceDocumentSection(current, section.id, section),
+        { ...document, sources: Array.from(sources.values()) }
+      );
+    };
+
+    // Aborted when the client cancels - stops the section requests still running
+    const abortController = new AbortController();
+    request.signal?.addEventListener('abort', () => abortController.abort());
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (payload: Record<string, unknown>) => {
+          if (abortController.signal.aborted) return;
+          try {
+            controller.enqueue(
+              new TextEncoder().encode(
+                `data: ${JSON.stringify(payload)}\n\n`
+              )
+            );
+          } catch (enqueueError) {
+            // Controller closed (client disconnected/aborted) - stop generating
+            abortController.abort();
+          }
+        };
+
+        try {
+          // The document so far: the at-a-glance table and sources, or the document being updated
+          send({
+            type: 'start',
+            document: baseDocument ?? withLockedSections(buildICPDocument(icpData, emptyDocumentContent(), citations)),
+            sections: sectionIds,
+          });
+
+          const parts: ICPDocumentContent[] = [];
+          const schemaErrors: string[] = [];
+          await generateDocumentSections(llm, sectionIds, context, (id, result, error) => {
+            if (!result) {
+              send({ type: 'section_error', id, error: error?.message || 'Failed to generate section' });
+              return;
+            }
+            if (result.errors.length > 0) {
+              console.warn(`[Document Generation] Dropped invalid parts of section ${id}:`, result.errors);
+            }
+            parts.push(result.content);
+            schemaErrors.push(...result.errors);
+            send({ type: 'section', id, section: buildGeneratedSection(id, result.content), errors: result.errors });
+          }, abortController.signal);
+
+          // A cancelled generation isn't stored
+          if (abortController.signal.aborted) {
+            console.log('[Document Generation] Client disconnected, generation stopped');
+            try {
+              controller.close();
+            } catch (e) {
+              // Already closed, ignore
+            }
+            return;
+          }
+
+          const content = mergeDocumentContent(parts);
+          if (!hasDocumentContent(content) && lockedSections.length === 0) {
+            send({
+              error: sectionId !== null ? 'Nothing was generated for this section' : 'Generated document has no valid content',
+              schemaErrors,
+            });
+            controller.close();
+            return;
+          }
 
-    return NextResponse.json({
-      success: true,
-      document: generatedDocument,
+          const stored = await readStoredDocument();
+
+          // A regenerated section goes into the document as stored now, keeping changes to the others
+          if (baseDocument && stored?.sections.some(section => section.id === sectionId && section.locked)) {
+            send({ error: 'Section was locked while it was being regenerated', schemaErrors });
+            controller.close();
+            return;
+          }
+
+          const model: ICPDocument = baseDocument
+            ? {
+                ...replaceDocumentSection(stored ?? baseDocument, sectionId!, buildGeneratedSection(sectionId!, content), citations),
+                generatedAt: new Date().toISOString(),
+              }
+            : withStoredChanges(withLockedSections(buildICPDocument(icpData, content, citations)), stored);
+
+          // Every generation is kept as a version; icp_data holds the latest
+          let version: ICPDocumentVersionSummary | null = null;
+          try {
+            version = await saveDocumentVersion(supabase, chatId, {
+              document: model,
+              icpData,
+              provider: llm.name,
+              model: llm.model,
+              promptVersion: DOCUMENT_PROMPT_VERSION,
+            });
+          } catch (error) {
+            console.error('[Document Generation] Failed to save document version:', error);
+          }
+
+          const { error: updateError } = await supabase
+            .from('icp_data')
+            .update({
+              generated_document: model,
+              document_generated_at: model.generatedAt,
+              updated_at: new Date().toISOString(),
+            })
+            .eq('chat_id', chatId);
+
+          // The document is still returned - generating it again would cost more LLM calls
+          if (updateError) {
+            console.error('[Document Generation] Failed to save generated document:', updateError);
+          }
+
+          send({
+            done: true,
+            document: documentToPlainText(model),
+            model,
+            version: version?.version ?? null,
+            schemaErrors,
+            citations: citations.map(c => ({
+              marker: c.marker,
+              field: c.field.key,
+              source: c.provenance.source,
+              source_id: c.provenance.source_id,
+              evidence: c.provenance.evidence,
+              confidence: c.provenance.confidence,
+            })),
+          });
+
+          try {
+            controller.close();
+          } catch (e) {
+            // Already closed, ignore
+          }
+        } catch (error: any) {
+          console.error('Error generating document:', error);
+          send({ error: 'Failed to generate document', details: error.message || 'Unknown error' });
+          try {
+            controller.close();
+          } catch (e) {
+            // Already closed, ignore
+          }
+        }
+      },
+      cancel() {
+        abortController.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
     });
 
   } catch (error: any) {
     console.error('Error generating document:', error);
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to generate document',
         details: error.message || 'Unknown error'
       },
@@ -177,4 +353,3 @@ Output the complete ICP document now:`;
     );
   }
 }
-
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { evaluateCompletion } from '@/lib/icp-completion';
+import { saveICPData } from '@/lib/icp-store';
+import { ICPFieldValues, ICPSectionId, ICP_SECTIONS, isICPFieldKey } from '@/types/icp';
+
+// POST: Record that the user confirmed one or more sections, saving the values they confirmed
+// Body: { sections: ICPSectionId[], values?: { [field]: value } }
+// A confirmed section only counts as complete once its required fields pass the completion checks
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { sections, values } = body;
+
+    if (!chatId || !Array.isArray(sections) || sections.length === 0) {
+      return NextResponse.json(
+        { error: 'chat_id and a non-empty sections list are required' },
+        { status: 400 }
+      );
+    }
+
+    const unknownSections = sections.filter(
+      (sectionId: unknown) => !ICP_SECTIONS.some(section => section.id === sectionId)
+    );
+    if (unknownSections.length > 0) {
+      return NextResponse.json(
+        { error: 'Unknown sections', details: unknownSections },
+        { status: 400 }
+      );
+    }
+
+    // Only field values are accepted - completion is decided by the server
+    const fieldValues: ICPFieldValues = {};
+    for (const [key, value] of Object.entries(values || {})) {
+      if (isICPFieldKey(key) && (typeof value === 'string' || value === null)) {
+        fieldValues[key] = value;
+      }
+    }
+
+    const icpData = await saveICPData(supabase, chatId, fieldValues, {
+      source: 'confirmation_card',
+      confirmSections: sections as ICPSectionId[],
+    });
+
+    const completion = evaluateCompletion(icpData);
+
+    console.log('[ICP Confirm] Sections confirmed:', {
+      chatId,
+      sections,
+      status: Object.fromEntries(sections.map((sectionId: ICPSectionId) => [sectionId, completion[sectionId].status])),
+    });
+
+    return NextResponse.json({ icpData, completion });
+  } catch (error) {
+    console.error('Unexpected error in ICP confirm API:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm ICP sections' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * ICP extraction with the mock LLM provider
+ *
+ * Runs the route end to end with LLM_PROVIDER=mock, replaying
+ * fixtures/llm/default/turn_extraction, against the in-memory Supabase - no
+ * network or model account needed. The regex fallback runs only when no
+ * model is configured or reachable.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeSupabase } from '@/test/fake-supabase';
+
+vi.mock('@/lib/supabase', async () => (await import('@/test/fake-supabase')).supabaseModule);
+
+import { POST } from './route';
+
+const SESSION = randomUUID();
+const CHAT = randomUUID();
+const USER_MESSAGE = randomUUID();
+const ASSISTANT_MESSAGE = randomUUID();
+
+function extract(body: unknown = {}) {
+  const request = new NextRequest(`http://localhost/api/chats/${CHAT}/icp/extract`, {
+    method: 'POST',
+    headers: { cookie: `icp_session_id=${SESSION}`, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return POST(request, { params: Promise.resolve({ chatId: CHAT }) });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  vi.stubEnv('LLM_PROVIDER', 'mock');
+  vi.stubEnv('LLM_MOCK_SCENARIO', 'default');
+  fakeSupabase.reset({
+    sessions: [{ session_id: SESSION, user_id: null }],
+    chats: [{ id: CHAT, session_id: SESSION, user_id: null, title: 'Discovery' }],
+    messages: [
+      {
+        id: USER_MESSAGE, chat_id: CHAT, role: 'user', created_at: '2026-01-01T00:00:00.000Z',
+        content: 'I run Northwind Analytics. We build revenue analytics software for B2B SaaS companies.',
+      },
+      {
+        id: ASSISTANT_MESSAGE, chat_id: CHAT, role: 'assistant', created_at: '2026-01-01T00:00:01.000Z',
+        content: 'So far I understand you run a growing B2B software company with a focused team.',
+      },
+    ],
+  });
+});
+
+describe('POST /api/chats/[chatId]/icp/extract with the mock provider', () => {
+  it('applies the fixture diff and records it as an LLM extraction', async () => {
+    const response = await extract({ messageId: ASSISTANT_MESSAGE });
+
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result.usedFallback).toBe(false);
+    expect(result.applied.map((operation: { field: string }) => operation.field)).toEqual([
+      'company_name',
+      'industry',
+      'target_customer_type',
+    ]);
+    expect(result.icpData).toMatchObject({
+      company_name: 'Northwind Analytics',
+      industry: 'B2B SaaS - revenue analytics',
+      target_customer_type: 'B2B',
+    });
+
+    const [icpData] = fakeSupabase.tables.icp_data;
+    expect(icpData).toMatchObject({ chat_id: CHAT, company_name: 'Northwind Analytics' });
+
+    const revisions = fakeSupabase.tables.icp_field_revisions;
+    expect(revisions.map(revision => revision.field).sort()).toEqual(['company_name', 'industry', 'target_customer_type']);
+    for (const revision of revisions) {
+      expect(revision).toMatchObject({ chat_id: CHAT, source: 'llm_extraction', message_id: ASSISTANT_MESSAGE });
+    }
+  });
+});
+
+describe('POST /api/chats/[chatId]/icp/extract when the model fails', () => {
+  let fixturesDir: string;
+
+  beforeAll(async () => {
+    fixturesDir = await mkdtemp(path.join(os.tmpdir(), 'icp-extract-fixtures-'));
+    await mkdir(path.join(fixturesDir, 'malformed', 'turn_extraction'), { recursive: true });
+    await writeFile(path.join(fixturesDir, 'malformed', 'turn_extraction', 'default.txt'), 'Northwind Analytics, B2B');
+    await mkdir(path.join(fixturesDir, 'no-operations', 'turn_extraction'), { recursive: true });
+    await writeFile(path.join(fixturesDir, 'no-operations', 'turn_extraction', 'default.json'), '{"fields": {}}');
+  });
+
+  afterAll(async () => {
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  async function expectRefused(response: Response) {
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ error: 'ICP extraction failed' });
+    expect(fakeSupabase.tables.icp_data ?? []).toEqual([]);
+    expect(fakeSupabase.tables.icp_field_revisions ?? []).toEqual([]);
+  }
+
+  it.each(['malformed', 'no-operations'])('answers 502 and saves nothing for a %s diff', async (scenario) => {
+    vi.stubEnv('LLM_MOCK_FIXTURES_DIR', fixturesDir);
+    vi.stubEnv('LLM_MOCK_SCENARIO', scenario);
+
+    await expectRefused(await extract());
+  });
+
+  it('answers 502 and saves nothing when the provider returns an HTTP error', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'local');
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: { message: 'Rate limit reached' } }, { status: 429 })));
+
+    await expectRefused(await extract());
+  });
+
+  it.each([
+    ['no provider is configured', () => {
+      vi.stubEnv('LLM_PROVIDER', 'openai');
+      vi.stubEnv('OPENAI_API_KEY', '');
+    }],
+    ['the provider is unreachable', () => {
+      vi.stubEnv('LLM_PROVIDER', 'local');
+      vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed'); }));
+    }],
+  ])('falls back to the regex analyzer when %s', async (_, setUp) => {
+    setUp();
+
+    const response = await extract();
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).usedFallback).toBe(true);
+    const revisions = fakeSupabase.tables.icp_field_revisions;
+    expect(revisions.length).toBeGreaterThan(0);
+    for (const revision of revisions) {
+      expect(revision.source).toBe('regex_analyzer');
+    }
+  });
+});
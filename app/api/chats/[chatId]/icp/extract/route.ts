@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient, isUUID } from '@/lib/auth';
+import { getLLMProvider, LLMUnavailableError } from '@/lib/llm';
+import {
+  ExtractionTurn,
+  applyOperations,
+  regexFallbackOperations,
+  requestICPDiff,
+  validateOperations,
+} from '@/lib/icp-extraction';
+import { ICPFieldDetail, saveICPData } from '@/lib/icp-store';
+import { ICPData, ICPFieldKey, ICPRevisionSource } from '@/types/icp';
+
+// Latest exchange plus one earlier exchange for context
+const EXTRACTION_WINDOW = 4;
+
+// POST: Extract ICP changes from a user/assistant exchange and merge them
+// Body: { messageId? } - the assistant message that closed the exchange; the window ends there
+// (defaults to the latest message). 404 if the message isn't in this chat
+// 502 without any change when the LLM fails or returns an unusable diff; the regex analyzer is
+// only used when no LLM is configured or reachable
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { messageId } = body;
+
+    // The exchange ends at the given message, so a late call still reads its own turns
+    let anchor: { id: string; created_at: string } | null = null;
+    if (messageId !== undefined && messageId !== null) {
+      const { data: message, error: messageError } = isUUID(messageId)
+        ? await supabase
+            .from('messages')
+            .select('id, created_at')
+            .eq('id', messageId)
+            .eq('chat_id', chatId)
+            .single()
+        : { data: null, error: null };
+
+      if (messageError && messageError.code !== 'PGRST116') {
+        console.error('Error fetching message for ICP extraction:', messageError);
+        return NextResponse.json(
+          { error: 'Failed to fetch message' },
+          { status: 500 }
+        );
+      }
+
+      if (!message) {
+        return NextResponse.json(
+          { error: 'Message not found' },
+          { status: 404 }
+        );
+      }
+      anchor = message;
+    }
+
+    // Get the turns up to the anchor (or the most recent ones), oldest first
+    let messagesQuery = supabase
+      .from('messages')
+      .select('id, role, content, created_at')
+      .eq('chat_id', chatId);
+
+    if (anchor) {
+      messagesQuery = messagesQuery.lte('created_at', anchor.created_at);
+    }
+
+    const { data: recentMessages, error: messagesError } = await messagesQuery
+      .order('created_at', { ascending: false })
+      .limit(EXTRACTION_WINDOW);
+
+    if (messagesError) {
+      console.error('Error fetching messages for ICP extraction:', messagesError);
+      return NextResponse.json(
+        { error: 'Failed to fetch messages' },
+        { status: 500 }
+      );
+    }
+
+    const turns: ExtractionTurn[] = (recentMessages || []).reverse();
+    if (turns.length === 0) {
+      return NextResponse.json(
+        { error: 'No messages to extract from' },
+        { status: 400 }
+      );
+    }
+
+    const { data: currentICP } = await supabase
+      .from('icp_data')
+      .select('*')
+      .eq('chat_id', chatId)
+      .single();
+
+    const current: ICPData | null = currentICP || null;
+
+    // Ask the LLM for a diff; the regex analyzer stands in only when no LLM is configured or reachable
+    let rawOperations: unknown[];
+    let source: ICPRevisionSource = 'llm_extraction';
+    try {
+      const llm = getLLMProvider('turn_extraction');
+      rawOperations = await requestICPDiff(llm, current, turns);
+    } catch (error: any) {
+      if (!(error instanceof LLMUnavailableError)) {
+        // The model answered with an error or an unusable diff - leave the ICP as it is
+        console.error('[ICP Extraction] LLM extraction failed:', error.message);
+        return NextResponse.json(
+          { error: 'ICP extraction failed', details: error.message },
+          { status: 502 }
+        );
+      }
+      console.warn('[ICP Extraction] No LLM available, using regex fallback:', error.message);
+      rawOperations = regexFallbackOperations(current, turns);
+      source = 'regex_analyzer';
+    }
+
+    const { valid, rejected } = validateOperations(rawOperations, current);
+    if (rejected.length > 0) {
+      console.log('[ICP Extraction] Rejected operations:', rejected);
+    }
+
+    const updates = applyOperations(current, valid);
+
+    const latestUser = [...turns].reverse().find(turn => turn.role === 'user');
+    const latestAssistant = [...turns].reverse().find(turn => turn.role === 'assistant');
+
+    const fieldDetails: Partial<Record<ICPFieldKey, ICPFieldDetail>> = {};
+    for (const operation of valid) {
+      fieldDetails[operation.field] = {
+        evidence: operation.evidence,
+        confidence: operation.confidence,
+        sourceId: (operation.from === 'assistant' ? latestAssistant : latestUser)?.id,
+      };
+    }
+
+    const icpData = await saveICPData(
+      supabase,
+      chatId,
+      updates,
+      {
+        source,
+        messageId: anchor?.id || turns[turns.length - 1].id,
+        fieldDetails,
+        sourceText: turns.slice(-2).map(turn => turn.content).join('\n'),
+      }
+    );
+
+    console.log('[ICP Extraction] Applied operations:', {
+      chatId,
+      source,
+      applied: valid.map(operation => `${operation.op} ${operation.field}`),
+      rejected: rejected.length,
+    });
+
+    return NextResponse.json({
+      icpData,
+      applied: valid,
+      rejected,
+      usedFallback: source === 'regex_analyzer',
+    });
+  } catch (error) {
+    console.error('Unexpected error in ICP extraction API:', error);
+    return NextResponse.json(
+      { error: 'Failed to extract ICP data' },
+      { status: 500 }
+    );
+  }
+}
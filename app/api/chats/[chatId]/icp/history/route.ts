@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { isICPFieldKey } from '@/types/icp';
+
+// GET: List ICP field revisions for a chat, newest first
+// Optional query params: field (limit to one field) and limit (default 50)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { supabase, requester } = await createRequestClient(request.cookies);
+    const { chatId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const field = request.nextUrl.searchParams.get('field');
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50, 500);
+
+    if (!chatId) {
+      return NextResponse.json(
+        { error: 'chat_id is required' },
+        { status: 400 }
+      );
+    }
+
+    if (field && !isICPFieldKey(field)) {
+      return NextResponse.json(
+        { error: `Unknown ICP field: ${field}` },
+        { status: 400 }
+      );
+    }
+
+    let query = supabase
+      .from('icp_field_revisions')
+      .select('*')
+      .eq('chat_id', chatId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (field) {
+      query = query.eq('field', field);
+    }
+
+    const { data: revisions, error } = await query;
+
+    if (error) {
+      console.error('Error fetching ICP history:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch ICP history' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(revisions || []);
+  } catch (error) {
+    console.error('Unexpected error in ICP history API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient, isUUID } from '@/lib/auth';
+import { rollbackICPField } from '@/lib/icp-store';
+
+// POST: Undo a field revision, restoring the value the field had before it
+// Body: { revisionId }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { chatId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { revisionId } = body;
+
+    if (!chatId || !isUUID(revisionId)) {
+      return NextResponse.json(
+        { error: 'chat_id and revisionId are required' },
+        { status: 400 }
+      );
+    }
+
+    const { supabase, requester } = await createRequestClient(request.cookies);
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await rollbackICPField(supabase, chatId, revisionId);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log('[ICP Rollback] Restored field:', {
+      chatId,
+      revisionId,
+      field: result.field,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Unexpected error in ICP rollback API:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back ICP field' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Manual ICP edits and rollbacks - request validation
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeSupabase } from '@/test/fake-supabase';
+
+vi.mock('@/lib/supabase', async () => (await import('@/test/fake-supabase')).supabaseModule);
+
+import { PATCH } from './route';
+import { POST as rollback } from './rollback/route';
+
+const SESSION = randomUUID();
+const CHAT = randomUUID();
+const OTHER_CHAT = randomUUID();
+const MESSAGE = randomUUID();
+const OTHER_CHAT_MESSAGE = randomUUID();
+
+function request(url: string, method: string, body: string) {
+  return new NextRequest(`http://localhost${url}`, {
+    method,
+    headers: { cookie: `icp_session_id=${SESSION}`, 'content-type': 'application/json' },
+    body,
+  });
+}
+
+const params = { params: Promise.resolve({ chatId: CHAT }) };
+
+beforeEach(() => {
+  fakeSupabase.reset({
+    chats: [
+      { id: CHAT, session_id: SESSION, user_id: null },
+      // The requester's own, but a different chat
+      { id: OTHER_CHAT, session_id: SESSION, user_id: null },
+    ],
+    messages: [
+      { id: MESSAGE, chat_id: CHAT, role: 'user', content: 'We are Acme' },
+      { id: OTHER_CHAT_MESSAGE, chat_id: OTHER_CHAT, role: 'user', content: 'We are Globex' },
+    ],
+    icp_data: [{ id: randomUUID(), chat_id: CHAT, company_name: 'Acme' }],
+  });
+});
+
+describe('PATCH /api/chats/[chatId]/icp', () => {
+  it('records the edit against a message of the chat', async () => {
+    const response = await PATCH(
+      request(`/api/chats/${CHAT}/icp?messageId=${MESSAGE}`, 'PATCH', JSON.stringify({ company_name: 'Acme Corp' })),
+      params
+    );
+
+    expect(response.status).toBe(200);
+    expect(fakeSupabase.tables.icp_field_revisions).toEqual([
+      expect.objectContaining({ field: 'company_name', source: 'user_edit', message_id: MESSAGE }),
+    ]);
+  });
+
+  it.each([
+    ['a message of another chat', OTHER_CHAT_MESSAGE],
+    ['an unknown message', randomUUID()],
+    ['a malformed message id', 'not-a-uuid'],
+  ])('answers 404 for %s and changes nothing', async (_, messageId) => {
+    const before = structuredClone(fakeSupabase.tables);
+
+    const response = await PATCH(
+      request(`/api/chats/${CHAT}/icp?messageId=${messageId}`, 'PATCH', JSON.stringify({ company_name: 'Globex' })),
+      params
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Message not found' });
+    expect(fakeSupabase.tables).toEqual(before);
+  });
+});
+
+describe('POST /api/chats/[chatId]/icp/rollback', () => {
+  it.each([
+    ['a malformed body', '{"revisionId":'],
+    ['a missing revisionId', '{}'],
+    ['a malformed revisionId', JSON.stringify({ revisionId: 'not-a-uuid' })],
+  ])('answers 400 for %s without querying the chat', async (_, body) => {
+    const from = vi.spyOn(fakeSupabase.client, 'from');
+
+    const response = await rollback(request(`/api/chats/${CHAT}/icp/rollback`, 'POST', body), params);
+
+    expect(response.status).toBe(400);
+    expect(from).not.toHaveBeenCalled();
+    from.mockRestore();
+  });
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase';
-import { ICPData } from '@/types/icp';
+import { authorizeChat, createRequestClient, isUUID } from '@/lib/auth';
+import { saveICPData } from '@/lib/icp-store';
+import { ICPData, ICPFieldValues, getCompletionStatus, isICPFieldKey } from '@/types/icp';
 
 // GET: Get ICP data for a chat
 export async function GET(
@@ -8,7 +9,7 @@ export async function GET(
   { params }: { params: Promise<{ chatId: string }> }
 ) {
   try {
-    const supabase = createServerClient();
+    const { supabase, requester } = await createRequestClient(request.cookies);
     const { chatId } = await params;
 
     if (!chatId) {
@@ -18,6 +19,13 @@ export async function GET(
       );
     }
 
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
     // Get ICP data for this chat
     const { data: icpData, error } = await supabase
       .from('icp_data')
@@ -51,88 +59,88 @@ async function updateICPData(
   { params }: { params: Promise<{ chatId: string }> }
 ) {
   try {
-    const supabase = createServerClient();
+    const { supabase, requester } = await createRequestClient(request.cookies);
     const { chatId } = await params;
-    const body = await request.json();
-    const updates: Partial<ICPData> = body;
 
-    if (!chatId) {
+    if (!(await authorizeChat(supabase, requester, chatId))) {
       return NextResponse.json(
-        { error: 'chat_id is required' },
-        { status: 400 }
+        { error: 'Chat not found' },
+        { status: 404 }
       );
     }
 
-    // Verify chat exists
-    const { data: chat, error: chatError } = await supabase
-      .from('chats')
-      .select('id')
-      .eq('id', chatId)
-      .single();
-
-    if (chatError || !chat) {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
       return NextResponse.json(
-        { error: 'Chat not found' },
-        { status: 404 }
+        { error: 'Body must be an object of ICP fields' },
+        { status: 400 }
       );
     }
 
-    // Check if ICP data exists
-    const { data: existingData } = await supabase
-      .from('icp_data')
-      .select('id')
-      .eq('chat_id', chatId)
-      .single();
+    // Only ICP fields can be edited here - completion flags, confirmations and provenance are the server's
+    const invalidKeys = Object.keys(body).filter(key => !isICPFieldKey(key));
+    if (invalidKeys.length > 0) {
+      return NextResponse.json(
+        { error: 'Unknown or read-only ICP fields', details: invalidKeys },
+        { status: 400 }
+      );
+    }
 
-    let result;
-    if (existingData) {
-      // Update existing ICP data
-      const { data, error } = await supabase
-        .from('icp_data')
-        .update(updates)
-        .eq('chat_id', chatId)
-        .select('*')
-        .single();
-
-      if (error) {
-        console.error('Error updating ICP data:', error);
+    const invalidValues = Object.keys(body).filter(key => body[key] !== null && typeof body[key] !== 'string');
+    if (invalidValues.length > 0) {
+      return NextResponse.json(
+        { error: 'ICP field values must be strings or null', details: invalidValues },
+        { status: 400 }
+      );
+    }
+    const updates: ICPFieldValues = body;
+
+    // Recorded as a manual edit - other sources are only written by the server
+    const messageId = request.nextUrl.searchParams.get('messageId');
+
+    // The revision points at the message, so it has to be one of this chat's
+    if (messageId !== null) {
+      const { data: message, error: messageError } = isUUID(messageId)
+        ? await supabase
+            .from('messages')
+            .select('id')
+            .eq('id', messageId)
+            .eq('chat_id', chatId)
+            .single()
+        : { data: null, error: null };
+
+      if (messageError && messageError.code !== 'PGRST116') {
+        console.error('Error fetching message for ICP update:', messageError);
         return NextResponse.json(
-          { error: 'Failed to update ICP data' },
+          { error: 'Failed to fetch message' },
           { status: 500 }
         );
       }
-      result = data;
-    } else {
-      // Create new ICP data
-      const { data, error } = await supabase
-        .from('icp_data')
-        .insert({
-          chat_id: chatId,
-          ...updates,
-        })
-        .select('*')
-        .single();
-
-      if (error) {
-        console.error('Error creating ICP data:', error);
+
+      if (!message) {
         return NextResponse.json(
-          { error: 'Failed to create ICP data' },
-          { status: 500 }
+          { error: 'Message not found' },
+          { status: 404 }
         );
       }
-      result = data;
+    }
+
+    // Save and record a revision for every changed field
+    let result: ICPData;
+    try {
+      result = await saveICPData(supabase, chatId, updates, { source: 'user_edit', messageId });
+    } catch (error) {
+      console.error('Error saving ICP data:', error);
+      return NextResponse.json(
+        { error: 'Failed to update ICP data' },
+        { status: 500 }
+      );
     }
 
     console.log('[ICP Update] Successfully updated ICP data:', {
       chatId,
       fieldsUpdated: Object.keys(updates),
-      completionStatus: {
-        company_basics: result.company_basics_complete,
-        target_customer: result.target_customer_complete,
-        problem_pain: result.problem_pain_complete,
-        buying_process: result.buying_process_complete,
-        budget_decision: result.budget_decision_complete,
-      }
+      completionStatus: getCompletionStatus(result),
     });
 
     return NextResponse.json(result);
@@ -145,7 +153,9 @@ async function updateICPData(
   }
 }
 
-// PATCH: Update ICP data for a chat
+// PATCH: Update ICP fields for a chat, recorded as manual edits (source user_edit)
+// Optional query param: messageId (message of this chat that triggered the change; 404 otherwise)
+// Only ICP field keys are accepted - completion flags are recomputed by the server (see /icp/confirm for sign-off)
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ chatId: string }> }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { linkAttachmentsToMessage, listAttachments, toAttachmentSummary } from '@/lib/attachments';
 
 // GET: Get all messages for a chat
 export async function GET(
@@ -7,7 +8,7 @@ export async function GET(
   { params }: { params: Promise<{ chatId: string }> }
 ) {
   try {
-    const supabase = createServerClient();
+    const { supabase, requester } = await createRequestClient(request.cookies);
     const { chatId } = await params;
 
     if (!chatId) {
@@ -17,15 +18,7 @@ export async function GET(
       );
     }
 
-    // Verify chat exists
-    const { data: chat, error: chatError } = await supabase
-      .from('chats')
-      .select('id')
-      .eq('id', chatId)
-      .single();
-
-    if (chatError || !chat) {
-      console.error('Chat not found:', chatError);
+    if (!(await authorizeChat(supabase, requester, chatId))) {
       return NextResponse.json(
         { error: 'Chat not found' },
         { status: 404 }
@@ -47,12 +40,16 @@ export async function GET(
       );
     }
 
+    // Documents sent with each message
+    const attachments = (await listAttachments(supabase, chatId)).map(toAttachmentSummary);
+
     // Convert to display format (return timestamps as ISO strings)
     const formattedMessages = (messages || []).map((msg) => ({
       id: msg.id,
       role: msg.role,
       content: msg.content,
       timestamp: msg.created_at, // Return as ISO string, will be converted to Date on client
+      attachments: attachments.filter(attachment => attachment.messageId === msg.id),
     }));
 
     return NextResponse.json(formattedMessages);
@@ -66,15 +63,24 @@ export async function GET(
 }
 
 // POST: Create a new message
+// Body: { role, content, attachmentIds? } - attachmentIds links documents uploaded for this message
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ chatId: string }> }
 ) {
   try {
-    const supabase = createServerClient();
+    const { supabase, requester } = await createRequestClient(request.cookies);
     const { chatId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
     const body = await request.json();
-    const { role, content } = body;
+    const { role, content, attachmentIds } = body;
 
     if (!role || !content) {
       return NextResponse.json(
@@ -102,24 +108,6 @@ export async function POST(
       );
     }
 
-    // Verify chat exists
-    const { data: chat, error: chatError } = await supabase
-      .from('chats')
-      .select('id')
-      .eq('id', chatId)
-      .single();
-
-    if (chatError || !chat) {
-      console.error('Chat not found:', chatError);
-      return NextResponse.json(
-        { 
-          error: 'Chat not found',
-          details: chatError?.message || 'Chat does not exist',
-        },
-        { status: 404 }
-      );
-    }
-
     // Create message
     const { data: message, error } = await supabase
       .from('messages')
@@ -143,6 +131,20 @@ export async function POST(
       );
     }
 
+    if (Array.isArray(attachmentIds) && attachmentIds.length > 0) {
+      try {
+        await linkAttachmentsToMessage(
+          supabase,
+          chatId,
+          message.id,
+          attachmentIds.filter((id: unknown) => typeof id === 'string')
+        );
+      } catch (error) {
+        // The message is saved; an unlinked document just isn't shown in the chat's context
+        console.error('Error linking attachments:', error);
+      }
+    }
+
     return NextResponse.json({
       id: message.id,
       role: message.role,
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { getBlobStorage } from '@/lib/blob-storage';
+import { listAttachments } from '@/lib/attachments';
 
 // DELETE: Delete a chat
 export async function DELETE(
@@ -7,7 +9,7 @@ export async function DELETE(
   { params }: { params: Promise<{ chatId: string }> }
 ) {
   try {
-    const supabase = createServerClient();
+    const { supabase, requester } = await createRequestClient(request.cookies);
     const { chatId } = await params;
 
     if (!chatId) {
@@ -17,7 +19,25 @@ export async function DELETE(
       );
     }
 
-    // Delete chat (messages will be cascade deleted)
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    // Stored files aren't covered by the cascade - remove them first (best effort)
+    try {
+      const attachments = await listAttachments(supabase, chatId);
+      if (attachments.length > 0) {
+        const storage = getBlobStorage();
+        await Promise.all(attachments.map(attachment => storage.delete(attachment.storage_key)));
+      }
+    } catch (error) {
+      console.error('Error deleting chat attachment files:', error);
+    }
+
+    // Delete chat (messages and attachment rows will be cascade deleted)
     const { error } = await supabase
       .from('chats')
       .delete()
@@ -47,8 +67,16 @@ export async function PATCH(
   { params }: { params: Promise<{ chatId: string }> }
 ) {
   try {
-    const supabase = createServerClient();
+    const { supabase, requester } = await createRequestClient(request.cookies);
     const { chatId } = await params;
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
     const body = await request.json();
     const { title } = body;
 
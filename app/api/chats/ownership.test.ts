@@ -0,0 +1,227 @@
+/**
+ * Chat ownership across the /api/chats routes
+ *
+ * Every handler runs against an in-memory Supabase that applies no RLS, so
+ * these tests show the routes' own checks (authorizeChat) keep one session or
+ * account out of another's chats. Each denied request must answer 404 and
+ * leave the data untouched.
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ICP_SECTIONS } from '@/types/icp';
+import { fakeSupabase as fake } from '@/test/fake-supabase';
+
+// No RLS behind any of these clients - only the routes' checks stand between requesters
+vi.mock('@/lib/supabase', async () => (await import('@/test/fake-supabase')).supabaseModule);
+
+import * as chatsRoute from './route';
+import * as chatRoute from './[chatId]/route';
+import * as messagesRoute from './[chatId]/messages/route';
+import * as attachmentsRoute from './[chatId]/attachments/route';
+import * as attachmentRoute from './[chatId]/attachments/[attachmentId]/route';
+import * as attachmentFileRoute from './[chatId]/attachments/[attachmentId]/file/route';
+import * as attachmentReextractRoute from './[chatId]/attachments/[attachmentId]/reextract/route';
+import * as icpRoute from './[chatId]/icp/route';
+import * as icpHistoryRoute from './[chatId]/icp/history/route';
+import * as icpExtractRoute from './[chatId]/icp/extract/route';
+import * as icpConfirmRoute from './[chatId]/icp/confirm/route';
+import * as icpRollbackRoute from './[chatId]/icp/rollback/route';
+import * as generateDocumentRoute from './[chatId]/generate-document/route';
+import * as documentRoute from './[chatId]/document/route';
+import * as documentReadinessRoute from './[chatId]/document/readiness/route';
+import * as documentSectionRoute from './[chatId]/document/sections/[sectionId]/route';
+import * as documentExportRoute from './[chatId]/document/export/route';
+import * as documentVersionsRoute from './[chatId]/document/versions/route';
+import * as documentVersionRoute from './[chatId]/document/versions/[version]/route';
+
+const SESSION_A = randomUUID();
+const SESSION_B = randomUUID();
+const USER_A = { id: randomUUID(), email: 'a@example.com', token: 'token-a' };
+const USER_B = { id: randomUUID(), email: 'b@example.com', token: 'token-b' };
+
+// Started anonymously in session A
+const ANONYMOUS_CHAT = randomUUID();
+// Started in session A and claimed by user A
+const CLAIMED_CHAT = randomUUID();
+const ATTACHMENT_OF = { [ANONYMOUS_CHAT]: randomUUID(), [CLAIMED_CHAT]: randomUUID() };
+const REVISION_OF = { [ANONYMOUS_CHAT]: randomUUID(), [CLAIMED_CHAT]: randomUUID() };
+
+const NOW = '2026-01-01T00:00:00.000Z';
+
+function seedChat(chatId: string, userId: string | null) {
+  return {
+    chat: { id: chatId, session_id: SESSION_A, user_id: userId, title: 'Private chat', created_at: NOW, updated_at: NOW },
+    message: { id: randomUUID(), chat_id: chatId, role: 'user', content: 'Our pricing is confidential', created_at: NOW },
+    icpData: { id: randomUUID(), chat_id: chatId, company_name: 'Acme', generated_document: null, created_at: NOW, updated_at: NOW },
+    attachment: {
+      id: ATTACHMENT_OF[chatId], chat_id: chatId, message_id: null, file_name: 'plan.pdf', size_bytes: 10,
+      mime_type: 'application/pdf', format: 'pdf', storage_key: `${chatId}/plan.pdf`, created_at: NOW,
+    },
+    revision: { id: REVISION_OF[chatId], chat_id: chatId, field_key: 'company_name', new_value: 'Acme', created_at: NOW },
+  };
+}
+
+function seed() {
+  const chats = [seedChat(ANONYMOUS_CHAT, null), seedChat(CLAIMED_CHAT, USER_A.id)];
+  return {
+    sessions: [
+      { session_id: SESSION_A, user_id: USER_A.id, created_at: NOW, updated_at: NOW },
+      { session_id: SESSION_B, user_id: null, created_at: NOW, updated_at: NOW },
+    ],
+    chats: chats.map(({ chat }) => chat),
+    messages: chats.map(({ message }) => message),
+    icp_data: chats.map(({ icpData }) => icpData),
+    attachments: chats.map(({ attachment }) => attachment),
+    icp_field_revisions: chats.map(({ revision }) => revision),
+    icp_document_versions: chats.map(({ chat }) => ({
+      id: randomUUID(), chat_id: chat.id, version: 1, document: null, icp_snapshot: {}, created_at: NOW,
+    })),
+  };
+}
+
+interface Requester {
+  session: string;
+  user?: typeof USER_A;
+}
+
+function request(requester: Requester, method: string, body?: unknown): NextRequest {
+  const cookies = [`icp_session_id=${requester.session}`];
+  if (requester.user) {
+    cookies.push(`icp_access_token=${requester.user.token}`);
+  }
+  return new NextRequest('http://localhost/api/chats', {
+    method,
+    headers: { cookie: cookies.join('; '), 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+type Handler = (request: NextRequest, context: { params: Promise<any> }) => Promise<Response>;
+
+interface ChatRouteCase {
+  name: string;
+  handler: Handler;
+  method: string;
+  params?: (chatId: string) => Record<string, string>;
+  // A body the route accepts, so the request gets as far as the ownership check
+  body?: (chatId: string) => unknown;
+}
+
+const CHAT_ROUTES: ChatRouteCase[] = [
+  { name: 'PATCH /api/chats/[chatId]', handler: chatRoute.PATCH, method: 'PATCH', body: () => ({ title: 'Renamed' }) },
+  { name: 'DELETE /api/chats/[chatId]', handler: chatRoute.DELETE, method: 'DELETE' },
+  { name: 'GET messages', handler: messagesRoute.GET, method: 'GET' },
+  { name: 'POST messages', handler: messagesRoute.POST, method: 'POST', body: () => ({ role: 'user', content: 'Hello' }) },
+  { name: 'GET attachments', handler: attachmentsRoute.GET, method: 'GET' },
+  {
+    name: 'GET attachments/[attachmentId]', handler: attachmentRoute.GET, method: 'GET',
+    params: chatId => ({ attachmentId: ATTACHMENT_OF[chatId] }),
+  },
+  {
+    name: 'DELETE attachments/[attachmentId]', handler: attachmentRoute.DELETE, method: 'DELETE',
+    params: chatId => ({ attachmentId: ATTACHMENT_OF[chatId] }),
+  },
+  {
+    name: 'GET attachments/[attachmentId]/file', handler: attachmentFileRoute.GET, method: 'GET',
+    params: chatId => ({ attachmentId: ATTACHMENT_OF[chatId] }),
+  },
+  {
+    name: 'POST attachments/[attachmentId]/reextract', handler: attachmentReextractRoute.POST, method: 'POST',
+    params: chatId => ({ attachmentId: ATTACHMENT_OF[chatId] }),
+  },
+  { name: 'GET icp', handler: icpRoute.GET, method: 'GET' },
+  { name: 'PATCH icp', handler: icpRoute.PATCH, method: 'PATCH', body: () => ({ company_name: 'Globex' }) },
+  { name: 'PUT icp', handler: icpRoute.PUT, method: 'PUT', body: () => ({ company_name: 'Globex' }) },
+  { name: 'GET icp/history', handler: icpHistoryRoute.GET, method: 'GET' },
+  { name: 'POST icp/extract', handler: icpExtractRoute.POST, method: 'POST', body: () => ({}) },
+  { name: 'POST icp/confirm', handler: icpConfirmRoute.POST, method: 'POST', body: () => ({ sections: [ICP_SECTIONS[0].id] }) },
+  { name: 'POST icp/rollback', handler: icpRollbackRoute.POST, method: 'POST', body: chatId => ({ revisionId: REVISION_OF[chatId] }) },
+  { name: 'POST generate-document', handler: generateDocumentRoute.POST, method: 'POST', body: () => ({ force: true }) },
+  { name: 'GET document', handler: documentRoute.GET, method: 'GET' },
+  { name: 'GET document/readiness', handler: documentReadinessRoute.GET, method: 'GET' },
+  {
+    name: 'PATCH document/sections/[sectionId]', handler: documentSectionRoute.PATCH, method: 'PATCH',
+    params: () => ({ sectionId: 'introduction' }), body: () => ({ text: 'Rewritten' }),
+  },
+  { name: 'POST document/export', handler: documentExportRoute.POST, method: 'POST', body: () => ({ format: 'md' }) },
+  { name: 'GET document/versions', handler: documentVersionsRoute.GET, method: 'GET' },
+  {
+    name: 'GET document/versions/[version]', handler: documentVersionRoute.GET, method: 'GET',
+    params: () => ({ version: '1' }),
+  },
+];
+
+// Requesters that must not reach the chat
+const INTRUDERS: { name: string; chatId: string; requester: Requester }[] = [
+  { name: 'another anonymous session', chatId: ANONYMOUS_CHAT, requester: { session: SESSION_B } },
+  { name: 'another account', chatId: CLAIMED_CHAT, requester: { session: SESSION_B, user: USER_B } },
+  { name: 'another account signed in on the same browser', chatId: CLAIMED_CHAT, requester: { session: SESSION_A, user: USER_B } },
+  { name: 'the starting session once an account claimed the chat', chatId: CLAIMED_CHAT, requester: { session: SESSION_A } },
+];
+
+beforeEach(() => {
+  vi.stubEnv('LLM_PROVIDER', 'mock');
+  fake.reset(seed());
+  fake.users.set(USER_A.token, { id: USER_A.id, email: USER_A.email });
+  fake.users.set(USER_B.token, { id: USER_B.id, email: USER_B.email });
+});
+
+describe.each(INTRUDERS)('$name', ({ chatId, requester }) => {
+  it.each(CHAT_ROUTES)('gets a 404 from $name and changes nothing', async ({ handler, method, params, body }) => {
+    const before = structuredClone(fake.tables);
+
+    const response = await handler(request(requester, method, body?.(chatId)), {
+      params: Promise.resolve({ chatId, ...params?.(chatId) }),
+    });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Chat not found' });
+    expect(fake.tables).toEqual(before);
+  });
+});
+
+describe('chat owners', () => {
+  it('read their anonymous chat from their session', async () => {
+    const response = await messagesRoute.GET(request({ session: SESSION_A }, 'GET'), {
+      params: Promise.resolve({ chatId: ANONYMOUS_CHAT }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([
+      expect.objectContaining({ content: 'Our pricing is confidential' }),
+    ]);
+  });
+
+  it('read their claimed chat from any session', async () => {
+    const response = await messagesRoute.GET(request({ session: SESSION_B, user: USER_A }, 'GET'), {
+      params: Promise.resolve({ chatId: CLAIMED_CHAT }),
+    });
+
+    expect(response.status).toBe(200);
+  });
+});
+
+describe('/api/chats', () => {
+  it("doesn't list another session's or account's chats", async () => {
+    const anonymous = await chatsRoute.GET(request({ session: SESSION_B }, 'GET'));
+    const signedIn = await chatsRoute.GET(request({ session: SESSION_B, user: USER_B }, 'GET'));
+
+    expect(await anonymous.json()).toEqual([]);
+    expect(await signedIn.json()).toEqual([]);
+  });
+
+  it('lists the anonymous session its own chats only', async () => {
+    const response = await chatsRoute.GET(request({ session: SESSION_A }, 'GET'));
+
+    expect((await response.json()).map((chat: { id: string }) => chat.id)).toEqual([ANONYMOUS_CHAT]);
+  });
+
+  it("leaves another session's and account's chats when deleting all", async () => {
+    await chatsRoute.DELETE(request({ session: SESSION_B }, 'DELETE'));
+    await chatsRoute.DELETE(request({ session: SESSION_B, user: USER_B }, 'DELETE'));
+
+    expect(fake.tables.chats.map(chat => chat.id)).toEqual([ANONYMOUS_CHAT, CLAIMED_CHAT]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Deleting all of a requester's chats removes their stored documents too
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeSupabase } from '@/test/fake-supabase';
+
+const storage = vi.hoisted(() => ({ deleted: [] as string[] }));
+
+vi.mock('@/lib/supabase', async () => (await import('@/test/fake-supabase')).supabaseModule);
+vi.mock('@/lib/blob-storage', () => ({
+  getBlobStorage: () => ({
+    backend: 'local',
+    delete: async (key: string) => {
+      storage.deleted.push(key);
+    },
+  }),
+}));
+
+import { DELETE } from './route';
+
+const SESSION = randomUUID();
+const OTHER_SESSION = randomUUID();
+const USER = { id: randomUUID(), email: 'a@example.com', token: 'token-a' };
+
+const ANONYMOUS_CHAT = randomUUID();
+const CLAIMED_CHAT = randomUUID();
+const OTHER_CHAT = randomUUID();
+
+function deleteAll(cookies: string) {
+  return DELETE(new NextRequest('http://localhost/api/chats', { method: 'DELETE', headers: { cookie: cookies } }));
+}
+
+beforeEach(() => {
+  storage.deleted = [];
+  fakeSupabase.reset({
+    chats: [
+      { id: ANONYMOUS_CHAT, session_id: SESSION, user_id: null },
+      { id: CLAIMED_CHAT, session_id: SESSION, user_id: USER.id },
+      { id: OTHER_CHAT, session_id: OTHER_SESSION, user_id: null },
+    ],
+    attachments: [
+      { id: randomUUID(), chat_id: ANONYMOUS_CHAT, storage_key: `${ANONYMOUS_CHAT}/brief.pdf` },
+      { id: randomUUID(), chat_id: ANONYMOUS_CHAT, storage_key: `${ANONYMOUS_CHAT}/deck.pptx` },
+      { id: randomUUID(), chat_id: CLAIMED_CHAT, storage_key: `${CLAIMED_CHAT}/plan.docx` },
+      { id: randomUUID(), chat_id: OTHER_CHAT, storage_key: `${OTHER_CHAT}/notes.txt` },
+    ],
+  });
+  fakeSupabase.users.set(USER.token, { id: USER.id, email: USER.email });
+});
+
+describe('DELETE /api/chats', () => {
+  it("deletes the session's chats and their stored files", async () => {
+    const response = await deleteAll(`icp_session_id=${SESSION}`);
+
+    expect(response.status).toBe(200);
+    expect(storage.deleted.sort()).toEqual([`${ANONYMOUS_CHAT}/brief.pdf`, `${ANONYMOUS_CHAT}/deck.pptx`]);
+    expect(fakeSupabase.tables.chats.map(chat => chat.id)).toEqual([CLAIMED_CHAT, OTHER_CHAT]);
+  });
+
+  it("deletes the signed-in user's chats and their stored files", async () => {
+    const response = await deleteAll(`icp_session_id=${SESSION}; icp_access_token=${USER.token}`);
+
+    expect(response.status).toBe(200);
+    expect(storage.deleted).toEqual([`${CLAIMED_CHAT}/plan.docx`]);
+    expect(fakeSupabase.tables.chats.map(chat => chat.id)).toEqual([ANONYMOUS_CHAT, OTHER_CHAT]);
+  });
+});
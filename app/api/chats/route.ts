@@ -1,26 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase';
+import { createRequestClient } from '@/lib/auth';
+import { getBlobStorage } from '@/lib/blob-storage';
 
-// GET: List all chats for a session
+// GET: List the signed-in user's chats, or the anonymous session's
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createServerClient();
-    const searchParams = request.nextUrl.searchParams;
-    const sessionId = searchParams.get('session_id');
+    const { supabase, requester: { sessionId, user } } = await createRequestClient(request.cookies);
 
-    if (!sessionId) {
+    if (!sessionId && !user) {
       return NextResponse.json(
-        { error: 'session_id is required' },
-        { status: 400 }
+        { error: 'No session' },
+        { status: 401 }
       );
     }
 
-    // Get chats for this session, ordered by updated_at DESC
-    const { data: chats, error } = await supabase
+    // Get chats for this user or session, ordered by updated_at DESC
+    const query = supabase
       .from('chats')
       .select('id, title, updated_at')
-      .eq('session_id', sessionId)
       .order('updated_at', { ascending: false });
+    const { data: chats, error } = await (user
+      ? query.eq('user_id', user.id)
+      : query.eq('session_id', sessionId!).is('user_id', null));
 
     if (error) {
       console.error('Error fetching chats:', error);
@@ -60,17 +61,17 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST: Create a new chat
+// POST: Create a new chat in the browser's session, owned by the signed-in user if there is one
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createServerClient();
-    const body = await request.json();
-    const { session_id, title } = body;
+    const { supabase, requester: { sessionId, user } } = await createRequestClient(request.cookies);
+    const body = await request.json().catch(() => ({}));
+    const { title } = body;
 
-    if (!session_id) {
+    if (!sessionId) {
       return NextResponse.json(
-        { error: 'session_id is required' },
-        { status: 400 }
+        { error: 'No session' },
+        { status: 401 }
       );
     }
 
@@ -78,12 +79,12 @@ export async function POST(request: NextRequest) {
     const { data: session } = await supabase
       .from('sessions')
       .select('session_id')
-      .eq('session_id', session_id)
+      .eq('session_id', sessionId)
       .single();
 
     if (!session) {
       return NextResponse.json(
-        { error: 'Invalid session_id' },
+        { error: 'Invalid session' },
         { status: 404 }
       );
     }
@@ -92,7 +93,8 @@ export async function POST(request: NextRequest) {
     const { data: chat, error } = await supabase
       .from('chats')
       .insert({
-        session_id,
+        session_id: sessionId,
+        user_id: user?.id ?? null,
         title: title || 'New Chat',
       })
       .select('id, title, created_at, updated_at')
@@ -120,25 +122,52 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// DELETE: Delete all chats for a session
+// DELETE: Delete all of the signed-in user's chats, or the anonymous session's
 export async function DELETE(request: NextRequest) {
   try {
-    const supabase = createServerClient();
-    const searchParams = request.nextUrl.searchParams;
-    const sessionId = searchParams.get('session_id');
+    const { supabase, requester: { sessionId, user } } = await createRequestClient(request.cookies);
 
-    if (!sessionId) {
+    if (!sessionId && !user) {
       return NextResponse.json(
-        { error: 'session_id is required' },
-        { status: 400 }
+        { error: 'No session' },
+        { status: 401 }
       );
     }
 
-    // Delete all chats for this session (messages will be cascade deleted)
-    const { error } = await supabase
+    // Stored files aren't covered by the cascade - remove them first (best effort)
+    try {
+      const chatsQuery = supabase
+        .from('chats')
+        .select('id');
+      const { data: chats, error: chatsError } = await (user
+        ? chatsQuery.eq('user_id', user.id)
+        : chatsQuery.eq('session_id', sessionId!).is('user_id', null));
+      if (chatsError) throw chatsError;
+
+      const chatIds = (chats || []).map(chat => chat.id);
+      if (chatIds.length > 0) {
+        const { data: attachments, error: attachmentsError } = await supabase
+          .from('attachments')
+          .select('storage_key')
+          .in('chat_id', chatIds);
+        if (attachmentsError) throw attachmentsError;
+
+        if (attachments && attachments.length > 0) {
+          const storage = getBlobStorage();
+          await Promise.all(attachments.map(attachment => storage.delete(attachment.storage_key)));
+        }
+      }
+    } catch (error) {
+      console.error('Error deleting chat attachment files:', error);
+    }
+
+    // Delete all chats for this user or session (messages and attachment rows will be cascade deleted)
+    const query = supabase
       .from('chats')
-      .delete()
-      .eq('session_id', sessionId);
+      .delete();
+    const { error } = await (user
+      ? query.eq('user_id', user.id)
+      : query.eq('session_id', sessionId!).is('user_id', null));
 
     if (error) {
       console.error('Error deleting all chats:', error);
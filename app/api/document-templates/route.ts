@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_TEMPLATE_ID, listDocumentTemplates, toTemplateSummary } from '@/lib/document-templates';
+
+// GET: List the templates documents can be exported with
+export async function GET() {
+  try {
+    const templates = await listDocumentTemplates();
+    return NextResponse.json({
+      templates: templates.map(toTemplateSummary),
+      defaultTemplate: DEFAULT_TEMPLATE_ID,
+    });
+  } catch (error) {
+    console.error('[Document Templates] Failed to list templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to list document templates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeChat, createRequestClient } from '@/lib/auth';
+import { createAttachment, toAttachmentSummary } from '@/lib/attachments';
+import { indexAttachment } from '@/lib/document-retrieval';
+import { DocumentExtractionError, ExtractedDocument, extractDocumentText } from '@/lib/document-extractors';
+import { DOCUMENT_FORMATS, MAX_DOCUMENT_SIZE, detectDocumentFormat, getDocumentFormatLabel } from '@/lib/document-formats';
+import { buildDocumentContext, extractDocumentICP, toAttachmentExtraction } from '@/lib/document-processing';
+import { AttachmentSummary } from '@/types/chat';
+
+/**
+ * Process an uploaded document (PDF, Word, PowerPoint, Excel/CSV, text/Markdown or HTML):
+ * extract its text, parse ICP fields, auto-fill ICP data, and store the file as an attachment
+ * Returns summary, extracted ICP fields and the attachment
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    const chatId = formData.get('chatId') as string;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!chatId) {
+      return NextResponse.json(
+        { error: 'chatId is required' },
+        { status: 400 }
+      );
+    }
+
+    const format = detectDocumentFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        {
+          error: 'Unsupported file type',
+          message: `Supported formats: ${DOCUMENT_FORMATS.map(info => info.label).join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Check file size (max 10MB)
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      return NextResponse.json(
+        { error: 'File size must be less than 10MB' },
+        { status: 400 }
+      );
+    }
+
+    const { supabase, requester } = await createRequestClient(request.cookies);
+
+    if (!(await authorizeChat(supabase, requester, chatId))) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    // Extract text with the format's extractor
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    let document: ExtractedDocument;
+    try {
+      console.log(`[Document Processing] Extracting text from ${format} file:`, file.name, buffer.length);
+      document = await extractDocumentText(buffer, format);
+      console.log('[Document Processing] Extracted text length:', document.text.length, 'pages:', document.pageCount);
+    } catch (error: any) {
+      console.error('[Document Processing] Error during text extraction:', error);
+      if (error instanceof DocumentExtractionError) {
+        return NextResponse.json(
+          {
+            error: error.code === 'EMPTY_DOCUMENT'
+              ? 'Document appears to be empty or contains no extractable text'
+              : error.code === 'OCR_UNAVAILABLE'
+                ? 'Scanned PDF could not be read'
+                : `Failed to parse ${getDocumentFormatLabel(format)} file`,
+            message: error.message,
+            details: error.code,
+          },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+    const result = await extractDocumentICP(supabase, chatId, document, file.name);
+
+    // Keep the original file and its text so the document can be re-opened, re-extracted or deleted.
+    // The upload still succeeds without it - the client then falls back to sending the text in the message.
+    let attachment: AttachmentSummary | null = null;
+    try {
+      const stored = await createAttachment(supabase, {
+        chatId,
+        fileName: file.name,
+        mimeType: file.type || null,
+        buffer,
+        document,
+        extraction: toAttachmentExtraction(result),
+      });
+      attachment = toAttachmentSummary(stored);
+
+      // Without an index the chat route still retrieves from the stored text, embedding it on the fly
+      await indexAttachment(supabase, stored).catch(error =>
+        console.error('[Document Processing] Error indexing attachment:', error)
+      );
+    } catch (error) {
+      console.error('[Document Processing] Error storing attachment:', error);
+    }
+
+    return NextResponse.json({
+      summary: result.summary,
+      extractedFields: result.extractedFields,
+      filledSections: result.filledSections,
+      icpData: result.icpData,
+      attachment,
+      // Only needed when the attachment couldn't be stored
+      extractedText: attachment ? undefined : buildDocumentContext(document),
+      format,
+      pageCount: document.pageCount,
+      fieldPages: result.fieldPages,
+      documentConflicts: result.documentConflicts,
+      // Per-page OCR confidence when scanned pages were read with OCR
+      ocr: document.ocr,
+    });
+  } catch (error: any) {
+    console.error('[Document Processing] Unexpected error:', error);
+    console.error('[Document Processing] Error stack:', error.stack);
+    return NextResponse.json(
+      { 
+        error: 'Failed to process document',
+        message: error.message || 'Unknown error',
+        details: error.code || 'UNEXPECTED_ERROR',
+        stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+
@@ -1,18 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase';
+import { createServiceClient } from '@/lib/supabase';
+import { AUTH_COOKIE_OPTIONS, SESSION_COOKIE, SESSION_MAX_AGE, isUUID } from '@/lib/auth';
 import { randomUUID } from 'crypto';
 
+// GET: The browser's anonymous session, created on first visit and kept in an httpOnly cookie
+// ?session_id= adopts a session an older version stored in localStorage, as long as no account claimed it
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createServerClient();
+    const supabase = createServiceClient();
     const searchParams = request.nextUrl.searchParams;
-    const sessionId = searchParams.get('session_id');
+    const candidates = [request.cookies.get(SESSION_COOKIE)?.value, searchParams.get('session_id')];
+
+    for (const sessionId of candidates) {
+      if (!isUUID(sessionId)) continue;
 
-    // If session_id provided, check if it exists
-    if (sessionId) {
       const { data, error } = await supabase
         .from('sessions')
-        .select('session_id, created_at')
+        .select('session_id, user_id, created_at')
         .eq('session_id', sessionId)
         .single();
 
@@ -25,11 +29,12 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      if (data) {
-        return NextResponse.json({
+      // The cookie's own session is always kept; a localStorage one only while anonymous
+      if (data && (sessionId === candidates[0] || !data.user_id)) {
+        return withSessionCookie(NextResponse.json({
           session_id: data.session_id,
           created_at: data.created_at,
-        });
+        }), data.session_id);
       }
     }
 
@@ -55,10 +60,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
+    return withSessionCookie(NextResponse.json({
       session_id: data.session_id,
       created_at: data.created_at,
-    });
+    }), data.session_id);
   } catch (error) {
     console.error('Unexpected error in sessions API:', error);
     return NextResponse.json(
@@ -68,3 +73,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
+function withSessionCookie(response: NextResponse, sessionId: string): NextResponse {
+  response.cookies.set(SESSION_COOKIE, sessionId, { ...AUTH_COOKIE_OPTIONS, maxAge: SESSION_MAX_AGE });
+  return response;
+}
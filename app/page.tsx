@@ -18,10 +18,14 @@ const ICPDocumentViewer = dynamic(() => import("@/components/ICPDocumentViewer")
   ssr: false, // Document viewer doesn't need SSR
 });
 import { getOrCreateSessionId } from "@/lib/session";
+import { detectDocumentFormat } from "@/lib/document-formats";
+import { buildDiscoveryMessage } from "@/lib/document-readiness";
 import { ChatListItem, MessageDisplay } from "@/types/chat";
-import { ICPData, calculateProgress } from "@/types/icp";
-import { analyzeMessageForICP, updateSectionCompletion, isValidCompanyName } from "@/lib/icp-analyzer";
+import { ICPData, ICP_SECTIONS, calculateProgress, getCompletionStatus, isICPComplete as checkICPComplete } from "@/types/icp";
 import { useElevenLabsVoice } from "@/hooks/useElevenLabsVoice";
+import { useDocumentGeneration } from "@/hooks/useDocumentGeneration";
+import { useAuth } from "@/hooks/useAuth";
+import AuthDialog from "@/components/AuthDialog";
 import { voiceLogger } from "@/lib/voiceLogger";
 import { ToastContainer, Toast } from "@/components/Toast";
 
@@ -36,13 +40,12 @@ export default function Home() {
   const [icpData, setIcpData] = useState<ICPData | null>(null);
   const [progress, setProgress] = useState(0);
   const [streamingAIContent, setStreamingAIContent] = useState<string>('');
-  const [confirmedSections, setConfirmedSections] = useState<Set<string>>(new Set());
-  const [generatedDocument, setGeneratedDocument] = useState<string | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [documentRequested, setDocumentRequested] = useState(false);
   const [pendingICPData, setPendingICPData] = useState<ICPData | null>(null);
   const [showICPCards, setShowICPCards] = useState(false);
   const [isProcessingPDF, setIsProcessingPDF] = useState(false);
   const [toasts, setToasts] = useState<Toast[]>([]);
+  const [showAuthDialog, setShowAuthDialog] = useState(false);
   const currentAbortControllerRef = useRef<AbortController | null>(null);
   const handleSendMessageRef = useRef<((content: string) => Promise<void>) | null>(null);
   const conversationChatIdRef = useRef<string | null>(null); // Stable chatId for voice conversation
@@ -265,8 +268,19 @@ export default function Home() {
     }
   };
 
-  // Initialize session on mount
+  // Accounts - signing in moves this browser's chats into the account
+  const auth = useAuth({
+    onSignIn: (_user, claimedChats) => {
+      if (claimedChats > 0) {
+        showToast(`${claimedChats} chat${claimedChats === 1 ? '' : 's'} from this browser moved into your account`, 'success');
+      }
+    },
+  });
+
+  // Initialize session once the stored sign-in is known, and reload chats whenever the account changes
   useEffect(() => {
+    if (!auth.isReady) return;
+
     getOrCreateSessionId()
       .then((id) => {
         setSessionId(id);
@@ -277,7 +291,26 @@ export default function Home() {
       .catch((error) => {
         handleError(error, 'Failed to initialize session', false);
       });
-  }, []);
+  }, [auth.isReady, auth.user?.id]);
+
+  // Sign out - the account's chats are no longer available in this browser
+  const handleSignOut = async () => {
+    if (voiceHook.isActive) {
+      await voiceHook.endConversation();
+      conversationChatIdRef.current = null;
+      conversationIdRef.current = null;
+    }
+
+    try {
+      await auth.signOut();
+      setSelectedChatId(undefined);
+      setMessages([]);
+      setIcpData(null);
+      setProgress(0);
+    } catch (error) {
+      handleError(error, 'Error signing out', false);
+    }
+  };
 
   // Load chats for the session
   const loadChats = async (sid: string) => {
@@ -285,7 +318,7 @@ export default function Home() {
 
     setIsLoadingChats(true);
     try {
-      const response = await fetch(`/api/chats?session_id=${sid}`);
+      const response = await fetch('/api/chats');
       if (!response.ok) throw new Error('Failed to load chats');
 
       const data = await response.json();
@@ -318,8 +351,6 @@ export default function Home() {
     try {
       const response = await fetch('/api/chats', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ session_id: sessionId }),
       });
 
       if (!response.ok) throw new Error('Failed to create chat');
@@ -355,13 +386,7 @@ export default function Home() {
       const response = await fetch(`/api/chats/${chatId}/icp`);
       if (response.ok) {
         const data = await response.json();
-        console.log('[Load ICP Data] Loaded:', {
-          company_basics_complete: data.company_basics_complete,
-          target_customer_complete: data.target_customer_complete,
-          problem_pain_complete: data.problem_pain_complete,
-          buying_process_complete: data.buying_process_complete,
-          budget_decision_complete: data.budget_decision_complete,
-        });
+        console.log('[Load ICP Data] Loaded:', getCompletionStatus(data));
         setIcpData(data);
         const progress = calculateProgress(data);
         console.log('[Load ICP Data] Progress:', progress);
@@ -417,7 +442,15 @@ export default function Home() {
         role: msg.role,
         content: msg.content,
         timestamp: msg.timestamp ? new Date(msg.timestamp) : undefined,
-        fileAttachment: msg.file_attachment ? JSON.parse(msg.file_attachment) : undefined,
+        fileAttachment: msg.attachments?.length
+          ? {
+              name: msg.attachments[0].name,
+              size: msg.attachments[0].size,
+              type: msg.attachments[0].type,
+              format: msg.attachments[0].format,
+              attachmentId: msg.attachments[0].id,
+            }
+          : undefined,
         icpExtraction: msg.icp_extraction ? JSON.parse(msg.icp_extraction) : undefined,
       }));
       setMessages(messagesWithDates);
@@ -503,7 +536,7 @@ export default function Home() {
     }
 
     try {
-      const response = await fetch(`/api/chats?session_id=${sessionId}`, {
+      const response = await fetch('/api/chats', {
         method: 'DELETE',
       });
 
@@ -562,8 +595,6 @@ export default function Home() {
         voiceLogger.log('ChatId', 'Creating new chat', { conversationId: conversationIdRef.current });
         const response = await fetch('/api/chats', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ session_id: sessionId }),
         });
 
         if (!response.ok) throw new Error('Failed to create chat');
@@ -592,23 +623,25 @@ export default function Home() {
 
     // Process file if attached
     let finalContent = content;
-    let fileAttachment: { name: string; size: number; type: string } | undefined;
+    let fileAttachment: MessageDisplay['fileAttachment'];
+    // Stored documents to link to the message - their text reaches the AI from storage
+    let attachmentIds: string[] = [];
     let icpExtraction: { summary: string; extractedFields: any; filledSections: string[] } | undefined;
-    let processedICPData: ICPData | null = null; // Track fresh data from PDF processing
 
     if (file) {
       // Start file processing
       if (voiceHook.isActive) {
         voiceHook.pauseMicrophone(); // Pause VAD during processing
       }
-      if (file.type === 'application/pdf') {
+      const documentFormat = detectDocumentFormat(file.name, file.type);
+      if (documentFormat) {
         setIsProcessingPDF(true);
       }
 
       try {
-        console.log('Processing file:', file.name);
+        console.log('Processing file:', file.name, documentFormat);
 
-        if (file.type === 'application/pdf') {
+        if (documentFormat) {
           setIsProcessingPDF(true);
 
           if (!chatId) {
@@ -624,14 +657,14 @@ export default function Home() {
           formData.append('file', file);
           formData.append('chatId', chatId!);
 
-          const processResponse = await fetch('/api/files/process-pdf', {
+          const processResponse = await fetch('/api/files/process-document', {
             method: 'POST',
             body: formData,
           });
 
           if (!processResponse.ok) {
             const errorData = await processResponse.json().catch(() => ({}));
-            const errorMessage = errorData.message || errorData.error || 'Failed to process PDF';
+            const errorMessage = errorData.message || errorData.error || 'Failed to process document';
             const errorDetails = errorData.details ? ` (${errorData.details})` : '';
             console.error('[PDF Processing] Server error:', errorData);
             throw new Error(`${errorMessage}${errorDetails}`);
@@ -661,9 +694,6 @@ export default function Home() {
               ...processData.extractedFields,
             };
 
-            // CRITICAL: Capture the fresh data to use in subsequent logic
-            processedICPData = dataToShow;
-
             console.log('[PDF Processing] Setting pending ICP data:', dataToShow);
 
             // Sync conversationChatIdRef variables
@@ -685,8 +715,11 @@ export default function Home() {
             console.warn('[PDF Processing] No icpData or extractedFields in response!', processData);
           }
 
-          // Store extracted text for AI context
-          if (processData.extractedText) {
+          if (processData.attachment) {
+            attachmentIds = [processData.attachment.id];
+            finalContent = content || `[Document: ${file.name}]`;
+          } else if (processData.extractedText) {
+            // The file couldn't be stored, so its text travels in the message instead
             finalContent = content
               ? `${content}\n\n=== DOCUMENT CONTENT (AUTHORITATIVE SOURCE) ===\n[Document: ${file.name}]\n\n${processData.extractedText}\n\n=== END DOCUMENT CONTENT ===\n\nIMPORTANT: All information in the document above is COMPLETE and AUTHORITATIVE. Extract all ICP information from it directly. Do NOT ask the user to repeat information that is already in this document.`
               : `=== DOCUMENT CONTENT (AUTHORITATIVE SOURCE) ===\n[Document: ${file.name}]\n\n${processData.extractedText}\n\n=== END DOCUMENT CONTENT ===\n\nIMPORTANT: All information in the document above is COMPLETE and AUTHORITATIVE. Extract all ICP information from it directly. Do NOT ask the user to repeat information that is already in this document.`;
@@ -727,6 +760,8 @@ export default function Home() {
           name: file.name,
           size: file.size,
           type: file.type,
+          format: documentFormat ?? undefined,
+          attachmentId: attachmentIds[0],
         };
       } catch (error) {
         setIsProcessingPDF(false);
@@ -746,8 +781,8 @@ export default function Home() {
     }
 
     // Save user message
-    // For PDFs, finalContent now includes the extracted text for AI context
-    // For text files, finalContent includes the file content
+    // Stored documents are linked through attachmentIds; the chat route adds their text for AI context
+    // For text files (and documents that couldn't be stored), finalContent includes the file content
     const messageContent = finalContent || content || '[File attachment]';
 
     try {
@@ -757,6 +792,7 @@ export default function Home() {
         body: JSON.stringify({
           role: 'user',
           content: messageContent,
+          attachmentIds,
         }),
       });
 
@@ -785,8 +821,6 @@ export default function Home() {
           // Create a new chat
           const newChatResponse = await fetch('/api/chats', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ session_id: sessionId }),
           });
 
           if (!newChatResponse.ok) {
@@ -818,6 +852,7 @@ export default function Home() {
             body: JSON.stringify({
               role: 'user',
               content: messageContent,
+              attachmentIds,
             }),
           });
 
@@ -862,113 +897,7 @@ export default function Home() {
 
       setMessages((prev) => [...prev, userMessageWithDate]);
 
-      // Analyze message for ICP data and update
-      try {
-        const detectedICP = analyzeMessageForICP(content, 'user');
-        console.log('Detected ICP data from user message:', detectedICP);
-
-        // Always update ICP data, even if nothing detected (to ensure it exists and recalculate progress)
-        // Always update ICP data, even if nothing detected (to ensure it exists and recalculate progress)
-        // CRITICAL FIX: Use fresh processedICPData if we just parsed a PDF, otherwise use state
-        const currentICP: ICPData = processedICPData || icpData || { chat_id: chatId! };
-
-        // Preserve existing completion flags BEFORE updating
-        // These flags may have been set by PDF processing or user confirmation
-        const preservedCompletionFlags = {
-          company_basics_complete: currentICP.company_basics_complete === true,
-          target_customer_complete: currentICP.target_customer_complete === true,
-          problem_pain_complete: currentICP.problem_pain_complete === true,
-          buying_process_complete: currentICP.buying_process_complete === true,
-          budget_decision_complete: currentICP.budget_decision_complete === true,
-        };
-
-        // Merge detected ICP data, but preserve existing valid fields
-        // Don't overwrite existing company_name if new extraction is invalid or empty
-        const updatedICP: Partial<ICPData> = {
-          ...currentICP,
-        };
-
-        // Only update fields if detected value is valid and existing value is not already valid
-        for (const [key, value] of Object.entries(detectedICP)) {
-          if (value !== undefined && value !== null && value !== '') {
-            // Special handling for company_name - don't overwrite if existing is valid
-            if (key === 'company_name' && currentICP.company_name) {
-              // Use proper validation function
-              const existingIsValid = isValidCompanyName(currentICP.company_name);
-              const newIsValid = isValidCompanyName(value as string);
-
-              // Only overwrite if existing is invalid AND new is valid
-              if (existingIsValid && !newIsValid) {
-                // Keep existing valid company name, reject invalid new one
-                continue;
-              }
-              // If existing is invalid but new is valid, allow update
-              // If both are valid, prefer existing (don't overwrite)
-              if (existingIsValid && newIsValid) {
-                continue;
-              }
-            }
-            // For other fields, update if detected value is valid
-            updatedICP[key as keyof ICPData] = value as any;
-          }
-        }
-
-        // Update section completion
-        const completedICP = updateSectionCompletion(updatedICP as ICPData);
-
-        // Restore preserved flags - if a section was already marked complete,
-        // keep it complete even if updateSectionCompletion recalculated it as false
-        if (preservedCompletionFlags.company_basics_complete) {
-          completedICP.company_basics_complete = true;
-        }
-        if (preservedCompletionFlags.target_customer_complete) {
-          completedICP.target_customer_complete = true;
-        }
-        if (preservedCompletionFlags.problem_pain_complete) {
-          completedICP.problem_pain_complete = true;
-        }
-        if (preservedCompletionFlags.buying_process_complete) {
-          completedICP.buying_process_complete = true;
-        }
-        if (preservedCompletionFlags.budget_decision_complete) {
-          completedICP.budget_decision_complete = true;
-        }
-
-        console.log('Updated ICP data with completion:', completedICP);
-
-        // Save to database
-        const icpResponse = await fetch(`/api/chats/${chatId}/icp`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(completedICP),
-        });
-
-        if (icpResponse.ok) {
-          const savedICP = await icpResponse.json();
-          console.log('Saved ICP data:', savedICP);
-          const newProgress = calculateProgress(savedICP);
-          console.log('Calculated progress:', newProgress, '%');
-          setIcpData(savedICP);
-          setProgress(newProgress);
-        } else {
-          // Only log error if it's not a 404 (which is expected for new chats)
-          if (icpResponse.status !== 404) {
-            try {
-              const errorData = await icpResponse.json();
-              console.error('Failed to save ICP data:', errorData);
-              if (icpResponse.status === 500) {
-                console.warn('ICP data table might not exist. Please run migration 003_create_icp_data_table.sql');
-              }
-            } catch (e) {
-              // Response might not be JSON, ignore
-              console.warn('ICP data save failed with status:', icpResponse.status);
-            }
-          }
-        }
-      } catch (error) {
-        handleError(error, 'Error updating ICP data', false);
-        // Don't fail the message send if ICP update fails
-      }
+      // ICP fields are extracted server-side once the assistant has replied (see /icp/extract below)
 
       // Update chat title if this is the first message (title is still "New Chat")
       const currentChat = chats.find(c => c.id === chatId);
@@ -1021,6 +950,8 @@ export default function Home() {
     const openaiStartTime = Date.now();
     // Track if ICP data was updated during the response to avoid redundant reloads
     let icpDataUpdated = false;
+    // Set when the agent recorded fields itself via update_icp_fields - no separate extraction needed
+    let agentUpdatedFields = false;
     voiceLogger.log('OpenAI', 'Starting stream', {
       conversationId: conversationIdRef.current,
       chatId
@@ -1252,77 +1183,56 @@ export default function Home() {
                   // Flush remaining TTS buffer
                   voiceHook.flushTTS();
 
-                  // Analyze AI response for ICP data
+                  // Extract ICP changes from this exchange (LLM diff, regex fallback offline)
                   try {
-                    const detectedICP = analyzeMessageForICP(data.message.content, 'assistant');
-                    if (Object.keys(detectedICP).length > 0 && chatId) {
-                      const currentICP: ICPData = icpData || { chat_id: chatId };
-
-                      // Preserve existing completion flags BEFORE updating
-                      // These flags may have been set by PDF processing or user confirmation
-                      const preservedCompletionFlags = {
-                        company_basics_complete: currentICP.company_basics_complete === true,
-                        target_customer_complete: currentICP.target_customer_complete === true,
-                        problem_pain_complete: currentICP.problem_pain_complete === true,
-                        buying_process_complete: currentICP.buying_process_complete === true,
-                        budget_decision_complete: currentICP.budget_decision_complete === true,
-                      };
-
-                      const updatedICP = {
-                        ...currentICP,
-                        ...detectedICP,
-                      };
-                      const completedICP = updateSectionCompletion(updatedICP as ICPData);
-
-                      // Restore preserved flags - if a section was already marked complete,
-                      // keep it complete even if updateSectionCompletion recalculated it as false
-                      if (preservedCompletionFlags.company_basics_complete) {
-                        completedICP.company_basics_complete = true;
-                      }
-                      if (preservedCompletionFlags.target_customer_complete) {
-                        completedICP.target_customer_complete = true;
-                      }
-                      if (preservedCompletionFlags.problem_pain_complete) {
-                        completedICP.problem_pain_complete = true;
-                      }
-                      if (preservedCompletionFlags.buying_process_complete) {
-                        completedICP.buying_process_complete = true;
-                      }
-                      if (preservedCompletionFlags.budget_decision_complete) {
-                        completedICP.budget_decision_complete = true;
-                      }
-
-                      const icpResponse = await fetch(`/api/chats/${chatId}/icp`, {
-                        method: 'PATCH',
+                    if (chatId && !agentUpdatedFields) {
+                      const extractResponse = await fetch(`/api/chats/${chatId}/icp/extract`, {
+                        method: 'POST',
                         headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify(completedICP),
+                        body: JSON.stringify({ messageId: data.message.id }),
                       });
 
-                      if (icpResponse.ok) {
-                        const savedICP = await icpResponse.json();
-                        console.log('[ICP Update] Saved ICP data:', {
-                          company_basics_complete: savedICP.company_basics_complete,
-                          target_customer_complete: savedICP.target_customer_complete,
-                          problem_pain_complete: savedICP.problem_pain_complete,
-                          buying_process_complete: savedICP.buying_process_complete,
-                          budget_decision_complete: savedICP.budget_decision_complete,
+                      if (extractResponse.ok) {
+                        const extraction = await extractResponse.json();
+                        console.log('[ICP Update] Extraction applied:', {
+                          applied: extraction.applied?.length || 0,
+                          rejected: extraction.rejected?.length || 0,
+                          usedFallback: extraction.usedFallback,
+                          completion: getCompletionStatus(extraction.icpData),
                         });
-                        setIcpData(savedICP);
-                        const newProgress = calculateProgress(savedICP);
+                        setIcpData(extraction.icpData);
+                        const newProgress = calculateProgress(extraction.icpData);
                         console.log('[ICP Update] New progress:', newProgress);
                         setProgress(newProgress);
                         icpDataUpdated = true; // Mark that ICP was updated
                       } else {
-                        console.warn('[ICP Update] Failed to save ICP data:', icpResponse.status);
+                        console.warn('[ICP Update] ICP extraction failed:', extractResponse.status);
                       }
                     }
                   } catch (error) {
-                    console.error('Error extracting ICP from AI response:', error);
+                    console.error('Error extracting ICP from exchange:', error);
                     // Don't let ICP update errors break the stream
                   }
 
                   // Reload chats (ICP data already updated above, no need to reload)
                   if (sessionId) loadChats(sessionId);
+                } else if (data.type === 'tool_result') {
+                  // The agent changed ICP state through a tool call
+                  console.log('[Agent Tool] Result:', { name: data.name, ok: data.ok, result: data.result });
+                  if (data.icpData) {
+                    setIcpData(data.icpData);
+                    setProgress(calculateProgress(data.icpData));
+                    icpDataUpdated = true;
+                    if (data.name === 'update_icp_fields') {
+                      agentUpdatedFields = true;
+                    }
+                  }
+                  if (data.conflict) {
+                    showToast(`Conflicting information: ${data.conflict.description}`, 'warning');
+                  }
+                  if (data.documentRequested) {
+                    setDocumentRequested(true);
+                  }
                 } else if (data.content) {
                   // Streaming content chunk
                   if (!firstTokenReceived) {
@@ -1487,23 +1397,29 @@ export default function Home() {
   const handleConfirmSection = useCallback(async (section: string) => {
     if (!selectedChatId || !pendingICPData) return;
 
+    // Only this section's fields are confirmed - the others stay pending
+    const sectionDef = ICP_SECTIONS.find((s) => s.id === section);
+    const sectionData: Partial<ICPData> = {};
+    for (const field of sectionDef?.fields || []) {
+      sectionData[field.key] = pendingICPData[field.key];
+    }
+
     try {
-      // Update the database with the confirmed section data
-      const response = await fetch(`/api/chats/${selectedChatId}/icp`, {
-        method: 'PUT',
+      // Save the confirmed values and record the sign-off (the server decides completion)
+      const response = await fetch(`/api/chats/${selectedChatId}/icp/confirm`, {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(pendingICPData),
+        body: JSON.stringify({ sections: [section], values: sectionData }),
       });
 
       if (response.ok) {
-        const updatedData = await response.json();
+        const { icpData: updatedData, completion } = await response.json();
         setIcpData(updatedData);
+        // Refresh provenance so confirmed values are no longer flagged, keeping other pending edits
+        setPendingICPData((prev) => prev && { ...prev, field_provenance: updatedData.field_provenance });
         setProgress(calculateProgress(updatedData));
 
-        // Mark section as confirmed
-        setConfirmedSections((prev) => new Set(prev).add(section));
-
-        console.log(`[ICP Confirmation] Section "${section}" confirmed and saved`);
+        console.log(`[ICP Confirmation] Section "${section}" confirmed and saved:`, completion[section]);
       }
     } catch (error) {
       console.error('Error confirming ICP section:', error);
@@ -1522,15 +1438,24 @@ export default function Home() {
   const handleConfirmAllSections = useCallback(async () => {
     if (!selectedChatId || !pendingICPData) return;
 
+    // Confirm every section that has a card, with the values shown on the cards
+    const sections = ICP_SECTIONS.filter((section) =>
+      section.fields.some((field) => pendingICPData[field.key])
+    );
+    const values: Partial<ICPData> = {};
+    for (const field of sections.flatMap((section) => section.fields)) {
+      values[field.key] = pendingICPData[field.key];
+    }
+
     try {
-      const response = await fetch(`/api/chats/${selectedChatId}/icp`, {
-        method: 'PUT',
+      const response = await fetch(`/api/chats/${selectedChatId}/icp/confirm`, {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(pendingICPData),
+        body: JSON.stringify({ sections: sections.map((section) => section.id), values }),
       });
 
       if (response.ok) {
-        const updatedData = await response.json();
+        const { icpData: updatedData } = await response.json();
         setIcpData(updatedData);
         setProgress(calculateProgress(updatedData));
 
@@ -1548,47 +1473,113 @@ export default function Home() {
     }
   }, [selectedChatId, pendingICPData, loadICPData]);
 
-  // Generate ICP document
-  const handleGenerateDocument = useCallback(async () => {
-    if (!selectedChatId || isGenerating) return;
+  // Open a stored document in a new tab
+  const handleOpenAttachment = useCallback((attachmentId: string) => {
+    if (!selectedChatId) return;
+    window.open(`/api/chats/${selectedChatId}/attachments/${attachmentId}/file`, '_blank', 'noopener');
+  }, [selectedChatId]);
 
-    setIsGenerating(true);
+  // Run extraction again on a stored document and show the result for review
+  const handleReextractAttachment = useCallback(async (attachmentId: string) => {
+    if (!selectedChatId) return;
+
+    setIsProcessingPDF(true);
     try {
-      const response = await fetch(`/api/chats/${selectedChatId}/generate-document`, {
+      const response = await fetch(`/api/chats/${selectedChatId}/attachments/${attachmentId}/reextract`, {
         method: 'POST',
       });
 
       if (!response.ok) {
-        throw new Error('Failed to generate document');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || 'Failed to re-extract document');
       }
 
-      const data = await response.json();
-      setGeneratedDocument(data.document);
+      const reextractData = await response.json();
+      setIcpData(reextractData.icpData);
+      setPendingICPData(reextractData.icpData);
+      setProgress(calculateProgress(reextractData.icpData));
+      setShowICPCards(true);
+      showToast(`Re-extracted "${reextractData.attachment.name}"`, 'success');
     } catch (error) {
-      handleError(error, 'Error generating document', true);
+      handleError(error, 'Error re-extracting document', false);
     } finally {
-      setIsGenerating(false);
+      setIsProcessingPDF(false);
     }
-  }, [selectedChatId, isGenerating]);
+  }, [selectedChatId]);
+
+  // Delete a stored document - ICP values taken from it are kept
+  const handleDeleteAttachment = useCallback(async (attachmentId: string) => {
+    if (!selectedChatId) return;
+    if (!window.confirm('Delete this document? Information already added to the ICP is kept.')) return;
+
+    try {
+      const response = await fetch(`/api/chats/${selectedChatId}/attachments/${attachmentId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete document');
+      }
+
+      setMessages((prev) => prev.map((msg) =>
+        msg.fileAttachment?.attachmentId === attachmentId ? { ...msg, fileAttachment: undefined } : msg
+      ));
+    } catch (error) {
+      handleError(error, 'Error deleting document', false);
+    }
+  }, [selectedChatId]);
+
+  // Generate ICP document - the viewer opens on the readiness report, then streams the document section by section
+  const documentGeneration = useDocumentGeneration(selectedChatId);
+  const isGenerating = documentGeneration.isGenerating;
+  const handleGenerateDocument = documentGeneration.checkReadiness;
+
+  // Ask the agent about the gaps instead of generating
+  const { readiness: documentReadiness, close: closeDocument } = documentGeneration;
+  const handleContinueDiscovery = useCallback(() => {
+    closeDocument();
+    if (documentReadiness && handleSendMessageRef.current) {
+      handleSendMessageRef.current(buildDiscoveryMessage(documentReadiness));
+    }
+  }, [documentReadiness, closeDocument]);
+
+  // Generate the document when the agent asks for it
+  useEffect(() => {
+    if (!documentRequested) return;
+    setDocumentRequested(false);
+    handleGenerateDocument();
+  }, [documentRequested, handleGenerateDocument]);
 
   // Check if ICP is complete
-  const isICPComplete = icpData?.company_basics_complete &&
-    icpData?.target_customer_complete &&
-    icpData?.problem_pain_complete &&
-    icpData?.buying_process_complete &&
-    icpData?.budget_decision_complete;
+  const isICPComplete = checkICPComplete(icpData);
 
   return (
     <div className="flex h-screen flex-col overflow-hidden">
       {/* Toast Notifications */}
       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
 
+      {/* Sign-in Modal */}
+      {showAuthDialog && !auth.user && (
+        <AuthDialog auth={auth} onClose={() => setShowAuthDialog(false)} />
+      )}
+
       {/* Document Viewer Modal */}
-      {generatedDocument && (
+      {documentGeneration.isOpen && (
         <ICPDocumentViewer
-          document={generatedDocument}
+          document={documentGeneration.document}
+          generating={documentGeneration.isGenerating}
+          pendingSections={documentGeneration.pendingSections}
+          failedSections={documentGeneration.failedSections}
+          error={documentGeneration.error}
+          readiness={documentGeneration.readiness}
+          checkingReadiness={documentGeneration.isCheckingReadiness}
           chatId={selectedChatId || ''}
-          onClose={() => setGeneratedDocument(null)}
+          onGenerate={documentGeneration.generate}
+          onContinueDiscovery={handleContinueDiscovery}
+          onCancel={documentGeneration.cancel}
+          onRegenerateSection={documentGeneration.regenerateSection}
+          onUpdateSection={documentGeneration.updateSection}
+          onClose={documentGeneration.close}
         />
       )}
 
@@ -1606,6 +1597,9 @@ export default function Home() {
             onEditChat={handleEditChat}
             onDeleteAllChats={handleDeleteAllChats}
             selectedChatId={selectedChatId}
+            account={auth.user}
+            onSignIn={() => setShowAuthDialog(true)}
+            onSignOut={handleSignOut}
           />
         )}
 
@@ -1623,6 +1617,9 @@ export default function Home() {
             isVoiceActive={voiceHook.isActive}
             isProcessingPDF={isProcessingPDF}
             isTranscribing={voiceHook.isTranscribing}
+            onOpenAttachment={handleOpenAttachment}
+            onReextractAttachment={handleReextractAttachment}
+            onDeleteAttachment={handleDeleteAttachment}
           />
           {/* ICP Confirmation Cards */}
           {showICPCards && pendingICPData && (
@@ -1645,76 +1642,23 @@ export default function Home() {
                 </div>
               </div>
               <div className="space-y-3">
-                {/* Company Basics */}
-                {(pendingICPData.company_name || pendingICPData.industry || pendingICPData.company_size || pendingICPData.location) && (
-                  <ICPConfirmationCard
-                    section="Company Basics"
-                    fields={[
-                      { key: 'company_name', label: 'Company Name', value: pendingICPData.company_name },
-                      { key: 'industry', label: 'Industry', value: pendingICPData.industry },
-                      { key: 'company_size', label: 'Company Size', value: pendingICPData.company_size },
-                      { key: 'location', label: 'Location', value: pendingICPData.location },
-                    ]}
-                    onConfirm={() => handleConfirmSection('company_basics')}
-                    onEdit={handleEditField}
-                  />
-                )}
-
-                {/* Target Customer */}
-                {(pendingICPData.target_customer_type || pendingICPData.target_demographics || pendingICPData.target_psychographics) && (
+                {ICP_SECTIONS.filter((section) =>
+                  section.fields.some((field) => pendingICPData[field.key])
+                ).map((section) => (
                   <ICPConfirmationCard
-                    section="Target Customer"
-                    fields={[
-                      { key: 'target_customer_type', label: 'Customer Type', value: pendingICPData.target_customer_type },
-                      { key: 'target_demographics', label: 'Demographics', value: pendingICPData.target_demographics },
-                      { key: 'target_psychographics', label: 'Psychographics', value: pendingICPData.target_psychographics },
-                    ]}
-                    onConfirm={() => handleConfirmSection('target_customer')}
+                    key={section.id}
+                    section={section.name}
+                    fields={section.fields.map((field) => ({
+                      key: field.key,
+                      label: field.label,
+                      value: pendingICPData[field.key],
+                      provenance: pendingICPData.field_provenance?.[field.key],
+                    }))}
+                    confirmed={!!icpData?.section_confirmations?.[section.id]}
+                    onConfirm={() => handleConfirmSection(section.id)}
                     onEdit={handleEditField}
                   />
-                )}
-
-                {/* Problem & Pain */}
-                {(pendingICPData.pain_points || pendingICPData.main_problems || pendingICPData.current_solutions) && (
-                  <ICPConfirmationCard
-                    section="Problem & Pain"
-                    fields={[
-                      { key: 'pain_points', label: 'Pain Points', value: pendingICPData.pain_points },
-                      { key: 'main_problems', label: 'Main Problems', value: pendingICPData.main_problems },
-                      { key: 'current_solutions', label: 'Current Solutions', value: pendingICPData.current_solutions },
-                    ]}
-                    onConfirm={() => handleConfirmSection('problem_pain')}
-                    onEdit={handleEditField}
-                  />
-                )}
-
-                {/* Buying Process */}
-                {(pendingICPData.decision_makers || pendingICPData.buying_process_steps || pendingICPData.evaluation_criteria) && (
-                  <ICPConfirmationCard
-                    section="Buying Process"
-                    fields={[
-                      { key: 'decision_makers', label: 'Decision Makers', value: pendingICPData.decision_makers },
-                      { key: 'buying_process_steps', label: 'Process Steps', value: pendingICPData.buying_process_steps },
-                      { key: 'evaluation_criteria', label: 'Evaluation Criteria', value: pendingICPData.evaluation_criteria },
-                    ]}
-                    onConfirm={() => handleConfirmSection('buying_process')}
-                    onEdit={handleEditField}
-                  />
-                )}
-
-                {/* Budget & Decision Maker */}
-                {(pendingICPData.budget_range || pendingICPData.decision_maker_role || pendingICPData.approval_process) && (
-                  <ICPConfirmationCard
-                    section="Budget & Decision Maker"
-                    fields={[
-                      { key: 'budget_range', label: 'Budget Range', value: pendingICPData.budget_range },
-                      { key: 'decision_maker_role', label: 'Decision Maker Role', value: pendingICPData.decision_maker_role },
-                      { key: 'approval_process', label: 'Approval Process', value: pendingICPData.approval_process },
-                    ]}
-                    onConfirm={() => handleConfirmSection('budget_decision')}
-                    onEdit={handleEditField}
-                  />
-                )}
+                ))}
               </div>
             </div>
           )}
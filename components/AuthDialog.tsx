@@ -0,0 +1,141 @@
+"use client";
+
+import { X } from "lucide-react";
+import { useState } from "react";
+import { Auth } from "@/hooks/useAuth";
+
+interface AuthDialogProps {
+  auth: Auth;
+  onClose: () => void;
+}
+
+type AuthMode = "sign_in" | "sign_up" | "magic_link";
+
+const MODES: { mode: AuthMode; label: string }[] = [
+  { mode: "sign_in", label: "Sign in" },
+  { mode: "sign_up", label: "Create account" },
+  { mode: "magic_link", label: "Email link" },
+];
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function AuthDialog({ auth, onClose }: AuthDialogProps) {
+  const [mode, setMode] = useState<AuthMode>("sign_in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      if (mode === "sign_in") {
+        await auth.signInWithPassword(email.trim(), password);
+        onClose();
+      } else if (mode === "sign_up") {
+        const needsConfirmation = await auth.signUp(email.trim(), password);
+        if (needsConfirmation) {
+          setNotice("Check your email to confirm your account, then sign in.");
+        } else {
+          onClose();
+        }
+      } else {
+        await auth.sendMagicLink(email.trim());
+        setNotice("Check your email for a sign-in link. It opens the app signed in.");
+      }
+    } catch (err: any) {
+      setError(err.message || "Something went wrong, please try again");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const needsPassword = mode !== "magic_link";
+  const canSubmit = email.trim() !== "" && (!needsPassword || password.length >= (mode === "sign_up" ? MIN_PASSWORD_LENGTH : 1));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="relative w-full max-w-sm bg-background rounded-lg shadow-xl overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold">Your account</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-accent transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4 p-4">
+          <p className="text-sm text-muted-foreground">
+            Sign in to keep your chats and open them on any device. Chats from this browser move into your account.
+          </p>
+
+          <div className="flex gap-1 rounded-lg bg-muted p-1 text-sm">
+            {MODES.map(({ mode: option, label }) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => switchMode(option)}
+                className={`flex-1 rounded-md px-2 py-1.5 transition-colors ${mode === option ? "bg-background font-medium shadow-sm" : "text-muted-foreground hover:text-foreground"}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Email</span>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              required
+              className="w-full rounded-lg border border-border bg-background px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </label>
+
+          {needsPassword && (
+            <label className="block space-y-1 text-sm">
+              <span className="font-medium">Password</span>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={mode === "sign_up" ? "new-password" : "current-password"}
+                required
+                className="w-full rounded-lg border border-border bg-background px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+              {mode === "sign_up" && (
+                <span className="text-xs text-muted-foreground">At least {MIN_PASSWORD_LENGTH} characters</span>
+              )}
+            </label>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {notice && <p className="text-sm text-green-600">{notice}</p>}
+
+          <button
+            type="submit"
+            disabled={busy || !canSubmit}
+            className="w-full rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {busy ? "Please wait..." : mode === "magic_link" ? "Send sign-in link" : MODES.find(option => option.mode === mode)!.label}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -5,9 +5,10 @@
  * Claude-inspired design with clean message bubbles and smooth animations
  */
 
-import { User, FileText } from "lucide-react";
+import { User, FileText, ExternalLink, RefreshCw, Trash2 } from "lucide-react";
 import { useEffect, useRef } from "react";
 import { MessageDisplay } from "@/types/chat";
+import { getDocumentFormatLabel } from "@/lib/document-formats";
 
 interface Message extends MessageDisplay { }
 
@@ -22,6 +23,10 @@ interface ChatAreaProps {
   isTranscribing?: boolean;
   onConfirmSection?: (section: string) => void;
   onEditField?: (field: keyof import("@/types/icp").ICPData, value: string) => void;
+  // Actions on stored documents (messages whose fileAttachment has an attachmentId)
+  onOpenAttachment?: (attachmentId: string) => void;
+  onReextractAttachment?: (attachmentId: string) => void;
+  onDeleteAttachment?: (attachmentId: string) => void;
 }
 
 export default function ChatArea({
@@ -35,6 +40,9 @@ export default function ChatArea({
   isTranscribing = false,
   onConfirmSection,
   onEditField,
+  onOpenAttachment,
+  onReextractAttachment,
+  onDeleteAttachment,
 }: ChatAreaProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
@@ -128,8 +136,28 @@ export default function ChatArea({
                         </p>
                         <p className="text-xs text-background/70">
                           {(message.fileAttachment.size / 1024).toFixed(1)} KB
+                          {message.fileAttachment.format && ` · Parsed as ${getDocumentFormatLabel(message.fileAttachment.format)}`}
                         </p>
                       </div>
+                      {message.fileAttachment.attachmentId && (
+                        <div className="flex shrink-0 items-center gap-1">
+                          {[
+                            { label: "Open document", icon: ExternalLink, action: onOpenAttachment },
+                            { label: "Re-extract document", icon: RefreshCw, action: onReextractAttachment },
+                            { label: "Delete document", icon: Trash2, action: onDeleteAttachment },
+                          ].filter(({ action }) => action).map(({ label, icon: Icon, action }) => (
+                            <button
+                              key={label}
+                              onClick={() => action!(message.fileAttachment!.attachmentId!)}
+                              className="flex h-6 w-6 items-center justify-center rounded hover:bg-background/20 transition-colors"
+                              aria-label={label}
+                              title={label}
+                            >
+                              <Icon className="h-3.5 w-3.5 text-background/80" />
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
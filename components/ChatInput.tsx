@@ -2,6 +2,7 @@
 
 import { Send, Paperclip, X, FileText } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
+import { DOCUMENT_ACCEPT, DOCUMENT_FORMATS, MAX_DOCUMENT_SIZE, detectDocumentFormat, getDocumentFormatLabel } from "@/lib/document-formats";
 
 interface ChatInputProps {
   onSend?: (message: string, file?: File) => void;
@@ -57,7 +58,7 @@ export default function ChatInput({ onSend, disabled = false, voiceActive = fals
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      if (file.size > 10 * 1024 * 1024) {
+      if (file.size > MAX_DOCUMENT_SIZE) {
         alert('File size must be less than 10MB');
         if (fileInputRef.current) {
           fileInputRef.current.value = '';
@@ -65,16 +66,8 @@ export default function ChatInput({ onSend, disabled = false, voiceActive = fals
         return;
       }
       
-      const allowedTypes = [
-        'application/pdf',
-        'application/msword',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'text/plain',
-        'text/markdown',
-      ];
-      
-      if (!allowedTypes.includes(file.type)) {
-        alert('Please upload a PDF, Word document, or text file');
+      if (!detectDocumentFormat(file.name, file.type)) {
+        alert(`Please upload one of: ${DOCUMENT_FORMATS.map((info) => info.label).join(', ')}`);
         if (fileInputRef.current) {
           fileInputRef.current.value = '';
         }
@@ -89,6 +82,8 @@ export default function ChatInput({ onSend, disabled = false, voiceActive = fals
     }
   };
 
+  const attachedFormat = attachedFile ? detectDocumentFormat(attachedFile.name, attachedFile.type) : null;
+
   const handleRemoveFile = () => {
     setAttachedFile(null);
   };
@@ -109,6 +104,7 @@ export default function ChatInput({ onSend, disabled = false, voiceActive = fals
                 </p>
                 <p className="text-xs text-muted-foreground">
                   {(attachedFile.size / 1024).toFixed(1)} KB
+                  {attachedFormat && ` · ${getDocumentFormatLabel(attachedFormat)}`}
                 </p>
               </div>
               <button
@@ -128,7 +124,7 @@ export default function ChatInput({ onSend, disabled = false, voiceActive = fals
             <input
               ref={fileInputRef}
               type="file"
-              accept=".pdf,.doc,.docx,.txt,.md"
+              accept={DOCUMENT_ACCEPT}
               onChange={handleFileChange}
               className="hidden"
               aria-label="File input"
@@ -141,7 +137,7 @@ export default function ChatInput({ onSend, disabled = false, voiceActive = fals
               className="p-3 hover:bg-muted/50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex-shrink-0 flex items-center justify-start"
               style={{ height: "44px" }}
               aria-label="Attach file"
-              title="Attach file (PDF, Word, or Text)"
+              title="Attach file (PDF, Word, PowerPoint, Excel, CSV, Text, Markdown or HTML)"
             >
               <Paperclip className="h-5 w-5 text-muted-foreground" />
             </button>
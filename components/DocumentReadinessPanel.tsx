@@ -0,0 +1,100 @@
+"use client";
+
+import { AlertTriangle, CheckCircle2, MessageSquare, XCircle } from "lucide-react";
+import { DocumentReadiness, ReadinessVerdict } from "@/lib/document-readiness";
+
+interface DocumentReadinessPanelProps {
+  readiness: DocumentReadiness;
+  onGenerate: (force: boolean) => void;
+  onContinueDiscovery: () => void;
+}
+
+const VERDICTS: Record<ReadinessVerdict, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  ready: {
+    label: "Ready to generate",
+    icon: CheckCircle2,
+    className: "border-green-500/20 bg-green-500/10 text-green-600 dark:text-green-400",
+  },
+  needs_review: {
+    label: "Some gaps",
+    icon: AlertTriangle,
+    className: "border-amber-500/20 bg-amber-500/10 text-amber-600 dark:text-amber-400",
+  },
+  not_ready: {
+    label: "Not ready yet",
+    icon: XCircle,
+    className: "border-destructive/20 bg-destructive/10 text-destructive",
+  },
+};
+
+function scoreColor(score: number): string {
+  if (score >= 80) return "bg-green-500";
+  if (score >= 50) return "bg-amber-500";
+  return "bg-destructive";
+}
+
+export default function DocumentReadinessPanel({ readiness, onGenerate, onContinueDiscovery }: DocumentReadinessPanelProps) {
+  const verdict = VERDICTS[readiness.verdict];
+  const Icon = verdict.icon;
+  const hasGaps = readiness.sections.some(section => section.gaps.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className={`flex items-start gap-3 rounded-lg border p-4 ${verdict.className}`}>
+        <Icon className="mt-0.5 h-5 w-5 shrink-0" />
+        <div>
+          <div className="font-semibold">{verdict.label} · {readiness.score}% complete</div>
+          <p className="text-sm">{readiness.message}</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {readiness.sections.map(section => (
+          <section key={section.section} className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-sm font-semibold">{section.name}</h3>
+              <span className="text-xs text-muted-foreground">{section.score}%</span>
+            </div>
+            <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+              <div className={`h-full ${scoreColor(section.score)}`} style={{ width: `${section.score}%` }} />
+            </div>
+            {section.gaps.length > 0 && (
+              <ul className="space-y-1.5">
+                {section.gaps.map(gap => (
+                  <li key={gap.field} className="text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{gap.label}</span>
+                      <span className={`rounded-full px-2 py-0.5 text-xs ${gap.status === "weak" ? "bg-amber-500/10 text-amber-600" : "bg-muted text-muted-foreground"}`}>
+                        {gap.reason}
+                      </span>
+                      {!gap.required && <span className="text-xs text-muted-foreground">optional</span>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{gap.question}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2 border-t border-border pt-4 text-sm">
+        {hasGaps && (
+          <button
+            onClick={onContinueDiscovery}
+            className={`flex items-center gap-2 rounded-lg px-4 py-2 transition-colors ${readiness.verdict === "ready" ? "hover:bg-accent" : "bg-primary text-primary-foreground hover:bg-primary/90"}`}
+          >
+            <MessageSquare className="h-4 w-4" />
+            Continue discovery on these gaps
+          </button>
+        )}
+        <button
+          onClick={() => onGenerate(readiness.verdict === "not_ready")}
+          className={`rounded-lg px-4 py-2 transition-colors ${readiness.verdict === "ready" ? "bg-primary text-primary-foreground hover:bg-primary/90" : "border border-border hover:bg-accent"}`}
+        >
+          {readiness.verdict === "not_ready" ? "Generate anyway" : "Generate document"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { DiffRow, diffDocuments, diffICPSnapshots } from "@/lib/document-diff";
+import { ICPDocumentVersion, ICPDocumentVersionSummary } from "@/types/document";
+
+interface DocumentVersionDiffProps {
+  chatId: string;
+}
+
+const ROW_STYLES: Record<DiffRow["type"], { left: string; right: string }> = {
+  same: { left: "bg-background", right: "bg-background" },
+  removed: { left: "bg-red-50 text-red-900 dark:bg-red-950/40 dark:text-red-200", right: "bg-muted" },
+  added: { left: "bg-muted", right: "bg-green-50 text-green-900 dark:bg-green-950/40 dark:text-green-200" },
+  changed: {
+    left: "bg-amber-50 text-amber-900 dark:bg-amber-950/40 dark:text-amber-200",
+    right: "bg-amber-50 text-amber-900 dark:bg-amber-950/40 dark:text-amber-200",
+  },
+};
+
+const STATUS_LABELS = { added: "New section", removed: "Removed", changed: "Changed", unchanged: "Unchanged" };
+
+function versionLabel(version: ICPDocumentVersionSummary): string {
+  const date = new Date(version.created_at).toLocaleString();
+  return `v${version.version} · ${date}${version.model ? ` · ${version.model}` : ""}`;
+}
+
+export default function DocumentVersionDiff({ chatId }: DocumentVersionDiffProps) {
+  const [versions, setVersions] = useState<ICPDocumentVersionSummary[] | null>(null);
+  const [loaded, setLoaded] = useState<Record<number, ICPDocumentVersion>>({});
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Versions already requested, so a version isn't fetched twice while the other one loads
+  const requested = useRef(new Set<number>());
+
+  useEffect(() => {
+    fetch(`/api/chats/${chatId}/document/versions`)
+      .then(response => {
+        if (!response.ok) throw new Error("Failed to load document versions");
+        return response.json();
+      })
+      .then(data => {
+        const list: ICPDocumentVersionSummary[] = data.versions || [];
+        setVersions(list);
+        // Newest against the one before it
+        if (list.length >= 2) {
+          setTo(list[0].version);
+          setFrom(list[1].version);
+        }
+      })
+      .catch(err => setError(err.message));
+  }, [chatId]);
+
+  useEffect(() => {
+    for (const version of [from, to]) {
+      if (version === null || requested.current.has(version)) continue;
+      requested.current.add(version);
+      fetch(`/api/chats/${chatId}/document/versions/${version}`)
+        .then(response => {
+          if (!response.ok) throw new Error(`Failed to load version ${version}`);
+          return response.json();
+        })
+        .then(data => setLoaded(current => ({ ...current, [version]: data.version })))
+        .catch(err => setError(err.message));
+    }
+  }, [chatId, from, to]);
+
+  const before = from !== null ? loaded[from] : undefined;
+  const after = to !== null ? loaded[to] : undefined;
+
+  const sections = useMemo(
+    () => (before && after ? diffDocuments(before.document, after.document) : []),
+    [before, after]
+  );
+  const fieldChanges = useMemo(
+    () => (before && after ? diffICPSnapshots(before.icp_snapshot, after.icp_snapshot) : []),
+    [before, after]
+  );
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (!versions) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading versions...
+      </div>
+    );
+  }
+
+  if (versions.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {versions.length === 0 ? "No saved versions yet." : "Only one version so far."} Generate the document again after more discovery to compare versions.
+      </p>
+    );
+  }
+
+  const visibleSections = showUnchanged ? sections : sections.filter(section => section.status !== "unchanged");
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        {[
+          { label: "Older", value: from, onChange: setFrom },
+          { label: "Newer", value: to, onChange: setTo },
+        ].map(({ label, value, onChange }) => (
+          <label key={label} className="space-y-1 text-sm">
+            <span className="font-medium">{label}</span>
+            <select
+              value={value ?? ""}
+              onChange={(e) => onChange(parseInt(e.target.value, 10))}
+              className="w-full px-2 py-2 bg-background border border-border rounded-lg"
+            >
+              {versions.map(version => (
+                <option key={version.version} value={version.version}>{versionLabel(version)}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {!before || !after ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      ) : (
+        <>
+          {fieldChanges.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">ICP changes ({fieldChanges.length})</h3>
+              <div className="rounded-lg border border-border divide-y divide-border text-sm">
+                {fieldChanges.map(change => (
+                  <div key={change.field} className="grid grid-cols-[10rem_1fr_1fr] gap-3 px-3 py-2">
+                    <span className="font-medium">{change.label}</span>
+                    <span className="text-muted-foreground line-through decoration-red-400">{change.before || "—"}</span>
+                    <span>{change.after || "—"}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Document</h3>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+              Show unchanged sections
+            </label>
+          </div>
+
+          {visibleSections.length === 0 && (
+            <p className="text-sm text-muted-foreground">The two versions have the same content.</p>
+          )}
+
+          {visibleSections.map(section => (
+            <section key={section.id} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <h4 className="font-semibold">{section.title}</h4>
+                <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">{STATUS_LABELS[section.status]}</span>
+              </div>
+              <div className="grid grid-cols-2 gap-px overflow-hidden rounded-lg border border-border bg-border text-sm">
+                {section.rows.map((row, i) => (
+                  <div key={i} className="contents">
+                    <div className={`px-3 py-1.5 whitespace-pre-wrap ${ROW_STYLES[row.type].left}`}>{row.left ?? ""}</div>
+                    <div className={`px-3 py-1.5 whitespace-pre-wrap ${ROW_STYLES[row.type].right}`}>{row.right ?? ""}</div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { X, FileText, Loader2 } from "lucide-react";
+import { detectDocumentFormat, getDocumentFormatLabel } from "@/lib/document-formats";
 
 interface FileAttachmentCardProps {
   file: File;
@@ -23,9 +24,11 @@ export default function FileAttachmentCard({ file, onRemove, status = 'pending'
     return `${truncated}...${extension}`;
   };
 
+  const format = detectDocumentFormat(file.name, file.type);
+
   const getStatusText = (): string => {
     switch (status) {
-      case 'done': return 'Processed';
+      case 'done': return format ? `Parsed as ${getDocumentFormatLabel(format)}` : 'Processed';
       default: return '';
     }
   };
@@ -48,6 +51,7 @@ export default function FileAttachmentCard({ file, onRemove, status = 'pending'
         </div>
         <p className="text-xs text-muted-foreground">
           {formatFileSize(file.size)}
+          {format && ` · ${getDocumentFormatLabel(format)}`}
         </p>
       </div>
       {status === 'pending' ? (
@@ -1,12 +1,19 @@
 "use client";
 
-import { Check, X, Edit2 } from "lucide-react";
+import { Check, X, Edit2, AlertTriangle } from "lucide-react";
 import { useState } from "react";
-import { ICPData } from "@/types/icp";
+import { ICPData, ICPFieldProvenance, isLowConfidence } from "@/types/icp";
 
 interface ICPConfirmationCardProps {
   section: string;
-  fields: { key: keyof ICPData; label: string; value: string | undefined }[];
+  fields: {
+    key: keyof ICPData;
+    label: string;
+    value: string | undefined;
+    provenance?: ICPFieldProvenance;
+  }[];
+  // The user already signed off on this section
+  confirmed?: boolean;
   onConfirm: () => void;
   onEdit: (field: keyof ICPData, value: string) => void;
 }
@@ -14,6 +21,7 @@ interface ICPConfirmationCardProps {
 export default function ICPConfirmationCard({
   section,
   fields,
+  confirmed,
   onConfirm,
   onEdit,
 }: ICPConfirmationCardProps) {
@@ -40,6 +48,18 @@ export default function ICPConfirmationCard({
     setEditedValues({});
   };
 
+  // Tooltip explaining where a value came from
+  const describeProvenance = (provenance: ICPFieldProvenance) => {
+    const parts = [
+      `Source: ${provenance.source.replace(/_/g, " ")}${provenance.source_id ? ` (${provenance.source_id})` : ""}`,
+      `Confidence: ${Math.round(provenance.confidence * 100)}%`,
+    ];
+    if (provenance.evidence) {
+      parts.push(`Evidence: "${provenance.evidence}"`);
+    }
+    return parts.join("\n");
+  };
+
   const handleCancel = () => {
     setIsEditing(false);
     setEditedValues({});
@@ -76,13 +96,20 @@ export default function ICPConfirmationCard({
               >
                 <Edit2 className="h-4 w-4 text-muted-foreground" />
               </button>
-              <button
-                onClick={onConfirm}
-                className="rounded p-1 hover:bg-green-500/10 transition-colors"
-                aria-label="Confirm"
-              >
-                <Check className="h-4 w-4 text-green-600" />
-              </button>
+              {confirmed ? (
+                <span className="inline-flex items-center gap-1 text-xs font-medium text-green-600">
+                  <Check className="h-3 w-3" />
+                  Confirmed
+                </span>
+              ) : (
+                <button
+                  onClick={onConfirm}
+                  className="rounded p-1 hover:bg-green-500/10 transition-colors"
+                  aria-label="Confirm"
+                >
+                  <Check className="h-4 w-4 text-green-600" />
+                </button>
+              )}
             </>
           )}
         </div>
@@ -90,9 +117,21 @@ export default function ICPConfirmationCard({
       <div className="space-y-2">
         {fields.map((field) => {
           if (!field.value) return null;
-          
+
+          const lowConfidence = isLowConfidence(field.provenance);
+
           return (
-            <div key={field.key} className="text-sm">
+            <div
+              key={field.key}
+              className={`text-sm ${lowConfidence ? "rounded border border-amber-500/40 bg-amber-500/5 px-2 py-1" : ""}`}
+              title={field.provenance ? describeProvenance(field.provenance) : undefined}
+            >
+              {lowConfidence && (
+                <span className="mr-1 inline-flex items-center gap-1 text-xs font-medium text-amber-600">
+                  <AlertTriangle className="h-3 w-3" />
+                  Please verify
+                </span>
+              )}
               <span className="font-medium text-muted-foreground">{field.label}:</span>{" "}
               {isEditing && editedValues[field.key] !== undefined ? (
                 <input
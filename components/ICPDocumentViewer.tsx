@@ -1,40 +1,435 @@
 "use client";
 
-import { X, Download, Copy, Check } from "lucide-react";
-import { useState } from "react";
+import { X, Download, Copy, Check, ChevronDown, History, Loader2, Lock, Pencil, RefreshCw, Unlock } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import DocumentReadinessPanel from "@/components/DocumentReadinessPanel";
+import DocumentVersionDiff from "@/components/DocumentVersionDiff";
+import {
+  BUYING_ROLE_LABELS,
+  GENERATED_SECTIONS,
+  buildSourcesTable,
+  documentToPlainText,
+  isKeyValueTable,
+  sectionToEditableText,
+  splitCitationMarkers,
+  toRenderBlocks,
+} from "@/lib/icp-document";
+import { DocumentReadiness } from "@/lib/document-readiness";
+import { DocumentExportFormat, DocumentTemplateSummary, ICPDocument, ICPDocumentBlock, ICPDocumentSection, ICPTableBlock } from "@/types/document";
 
 interface ICPDocumentViewerProps {
-  document: string;
+  // As much of the document as has been generated, null until generation starts
+  document: ICPDocument | null;
+  generating: boolean;
+  // Sections still being written
+  pendingSections: string[];
+  // Sections that failed or were cancelled, with the reason
+  failedSections: Record<string, string>;
+  error: string | null;
+  // Shown until generation starts
+  readiness: DocumentReadiness | null;
+  checkingReadiness: boolean;
   chatId: string;
+  onGenerate: (force: boolean) => void;
+  onContinueDiscovery: () => void;
+  onCancel: () => void;
+  onRegenerateSection: (sectionId: string, guidance?: string) => void;
+  onUpdateSection: (sectionId: string, changes: { text?: string; locked?: boolean }) => Promise<boolean>;
   onClose: () => void;
 }
 
-export default function ICPDocumentViewer({ document, chatId, onClose }: ICPDocumentViewerProps) {
+const SECTION_ORDER = ["at_a_glance", ...GENERATED_SECTIONS.map(section => section.id)];
+
+const EXPORT_FORMATS: { format: DocumentExportFormat; label: string }[] = [
+  { format: "pdf", label: "PDF" },
+  { format: "docx", label: "Word (.docx)" },
+  { format: "md", label: "Markdown" },
+];
+
+function CitedText({ text }: { text: string }) {
+  return (
+    <>
+      {splitCitationMarkers(text).map((part, i) =>
+        part.citation ? (
+          <sup key={i} className="ml-0.5 text-[10px] text-muted-foreground">{part.text}</sup>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function TableBlock({ block }: { block: ICPTableBlock }) {
+  const keyValue = isKeyValueTable(block);
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-sm">
+        {!keyValue && (
+          <thead>
+            <tr className="bg-muted">
+              {block.columns.map((column, i) => (
+                <th key={i} className="border-b border-border px-3 py-2 text-left font-semibold">{column}</th>
+              ))}
+            </tr>
+          </thead>
+        )}
+        <tbody>
+          {block.rows.map((row, r) => (
+            <tr key={r} className="border-b border-border align-top">
+              {block.columns.map((_column, c) => (
+                <td key={c} className={`px-3 py-2 ${keyValue && c === 0 ? "w-1/3 font-medium" : ""}`}>
+                  <CitedText text={row[c] || ""} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ItemList({ items }: { items: string[] }) {
+  return (
+    <ul className="list-disc space-y-1 pl-5 text-sm leading-relaxed">
+      {items.map((item, i) => (
+        <li key={i}><CitedText text={item} /></li>
+      ))}
+    </ul>
+  );
+}
+
+function DocumentBlock({ block }: { block: ICPDocumentBlock }) {
+  switch (block.type) {
+    case "paragraph":
+      return <p className="text-sm leading-relaxed"><CitedText text={block.text} /></p>;
+
+    case "bullets":
+      return <ItemList items={block.items} />;
+
+    case "table":
+      return <TableBlock block={block} />;
+
+    case "personas":
+      return (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {block.personas.map((persona, i) => (
+            <div key={i} className="rounded-lg border border-border p-4 space-y-2">
+              <div>
+                <div className="font-semibold"><CitedText text={persona.name} /></div>
+                {persona.role && persona.role !== persona.name && (
+                  <div className="text-xs text-muted-foreground"><CitedText text={persona.role} /></div>
+                )}
+              </div>
+              <span className="inline-block rounded-full bg-muted px-2 py-0.5 text-xs font-medium">
+                {BUYING_ROLE_LABELS[persona.buyingRole]}
+              </span>
+              {persona.goals.length > 0 && (
+                <div>
+                  <div className="text-xs font-semibold uppercase text-muted-foreground">Goals</div>
+                  <ItemList items={persona.goals} />
+                </div>
+              )}
+              {persona.frustrations.length > 0 && (
+                <div>
+                  <div className="text-xs font-semibold uppercase text-muted-foreground">Frustrations</div>
+                  <ItemList items={persona.frustrations} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      );
+
+    case "value_proposition":
+      return (
+        <div className="space-y-3">
+          <p className="rounded-lg border-l-4 border-primary bg-muted/40 px-4 py-3 text-sm font-medium leading-relaxed">
+            <CitedText text={block.statement} />
+          </p>
+          {block.benefits.length > 0 && (
+            <div>
+              <div className="text-xs font-semibold uppercase text-muted-foreground">Key Benefits</div>
+              <ItemList items={block.benefits} />
+            </div>
+          )}
+          {block.successMetrics.length > 0 && (
+            <div>
+              <div className="text-xs font-semibold uppercase text-muted-foreground">Success Metrics</div>
+              <ItemList items={block.successMetrics} />
+            </div>
+          )}
+        </div>
+      );
+
+    default:
+      // Pain points and anything else exporters know how to lower
+      return (
+        <>
+          {toRenderBlocks(block).map((lowered, i) =>
+            lowered.type === "table" ? <TableBlock key={i} block={lowered} /> :
+            lowered.type === "subheading" ? <h4 key={i} className="text-sm font-semibold">{lowered.text}</h4> :
+            <DocumentBlock key={i} block={lowered} />
+          )}
+        </>
+      );
+  }
+}
+
+interface DocumentSectionViewProps {
+  id: string;
+  title: string;
+  // Null while the section is still being written, or when it failed
+  section: ICPDocumentSection | null;
+  pending: boolean;
+  failure?: string;
+  generating: boolean;
+  onRegenerate: (guidance?: string) => void;
+  onUpdate: (changes: { text?: string; locked?: boolean }) => Promise<boolean>;
+}
+
+function DocumentSectionView({ id, title, section, pending, failure, generating, onRegenerate, onUpdate }: DocumentSectionViewProps) {
+  const [mode, setMode] = useState<"view" | "edit" | "guidance">("view");
+  const [draft, setDraft] = useState("");
+  const [guidance, setGuidance] = useState("");
+  const [saving, setSaving] = useState(false);
+  // The at-a-glance table comes straight from the ICP data
+  const generated = id !== "at_a_glance";
+  const locked = !!section?.locked;
+  const busy = generating || saving;
+
+  const startEditing = () => {
+    setDraft(section ? sectionToEditableText(section) : "");
+    setMode("edit");
+  };
+
+  const save = async (changes: { text?: string; locked?: boolean }) => {
+    setSaving(true);
+    const saved = await onUpdate(changes);
+    setSaving(false);
+    if (saved && changes.text !== undefined) setMode("view");
+  };
+
+  const regenerate = () => {
+    onRegenerate(guidance.trim() || undefined);
+    setGuidance("");
+    setMode("view");
+  };
+
+  const actionClass = "flex items-center gap-1 rounded px-2 py-1 hover:bg-accent transition-colors disabled:opacity-50";
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between gap-2 border-b border-border pb-1">
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-semibold">{title}</h3>
+          {section?.editedAt && (
+            <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">Edited</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          {pending ? (
+            <>
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Writing...
+            </>
+          ) : failure ? (
+            <span className="text-destructive">{failure}</span>
+          ) : null}
+          {!pending && generated && mode === "view" && (
+            <>
+              <button
+                onClick={() => setMode("guidance")}
+                disabled={busy || locked}
+                className={actionClass}
+                title={locked ? "Unlock the section to regenerate it" : "Write this section again"}
+              >
+                <RefreshCw className="h-3 w-3" />
+                Regenerate
+              </button>
+              <button onClick={startEditing} disabled={busy} className={actionClass} title="Edit this section's text">
+                <Pencil className="h-3 w-3" />
+                Edit
+              </button>
+            </>
+          )}
+          {section && generated && (
+            <button
+              onClick={() => save({ locked: !locked })}
+              disabled={busy}
+              className={`${actionClass} ${locked ? "text-foreground" : ""}`}
+              title={locked ? "Locked - regenerating the document keeps this section. Click to unlock" : "Lock - keep this section when the document is regenerated"}
+            >
+              {locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+              {locked ? "Locked" : "Lock"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {mode === "guidance" && (
+        <div className="space-y-2 rounded-lg border border-border p-3">
+          <textarea
+            value={guidance}
+            onChange={(e) => setGuidance(e.target.value)}
+            rows={2}
+            maxLength={1000}
+            placeholder='Optional guidance, e.g. "Focus on the approval process and who signs off"'
+            className="w-full resize-y rounded-lg border border-border bg-background px-3 py-2 text-sm"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2 text-sm">
+            <button onClick={() => setMode("view")} className="rounded-lg px-3 py-1.5 hover:bg-accent transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={regenerate}
+              disabled={busy}
+              className="rounded-lg bg-primary px-3 py-1.5 text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              Regenerate
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === "edit" ? (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={Math.min(20, Math.max(6, draft.split("\n").length + 1))}
+            className="w-full resize-y rounded-lg border border-border bg-background px-3 py-2 font-mono text-sm"
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">
+            Separate paragraphs with a blank line and start bullet points with &quot;- &quot;. Tables, persona cards and the value proposition stay as they are.
+          </p>
+          <div className="flex justify-end gap-2 text-sm">
+            <button onClick={() => setMode("view")} className="rounded-lg px-3 py-1.5 hover:bg-accent transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={() => save({ text: draft })}
+              disabled={busy || !draft.trim()}
+              className="rounded-lg bg-primary px-3 py-1.5 text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      ) : section ? (
+        <div className={`space-y-3 ${pending ? "opacity-50" : ""}`}>
+          {section.blocks.map((block, i) => (
+            <DocumentBlock key={i} block={block} />
+          ))}
+        </div>
+      ) : pending ? (
+        <div className="space-y-2">
+          <div className="h-3 w-full animate-pulse rounded bg-muted" />
+          <div className="h-3 w-5/6 animate-pulse rounded bg-muted" />
+          <div className="h-3 w-2/3 animate-pulse rounded bg-muted" />
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+export default function ICPDocumentViewer({
+  document: model,
+  generating,
+  pendingSections,
+  failedSections,
+  error,
+  readiness,
+  checkingReadiness,
+  chatId,
+  onGenerate,
+  onContinueDiscovery,
+  onCancel,
+  onRegenerateSection,
+  onUpdateSection,
+  onClose,
+}: ICPDocumentViewerProps) {
   const [copied, setCopied] = useState(false);
   const [downloading, setDownloading] = useState(false);
+  const [showFormats, setShowFormats] = useState(false);
+  const [templates, setTemplates] = useState<DocumentTemplateSummary[]>([]);
+  const [templateId, setTemplateId] = useState<string>("");
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [showVersions, setShowVersions] = useState(false);
+
+  const text = useMemo(() => (model ? documentToPlainText(model) : ""), [model]);
+
+  // Sections in document order, with placeholders for those still being written or that failed
+  const sections = useMemo(() => {
+    const rank = (id: string) => (SECTION_ORDER.includes(id) ? SECTION_ORDER.indexOf(id) : SECTION_ORDER.length);
+    const present: { id: string; title: string; section: ICPDocumentSection | null }[] =
+      (model?.sections || []).map(section => ({ id: section.id, title: section.title, section }));
+    const placeholders = GENERATED_SECTIONS
+      .filter(({ id }) => (pendingSections.includes(id) || failedSections[id]) && !present.some(entry => entry.id === id))
+      .map(({ id, title }) => ({ id, title, section: null }));
+    return [...present, ...placeholders].sort((a, b) => rank(a.id) - rank(b.id));
+  }, [model, pendingSections, failedSections]);
+
+  useEffect(() => {
+    fetch("/api/document-templates")
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!data) return;
+        setTemplates(data.templates || []);
+        setTemplateId(data.defaultTemplate || data.templates?.[0]?.id || "");
+      })
+      .catch(error => console.error("Error loading document templates:", error));
+  }, []);
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(document);
+    navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleDownload = async () => {
+  // Use window.document to avoid conflict with the 'document' prop
+  const saveBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    window.document.body.appendChild(a);
+    a.click();
+    window.document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadText = () => {
+    saveBlob(new Blob([text], { type: 'text/plain' }), `ICP-Document-${Date.now()}.txt`);
+  };
+
+  const handleExport = async (format: DocumentExportFormat) => {
+    if (!model) return;
+    setShowFormats(false);
     setDownloading(true);
+    setExportError(null);
     try {
-      // Create a text file download
-      const blob = new Blob([document], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      // Use window.document to avoid conflict with the 'document' prop
-      const a = window.document.createElement('a');
-      a.href = url;
-      a.download = `ICP-Document-${Date.now()}.txt`;
-      window.document.body.appendChild(a);
-      a.click();
-      window.document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error('Error downloading document:', error);
+      const response = await fetch(`/api/chats/${chatId}/document/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ document: model, format, template: templateId || undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export document');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const match = disposition.match(/filename\*=UTF-8''([^;]+)/);
+      const fileName = match ? decodeURIComponent(match[1]) : `ICP-Document.${format}`;
+      saveBlob(await response.blob(), fileName);
+    } catch (error: any) {
+      console.error('Error exporting document:', error);
+      setExportError(error.message || 'Failed to export document');
     } finally {
       setDownloading(false);
     }
@@ -45,11 +440,45 @@ export default function ICPDocumentViewer({ document, chatId, onClose }: ICPDocu
       <div className="relative w-full max-w-4xl max-h-[90vh] bg-background rounded-lg shadow-xl overflow-hidden flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-border">
-          <h2 className="text-xl font-semibold">Your ICP Document</h2>
+          <h2 className="text-xl font-semibold">
+            {showVersions ? 'Compare Versions' : !model && !generating && (readiness || checkingReadiness) ? 'Document Readiness' : 'Your ICP Document'}
+          </h2>
           <div className="flex items-center gap-2">
+            {generating && (
+              <button
+                onClick={onCancel}
+                className="flex items-center gap-2 px-3 py-2 text-sm rounded-lg hover:bg-accent transition-colors"
+                title="Stop generating - finished sections are kept"
+              >
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={() => setShowVersions(!showVersions)}
+              className={`flex items-center gap-2 px-3 py-2 text-sm rounded-lg transition-colors ${showVersions ? 'bg-accent' : 'hover:bg-accent'}`}
+              title="Compare generated versions"
+            >
+              <History className="h-4 w-4" />
+              {showVersions ? 'Back to document' : 'Versions'}
+            </button>
+            {model && templates.length > 0 && (
+              <select
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className="px-2 py-2 text-sm bg-background border border-border rounded-lg"
+                aria-label="Document template"
+                title={templates.find(t => t.id === templateId)?.description}
+              >
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            )}
             <button
               onClick={handleCopy}
-              className="flex items-center gap-2 px-3 py-2 text-sm rounded-lg hover:bg-accent transition-colors"
+              disabled={!model}
+              className="flex items-center gap-2 px-3 py-2 text-sm rounded-lg hover:bg-accent transition-colors disabled:opacity-50"
             >
               {copied ? (
                 <>
@@ -63,14 +492,36 @@ export default function ICPDocumentViewer({ document, chatId, onClose }: ICPDocu
                 </>
               )}
             </button>
-            <button
-              onClick={handleDownload}
-              disabled={downloading}
-              className="flex items-center gap-2 px-3 py-2 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
-            >
-              <Download className="h-4 w-4" />
-              {downloading ? 'Downloading...' : 'Download'}
-            </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowFormats(!showFormats)}
+                disabled={downloading || generating || !model}
+                className="flex items-center gap-2 px-3 py-2 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                <Download className="h-4 w-4" />
+                {downloading ? 'Exporting...' : 'Download'}
+                <ChevronDown className="h-3 w-3" />
+              </button>
+              {showFormats && (
+                <div className="absolute right-0 mt-1 w-40 bg-background border border-border rounded-lg shadow-lg py-1 z-10">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      className="w-full px-3 py-2 text-left text-sm hover:bg-accent transition-colors"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => { setShowFormats(false); handleDownloadText(); }}
+                    className="w-full px-3 py-2 text-left text-sm hover:bg-accent transition-colors"
+                  >
+                    Plain text
+                  </button>
+                </div>
+              )}
+            </div>
             <button
               onClick={onClose}
               className="p-2 rounded-lg hover:bg-accent transition-colors"
@@ -81,16 +532,63 @@ export default function ICPDocumentViewer({ document, chatId, onClose }: ICPDocu
           </div>
         </div>
 
+        {(error || exportError) && (
+          <div className="px-4 py-2 text-sm text-destructive bg-destructive/10 border-b border-border">
+            {error || exportError}
+          </div>
+        )}
+
         {/* Document Content */}
         <div className="flex-1 overflow-y-auto p-6">
-          <div className="prose prose-sm max-w-none">
-            <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed text-foreground bg-muted/30 p-6 rounded-lg">
-              {document}
-            </pre>
-          </div>
+          {showVersions ? (
+            <DocumentVersionDiff chatId={chatId} />
+          ) : model ? (
+            <article className="max-w-none space-y-6 text-foreground">
+              <header>
+                <h1 className="text-2xl font-bold">{model.title}</h1>
+                {model.companyName && (
+                  <p className="text-sm text-muted-foreground">{model.companyName}</p>
+                )}
+              </header>
+              {sections.map(({ id, title, section }) => (
+                <DocumentSectionView
+                  key={id}
+                  id={id}
+                  title={title}
+                  section={section}
+                  pending={pendingSections.includes(id)}
+                  failure={failedSections[id]}
+                  generating={generating}
+                  onRegenerate={(guidance) => onRegenerateSection(id, guidance)}
+                  onUpdate={(changes) => onUpdateSection(id, changes)}
+                />
+              ))}
+              {model.sources.length > 0 && (
+                <section className="space-y-3">
+                  <h3 className="text-lg font-semibold border-b border-border pb-1">Sources</h3>
+                  <DocumentBlock block={buildSourcesTable(model.sources)} />
+                </section>
+              )}
+            </article>
+          ) : generating ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Preparing document...
+            </div>
+          ) : readiness ? (
+            <DocumentReadinessPanel
+              readiness={readiness}
+              onGenerate={onGenerate}
+              onContinueDiscovery={onContinueDiscovery}
+            />
+          ) : checkingReadiness ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking what the document can draw on...
+            </div>
+          ) : null}
         </div>
       </div>
     </div>
   );
 }
-
@@ -1,6 +1,6 @@
 "use client";
 
-import { Pencil, Search, MessageSquare, X, Trash2, Plus, MoreVertical } from "lucide-react";
+import { Pencil, Search, MessageSquare, X, Trash2, Plus, MoreVertical, LogIn, LogOut, UserRound } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
 
 interface Chat {
@@ -21,6 +21,10 @@ interface SidebarProps {
   onEditChat?: (chatId: string, newTitle: string) => void;
   onDeleteAllChats?: () => void;
   selectedChatId?: string;
+  // Signed-in account, null while anonymous
+  account?: { email: string | null } | null;
+  onSignIn?: () => void;
+  onSignOut?: () => void;
 }
 
 export default function Sidebar({
@@ -33,6 +37,9 @@ export default function Sidebar({
   onEditChat,
   onDeleteAllChats,
   selectedChatId,
+  account,
+  onSignIn,
+  onSignOut,
 }: SidebarProps) {
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -300,6 +307,35 @@ export default function Sidebar({
           )}
         </div>
       </div>
+
+      {/* Account */}
+      {(onSignIn || onSignOut) && (
+        <div className="border-t border-border p-3">
+          {account ? (
+            <div className="flex items-center gap-2 px-1">
+              <UserRound className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate text-sm" title={account.email || undefined}>{account.email || "Signed in"}</span>
+              <button
+                onClick={onSignOut}
+                className="rounded-md p-1.5 text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+                aria-label="Sign out"
+                title="Sign out"
+              >
+                <LogOut className="h-4 w-4" />
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={onSignIn}
+              className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-sm text-muted-foreground hover:bg-muted transition-colors"
+              title="Keep your chats and open them on other devices"
+            >
+              <LogIn className="h-4 w-4" />
+              <span>Sign in to save your chats</span>
+            </button>
+          )}
+        </div>
+      )}
     </aside>
   );
 }
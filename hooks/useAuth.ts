@@ -0,0 +1,129 @@
+'use client';
+
+/**
+ * useAuth Hook - accounts with Supabase Auth
+ *
+ * Signs in with email and password or a magic link through the browser
+ * Supabase client, which keeps the session and refreshes its token. Every new
+ * access token is sent to /api/auth/session, which stores it in an httpOnly
+ * cookie for the API routes and claims the browser's anonymous session and
+ * its chats for the account.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { AuthUser } from '@/lib/auth';
+
+export interface UseAuthOptions {
+  // Called after each sign-in with the number of anonymous chats moved into the account
+  onSignIn?: (user: AuthUser, claimedChats: number) => void;
+}
+
+export interface Auth {
+  user: AuthUser | null;
+  // False until the stored session (if any) has been checked - API calls before then are anonymous
+  isReady: boolean;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  // Resolves true when the account still has to be confirmed from the email
+  signUp: (email: string, password: string) => Promise<boolean>;
+  sendMagicLink: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export function useAuth({ onSignIn }: UseAuthOptions = {}): Auth {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const onSignInRef = useRef(onSignIn);
+  onSignInRef.current = onSignIn;
+
+  // Mirror the Supabase session into the server's cookie
+  const syncSession = useCallback(async (session: Session | null, announce: boolean) => {
+    try {
+      if (!session) {
+        await fetch('/api/auth/session', { method: 'DELETE' });
+        setUser(null);
+        return;
+      }
+
+      const response = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ access_token: session.access_token }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign in');
+      }
+
+      setUser(data.user);
+      if (announce) {
+        onSignInRef.current?.(data.user, data.claimedChats || 0);
+      }
+    } catch (error) {
+      console.error('Error syncing auth session:', error);
+      setUser(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Also fires once on load (INITIAL_SESSION), including when a magic link brought the user back
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      switch (event) {
+        case 'INITIAL_SESSION':
+          syncSession(session, false).finally(() => setIsReady(true));
+          break;
+        case 'SIGNED_IN':
+          syncSession(session, true);
+          break;
+        case 'TOKEN_REFRESHED':
+        case 'USER_UPDATED':
+          syncSession(session, false);
+          break;
+        case 'SIGNED_OUT':
+          syncSession(null, false);
+          break;
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [syncSession]);
+
+  const signInWithPassword = useCallback(async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  }, []);
+
+  const signUp = useCallback(async (email: string, password: string) => {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: window.location.origin },
+    });
+    if (error) throw error;
+    return !data.session;
+  }, []);
+
+  const sendMagicLink = useCallback(async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    });
+    if (error) throw error;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  }, []);
+
+  return {
+    user,
+    isReady,
+    signInWithPassword,
+    signUp,
+    sendMagicLink,
+    signOut,
+  };
+}
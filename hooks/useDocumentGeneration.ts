@@ -0,0 +1,246 @@
+'use client';
+
+/**
+ * useDocumentGeneration Hook - streamed ICP document generation
+ *
+ * Reads the Server-Sent Events of POST /api/chats/[chatId]/generate-document
+ * and builds up the document as its sections arrive. One request runs at a
+ * time: the whole document, or a single section being regenerated. Edits and
+ * locks are saved per section with PATCH /api/chats/[chatId]/document/sections/[sectionId].
+ * Before a full generation the viewer opens on the readiness report
+ * (GET /api/chats/[chatId]/document/readiness).
+ */
+
+import { useState, useRef, useCallback } from 'react';
+import { replaceDocumentSection } from '@/lib/icp-document';
+import type { DocumentReadiness } from '@/lib/document-readiness';
+import { ICPDocument } from '@/types/document';
+
+export interface DocumentGeneration {
+  isOpen: boolean;
+  isGenerating: boolean;
+  // Everything received so far - complete once generation is done
+  document: ICPDocument | null;
+  // Sections still being written
+  pendingSections: string[];
+  // Sections that failed or were cancelled, with the reason
+  failedSections: Record<string, string>;
+  error: string | null;
+  // Completeness of the ICP, shown before generating
+  readiness: DocumentReadiness | null;
+  isCheckingReadiness: boolean;
+  // Open the viewer on the readiness report
+  checkReadiness: () => void;
+  // force generates even when the ICP isn't ready
+  generate: (force?: boolean) => void;
+  regenerateSection: (sectionId: string, guidance?: string) => void;
+  // Save a section's edited text or lock; resolves false when it couldn't be saved
+  updateSection: (sectionId: string, changes: { text?: string; locked?: boolean }) => Promise<boolean>;
+  cancel: () => void;
+  close: () => void;
+}
+
+export function useDocumentGeneration(chatId: string | undefined): DocumentGeneration {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [document, setDocument] = useState<ICPDocument | null>(null);
+  const [pendingSections, setPendingSections] = useState<string[]>([]);
+  const [failedSections, setFailedSections] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [readiness, setReadiness] = useState<DocumentReadiness | null>(null);
+  const [isCheckingReadiness, setIsCheckingReadiness] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(async (body: Record<string, unknown>) => {
+    if (!chatId || abortControllerRef.current) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsOpen(true);
+    setIsGenerating(true);
+    setError(null);
+
+    let pending: string[] = [];
+    const settle = (sectionId: string) => {
+      pending = pending.filter(id => id !== sectionId);
+      setPendingSections(pending);
+    };
+
+    const handleEvent = (data: any) => {
+      if (data.error) {
+        throw new Error(data.error);
+      }
+
+      if (data.done) {
+        setDocument(data.model);
+        return;
+      }
+
+      switch (data.type) {
+        case 'start':
+          pending = data.sections;
+          setPendingSections(pending);
+          setDocument(data.document);
+          setFailedSections(failed => Object.fromEntries(
+            Object.entries(failed).filter(([id]) => !pending.includes(id))
+          ));
+          break;
+
+        case 'section':
+          // No section means nothing to say - a section being regenerated keeps its old content
+          if (data.section) {
+            setDocument(current => (current ? replaceDocumentSection(current, data.id, data.section) : current));
+          }
+          settle(data.id);
+          break;
+
+        case 'section_error':
+          setFailedSections(failed => ({ ...failed, [data.id]: data.error }));
+          settle(data.id);
+          break;
+      }
+    };
+
+    try {
+      const response = await fetch(`/api/chats/${chatId}/generate-document`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: abortController.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        // Refused as not ready - the viewer goes back to the report
+        if (data.readiness) {
+          setReadiness(data.readiness);
+        }
+        throw new Error(data.error || 'Failed to generate document');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // Events can be split across chunks - keep the incomplete last line for the next one
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.startsWith('data: ')) {
+            handleEvent(JSON.parse(line.slice(6)));
+          }
+        }
+      }
+    } catch (err: any) {
+      const reason = abortController.signal.aborted ? 'Cancelled' : 'Not generated';
+      if (!abortController.signal.aborted) {
+        console.error('Error generating document:', err);
+        setError(err.message || 'Failed to generate document');
+      }
+      const unfinished = pending;
+      setFailedSections(failed => ({ ...failed, ...Object.fromEntries(unfinished.map(id => [id, reason])) }));
+    } finally {
+      abortControllerRef.current = null;
+      setPendingSections([]);
+      setIsGenerating(false);
+    }
+  }, [chatId]);
+
+  const checkReadiness = useCallback(async () => {
+    if (!chatId || abortControllerRef.current) return;
+
+    setIsOpen(true);
+    setDocument(null);
+    setFailedSections({});
+    setReadiness(null);
+    setError(null);
+    setIsCheckingReadiness(true);
+    try {
+      const response = await fetch(`/api/chats/${chatId}/document/readiness`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check document readiness');
+      }
+      setReadiness(data.readiness);
+    } catch (err: any) {
+      console.error('Error checking document readiness:', err);
+      setError(err.message || 'Failed to check document readiness');
+    } finally {
+      setIsCheckingReadiness(false);
+    }
+  }, [chatId]);
+
+  const generate = useCallback((force?: boolean) => {
+    if (abortControllerRef.current) return;
+    setDocument(null);
+    setFailedSections({});
+    setReadiness(null);
+    run(force ? { force: true } : {});
+  }, [run]);
+
+  const regenerateSection = useCallback((sectionId: string, guidance?: string) => {
+    run({ section: sectionId, guidance: guidance || undefined });
+  }, [run]);
+
+  const updateSection = useCallback(async (sectionId: string, changes: { text?: string; locked?: boolean }) => {
+    if (!chatId || abortControllerRef.current) return false;
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/chats/${chatId}/document/sections/${sectionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save section');
+      }
+
+      setDocument(data.model);
+      return true;
+    } catch (err: any) {
+      console.error('Error saving document section:', err);
+      setError(err.message || 'Failed to save section');
+      return false;
+    }
+  }, [chatId]);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const close = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setIsOpen(false);
+    setDocument(null);
+    setPendingSections([]);
+    setFailedSections({});
+    setReadiness(null);
+    setError(null);
+  }, []);
+
+  return {
+    isOpen,
+    isGenerating,
+    document,
+    pendingSections,
+    failedSections,
+    error,
+    readiness,
+    isCheckingReadiness,
+    checkReadiness,
+    generate,
+    regenerateSection,
+    updateSection,
+    cancel,
+    close,
+  };
+}
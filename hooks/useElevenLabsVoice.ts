@@ -9,12 +9,12 @@
  * 1. Listen to complete utterance (no live transcription display)
  * 2. Use VAD to detect when user finishes speaking
  * 3. Send complete audio to ElevenLabs STT
- * 4. Stream LLM response directly to TTS with minimal buffering
+ * 4. Stream LLM response directly to TTS (through the server's TTS relay) with minimal buffering
  * 5. AI speaks while generating (not text-first-then-speak)
  */
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { ElevenLabsWebSocketManager, TTSOptions } from '@/lib/elevenLabsWebSocket';
+import { TTSRelayClient, TTSOptions } from '@/lib/ttsRelayClient';
 import { TextBuffer } from '@/lib/textBuffer';
 import { AudioPlayer } from '@/lib/audioPlayer';
 import { voiceLogger } from '@/lib/voiceLogger';
@@ -78,8 +78,9 @@ export function useElevenLabsVoice(options: UseElevenLabsVoiceOptions) {
     onTextSpoken,
     onSpeakingComplete,
     sessionId,
-    voiceId = process.env.NEXT_PUBLIC_ELEVENLABS_VOICE_ID || 'JBFqnCBsd6RMkjVDRZzb',
-    modelId = 'eleven_flash_v2_5', // Use flash model for lower latency
+    // The TTS relay's configured voice and model when omitted
+    voiceId,
+    modelId,
   } = options;
 
   const [state, setState] = useState<VoiceState>('idle');
@@ -91,7 +92,7 @@ export function useElevenLabsVoice(options: UseElevenLabsVoiceOptions) {
   const lastStatUpdateTimeRef = useRef<number>(0);
 
   // Refs
-  const wsManagerRef = useRef<ElevenLabsWebSocketManager | null>(null);
+  const wsManagerRef = useRef<TTSRelayClient | null>(null);
   const audioPlayerRef = useRef<AudioPlayer | null>(null);
   const textBufferRef = useRef<TextBuffer | null>(null);
   const isActiveRef = useRef<boolean>(false);
@@ -172,16 +173,9 @@ export function useElevenLabsVoice(options: UseElevenLabsVoiceOptions) {
     const ttsOptions: TTSOptions = {
       voiceId,
       modelId,
-      voiceSettings: {
-        stability: 0.5,
-        similarityBoost: 0.75,
-        style: 0.0,
-        useSpeakerBoost: true,
-        speed: 1.0,
-      },
     };
 
-    const wsManager = new ElevenLabsWebSocketManager(ttsOptions);
+    const wsManager = new TTSRelayClient(ttsOptions);
 
     wsManager.onAudioChunk((chunk) => {
       if (audioPlayerRef.current && isActiveRef.current && !isBargingInRef.current) {
@@ -245,7 +239,10 @@ export function useElevenLabsVoice(options: UseElevenLabsVoiceOptions) {
       if (isActiveRef.current && wsManagerRef.current) {
         setTimeout(() => {
           if (isActiveRef.current && wsManagerRef.current) {
-            wsManagerRef.current.connect();
+            // Fails when no voice token is available (e.g. rate-limited) - the next disconnect retries
+            wsManagerRef.current.connect().catch((error) => {
+              log('TTS WebSocket reconnect failed', error);
+            });
           }
         }, 1000);
       }
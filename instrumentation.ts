@@ -0,0 +1,10 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ * Starts the TTS WebSocket relay next to the app - route handlers can't accept WebSocket upgrades.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startTTSRelay } = await import('@/lib/tts/relay');
+    startTTSRelay();
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Uploaded documents kept as attachments (server only)
+ *
+ * The original file goes to blob storage; the attachments row holds its
+ * extracted text, pages and ICP extraction results, linked to the chat and
+ * the user message it was sent with. The chat route builds document context
+ * from the stored text (see lib/document-retrieval.ts) instead of the message body.
+ */
+
+import { randomUUID } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getBlobStorage } from '@/lib/blob-storage';
+import { ExtractedDocument } from '@/lib/document-extractors';
+import { Attachment, AttachmentExtraction, AttachmentSummary } from '@/types/chat';
+
+export interface NewAttachment {
+  chatId: string;
+  fileName: string;
+  mimeType: string | null;
+  buffer: Buffer;
+  document: ExtractedDocument;
+  extraction: AttachmentExtraction | null;
+}
+
+/**
+ * Store the original file and create its attachments row
+ * The blob is removed again if the row can't be written.
+ */
+export async function createAttachment(supabase: SupabaseClient, input: NewAttachment): Promise<Attachment> {
+  const storage = getBlobStorage();
+  const id = randomUUID();
+  const extension = input.fileName.includes('.') ? input.fileName.split('.').pop()!.toLowerCase() : 'bin';
+  const storageKey = `attachments/${input.chatId}/${id}.${extension.replace(/[^a-z0-9]/g, '') || 'bin'}`;
+
+  await storage.put(storageKey, input.buffer, input.mimeType || undefined);
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .insert({
+      id,
+      chat_id: input.chatId,
+      file_name: input.fileName,
+      mime_type: input.mimeType,
+      format: input.document.format,
+      size_bytes: input.buffer.length,
+      storage_backend: storage.backend,
+      storage_key: storageKey,
+      extracted_text: input.document.text,
+      pages: input.document.pages,
+      page_count: input.document.pageCount,
+      extraction: input.extraction,
+      ocr: input.document.ocr,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    await storage.delete(storageKey).catch(deleteError =>
+      console.error('[Attachments] Failed to remove blob after insert error:', deleteError)
+    );
+    throw new Error(`Failed to save attachment: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Load one of a chat's attachments, or null if it doesn't exist
+ */
+export async function getAttachment(
+  supabase: SupabaseClient,
+  chatId: string,
+  attachmentId: string
+): Promise<Attachment | null> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('*')
+    .eq('id', attachmentId)
+    .eq('chat_id', chatId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to load attachment: ${error.message}`);
+  }
+  return data || null;
+}
+
+export async function readAttachmentFile(attachment: Attachment): Promise<Buffer> {
+  return getBlobStorage().get(attachment.storage_key);
+}
+
+/**
+ * Delete the stored file and the row
+ * ICP values taken from the document stay - their provenance still names it.
+ */
+export async function deleteAttachment(supabase: SupabaseClient, attachment: Attachment): Promise<void> {
+  await getBlobStorage().delete(attachment.storage_key);
+
+  const { error } = await supabase
+    .from('attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (error) {
+    throw new Error(`Failed to delete attachment: ${error.message}`);
+  }
+}
+
+/**
+ * Link uploaded attachments to the user message they were sent with
+ */
+export async function linkAttachmentsToMessage(
+  supabase: SupabaseClient,
+  chatId: string,
+  messageId: string,
+  attachmentIds: string[]
+): Promise<void> {
+  if (attachmentIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('attachments')
+    .update({ message_id: messageId })
+    .eq('chat_id', chatId)
+    .in('id', attachmentIds);
+
+  if (error) {
+    throw new Error(`Failed to link attachments: ${error.message}`);
+  }
+}
+
+/**
+ * A chat's attachments, oldest first
+ */
+export async function listAttachments(supabase: SupabaseClient, chatId: string): Promise<Attachment[]> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('*')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load attachments: ${error.message}`);
+  }
+  return data || [];
+}
+
+export function toAttachmentSummary(attachment: Attachment): AttachmentSummary {
+  return {
+    id: attachment.id,
+    messageId: attachment.message_id,
+    name: attachment.file_name,
+    size: attachment.size_bytes,
+    type: attachment.mime_type || '',
+    format: attachment.format,
+    pageCount: attachment.page_count,
+    createdAt: attachment.created_at,
+    updatedAt: attachment.updated_at,
+  };
+}
+
@@ -0,0 +1,183 @@
+/**
+ * Request identity - anonymous sessions and signed-in users
+ *
+ * Every browser has an anonymous session, kept in an httpOnly cookie set by
+ * /api/sessions. Signing in (Supabase Auth, email/password or magic link)
+ * adds the user's access token in a second cookie, set by /api/auth/session.
+ * A chat with a user_id belongs to that account; one without, to the session
+ * that created it. Signing in claims the browser's session and its chats.
+ *
+ * Route handlers query Supabase as the requester (createRequestClient), so
+ * the RLS policies of migration 016 apply on top of the checks here.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createServerClient } from '@/lib/supabase';
+
+export const SESSION_COOKIE = 'icp_session_id';
+export const ACCESS_TOKEN_COOKIE = 'icp_access_token';
+
+// Supabase refreshes the access token long before this; the cookie follows each refresh
+export const ACCESS_TOKEN_MAX_AGE = 60 * 60 * 24 * 7;
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 365;
+
+export const AUTH_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+export interface Requester {
+  sessionId: string | null;
+  user: AuthUser | null;
+}
+
+// A request's cookies (NextRequest.cookies)
+interface RequestCookies {
+  get(name: string): { value: string } | undefined;
+}
+
+/**
+ * Check whether a string is a UUID (session ids, chat ids)
+ */
+export function isUUID(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Resolve a Supabase Auth access token to its user, or null when it's invalid or expired
+ */
+export async function getAuthUser(supabase: SupabaseClient, accessToken: string): Promise<AuthUser | null> {
+  const { data, error } = await supabase.auth.getUser(accessToken);
+  if (error || !data.user) return null;
+  return { id: data.user.id, email: data.user.email ?? null };
+}
+
+/**
+ * Who a request comes from
+ */
+export async function getRequester(supabase: SupabaseClient, cookies: RequestCookies): Promise<Requester> {
+  const sessionId = cookies.get(SESSION_COOKIE)?.value;
+  const accessToken = cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+
+  return {
+    sessionId: isUUID(sessionId) ? sessionId : null,
+    user: accessToken ? await getAuthUser(supabase, accessToken) : null,
+  };
+}
+
+/**
+ * Resolve the requester and a Supabase client acting for them
+ * An expired access token is left out, so the request continues as its anonymous session.
+ */
+export async function createRequestClient(
+  cookies: RequestCookies
+): Promise<{ supabase: SupabaseClient; requester: Requester }> {
+  const requester = await getRequester(createServerClient(), cookies);
+  const accessToken = requester.user ? cookies.get(ACCESS_TOKEN_COOKIE)?.value : null;
+
+  return {
+    supabase: createServerClient({ accessToken, sessionId: requester.sessionId }),
+    requester,
+  };
+}
+
+/**
+ * Check whether a chat belongs to the requester
+ */
+export function ownsChat(chat: { session_id: string; user_id: string | null }, requester: Requester): boolean {
+  if (chat.user_id) {
+    return chat.user_id === requester.user?.id;
+  }
+  return requester.sessionId !== null && chat.session_id === requester.sessionId;
+}
+
+/**
+ * Check that the requester owns the chat
+ * False for a chat that doesn't exist or belongs to someone else - routes answer 404 to both.
+ */
+export async function authorizeChat(
+  supabase: SupabaseClient,
+  requester: Requester,
+  chatId: string
+): Promise<boolean> {
+  if (!isUUID(chatId)) return false;
+
+  const { data: chat, error } = await supabase
+    .from('chats')
+    .select('session_id, user_id')
+    .eq('id', chatId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw error;
+  }
+  return !!chat && ownsChat(chat, requester);
+}
+
+/**
+ * Record a signed-in user in the users table (service client)
+ */
+export async function upsertUser(supabase: SupabaseClient, user: AuthUser): Promise<void> {
+  const { error } = await supabase
+    .from('users')
+    .upsert(
+      { id: user.id, email: user.email ?? '', updated_at: new Date().toISOString() },
+      { onConflict: 'id' }
+    );
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Claim an anonymous session and its chats for a user (service client)
+ * A session another account already claimed is left alone. Returns the number of chats claimed.
+ */
+export async function claimSession(supabase: SupabaseClient, sessionId: string, userId: string): Promise<number> {
+  const { data: session, error: sessionError } = await supabase
+    .from('sessions')
+    .select('user_id')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (sessionError && sessionError.code !== 'PGRST116') {
+    throw sessionError;
+  }
+  if (!session || (session.user_id && session.user_id !== userId)) {
+    return 0;
+  }
+
+  if (!session.user_id) {
+    const { error } = await supabase
+      .from('sessions')
+      .update({ user_id: userId, updated_at: new Date().toISOString() })
+      .eq('session_id', sessionId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  // Chats started while signed out, including after an earlier sign-out on this browser
+  const { data: chats, error: chatsError } = await supabase
+    .from('chats')
+    .update({ user_id: userId })
+    .eq('session_id', sessionId)
+    .is('user_id', null)
+    .select('id');
+
+  if (chatsError) {
+    throw chatsError;
+  }
+  return chats?.length ?? 0;
+}
@@ -0,0 +1,186 @@
+/**
+ * Blob storage for uploaded files (server only)
+ *
+ * BLOB_STORAGE picks the backend: 'local' (default) writes under BLOB_STORAGE_DIR,
+ * 's3' talks to any S3-compatible service (AWS, MinIO, R2...) with path-style
+ * requests signed with AWS Signature V4.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type BlobStorageBackend = 'local' | 's3';
+
+export interface BlobStorage {
+  backend: BlobStorageBackend;
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export class BlobStorageError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 500) {
+    super(message);
+    this.name = 'BlobStorageError';
+    this.status = status;
+  }
+}
+
+class LocalBlobStorage implements BlobStorage {
+  backend: BlobStorageBackend = 'local';
+
+  constructor(private root: string) {}
+
+  // Keys are generated by the app, but never let one point outside the storage directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new BlobStorageError(`Invalid blob key "${key}"`, 400);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new BlobStorageError(`Blob "${key}" not found`, 404);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+class S3BlobStorage implements BlobStorage {
+  backend: BlobStorageBackend = 's3';
+
+  constructor(private config: S3Config) {}
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.request('PUT', key, data, contentType);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request('GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  private async request(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const url = new URL(this.config.endpoint);
+    const canonicalUri = `${url.pathname.replace(/\/$/, '')}/${encodeS3Path(this.config.bucket)}/${encodeS3Path(key)}`;
+    const payloadHash = sha256Hex(body || '');
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      '',
+      `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    let signingKey: Buffer = hmac(`AWS4${this.config.secretAccessKey}`, dateStamp);
+    for (const part of [this.config.region, 's3', 'aws4_request']) {
+      signingKey = hmac(signingKey, part);
+    }
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+    if (contentType) headers['Content-Type'] = contentType;
+
+    const response = await fetch(`${url.origin}${canonicalUri}`, {
+      method,
+      headers,
+      body: body ? new Uint8Array(body) : undefined,
+    });
+
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      const details = await response.text().catch(() => '');
+      throw new BlobStorageError(
+        `S3 ${method} ${key} failed with ${response.status}${details ? `: ${details.substring(0, 200)}` : ''}`,
+        response.status === 404 ? 404 : 502
+      );
+    }
+    return response;
+  }
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// S3 keys keep their slashes; everything else is percent-encoded per RFC 3986
+function encodeS3Path(value: string): string {
+  return value
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
+
+/**
+ * Create the configured blob storage
+ * Throws BlobStorageError if the S3 settings are incomplete
+ */
+export function getBlobStorage(): BlobStorage {
+  const backend = (process.env.BLOB_STORAGE || 'local').toLowerCase();
+
+  if (backend === 's3') {
+    const region = process.env.S3_REGION || 'us-east-1';
+    const config: S3Config = {
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      bucket: process.env.S3_BUCKET || '',
+      region,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+    };
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new BlobStorageError(
+        'S3 storage not configured (S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required)'
+      );
+    }
+    return new S3BlobStorage(config);
+  }
+
+  if (backend !== 'local') {
+    throw new BlobStorageError(`Unknown blob storage "${backend}". Expected one of: local, s3`);
+  }
+
+  return new LocalBlobStorage(process.env.BLOB_STORAGE_DIR || path.join(process.cwd(), '.data', 'blobs'));
+}
@@ -0,0 +1,386 @@
+/**
+ * Token-budgeted conversation memory for the chat route
+ *
+ * Recent turns go to the model verbatim. Once the turns that aren't summarized
+ * yet outgrow the history budget, the oldest of them are summarized by the
+ * 'summary' LLM route into one summary per discovery stage, stored in
+ * conversation_summaries, and from then on sent in place of those turns.
+ * Summarizing down to half the budget means the summarizer runs every few
+ * turns instead of on every turn.
+ *
+ * Each summary records the messages it covers and a fingerprint of their
+ * content. If one of them is edited or deleted the summary no longer matches,
+ * so it is dropped and its remaining messages are summarized again.
+ */
+
+import { createHash } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LLMJSONSchema, LLMMessage, LLMProvider, estimateTokens, truncateToTokens } from '@/lib/llm';
+import { ICPSectionId, ICP_SECTIONS } from '@/types/icp';
+
+export type MemoryStage = ICPSectionId | 'general';
+
+export interface MemoryMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  // Text as it is sent to the model
+  content: string;
+}
+
+export interface ConversationSummary {
+  id: string;
+  chat_id: string;
+  stage: MemoryStage;
+  summary: string;
+  message_ids: string[];
+  fingerprint: string;
+  token_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ConversationMemory {
+  // Valid summaries, in discovery stage order
+  summaries: ConversationSummary[];
+  // Messages sent verbatim, oldest first
+  recent: MemoryMessage[];
+  // Messages left out without a summary (the summarizer was unavailable)
+  omittedCount: number;
+}
+
+// Tokens of conversation history (summaries + verbatim turns) per chat turn
+export const HISTORY_TOKEN_BUDGET = 6000;
+// Always sent verbatim, whatever their size
+const MIN_RECENT_MESSAGES = 4;
+// Each stage summary is kept to roughly this size
+const MAX_SUMMARY_TOKENS = 400;
+// Messages are trimmed before being summarized
+const MAX_SUMMARIZED_MESSAGE_TOKENS = 1500;
+
+const MEMORY_STAGES: MemoryStage[] = [...ICP_SECTIONS.map(section => section.id), 'general'];
+
+const SUMMARY_SCHEMA: LLMJSONSchema = {
+  name: 'conversation_summaries',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['summaries'],
+    properties: {
+      summaries: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['stage', 'summary', 'messages'],
+          properties: {
+            stage: { type: 'string', enum: MEMORY_STAGES },
+            summary: { type: 'string' },
+            messages: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+  },
+};
+
+function isMemoryStage(value: unknown): value is MemoryStage {
+  return typeof value === 'string' && (MEMORY_STAGES as string[]).includes(value);
+}
+
+/**
+ * Hash of the covered messages' ids and text - changes when any of them is edited
+ */
+function fingerprintMessages(messages: MemoryMessage[]): string {
+  const hash = createHash('sha256');
+  for (const message of messages) {
+    hash.update(`${message.id}\u0000${message.role}\u0000${message.content}\u0001`);
+  }
+  return hash.digest('hex');
+}
+
+function messageTokens(message: MemoryMessage): number {
+  return estimateTokens(message.content);
+}
+
+async function loadSummaries(supabase: SupabaseClient, chatId: string): Promise<ConversationSummary[]> {
+  const { data, error } = await supabase
+    .from('conversation_summaries')
+    .select('*')
+    .eq('chat_id', chatId);
+
+  if (error) {
+    throw new Error(`Failed to load conversation summaries: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * Split stored summaries into those still matching the conversation and stale ones
+ * A summary is stale once a message it covers was deleted or its text changed.
+ */
+function checkSummaries(
+  summaries: ConversationSummary[],
+  messagesById: Map<string, MemoryMessage>
+): { valid: ConversationSummary[]; stale: ConversationSummary[] } {
+  const valid: ConversationSummary[] = [];
+  const stale: ConversationSummary[] = [];
+
+  for (const summary of summaries) {
+    const covered = summary.message_ids.map(id => messagesById.get(id));
+    if (covered.some(message => !message) || fingerprintMessages(covered as MemoryMessage[]) !== summary.fingerprint) {
+      stale.push(summary);
+    } else {
+      valid.push(summary);
+    }
+  }
+  return { valid, stale };
+}
+
+/**
+ * Build the summarization request
+ * Messages get short references (m1, m2...) so the model can say which stage each belongs to.
+ */
+function buildSummaryMessages(existing: ConversationSummary[], messages: MemoryMessage[]): LLMMessage[] {
+  const stageList = ICP_SECTIONS
+    .map(section => `- ${section.id}: ${section.name} - ${section.intent}`)
+    .concat('- general: greetings, the founder\'s name and title, and anything that fits no stage')
+    .join('\n');
+
+  const existingSummaries = existing.length > 0
+    ? existing.map(summary => `[${summary.stage}]\n${summary.summary}`).join('\n\n')
+    : 'None yet.';
+
+  const transcript = messages
+    .map((message, i) => {
+      const speaker = message.role === 'user' ? 'FOUNDER' : 'ASSISTANT';
+      return `(m${i + 1}) ${speaker}: ${truncateToTokens(message.content, MAX_SUMMARIZED_MESSAGE_TOKENS)}`;
+    })
+    .join('\n\n');
+
+  const prompt = `Summarize older turns of an ICP discovery conversation so they can be dropped from the transcript.
+
+DISCOVERY STAGES:
+${stageList}
+
+EXISTING STAGE SUMMARIES:
+${existingSummaries}
+
+TURNS TO SUMMARIZE:
+"""
+${transcript}
+"""
+
+Assign every turn (m1, m2...) to the stage it is mostly about and write the summary for each stage that received turns.
+If a stage already has a summary, return its updated summary: keep everything in it and add what the new turns say.
+
+RULES:
+- Keep every fact the founder gave: names, numbers, customers, tools, quotes of key phrases.
+- Keep what was agreed: confirmations, corrections, open questions the founder hasn't answered yet.
+- Leave out small talk and the assistant's questions unless the answer depends on them.
+- Write plain sentences, at most about ${MAX_SUMMARY_TOKENS * 3 / 4} words per stage.
+- Only return stages that received turns.
+
+Respond with JSON: { "summaries": [ { "stage", "summary", "messages": ["m1", ...] } ] }`;
+
+  return [
+    {
+      role: 'system',
+      content: 'You keep compact notes of a discovery conversation. Always return valid JSON matching the requested schema.',
+    },
+    { role: 'user', content: prompt },
+  ];
+}
+
+/**
+ * Summarize messages into the stage summaries and store them
+ * Returns the summaries after the update (unchanged stages included).
+ */
+async function summarizeMessages(
+  supabase: SupabaseClient,
+  llm: LLMProvider,
+  chatId: string,
+  existing: ConversationSummary[],
+  messages: MemoryMessage[],
+  messagesById: Map<string, MemoryMessage>
+): Promise<ConversationSummary[]> {
+  const content = await llm.complete({
+    messages: buildSummaryMessages(existing, messages),
+    temperature: 0.1,
+    responseFormat: 'json',
+    jsonSchema: SUMMARY_SCHEMA,
+  });
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    console.error('[Conversation Memory] Failed to parse LLM response:', content);
+    throw new Error('Invalid JSON response from LLM');
+  }
+
+  if (!parsed || !Array.isArray(parsed.summaries)) {
+    throw new Error('LLM response is missing a summaries list');
+  }
+
+  const references = new Map(messages.map((message, i) => [`m${i + 1}`, message.id]));
+  const byStage = new Map(existing.map(summary => [summary.stage, summary]));
+  const updates = new Map<MemoryStage, { summary: string; messageIds: string[] }>();
+  const assigned = new Set<string>();
+
+  for (const item of parsed.summaries) {
+    if (!item || !isMemoryStage(item.stage) || typeof item.summary !== 'string' || !item.summary.trim()) {
+      continue;
+    }
+    const messageIds = (Array.isArray(item.messages) ? item.messages : [])
+      .map((reference: unknown) => references.get(String(reference)))
+      .filter((id: string | undefined): id is string => !!id && !assigned.has(id));
+    messageIds.forEach((id: string) => assigned.add(id));
+
+    const update = updates.get(item.stage);
+    updates.set(item.stage, {
+      summary: update ? `${update.summary}\n${item.summary.trim()}` : item.summary.trim(),
+      messageIds: [...(update?.messageIds || []), ...messageIds],
+    });
+  }
+
+  if (updates.size === 0) {
+    throw new Error('LLM returned no usable summaries');
+  }
+
+  // Turns the model didn't place are still covered - by the general summary, or the last stage it wrote
+  const unassigned = messages.filter(message => !assigned.has(message.id)).map(message => message.id);
+  if (unassigned.length > 0) {
+    const target = updates.get('general') || [...updates.values()].pop()!;
+    target.messageIds.push(...unassigned);
+  }
+
+  const order = new Map(messages.map((message, i) => [message.id, i]));
+  const rows = [...updates.entries()].map(([stage, update]) => {
+    const previousIds = (byStage.get(stage)?.message_ids || []).filter(id => !order.has(id));
+    const messageIds = [
+      ...previousIds,
+      ...update.messageIds.sort((a, b) => order.get(a)! - order.get(b)!),
+    ];
+    const summary = truncateToTokens(update.summary, MAX_SUMMARY_TOKENS * 2);
+    return {
+      chat_id: chatId,
+      stage,
+      summary,
+      message_ids: messageIds,
+      fingerprint: fingerprintMessages(messageIds.map(id => messagesById.get(id)!)),
+      token_count: estimateTokens(summary),
+      updated_at: new Date().toISOString(),
+    };
+  });
+
+  const { data, error } = await supabase
+    .from('conversation_summaries')
+    .upsert(rows, { onConflict: 'chat_id,stage' })
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to save conversation summaries: ${error.message}`);
+  }
+
+  const saved: ConversationSummary[] = data || [];
+  const savedStages = new Set(saved.map(summary => summary.stage));
+  return [...existing.filter(summary => !savedStages.has(summary.stage)), ...saved];
+}
+
+function sortByStage(summaries: ConversationSummary[]): ConversationSummary[] {
+  return [...summaries].sort((a, b) => MEMORY_STAGES.indexOf(a.stage) - MEMORY_STAGES.indexOf(b.stage));
+}
+
+/**
+ * Decide what of the conversation the model sees this turn
+ * messages is the full history, oldest first. llm is the summarizer; without it
+ * (or when it fails) the oldest turns over budget are left out instead.
+ */
+export async function buildConversationMemory(
+  supabase: SupabaseClient,
+  chatId: string,
+  messages: MemoryMessage[],
+  llm: LLMProvider | null,
+  budgetTokens: number = HISTORY_TOKEN_BUDGET
+): Promise<ConversationMemory> {
+  const messagesById = new Map(messages.map(message => [message.id, message]));
+
+  let stored: ConversationSummary[] = [];
+  try {
+    stored = await loadSummaries(supabase, chatId);
+  } catch (error) {
+    console.error('[Conversation Memory] Error loading summaries:', error);
+  }
+
+  const { valid: current, stale } = checkSummaries(stored, messagesById);
+  let valid = current;
+
+  if (stale.length > 0) {
+    console.log('[Conversation Memory] Dropping stale summaries:', stale.map(summary => summary.stage));
+    const { error } = await supabase
+      .from('conversation_summaries')
+      .delete()
+      .in('id', stale.map(summary => summary.id));
+
+    if (error) {
+      console.error('[Conversation Memory] Error deleting stale summaries:', error);
+    }
+  }
+
+  const covered = new Set(valid.flatMap(summary => summary.message_ids));
+  let uncovered = messages.filter(message => !covered.has(message.id));
+
+  const summaryTokens = () => valid.reduce((total, summary) => total + summary.token_count, 0);
+  const totalTokens = (list: MemoryMessage[]) => list.reduce((total, message) => total + messageTokens(message), 0);
+
+  if (totalTokens(uncovered) + summaryTokens() <= budgetTokens) {
+    return { summaries: sortByStage(valid), recent: uncovered, omittedCount: 0 };
+  }
+
+  // Over budget: take the oldest turns out until the rest fits in half of what the summaries leave
+  const target = Math.max(0, budgetTokens - summaryTokens()) / 2;
+  let keepFrom = 0;
+  let remaining = totalTokens(uncovered);
+  while (uncovered.length - keepFrom > MIN_RECENT_MESSAGES && remaining > target) {
+    remaining -= messageTokens(uncovered[keepFrom]);
+    keepFrom++;
+  }
+  const older = uncovered.slice(0, keepFrom);
+  const recent = uncovered.slice(keepFrom);
+
+  if (older.length === 0) {
+    return { summaries: sortByStage(valid), recent, omittedCount: 0 };
+  }
+
+  if (llm) {
+    try {
+      valid = await summarizeMessages(supabase, llm, chatId, valid, older, messagesById);
+      console.log('[Conversation Memory] Summarized turns:', {
+        chatId,
+        summarized: older.length,
+        stages: valid.map(summary => summary.stage),
+        summaryTokens: summaryTokens(),
+        recentTokens: remaining,
+      });
+      return { summaries: sortByStage(valid), recent, omittedCount: 0 };
+    } catch (error) {
+      console.error('[Conversation Memory] Summarization failed, leaving older turns out:', error);
+    }
+  }
+
+  return { summaries: sortByStage(valid), recent, omittedCount: older.length };
+}
+
+/**
+ * Stage summaries as a prompt section
+ */
+export function formatConversationSummaries(memory: ConversationMemory): string {
+  const stageNames = new Map<string, string>(ICP_SECTIONS.map(section => [section.id, section.name]));
+  const parts = memory.summaries.map(summary =>
+    `${stageNames.get(summary.stage) || 'General'}:\n${summary.summary}`
+  );
+  if (memory.omittedCount > 0) {
+    parts.push(`[${memory.omittedCount} earlier message${memory.omittedCount === 1 ? '' : 's'} not shown]`);
+  }
+  return parts.join('\n\n');
+}
@@ -0,0 +1,167 @@
+/**
+ * Compare two generated documents
+ *
+ * Sections are matched by id and compared line by line (a paragraph, bullet or
+ * table row is one line). Citation markers are left out of the comparison -
+ * their numbering follows the ICP's provenance and shifts between versions.
+ * No server-only imports - the viewer renders the diff.
+ */
+
+import { isKeyValueTable, toRenderBlocks } from '@/lib/icp-document';
+import { ICPDocument, ICPDocumentSection } from '@/types/document';
+import { ICPData, ICPFieldKey, ICP_FIELDS } from '@/types/icp';
+
+export type DiffRowType = 'same' | 'removed' | 'added' | 'changed';
+
+// One row of a side-by-side view: the older line on the left, the newer on the right
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null;
+  right: string | null;
+}
+
+export interface SectionDiff {
+  id: string;
+  title: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  rows: DiffRow[];
+}
+
+export interface FieldChange {
+  field: ICPFieldKey;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+function stripMarkers(text: string): string {
+  return text.replace(/\s*\[S\d+(?:,\s*S\d+)*\]/g, '').trim();
+}
+
+/**
+ * A section as comparable lines
+ */
+export function sectionLines(section: ICPDocumentSection): string[] {
+  const lines: string[] = [];
+  for (const block of section.blocks.flatMap(toRenderBlocks)) {
+    if (block.type === 'subheading') {
+      lines.push(`## ${block.text}`);
+    } else if (block.type === 'paragraph') {
+      lines.push(block.text);
+    } else if (block.type === 'bullets') {
+      lines.push(...block.items.map(item => `• ${item}`));
+    } else if (isKeyValueTable(block)) {
+      lines.push(...block.rows.map(([label, value]) => `${label}: ${value}`));
+    } else {
+      lines.push(...block.rows.map(row => block.columns.map((column, c) => `${column}: ${row[c] || ''}`).join(' | ')));
+    }
+  }
+  return lines.map(stripMarkers).filter(Boolean);
+}
+
+/**
+ * Line diff (longest common subsequence) as side-by-side rows
+ * Removed lines followed by added ones are paired up as changes.
+ */
+export function diffLines(before: string[], after: string[]): DiffRow[] {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({ type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      flush();
+      rows.push({ type: 'same', left: before[i], right: after[j] });
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  flush();
+  return rows;
+}
+
+/**
+ * Section-by-section diff, in the newer document's order (removed sections where they used to be)
+ */
+export function diffDocuments(before: ICPDocument, after: ICPDocument): SectionDiff[] {
+  const diffs: SectionDiff[] = [];
+  const beforeById = new Map(before.sections.map(section => [section.id, section]));
+  const afterIds = new Set(after.sections.map(section => section.id));
+
+  // Sections only the older document has are placed after the section that preceded them
+  const removedAfter = new Map<string | null, ICPDocumentSection[]>();
+  let previous: string | null = null;
+  for (const section of before.sections) {
+    if (!afterIds.has(section.id)) {
+      removedAfter.set(previous, [...(removedAfter.get(previous) || []), section]);
+    } else {
+      previous = section.id;
+    }
+  }
+
+  const pushRemoved = (key: string | null) => {
+    for (const section of removedAfter.get(key) || []) {
+      diffs.push({
+        id: section.id,
+        title: section.title,
+        status: 'removed',
+        rows: sectionLines(section).map(line => ({ type: 'removed', left: line, right: null })),
+      });
+    }
+  };
+
+  pushRemoved(null);
+  for (const section of after.sections) {
+    const old = beforeById.get(section.id);
+    if (!old) {
+      diffs.push({
+        id: section.id,
+        title: section.title,
+        status: 'added',
+        rows: sectionLines(section).map(line => ({ type: 'added', left: null, right: line })),
+      });
+    } else {
+      const rows = diffLines(sectionLines(old), sectionLines(section));
+      diffs.push({
+        id: section.id,
+        title: section.title,
+        status: rows.every(row => row.type === 'same') ? 'unchanged' : 'changed',
+        rows,
+      });
+    }
+    pushRemoved(section.id);
+  }
+  return diffs;
+}
+
+/**
+ * ICP fields whose value differs between two snapshots
+ */
+export function diffICPSnapshots(before: Partial<ICPData>, after: Partial<ICPData>): FieldChange[] {
+  const normalize = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  return ICP_FIELDS
+    .map(field => ({ field: field.key, label: field.label, before: normalize(before[field.key]), after: normalize(after[field.key]) }))
+    .filter(change => change.before !== change.after);
+}
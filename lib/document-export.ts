@@ -0,0 +1,96 @@
+/**
+ * ICP document export - Markdown, Word (.docx) and PDF (server only)
+ */
+
+import { buildSourcesTable, isKeyValueTable, toRenderBlocks } from '@/lib/icp-document';
+import { loadTemplateLogo } from '@/lib/document-templates';
+import { renderDocx } from '@/lib/docx-writer';
+import { renderPdf } from '@/lib/pdf-writer';
+import { DocumentExportFormat, DocumentTemplate, ICPDocument, ICPRenderBlock } from '@/types/document';
+
+export const DOCUMENT_EXPORT_FORMATS: DocumentExportFormat[] = ['md', 'docx', 'pdf'];
+
+const CONTENT_TYPES: Record<DocumentExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf',
+};
+
+export interface ExportedDocument {
+  body: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+}
+
+function renderMarkdownBlock(block: ICPRenderBlock): string {
+  switch (block.type) {
+    case 'subheading':
+      return `### ${block.text}`;
+    case 'paragraph':
+      return block.text;
+    case 'bullets':
+      return block.items.map(item => `- ${item}`).join('\n');
+    case 'table': {
+      // Markdown tables need a header row; key-value tables get an empty one
+      const header = isKeyValueTable(block) ? block.columns.map(() => ' ') : block.columns;
+      return [
+        `| ${header.map(escapeTableCell).join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...block.rows.map(row => `| ${block.columns.map((_column, c) => escapeTableCell(row[c] || '')).join(' | ')} |`),
+      ].join('\n');
+    }
+  }
+}
+
+/**
+ * Render the document as Markdown
+ */
+export function renderMarkdown(document: ICPDocument): string {
+  const date = new Date(document.generatedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const parts = [`# ${document.title}`, [document.companyName, date].filter(Boolean).join(' · ')];
+
+  for (const section of document.sections) {
+    parts.push(`## ${section.title}`);
+    parts.push(...section.blocks.flatMap(toRenderBlocks).map(renderMarkdownBlock));
+  }
+
+  if (document.sources.length > 0) {
+    parts.push('## Sources', renderMarkdownBlock(buildSourcesTable(document.sources)));
+  }
+
+  return parts.join('\n\n') + '\n';
+}
+
+function exportFileName(document: ICPDocument, format: DocumentExportFormat): string {
+  const company = (document.companyName || 'Document')
+    .normalize('NFKD')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'Document';
+  return `ICP-${company}-${document.generatedAt.substring(0, 10)}.${format}`;
+}
+
+/**
+ * Render the document in the requested format with the template's branding
+ * (Markdown ignores the template)
+ */
+export async function exportICPDocument(
+  document: ICPDocument,
+  format: DocumentExportFormat,
+  template: DocumentTemplate
+): Promise<ExportedDocument> {
+  let body: Buffer;
+  if (format === 'md') {
+    body = Buffer.from(renderMarkdown(document), 'utf8');
+  } else {
+    const logo = await loadTemplateLogo(template);
+    body = format === 'docx'
+      ? await renderDocx(document, template, logo)
+      : await renderPdf(document, template, logo);
+  }
+
+  return { body, contentType: CONTENT_TYPES[format], fileName: exportFileName(document, format) };
+}
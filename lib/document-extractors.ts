@@ -0,0 +1,422 @@
+/**
+ * Text extractors for uploaded documents (server only)
+ *
+ * Every format is reduced to plain text plus a list of "pages" - PDF pages,
+ * slides, or spreadsheet sheets (single-page formats have one) - so all of them
+ * feed the same ICP extraction and summary logic.
+ */
+
+import { DocumentFormat, getDocumentFormatLabel } from '@/lib/document-formats';
+import { DocumentOCRReport, OCRUnavailableError, getOCREngineVersion, ocrPDFPages } from '@/lib/ocr';
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  pages: string[];
+  pageCount: number;
+  // Set when some pages were scanned images and had to be read with OCR
+  ocr: DocumentOCRReport | null;
+}
+
+// A PDF page with fewer non-space characters than this is treated as a scanned image
+const MIN_TEXT_CHARS_PER_PAGE = 20;
+
+/**
+ * Error raised when a document can't be read - carries an HTTP status and a code for the response
+ */
+export class DocumentExtractionError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number = 400, code: string = 'PARSE_ERROR') {
+    super(message);
+    this.name = 'DocumentExtractionError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Extract the text of a document in a known format
+ * Throws DocumentExtractionError if the file can't be parsed or has no text.
+ */
+export async function extractDocumentText(buffer: Buffer, format: DocumentFormat): Promise<ExtractedDocument> {
+  let pages: string[];
+  let text: string | undefined;
+  let ocr: DocumentOCRReport | null = null;
+
+  try {
+    switch (format) {
+      case 'pdf':
+        ({ pages, text, ocr } = await extractPDF(buffer));
+        break;
+      case 'docx':
+        pages = [await extractDOCX(buffer)];
+        break;
+      case 'pptx':
+        pages = await extractPPTX(buffer);
+        break;
+      case 'xlsx':
+        pages = await extractXLSX(buffer);
+        break;
+      case 'html':
+        pages = [htmlToText(decodeUTF8(buffer))];
+        break;
+      case 'csv':
+      case 'txt':
+      case 'md':
+        pages = [decodeUTF8(buffer).replace(/\r\n?/g, '\n')];
+        break;
+    }
+  } catch (error: any) {
+    if (error instanceof DocumentExtractionError) throw error;
+    console.error(`[Document Extraction] Failed to parse ${format}:`, error);
+    throw new DocumentExtractionError(
+      `Failed to parse ${getDocumentFormatLabel(format)} file: ${error.message || 'Unknown parsing error'}`,
+      400,
+      'PARSE_ERROR'
+    );
+  }
+
+  const fullText = (text ?? pages.join('\n\n')).trim();
+  if (!fullText && format === 'pdf' && !ocr) {
+    throw new DocumentExtractionError(
+      'The PDF file appears to be scanned (it has no selectable text) and OCR is not available on the server to read it.',
+      400,
+      'OCR_UNAVAILABLE'
+    );
+  }
+  if (!fullText) {
+    throw new DocumentExtractionError(
+      `The ${getDocumentFormatLabel(format)} file does not contain any readable text content.`,
+      400,
+      'EMPTY_DOCUMENT'
+    );
+  }
+
+  return { format, text: fullText, pages, pageCount: pages.length, ocr };
+}
+
+/**
+ * PDF via pdf-parse, rendering each page separately so pages can be told apart
+ * Pages with (almost) no text layer are read with OCR instead, when it is available.
+ */
+async function extractPDF(buffer: Buffer): Promise<{ pages: string[]; text: string; ocr: DocumentOCRReport | null }> {
+  const pdfParse = await loadPDFParse();
+  const pages: string[] = [];
+
+  const data = await pdfParse(buffer, {
+    // Same as pdf-parse's default renderer, but keeps each page's text (pages render in order)
+    pagerender: async (pageData: any) => {
+      const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let pageText = '';
+      for (const item of textContent.items) {
+        pageText += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+        lastY = item.transform[5];
+      }
+      pages.push(pageText);
+      return pageText;
+    },
+  });
+
+  const scannedPages = pages
+    .map((page, i) => (page.replace(/\s/g, '').length < MIN_TEXT_CHARS_PER_PAGE ? i + 1 : 0))
+    .filter(page => page > 0);
+  if (scannedPages.length === 0) {
+    return { pages, text: data.text || '', ocr: null };
+  }
+
+  let results;
+  try {
+    results = await ocrPDFPages(buffer, scannedPages);
+  } catch (error) {
+    if (!(error instanceof OCRUnavailableError)) throw error;
+    console.warn(`[Document Extraction] ${scannedPages.length} PDF page(s) without text, OCR unavailable`);
+    return { pages, text: data.text || '', ocr: null };
+  }
+
+  // Keep whichever text is longer - a page can have a stray caption in its text layer over a scanned body
+  const read: DocumentOCRReport['pages'] = [];
+  for (const result of results) {
+    if (result.text.trim().length > pages[result.page - 1].trim().length) {
+      pages[result.page - 1] = result.text;
+    }
+    read.push({ page: result.page, confidence: result.confidence, words: result.words });
+  }
+
+  const words = read.reduce((total, page) => total + page.words, 0);
+  return {
+    pages,
+    text: pages.join('\n\n'),
+    ocr: {
+      engine: (await getOCREngineVersion()) || 'tesseract',
+      pages: read,
+      averageConfidence: words > 0
+        ? Math.round(read.reduce((total, page) => total + page.confidence * page.words, 0) / words)
+        : 0,
+      skippedPages: scannedPages.filter(page => !read.some(result => result.page === page)),
+    },
+  };
+}
+
+async function loadPDFParse(): Promise<(buffer: Buffer, options?: Record<string, unknown>) => Promise<any>> {
+  let pdfParse: any;
+  try {
+    // Try require first (works better for CommonJS in Node.js)
+    try {
+      pdfParse = require('pdf-parse');
+    } catch (requireError) {
+      // Fallback to dynamic import for ES modules/Turbopack
+      const pdfParseModule: any = await import('pdf-parse');
+      pdfParse = pdfParseModule.default || pdfParseModule;
+    }
+  } catch (importError: any) {
+    console.error('[Document Extraction] Failed to load pdf-parse:', importError);
+    throw new DocumentExtractionError(
+      `Failed to load pdf-parse: ${importError.message || 'Unknown error'}`,
+      500,
+      importError.code || 'IMPORT_ERROR'
+    );
+  }
+
+  if (typeof pdfParse !== 'function') {
+    throw new DocumentExtractionError('pdf-parse module does not export a function', 500, 'IMPORT_ERROR');
+  }
+  return pdfParse;
+}
+
+async function loadZip(buffer: Buffer) {
+  const JSZip = (await import('jszip')).default;
+  return JSZip.loadAsync(buffer);
+}
+
+type Zip = Awaited<ReturnType<typeof loadZip>>;
+
+async function readZipText(zip: Zip, path: string): Promise<string | null> {
+  const entry = zip.file(path);
+  return entry ? entry.async('string') : null;
+}
+
+/**
+ * Zip entries matching a pattern like ppt/slides/slide12.xml, in numeric order
+ */
+function numberedEntries(zip: Zip, pattern: RegExp): string[] {
+  return Object.keys(zip.files)
+    .filter(path => pattern.test(path))
+    .sort((a, b) => Number(a.match(pattern)![1]) - Number(b.match(pattern)![1]));
+}
+
+/**
+ * Word: paragraphs and table cells from word/document.xml
+ */
+async function extractDOCX(buffer: Buffer): Promise<string> {
+  const zip = await loadZip(buffer);
+  const documentXml = await readZipText(zip, 'word/document.xml');
+  if (!documentXml) {
+    throw new DocumentExtractionError('Not a valid Word document (word/document.xml is missing)');
+  }
+  return wordprocessingXmlToText(documentXml);
+}
+
+function wordprocessingXmlToText(xml: string): string {
+  let text = '';
+  // Paragraphs inside table cells are joined so each table row stays on one line
+  let cellDepth = 0;
+  const tokens = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br[^>]*\/>|<w:tc[\s>]|<\/w:tc>|<\/w:tr>|<\/w:p>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(xml)) !== null) {
+    const token = match[0];
+    if (match[1] !== undefined) {
+      text += decodeEntities(match[1]);
+    } else if (token.startsWith('<w:tc')) {
+      cellDepth++;
+    } else if (token === '</w:tc>') {
+      cellDepth--;
+      text += ' | ';
+    } else if (token === '</w:tr>') {
+      text = `${text.replace(/\s\|\s$/, '')}\n`;
+    } else if (token === '</w:p>' && cellDepth > 0) {
+      text += ' ';
+    } else if (token === '<w:tab/>') {
+      text += ' ';
+    } else {
+      text += '\n';
+    }
+  }
+
+  return tidyLines(text);
+}
+
+/**
+ * PowerPoint: one page per slide, with the speaker notes after the slide text
+ */
+async function extractPPTX(buffer: Buffer): Promise<string[]> {
+  const zip = await loadZip(buffer);
+  const slidePaths = numberedEntries(zip, /^ppt\/slides\/slide(\d+)\.xml$/);
+  if (slidePaths.length === 0) {
+    throw new DocumentExtractionError('Not a valid PowerPoint file (no slides found)');
+  }
+
+  const pages: string[] = [];
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const slideText = drawingXmlToText((await readZipText(zip, slidePath)) || '');
+    // A slide's notes are linked through its relationships file
+    const relsXml = (await readZipText(zip, slidePath.replace(/slides\/(slide\d+\.xml)$/, 'slides/_rels/$1.rels'))) || '';
+    const notesTarget = relsXml.match(/Target="\.\.\/(notesSlides\/notesSlide\d+\.xml)"/)?.[1];
+    const notesXml = notesTarget ? await readZipText(zip, `ppt/${notesTarget}`) : null;
+    // Notes slides repeat the slide number placeholder - drop bare numbers
+    const notesText = notesXml
+      ? drawingXmlToText(notesXml).split('\n').filter(line => !/^\d+$/.test(line.trim())).join('\n')
+      : '';
+
+    pages.push(
+      [`Slide ${index + 1}`, slideText, notesText ? `Speaker notes: ${notesText}` : '']
+        .filter(Boolean)
+        .join('\n')
+    );
+  }
+  return pages;
+}
+
+function drawingXmlToText(xml: string): string {
+  let text = '';
+  const tokens = /<a:t>([^<]*)<\/a:t>|<a:br\/>|<\/a:p>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(xml)) !== null) {
+    text += match[1] !== undefined ? decodeEntities(match[1]) : '\n';
+  }
+  return tidyLines(text);
+}
+
+/**
+ * Excel: one page per sheet, one line per row with cells separated by " | "
+ */
+async function extractXLSX(buffer: Buffer): Promise<string[]> {
+  const zip = await loadZip(buffer);
+  const workbookXml = await readZipText(zip, 'xl/workbook.xml');
+  if (!workbookXml) {
+    throw new DocumentExtractionError('Not a valid Excel file (xl/workbook.xml is missing)');
+  }
+
+  const sharedStrings: string[] = [];
+  const sharedStringsXml = await readZipText(zip, 'xl/sharedStrings.xml');
+  if (sharedStringsXml) {
+    for (const item of sharedStringsXml.match(/<si>[\s\S]*?<\/si>/g) || []) {
+      sharedStrings.push(textRuns(item));
+    }
+  }
+
+  // Sheet names live in workbook.xml, their files are resolved through the workbook relationships
+  const relsXml = (await readZipText(zip, 'xl/_rels/workbook.xml.rels')) || '';
+  const targets = new Map<string, string>();
+  for (const rel of relsXml.match(/<Relationship\b[^>]*>/g) || []) {
+    const id = attribute(rel, 'Id');
+    const target = attribute(rel, 'Target');
+    if (id && target) {
+      targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+  }
+
+  const pages: string[] = [];
+  for (const sheet of workbookXml.match(/<sheet\b[^>]*>/g) || []) {
+    const name = decodeEntities(attribute(sheet, 'name') || 'Sheet');
+    const path = targets.get(attribute(sheet, 'r:id') || '');
+    const sheetXml = path ? await readZipText(zip, path) : null;
+    if (!sheetXml) continue;
+
+    const rows: string[] = [];
+    for (const row of sheetXml.match(/<row\b[\s\S]*?<\/row>/g) || []) {
+      const cells: string[] = [];
+      for (const cell of row.match(/<c\b[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) || []) {
+        const type = attribute(cell, 't');
+        const value = cell.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+        if (type === 's' && value !== undefined) {
+          cells.push(sharedStrings[Number(value)] ?? '');
+        } else if (type === 'inlineStr') {
+          cells.push(textRuns(cell));
+        } else {
+          cells.push(value !== undefined ? decodeEntities(value) : '');
+        }
+      }
+      if (cells.some(cell => cell.trim())) {
+        rows.push(cells.join(' | ').replace(/(\s\|\s)+$/, ''));
+      }
+    }
+
+    if (rows.length > 0) {
+      pages.push(`Sheet: ${name}\n${rows.join('\n')}`);
+    }
+  }
+  return pages;
+}
+
+// Concatenated <t> runs of a shared or inline string
+function textRuns(xml: string): string {
+  return (xml.match(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g) || [])
+    .map(run => decodeEntities(run.replace(/<\/?t[^>]*>/g, '')))
+    .join('');
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match?.[1];
+}
+
+/**
+ * HTML: visible text with block elements on their own lines
+ */
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+    .replace(/<\/(td|th)>/gi, ' | ')
+    .replace(/<\/?(p|div|section|article|header|footer|main|aside|nav|h[1-6]|ul|ol|tr|table|blockquote|pre|title)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return tidyLines(decodeEntities(text));
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '-',
+  mdash: '-',
+  hellip: '...',
+  rsquo: "'",
+  lsquo: "'",
+  rdquo: '"',
+  ldquo: '"',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(codePoint) ? entity : String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function decodeUTF8(buffer: Buffer): string {
+  return buffer.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+// Trim each line and collapse runs of blank lines
+function tidyLines(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
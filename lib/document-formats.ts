@@ -0,0 +1,72 @@
+/**
+ * Document formats accepted for upload
+ * Client-safe: only metadata and detection, the extractors live in lib/document-extractors.ts
+ */
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'csv' | 'txt' | 'md' | 'html';
+
+export interface DocumentFormatInfo {
+  format: DocumentFormat;
+  // Short label shown next to the file name
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+}
+
+export const DOCUMENT_FORMATS: DocumentFormatInfo[] = [
+  { format: 'pdf', label: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'] },
+  {
+    format: 'docx',
+    label: 'Word',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  {
+    format: 'pptx',
+    label: 'PowerPoint',
+    extensions: ['.pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  },
+  {
+    format: 'xlsx',
+    label: 'Excel',
+    extensions: ['.xlsx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  },
+  { format: 'csv', label: 'CSV', extensions: ['.csv'], mimeTypes: ['text/csv', 'application/csv'] },
+  { format: 'txt', label: 'Text', extensions: ['.txt'], mimeTypes: ['text/plain'] },
+  { format: 'md', label: 'Markdown', extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown', 'text/x-markdown'] },
+  { format: 'html', label: 'HTML', extensions: ['.html', '.htm'], mimeTypes: ['text/html'] },
+];
+
+// Value for <input type="file" accept>
+export const DOCUMENT_ACCEPT = DOCUMENT_FORMATS.flatMap(info => [...info.extensions, ...info.mimeTypes]).join(',');
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Work out a file's format from its extension, falling back to its MIME type
+ * The extension wins because browsers report many of these types inconsistently
+ * (e.g. CSV as application/vnd.ms-excel, Markdown as an empty string).
+ */
+export function detectDocumentFormat(fileName: string, mimeType?: string): DocumentFormat | null {
+  const lowerName = fileName.toLowerCase();
+  const byExtension = DOCUMENT_FORMATS.find(info => info.extensions.some(ext => lowerName.endsWith(ext)));
+  if (byExtension) return byExtension.format;
+
+  const byMimeType = DOCUMENT_FORMATS.find(info => !!mimeType && info.mimeTypes.includes(mimeType));
+  return byMimeType?.format ?? null;
+}
+
+export function getDocumentFormatLabel(format: DocumentFormat): string {
+  return DOCUMENT_FORMATS.find(info => info.format === format)?.label ?? format.toUpperCase();
+}
+
+/**
+ * What one entry of ExtractedDocument.pages is called for a format, used when citing pages
+ */
+export function getDocumentPageUnit(format: DocumentFormat): 'page' | 'slide' | 'sheet' {
+  if (format === 'pptx') return 'slide';
+  if (format === 'xlsx') return 'sheet';
+  return 'page';
+}
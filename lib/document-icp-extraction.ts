@@ -0,0 +1,387 @@
+/**
+ * ICP extraction from uploaded documents
+ *
+ * Long documents don't fit in one prompt, so the pages are split into chunks
+ * along page and section boundaries, each chunk is extracted on its own, and
+ * the partial results are merged. Values that agree are combined; single-value
+ * fields (company name, size...) that disagree become conflicts. Every merged
+ * value keeps the pages it came from so the summary can cite them.
+ */
+
+import { LLMProvider } from '@/lib/llm';
+import { PLACEHOLDER_VALUES } from '@/lib/icp-completion';
+import { ICPFieldDetail } from '@/lib/icp-store';
+import { ICPFieldKey, ICPFieldValues, ICP_FIELDS, isICPFieldKey } from '@/types/icp';
+
+export interface DocumentChunk {
+  index: number;
+  // 1-based numbers of the pages the chunk's text came from
+  pages: number[];
+  // Heading of the section the chunk starts in, when the document has headings
+  heading: string | null;
+  text: string;
+}
+
+export interface DocumentFieldConflict {
+  field: ICPFieldKey;
+  // Value that was kept
+  chosen: string;
+  values: { value: string; pages: number[] }[];
+}
+
+export interface DocumentICPExtraction {
+  fields: ICPFieldValues;
+  fieldDetails: Partial<Record<ICPFieldKey, ICPFieldDetail>>;
+  // Pages each extracted field was found on
+  fieldPages: Partial<Record<ICPFieldKey, number[]>>;
+  conflicts: DocumentFieldConflict[];
+  chunkCount: number;
+  // Pages whose chunk couldn't be extracted (LLM error or invalid JSON)
+  failedPages: number[];
+}
+
+interface FieldCandidate {
+  value: string;
+  evidence: string | null;
+  confidence: number;
+  pages: number[];
+}
+
+// Sized to leave room for the prompt and a full JSON answer in every supported model's context
+const MAX_CHUNK_CHARS = 12000;
+// Chunks extracted at the same time
+const CHUNK_CONCURRENCY = 3;
+// Same limit as validated extraction operations
+const MAX_VALUE_LENGTH = 1000;
+// Confidence given to a value picked out of conflicting ones - below
+// LOW_CONFIDENCE_THRESHOLD so the field is highlighted for review
+const CONFLICT_CONFIDENCE = 0.5;
+// Used when the model doesn't report a confidence
+const DEFAULT_CHUNK_CONFIDENCE = 0.7;
+
+// Markdown headings, numbered headings ("2.1 Target Market"), short ALL CAPS lines,
+// and the slide/sheet markers written by lib/document-extractors.ts
+const HEADING_PATTERN = /^(#{1,6}\s+\S.*|\d+(\.\d+)*\.?\s+[A-Z][^.!?]{0,70}|[A-Z][A-Z0-9 &/,'()-]{2,60}|Slide \d+|Sheet: .+)$/;
+
+/**
+ * Split a document's pages into chunks
+ * Pages are cut into sections at headings, then packed in order into chunks of
+ * at most maxChars. A chunk only breaks between sections unless a single
+ * section is too long, in which case it is cut at paragraph boundaries.
+ * Retrieval (lib/document-retrieval.ts) uses the same chunking with a smaller size.
+ */
+export function chunkDocument(pages: string[], maxChars: number = MAX_CHUNK_CHARS): DocumentChunk[] {
+  const blocks: { page: number; heading: string | null; text: string }[] = [];
+  let heading: string | null = null;
+
+  pages.forEach((pageText, pageIndex) => {
+    for (const section of splitSections(pageText)) {
+      if (section.heading) heading = section.heading;
+      for (const piece of splitLongText(section.text, maxChars)) {
+        blocks.push({ page: pageIndex + 1, heading, text: piece });
+      }
+    }
+  });
+
+  const chunks: DocumentChunk[] = [];
+  let current: DocumentChunk | null = null;
+
+  for (const block of blocks) {
+    if (current && current.text.length + block.text.length + 2 > maxChars) {
+      chunks.push(current);
+      current = null;
+    }
+    if (!current) {
+      current = { index: chunks.length, pages: [], heading: block.heading, text: '' };
+    }
+    current.text = current.text ? `${current.text}\n\n${block.text}` : block.text;
+    if (!current.pages.includes(block.page)) current.pages.push(block.page);
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+function splitSections(pageText: string): { heading: string | null; text: string }[] {
+  const sections: { heading: string | null; lines: string[] }[] = [];
+  let current: { heading: string | null; lines: string[] } = { heading: null, lines: [] };
+
+  for (const line of pageText.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed && trimmed.length <= 80 && HEADING_PATTERN.test(trimmed)) {
+      if (current.lines.some(existing => existing.trim())) sections.push(current);
+      current = { heading: trimmed.replace(/^#+\s*/, ''), lines: [] };
+    }
+    current.lines.push(line);
+  }
+  sections.push(current);
+
+  return sections
+    .map(section => ({ heading: section.heading, text: section.lines.join('\n').trim() }))
+    .filter(section => section.text);
+}
+
+function splitLongText(text: string, limit: number): string[] {
+  if (text.length <= limit) return [text];
+
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > limit) {
+    // Prefer a paragraph break, then a line break, then a hard cut
+    let cut = rest.lastIndexOf('\n\n', limit);
+    if (cut < limit / 2) cut = rest.lastIndexOf('\n', limit);
+    if (cut < limit / 2) cut = limit;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Extract ICP fields from a whole document
+ * Chunks that fail are skipped and reported in failedPages; throws only when every chunk fails.
+ */
+export async function extractICPFromDocument(
+  llm: LLMProvider,
+  pages: string[],
+  fileName?: string
+): Promise<DocumentICPExtraction> {
+  const chunks = chunkDocument(pages);
+  const results: (Partial<Record<ICPFieldKey, FieldCandidate>> | null)[] = new Array(chunks.length).fill(null);
+  let lastError: unknown = null;
+
+  // Small worker pool - one slow chunk doesn't hold up the rest
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const chunk = chunks[next++];
+      try {
+        results[chunk.index] = await extractChunk(llm, chunk, chunks.length, fileName);
+      } catch (error) {
+        console.error(`[Document Extraction] Chunk ${chunk.index + 1}/${chunks.length} failed:`, error);
+        lastError = error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, worker));
+
+  if (chunks.length > 0 && results.every(result => result === null)) {
+    throw lastError instanceof Error ? lastError : new Error('Every document chunk failed to extract');
+  }
+
+  const failedPages = Array.from(new Set(
+    chunks.filter(chunk => results[chunk.index] === null).flatMap(chunk => chunk.pages)
+  ));
+
+  return {
+    ...mergeChunkResults(results.filter((result): result is Partial<Record<ICPFieldKey, FieldCandidate>> => !!result)),
+    chunkCount: chunks.length,
+    failedPages,
+  };
+}
+
+async function extractChunk(
+  llm: LLMProvider,
+  chunk: DocumentChunk,
+  chunkCount: number,
+  fileName?: string
+): Promise<Partial<Record<ICPFieldKey, FieldCandidate>>> {
+  // Field list comes from the ICP schema so new stages are extracted automatically
+  const fieldSpec = JSON.stringify(
+    Object.fromEntries(ICP_FIELDS.map(field => [field.key, field.description])),
+    null,
+    2
+  );
+
+  const position = chunkCount > 1
+    ? `This is part ${chunk.index + 1} of ${chunkCount} of the document${fileName ? ` "${fileName}"` : ''} (pages ${formatPageList(chunk.pages)}${chunk.heading ? `, starting in the section "${chunk.heading}"` : ''}). Other parts are analyzed separately, so only extract what this part states.`
+    : `This is the complete document${fileName ? ` "${fileName}"` : ''}.`;
+
+  const extractionPrompt = `You are an expert at extracting Ideal Customer Profile (ICP) information from business documents.
+
+Analyze the following document text and extract structured ICP data. Be precise and only extract information that is explicitly stated in the text.
+
+${position}
+
+IMPORTANT RULES:
+- Extract EXACT values from the document, not generic terms
+- For company size, use the specific number if given (e.g., "45 employees"), otherwise use a range
+- For location, extract city/state/country, NOT industry terms like "SaaS" or "Tech"
+- For budget, extract ALL dollar amounts, pricing tiers, cost figures (e.g., "$499/mo, $1,499/mo, $80,000 monthly support")
+- Skip table headers like "Title", "Seniority", "Pain Point", "Impact", etc.
+- Extract detailed information - be thorough and comprehensive
+- If a field is not clearly stated, mark it as "Not specified"
+
+Document text to analyze:
+"""
+${chunk.text}
+"""
+
+Extract the following fields:
+${fieldSpec}
+
+For EVERY field return an object in this JSON format:
+{
+  "<field_name>": {
+    "value": "The extracted value",
+    "evidence": "The exact sentence or phrase from the document that supports the value, quoted verbatim",
+    "confidence": 0.0-1.0 (1.0 = stated explicitly, 0.5 = inferred from context, below 0.3 = a guess)
+  }
+}
+
+Return ONLY valid JSON with these fields. Use "Not specified" as the value (with empty evidence) for fields not found in the text.`;
+
+  const extractedContent = await llm.complete({
+    messages: [
+      {
+        role: 'system',
+        content: 'You are an expert at extracting structured business information from documents. Always return valid JSON.',
+      },
+      {
+        role: 'user',
+        content: extractionPrompt,
+      },
+    ],
+    temperature: 0.1, // Low temperature for consistent extraction
+    responseFormat: 'json',
+  });
+
+  let extractedFields: Record<string, unknown>;
+  try {
+    extractedFields = JSON.parse(extractedContent);
+  } catch (error) {
+    console.error('[Document Extraction] Failed to parse LLM response:', extractedContent);
+    throw new Error('Invalid JSON response from LLM');
+  }
+
+  // Drop "Not specified" values and anything outside the schema.
+  // Bare string values (older prompts/fixtures) are accepted without evidence.
+  const candidates: Partial<Record<ICPFieldKey, FieldCandidate>> = {};
+  for (const [key, raw] of Object.entries(extractedFields || {})) {
+    const entry: any = raw && typeof raw === 'object' ? raw : { value: raw };
+    const value = typeof entry.value === 'string' ? entry.value.trim() : '';
+    if (!isICPFieldKey(key) || !value || isPlaceholder(value)) continue;
+
+    candidates[key] = {
+      value,
+      evidence: typeof entry.evidence === 'string' && entry.evidence.trim() ? entry.evidence.trim() : null,
+      confidence: typeof entry.confidence === 'number' ? entry.confidence : DEFAULT_CHUNK_CONFIDENCE,
+      pages: chunk.pages,
+    };
+  }
+  return candidates;
+}
+
+function isPlaceholder(value: string): boolean {
+  const lower = value.toLowerCase();
+  return PLACEHOLDER_VALUES.test(value) ||
+    lower.includes('not specified') ||
+    lower.includes('not found') ||
+    lower.includes('not mentioned');
+}
+
+function normalizeValue(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9$%]+/g, ' ').trim();
+}
+
+/**
+ * Merge per-chunk results (in document order) into one set of fields
+ * Repeats of the same value - or one value contained in another - collapse
+ * into the fuller one. Distinct values are combined for descriptive fields and
+ * reported as a conflict for single-value fields, keeping the most confident.
+ */
+function mergeChunkResults(
+  results: Partial<Record<ICPFieldKey, FieldCandidate>>[]
+): Omit<DocumentICPExtraction, 'chunkCount' | 'failedPages'> {
+  const merged: Omit<DocumentICPExtraction, 'chunkCount' | 'failedPages'> = {
+    fields: {},
+    fieldDetails: {},
+    fieldPages: {},
+    conflicts: [],
+  };
+
+  for (const field of ICP_FIELDS) {
+    const distinct: FieldCandidate[] = [];
+
+    for (const result of results) {
+      const candidate = result[field.key];
+      if (!candidate) continue;
+
+      const normalized = normalizeValue(candidate.value);
+      const match = distinct.find(existing => {
+        const other = normalizeValue(existing.value);
+        return other.includes(normalized) || normalized.includes(other);
+      });
+
+      if (!match) {
+        distinct.push({ ...candidate, pages: [...candidate.pages] });
+        continue;
+      }
+
+      if (candidate.value.length > match.value.length) {
+        match.value = candidate.value;
+        match.evidence = candidate.evidence ?? match.evidence;
+      }
+      match.confidence = Math.max(match.confidence, candidate.confidence);
+      match.pages = mergePages(match.pages, candidate.pages);
+    }
+
+    if (distinct.length === 0) continue;
+
+    let value: string;
+    let confidence: number;
+    let evidence: string | null;
+    let pages: number[];
+
+    if (distinct.length === 1) {
+      ({ value, confidence, evidence, pages } = distinct[0]);
+    } else if (field.singleValue) {
+      // Most confident wins, earliest on a tie
+      const chosen = distinct.reduce((best, candidate) => (candidate.confidence > best.confidence ? candidate : best));
+      ({ value, evidence, pages } = chosen);
+      confidence = Math.min(chosen.confidence, CONFLICT_CONFIDENCE);
+      merged.conflicts.push({
+        field: field.key,
+        chosen: chosen.value,
+        values: distinct.map(candidate => ({ value: candidate.value, pages: candidate.pages })),
+      });
+    } else {
+      // Descriptive fields collect everything the document says, as far as the length limit allows
+      const included: FieldCandidate[] = [];
+      for (const candidate of distinct) {
+        const length = included.reduce((total, item) => total + item.value.length + 2, 0) + candidate.value.length;
+        if (length <= MAX_VALUE_LENGTH) included.push(candidate);
+      }
+      value = included.map(candidate => candidate.value).join('; ');
+      confidence = Math.min(...included.map(candidate => candidate.confidence));
+      evidence = included.find(candidate => candidate.evidence)?.evidence ?? null;
+      pages = included.reduce((all, candidate) => mergePages(all, candidate.pages), [] as number[]);
+    }
+
+    merged.fields[field.key] = value;
+    merged.fieldDetails[field.key] = { evidence, confidence };
+    merged.fieldPages[field.key] = pages;
+  }
+
+  return merged;
+}
+
+function mergePages(a: number[], b: number[]): number[] {
+  return Array.from(new Set([...a, ...b])).sort((x, y) => x - y);
+}
+
+/**
+ * Compact page list for display, e.g. [1, 2, 3, 7] -> "1-3, 7"
+ */
+export function formatPageList(pages: number[]): string {
+  const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+  return ranges.join(', ');
+}
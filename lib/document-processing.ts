@@ -0,0 +1,280 @@
+/**
+ * ICP extraction for an uploaded document, shared by the upload and re-extract routes
+ *
+ * Runs the chunked LLM extraction over the document's pages (regex analyzer as
+ * the offline fallback), saves what it found, records the conflicts inside the
+ * document, and writes the summary shown in the chat.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getLLMProvider } from '@/lib/llm';
+import { computeCompletionFlags } from '@/lib/icp-completion';
+import { ICPFieldDetail, saveICPData } from '@/lib/icp-store';
+import { ExtractedDocument } from '@/lib/document-extractors';
+import { DocumentFieldConflict, extractICPFromDocument, formatPageList } from '@/lib/document-icp-extraction';
+import { getDocumentPageUnit } from '@/lib/document-formats';
+import { LOW_OCR_CONFIDENCE } from '@/lib/ocr';
+import { AttachmentExtraction } from '@/types/chat';
+import { DEFAULT_SOURCE_CONFIDENCE, ICPData, ICPFieldKey, ICP_FIELDS, ICP_SECTIONS, isICPComplete, isICPFieldKey } from '@/types/icp';
+
+// Document text placed in the chat's context - the ICP extraction itself reads every page
+const MAX_CONTEXT_CHARS = 50000;
+
+export interface DocumentICPResult {
+  summary: string;
+  extractedFields: Partial<ICPData>;
+  filledSections: string[];
+  icpData: Partial<ICPData>;
+  // Pages each field was found on and single-value fields the pages disagree on (LLM extraction only)
+  fieldPages: Partial<Record<ICPFieldKey, number[]>>;
+  documentConflicts: DocumentFieldConflict[];
+  failedPages: number[];
+  usedRegexFallback: boolean;
+}
+
+/**
+ * Extract ICP fields from a document's text and merge them into the chat's ICP
+ */
+export async function extractDocumentICP(
+  supabase: SupabaseClient,
+  chatId: string,
+  document: ExtractedDocument,
+  fileName: string
+): Promise<DocumentICPResult> {
+  const extractedText = document.text;
+
+  // Use LLM to extract structured ICP fields (more accurate than regex)
+  console.log('[Document Processing] Using LLM to extract ICP fields...');
+  let detectedICP: Partial<ICPData> = {};
+  // Per-field evidence/confidence; left empty for the regex fallback, whose guesses are scored low below
+  let fieldDetails: Partial<Record<ICPFieldKey, ICPFieldDetail>> = {};
+  let fieldPages: Partial<Record<ICPFieldKey, number[]>> = {};
+  let documentConflicts: DocumentFieldConflict[] = [];
+  let failedPages: number[] = [];
+  let usedRegexFallback = false;
+
+  try {
+    const extraction = await extractICPFromDocument(getLLMProvider('extraction'), document.pages, fileName);
+    detectedICP = extraction.fields as Partial<ICPData>;
+    fieldDetails = extraction.fieldDetails;
+    fieldPages = extraction.fieldPages;
+    documentConflicts = extraction.conflicts;
+    failedPages = extraction.failedPages;
+    console.log('[Document Processing] LLM extracted fields:', Object.keys(detectedICP), 'chunks:', extraction.chunkCount);
+  } catch (error) {
+    console.error('[Document Processing] LLM extraction error, falling back to regex:', error);
+    // Fallback to regex-based extraction
+    const { analyzeMessageForICP } = await import('@/lib/icp-analyzer');
+    detectedICP = analyzeMessageForICP(extractedText, 'user');
+    usedRegexFallback = true;
+  }
+
+  if (usedRegexFallback) {
+    for (const key of Object.keys(detectedICP)) {
+      if (isICPFieldKey(key)) {
+        fieldDetails[key] = { confidence: DEFAULT_SOURCE_CONFIDENCE.regex_analyzer };
+      }
+    }
+  }
+
+  // A value read only from OCR'd pages is no more certain than the OCR that read it
+  if (document.ocr) {
+    const ocrConfidence = new Map(document.ocr.pages.map(page => [page.page, page.confidence / 100]));
+    const allPages = Array.from({ length: document.pageCount }, (_, i) => i + 1);
+    for (const key of Object.keys(detectedICP)) {
+      if (!isICPFieldKey(key)) continue;
+      const pages = usedRegexFallback ? allPages : fieldPages[key] || [];
+      if (pages.length === 0 || !pages.every(page => ocrConfidence.has(page))) continue;
+
+      const detail = fieldDetails[key] || {};
+      fieldDetails[key] = {
+        ...detail,
+        confidence: (detail.confidence ?? DEFAULT_SOURCE_CONFIDENCE.pdf) * Math.max(...pages.map(page => ocrConfidence.get(page)!)),
+      };
+    }
+  }
+
+  // Get existing ICP data
+  const { data: existingICP } = await supabase
+    .from('icp_data')
+    .select('*')
+    .eq('chat_id', chatId)
+    .single();
+
+  // Sections the document had something for (reported in the summary - completion is decided on save)
+  const documentSections = ICP_SECTIONS.filter(section =>
+    section.fields.some(field => detectedICP[field.key])
+  );
+
+  console.log('[Document Processing] Sections found in document:', documentSections.map(s => s.id));
+
+  // Save to database (records a revision for every field the document changed)
+  let savedICP: ICPData | null = null;
+  try {
+    savedICP = await saveICPData(supabase, chatId, detectedICP, {
+      source: 'pdf',
+      sourceId: fileName,
+      fieldDetails,
+      sourceText: extractedText,
+    });
+  } catch (error) {
+    console.error('Error saving ICP data:', error);
+    // Continue even if save fails - we'll still return the detected fields
+  }
+
+  // Record what the document contradicts itself on, so the agent can ask which value is right
+  const pageUnit = getDocumentPageUnit(document.format);
+  if (documentConflicts.length > 0) {
+    const { error: conflictError } = await supabase.from('icp_conflicts').insert(
+      documentConflicts.map(conflict => ({
+        chat_id: chatId,
+        field: conflict.field,
+        description: `"${fileName}" gives different values: ${conflict.values
+          .map(({ value, pages }) => `"${value}" (${pageUnit} ${formatPageList(pages)})`)
+          .join(' vs ')}`,
+        current_value: conflict.chosen,
+        conflicting_value: conflict.values.find(({ value }) => value !== conflict.chosen)?.value ?? null,
+      }))
+    );
+    if (conflictError) {
+      console.error('[Document Processing] Error recording document conflicts:', conflictError);
+    }
+  }
+
+  const mergedICP: Partial<ICPData> = { ...(existingICP || { chat_id: chatId }), ...detectedICP };
+
+  // Generate summary of what was found
+  const foundFields = ICP_FIELDS
+    .filter(field => detectedICP[field.key])
+    .map(field => field.label.toLowerCase());
+
+  // Determine which sections were filled
+  const filledSections = documentSections.map(section => section.name);
+
+  // Check for conflicts with existing data
+  let conflictWarning = '';
+  if (existingICP) {
+    // Check company name conflict
+    if (existingICP.company_name && detectedICP.company_name &&
+        existingICP.company_name !== detectedICP.company_name) {
+      conflictWarning = `\n\nI notice the document is for ${detectedICP.company_name}, but you previously mentioned your company is ${existingICP.company_name}. Which company should we use for the ICP?`;
+    }
+  }
+
+  // Where each field came from - only worth citing when there is more than one page
+  let sourcesNote = '';
+  if (document.pageCount > 1 && Object.keys(fieldPages).length > 0) {
+    const citations = ICP_FIELDS
+      .filter(field => detectedICP[field.key] && fieldPages[field.key]?.length)
+      .map(field => {
+        const pages = fieldPages[field.key]!;
+        return `${field.label} (${pageUnit}${pages.length > 1 ? 's' : ''} ${formatPageList(pages)})`;
+      });
+    sourcesNote = `\n\nWhere I found it: ${citations.join(', ')}.`;
+  }
+
+  let documentConflictNote = '';
+  if (documentConflicts.length > 0) {
+    const lines = documentConflicts.map(conflict => {
+      const label = ICP_FIELDS.find(field => field.key === conflict.field)?.label ?? conflict.field;
+      const values = conflict.values
+        .map(({ value, pages }) => `"${value}" (${pageUnit} ${formatPageList(pages)})`)
+        .join(' vs ');
+      return `- ${label}: ${values}. I used "${conflict.chosen}" for now.`;
+    });
+    documentConflictNote = `\n\nThe document isn't consistent on a few points - which is right?\n${lines.join('\n')}`;
+  }
+
+  let failedPagesNote = '';
+  if (failedPages.length > 0) {
+    failedPagesNote = `\n\nI couldn't analyze ${pageUnit}${failedPages.length > 1 ? 's' : ''} ${formatPageList(failedPages)}, so anything there is missing from the ICP.`;
+  }
+
+  // Scanned pages (PDFs only) are worth double-checking, the hard-to-read ones most of all
+  let ocrNote = '';
+  if (document.ocr && document.ocr.pages.length > 0) {
+    const ocrPages = document.ocr.pages.map(page => page.page);
+    const lowPages = document.ocr.pages.filter(page => page.confidence < LOW_OCR_CONFIDENCE);
+    ocrNote = `\n\n${ocrPages.length > 1 ? 'Pages' : 'Page'} ${formatPageList(ocrPages)} ${ocrPages.length > 1 ? 'were' : 'was'} scanned, so I read ${ocrPages.length > 1 ? 'them' : 'it'} with OCR (${document.ocr.averageConfidence}% confidence on average).`;
+    if (lowPages.length > 0) {
+      ocrNote += ` Some of it was hard to read (${lowPages.map(page => `page ${page.page}: ${page.confidence}%`).join(', ')}) - please check what I took from ${lowPages.length > 1 ? 'those pages' : 'that page'}.`;
+    }
+  }
+  if (document.ocr && document.ocr.skippedPages.length > 0) {
+    const skipped = document.ocr.skippedPages;
+    ocrNote += `\n\n${skipped.length > 1 ? 'Pages' : 'Page'} ${formatPageList(skipped)} ${skipped.length > 1 ? 'look' : 'looks'} scanned but couldn't be read with OCR, so anything there is missing from the ICP.`;
+  }
+
+  // Generate summary message
+  let summary = '';
+  if (foundFields.length > 0) {
+    summary = `I've reviewed your document "${fileName}". I found information about `;
+    if (filledSections.length > 0) {
+      summary += filledSections.join(', ').toLowerCase();
+    }
+    summary += '. ';
+
+    if (conflictWarning) {
+      summary += conflictWarning;
+    } else if (isICPComplete(savedICP)) {
+      // Document is comprehensive
+      summary += `This document contains comprehensive ICP information covering all major sections. I've extracted the key details. Your ICP is essentially complete - would you like me to generate the final ICP document now?`;
+    } else if (filledSections.length > 0) {
+      summary += `I've extracted information for ${filledSections.length} section${filledSections.length > 1 ? 's' : ''}. Let me know if you'd like to add anything or if we should continue with the remaining sections.`;
+    } else {
+      summary += `However, I couldn't extract structured ICP information. Could you help me understand your target customers better?`;
+    }
+    summary += sourcesNote + documentConflictNote + failedPagesNote + ocrNote;
+  } else {
+    summary = `I've reviewed your document "${fileName}", but I couldn't extract specific ICP information from it. Could you help me understand your target customers by answering a few questions?${ocrNote}`;
+  }
+
+  return {
+    summary,
+    extractedFields: detectedICP,
+    filledSections,
+    icpData: savedICP || { ...mergedICP, ...computeCompletionFlags(mergedICP) },
+    fieldPages,
+    documentConflicts,
+    failedPages,
+    usedRegexFallback,
+  };
+}
+
+/**
+ * The part of a result that is stored with the attachment
+ */
+export function toAttachmentExtraction(result: DocumentICPResult): AttachmentExtraction {
+  return {
+    fields: result.extractedFields,
+    fieldPages: result.fieldPages,
+    conflicts: result.documentConflicts,
+    failedPages: result.failedPages,
+    usedRegexFallback: result.usedRegexFallback,
+    summary: result.summary,
+  };
+}
+
+/**
+ * Document text for the chat's context, whole pages up to MAX_CONTEXT_CHARS
+ * Says which pages were left out rather than cutting silently - their ICP fields
+ * were still extracted and are in the summary.
+ */
+export function buildDocumentContext(document: Pick<ExtractedDocument, 'format' | 'text' | 'pages'>): string {
+  if (document.text.length <= MAX_CONTEXT_CHARS) return document.text;
+
+  const pageUnit = getDocumentPageUnit(document.format);
+  const included: string[] = [];
+  let length = 0;
+  for (const page of document.pages) {
+    if (length + page.length > MAX_CONTEXT_CHARS && included.length > 0) break;
+    included.push(page.length > MAX_CONTEXT_CHARS ? page.substring(0, MAX_CONTEXT_CHARS) : page);
+    length += page.length + 2;
+  }
+
+  const omitted = document.pages.length - included.length;
+  const note = omitted > 0
+    ? `[${pageUnit}s ${included.length + 1}-${document.pages.length} are not shown here to save space; ICP fields found on them were extracted and are listed in the summary]`
+    : `[The rest of this ${pageUnit} is not shown here to save space; ICP fields found in it were extracted and are listed in the summary]`;
+  return `${included.join('\n\n')}\n\n${note}`;
+}
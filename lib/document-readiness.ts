@@ -0,0 +1,177 @@
+/**
+ * Document readiness
+ *
+ * Scores how much of each ICP section (ICP_SECTIONS) is known before the
+ * document is generated, and lists the fields that are missing or weak with
+ * a follow-up question for each. A field counts in full once it passes the
+ * completion quality checks (lib/icp-completion.ts); a low-confidence value
+ * counts half. Optional fields weigh half as much as required ones.
+ */
+
+import { checkFieldQuality } from '@/lib/icp-completion';
+import {
+  ICPData,
+  ICPFieldKey,
+  ICPSectionId,
+  ICP_SECTIONS,
+  isLowConfidence,
+} from '@/types/icp';
+
+export type ReadinessVerdict = 'ready' | 'needs_review' | 'not_ready';
+
+export interface ReadinessGap {
+  field: ICPFieldKey;
+  label: string;
+  // missing: empty or fails a quality check; weak: has a value, but a low-confidence one
+  status: 'missing' | 'weak';
+  reason: string;
+  required: boolean;
+  // What to ask the founder to fill the gap
+  question: string;
+}
+
+export interface SectionReadiness {
+  section: ICPSectionId;
+  name: string;
+  // 0-100
+  score: number;
+  gaps: ReadinessGap[];
+}
+
+export interface DocumentReadiness {
+  verdict: ReadinessVerdict;
+  // 0-100, weighted like the section scores
+  score: number;
+  sections: SectionReadiness[];
+  // Why the verdict was reached, for the UI
+  message: string;
+}
+
+// Below this overall score a document would be mostly guesswork
+const MIN_USABLE_SCORE = 60;
+const OPTIONAL_FIELD_WEIGHT = 0.5;
+const LOW_CONFIDENCE_CREDIT = 0.5;
+
+// The document can't be written about an unnamed company or an unknown product
+const ESSENTIAL_FIELDS: ICPFieldKey[] = ['company_name', 'product_description'];
+
+const FOLLOW_UP_QUESTIONS: Record<ICPFieldKey, string> = {
+  company_name: 'What is the name of your company?',
+  company_size: 'Roughly how big is the business today, in team size or revenue?',
+  industry: 'Which industry are you in, or which industries do you focus on?',
+  location: 'Where is the company based, and where do you mainly operate?',
+  product_description: 'How would you describe your main product or solution in simple terms?',
+  delivery_model: 'Do customers use it themselves (self-serve), or do you manage it for them?',
+  value_outcomes: 'What outcomes do customers get from it that they could not get before?',
+  target_customer_type: 'Do you sell to businesses (B2B), consumers (B2C), or both?',
+  target_demographics: 'What do your best-fit customers look like in size, revenue and industry?',
+  target_psychographics: 'What do your best customers value or believe that others do not?',
+  decision_makers: 'Who usually gets involved when a company decides to buy from you?',
+  decision_maker_role: 'Who has the final say on the purchase, by role or title?',
+  budget_range: 'What does a typical customer spend with you, and who owns that budget?',
+  buying_process_steps: 'What are the steps from first conversation to signed deal?',
+  approval_process: 'What approvals are needed before a customer can sign?',
+  main_problems: 'What problems push these companies to look for a solution like yours?',
+  pain_points: 'Where do they feel the most friction today, and what does it cost them?',
+  current_solutions: 'How do they deal with the problem today, before they find you?',
+  buying_triggers: 'Is there a specific moment or event when they get serious about solving this?',
+  urgency_timing: 'How urgent is it for them, and how long does a typical decision take?',
+  evaluation_criteria: 'How do they compare options, and what makes them choose one?',
+  fit_indicators: 'What signals tell you a prospect will be a great customer?',
+  exclusions: 'Which customers are not a good fit, and what are the red flags?',
+  emotional_drivers: 'What motivates the buyer personally - relief, status, fear of falling behind?',
+  strategic_goals: 'What bigger goals are buyers trying to reach with a solution like yours?',
+};
+
+/**
+ * Score the ICP's readiness for document generation
+ */
+export function evaluateDocumentReadiness(icpData: Partial<ICPData> | null): DocumentReadiness {
+  const data = icpData || {};
+  const provenance = data.field_provenance || {};
+  let earned = 0;
+  let possible = 0;
+
+  const sections: SectionReadiness[] = ICP_SECTIONS
+    .filter(section => section.fields.length > 0)
+    .map(section => {
+      let sectionEarned = 0;
+      let sectionPossible = 0;
+      const gaps: ReadinessGap[] = [];
+
+      for (const field of section.fields) {
+        const weight = field.optional ? OPTIONAL_FIELD_WEIGHT : 1;
+        const reason = checkFieldQuality(field, data[field.key]);
+        const base = { field: field.key, label: field.label, required: !field.optional };
+
+        let credit = 1;
+        if (reason) {
+          credit = 0;
+          gaps.push({ ...base, status: 'missing', reason, question: FOLLOW_UP_QUESTIONS[field.key] });
+        } else if (isLowConfidence(provenance[field.key])) {
+          credit = LOW_CONFIDENCE_CREDIT;
+          gaps.push({
+            ...base,
+            status: 'weak',
+            reason: `Low confidence (${Math.round(provenance[field.key]!.confidence * 100)}%)`,
+            question: `Can you confirm the ${field.label.toLowerCase()}? So far I have: "${String(data[field.key]).trim()}"`,
+          });
+        }
+
+        sectionEarned += credit * weight;
+        sectionPossible += weight;
+      }
+
+      earned += sectionEarned;
+      possible += sectionPossible;
+      return {
+        section: section.id,
+        name: section.name,
+        score: Math.round((sectionEarned / sectionPossible) * 100),
+        gaps,
+      };
+    });
+
+  const score = possible > 0 ? Math.round((earned / possible) * 100) : 0;
+  const gaps = sections.flatMap(section => section.gaps);
+  const missingEssentials = gaps.filter(gap => gap.status === 'missing' && ESSENTIAL_FIELDS.includes(gap.field));
+  const missingRequired = gaps.filter(gap => gap.status === 'missing' && gap.required);
+
+  let verdict: ReadinessVerdict;
+  let message: string;
+  if (missingEssentials.length > 0) {
+    verdict = 'not_ready';
+    message = `The document needs at least the ${missingEssentials.map(gap => gap.label.toLowerCase()).join(' and ')}.`;
+  } else if (score < MIN_USABLE_SCORE) {
+    verdict = 'not_ready';
+    message = `Only ${score}% of the profile is known - most of the document would be guesswork.`;
+  } else if (missingRequired.length > 0 || gaps.some(gap => gap.status === 'weak' && gap.required)) {
+    verdict = 'needs_review';
+    message = `${missingRequired.length > 0 ? `${missingRequired.length} required field${missingRequired.length === 1 ? ' is' : 's are'} missing` : 'Some required fields have low confidence'} - those parts of the document will be thin.`;
+  } else {
+    verdict = 'ready';
+    message = gaps.length > 0
+      ? 'Every required field is known. A few optional details would make the document richer.'
+      : 'Every field is known.';
+  }
+
+  return { verdict, score, sections, message };
+}
+
+// A longer list would be more than one conversation turn can cover
+const MAX_DISCOVERY_GAPS = 6;
+
+/**
+ * The chat message that continues discovery on the gaps - required fields first
+ */
+export function buildDiscoveryMessage(readiness: DocumentReadiness): string {
+  const gaps = readiness.sections
+    .flatMap(section => section.gaps)
+    .sort((a, b) => Number(b.required) - Number(a.required))
+    .slice(0, MAX_DISCOVERY_GAPS);
+
+  return [
+    "Before generating the ICP document, let's fill in what's still missing. Ask me about:",
+    ...gaps.map(gap => `- ${gap.label}: ${gap.question}`),
+  ].join('\n');
+}
@@ -0,0 +1,326 @@
+/**
+ * Retrieval over uploaded documents for the chat route
+ *
+ * Each attachment is cut into small chunks (same page/section chunking as the
+ * ICP extraction) and embedded once, into document_chunks. On every chat turn
+ * the chunks are ranked in-process by cosine similarity against the latest
+ * user message and the current discovery stage, and the best ones are added to
+ * the prompt up to a token budget. Documents that fit the budget whole are sent
+ * whole. When stored vectors are missing or come from another model, chunks are
+ * embedded on the fly with the in-process hash embedding instead.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  EmbeddingProvider,
+  cosineSimilarity,
+  estimateTokens,
+  getEmbeddingProvider,
+  getHashEmbeddingProvider,
+  truncateToTokens,
+} from '@/lib/llm';
+import { chunkDocument, formatPageList } from '@/lib/document-icp-extraction';
+import { DocumentFormat, getDocumentPageUnit } from '@/lib/document-formats';
+import { Attachment } from '@/types/chat';
+
+export interface DocumentSource {
+  // Attachment id, or message id + position for documents pasted into older messages
+  id: string;
+  name: string;
+  format: DocumentFormat;
+  pages: string[];
+  // Changes whenever the text changes (attachment updated_at) - part of the cache key
+  version: string;
+  // Whether document_chunks has rows for it
+  indexed: boolean;
+}
+
+export interface RetrievedExcerpt {
+  sourceId: string;
+  sourceName: string;
+  format: DocumentFormat;
+  chunkIndex: number;
+  pages: number[];
+  heading: string | null;
+  text: string;
+  score: number;
+}
+
+interface IndexedChunk {
+  index: number;
+  pages: number[];
+  heading: string | null;
+  text: string;
+  embedding: number[];
+  // embeddingModelKey() of the vector
+  model: string;
+}
+
+// Small enough that several stages' worth of excerpts fit the budget
+const RETRIEVAL_CHUNK_CHARS = 1500;
+// Tokens of document text added to the chat prompt per turn
+export const DOCUMENT_CONTEXT_TOKENS = 4000;
+// Documents kept in the in-process chunk cache
+const MAX_CACHED_SOURCES = 100;
+
+const chunkCache = new Map<string, IndexedChunk[]>();
+
+function embeddingModelKey(provider: EmbeddingProvider): string {
+  return `${provider.name}:${provider.model}`;
+}
+
+function embeddingInput(chunk: { heading: string | null; text: string }): string {
+  return chunk.heading && !chunk.text.startsWith(chunk.heading) ? `${chunk.heading}\n${chunk.text}` : chunk.text;
+}
+
+export function attachmentToSource(attachment: Attachment): DocumentSource {
+  return {
+    id: attachment.id,
+    name: attachment.file_name,
+    format: attachment.format,
+    pages: attachment.pages,
+    version: attachment.updated_at,
+    indexed: true,
+  };
+}
+
+/**
+ * Chunk and embed an attachment into document_chunks, replacing any earlier chunks
+ * Returns the number of chunks stored.
+ */
+export async function indexAttachment(supabase: SupabaseClient, attachment: Attachment): Promise<number> {
+  const provider = getEmbeddingProvider();
+  const chunks = chunkDocument(attachment.pages, RETRIEVAL_CHUNK_CHARS);
+  const vectors = chunks.length > 0 ? await provider.embed(chunks.map(embeddingInput)) : [];
+
+  const { error: deleteError } = await supabase
+    .from('document_chunks')
+    .delete()
+    .eq('attachment_id', attachment.id);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear document chunks: ${deleteError.message}`);
+  }
+
+  if (chunks.length > 0) {
+    const { error } = await supabase
+      .from('document_chunks')
+      .insert(chunks.map((chunk, i) => ({
+        attachment_id: attachment.id,
+        chat_id: attachment.chat_id,
+        chunk_index: chunk.index,
+        pages: chunk.pages,
+        heading: chunk.heading,
+        content: chunk.text,
+        token_count: estimateTokens(chunk.text),
+        embedding: vectors[i],
+        embedding_model: embeddingModelKey(provider),
+      })));
+
+    if (error) {
+      throw new Error(`Failed to store document chunks: ${error.message}`);
+    }
+  }
+
+  console.log('[Document Retrieval] Indexed attachment:', {
+    attachmentId: attachment.id,
+    chunks: chunks.length,
+    model: embeddingModelKey(provider),
+  });
+  return chunks.length;
+}
+
+async function loadChunks(
+  supabase: SupabaseClient,
+  source: DocumentSource,
+  provider: EmbeddingProvider
+): Promise<IndexedChunk[]> {
+  const model = embeddingModelKey(provider);
+  const cacheKey = `${source.id}:${source.version}:${model}`;
+  const cached = chunkCache.get(cacheKey);
+  if (cached) return cached;
+
+  let chunks: IndexedChunk[] = [];
+
+  if (source.indexed) {
+    const { data, error } = await supabase
+      .from('document_chunks')
+      .select('chunk_index, pages, heading, content, embedding')
+      .eq('attachment_id', source.id)
+      .eq('embedding_model', model)
+      .order('chunk_index', { ascending: true });
+
+    if (error) {
+      console.error('[Document Retrieval] Error loading chunks:', error);
+    }
+    chunks = (data || []).map(row => ({
+      index: row.chunk_index,
+      pages: row.pages || [],
+      heading: row.heading,
+      text: row.content,
+      embedding: row.embedding || [],
+      model,
+    }));
+  }
+
+  // Not indexed (or indexed with another model): embed on the fly with the hash embedding
+  if (chunks.length === 0) {
+    const hash = getHashEmbeddingProvider();
+    const documentChunks = chunkDocument(source.pages, RETRIEVAL_CHUNK_CHARS);
+    const vectors = await hash.embed(documentChunks.map(embeddingInput));
+    chunks = documentChunks.map((chunk, i) => ({
+      index: chunk.index,
+      pages: chunk.pages,
+      heading: chunk.heading,
+      text: chunk.text,
+      embedding: vectors[i],
+      model: embeddingModelKey(hash),
+    }));
+  }
+
+  if (chunkCache.size >= MAX_CACHED_SOURCES) {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    chunkCache.delete(chunkCache.keys().next().value!);
+  }
+  chunkCache.set(cacheKey, chunks);
+  return chunks;
+}
+
+/**
+ * Pick the document text to show the chat model this turn
+ * queries are the texts the excerpts should be relevant to (latest user message,
+ * current stage); a chunk's score is its best similarity to any of them.
+ * Excerpts come back in document order.
+ */
+export async function retrieveDocumentExcerpts(
+  supabase: SupabaseClient,
+  sources: DocumentSource[],
+  queries: string[],
+  budgetTokens: number = DOCUMENT_CONTEXT_TOKENS
+): Promise<RetrievedExcerpt[]> {
+  if (sources.length === 0) return [];
+
+  let provider: EmbeddingProvider;
+  try {
+    provider = getEmbeddingProvider();
+  } catch (error) {
+    console.error('[Document Retrieval] Embedding provider unavailable, using hash embeddings:', error);
+    provider = getHashEmbeddingProvider();
+  }
+
+  const chunksBySource = await Promise.all(sources.map(source => loadChunks(supabase, source, provider)));
+  const candidates: RetrievedExcerpt[] = [];
+
+  // Everything fits - no need to rank
+  const totalTokens = chunksBySource.flat().reduce((total, chunk) => total + estimateTokens(chunk.text), 0);
+  const rank = totalTokens > budgetTokens && queries.some(query => query.trim());
+
+  // Query vectors per embedding model in use
+  const queryVectors = new Map<string, number[][]>();
+  if (rank) {
+    const usable = queries.filter(query => query.trim());
+    for (const model of new Set(chunksBySource.flat().map(chunk => chunk.model))) {
+      const embedder = model === embeddingModelKey(provider) ? provider : getHashEmbeddingProvider();
+      try {
+        queryVectors.set(model, await embedder.embed(usable));
+      } catch (error) {
+        // Stored vectors can't be compared without a query vector from the same model
+        console.error('[Document Retrieval] Query embedding failed:', error);
+        queryVectors.set(model, []);
+      }
+    }
+  }
+
+  sources.forEach((source, sourceIndex) => {
+    for (const chunk of chunksBySource[sourceIndex]) {
+      const vectors = queryVectors.get(chunk.model) || [];
+      candidates.push({
+        sourceId: source.id,
+        sourceName: source.name,
+        format: source.format,
+        chunkIndex: chunk.index,
+        pages: chunk.pages,
+        heading: chunk.heading,
+        text: chunk.text,
+        score: vectors.length > 0 ? Math.max(...vectors.map(vector => cosineSimilarity(vector, chunk.embedding))) : 0,
+      });
+    }
+  });
+
+  // Highest score first; ties (and the unranked case) keep document order
+  const ordered = rank
+    ? candidates.map((candidate, position) => ({ candidate, position }))
+      .sort((a, b) => b.candidate.score - a.candidate.score || a.position - b.position)
+      .map(({ candidate }) => candidate)
+    : candidates;
+
+  const selected: RetrievedExcerpt[] = [];
+  let used = 0;
+  for (const excerpt of ordered) {
+    // Once ranked, unrelated chunks aren't worth the tokens even if the budget has room
+    if (rank && excerpt.score <= 0) break;
+    const tokens = estimateTokens(excerpt.text);
+    if (used + tokens <= budgetTokens) {
+      selected.push(excerpt);
+      used += tokens;
+    } else if (selected.length === 0) {
+      // A single chunk larger than the budget is cut rather than dropped
+      selected.push({ ...excerpt, text: truncateToTokens(excerpt.text, budgetTokens) });
+      used = budgetTokens;
+    }
+  }
+
+  console.log('[Document Retrieval] Selected excerpts:', {
+    sources: sources.length,
+    candidates: candidates.length,
+    selected: selected.length,
+    tokens: used,
+    ranked: rank,
+  });
+
+  const sourceOrder = new Map(sources.map((source, i) => [source.id, i]));
+  return selected.sort((a, b) =>
+    sourceOrder.get(a.sourceId)! - sourceOrder.get(b.sourceId)! || a.chunkIndex - b.chunkIndex
+  );
+}
+
+/**
+ * Excerpts as a prompt section, each labelled with its document and pages
+ */
+export function formatExcerpts(excerpts: RetrievedExcerpt[]): string {
+  return excerpts
+    .map(excerpt => {
+      const unit = getDocumentPageUnit(excerpt.format);
+      const location = excerpt.pages.length > 0
+        ? `, ${unit}${excerpt.pages.length > 1 ? 's' : ''} ${formatPageList(excerpt.pages)}`
+        : '';
+      const section = excerpt.heading ? `, section "${excerpt.heading}"` : '';
+      return `[From "${excerpt.sourceName}"${location}${section}]\n${excerpt.text}`;
+    })
+    .join('\n\n');
+}
+
+// Document text the client used to paste into the message body (before attachments were stored)
+const PASTED_DOCUMENT_PATTERN = /=== DOCUMENT CONTENT \(AUTHORITATIVE SOURCE\) ===\n\[Document: ([^\]\n]+)\]\n\n([\s\S]*?)\n\n=== END DOCUMENT CONTENT ===(\n\nIMPORTANT: All information in the document above[^\n]*)?/g;
+
+/**
+ * Take pasted document text out of an older message so it goes through retrieval too
+ */
+export function extractPastedDocuments(
+  messageId: string,
+  content: string
+): { content: string; sources: DocumentSource[] } {
+  const sources: DocumentSource[] = [];
+  const stripped = content.replace(PASTED_DOCUMENT_PATTERN, (_match, name: string, text: string) => {
+    sources.push({
+      id: `${messageId}:${sources.length}`,
+      name,
+      format: 'txt',
+      pages: [text],
+      version: 'pasted',
+      indexed: false,
+    });
+    return `[Document: ${name}]`;
+  });
+  return { content: stripped.trim(), sources };
+}
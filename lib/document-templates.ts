@@ -0,0 +1,176 @@
+/**
+ * Branded templates for exported ICP documents (server only)
+ *
+ * A few templates are built in; more can be added as JSON files (a
+ * DocumentTemplate, logo path relative to the file) in DOCUMENT_TEMPLATES_DIR.
+ * Logos are PNG or JPEG.
+ */
+
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import { DocumentTemplate, DocumentTemplateSummary } from '@/types/document';
+
+export interface TemplateLogo {
+  data: Buffer;
+  type: 'png' | 'jpeg';
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'xccelerate';
+
+const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  {
+    id: 'xccelerate',
+    name: 'AI Xccelerate',
+    description: 'Cover page with the AI Xccelerate logo and orange accents',
+    logo: 'AI Xccelerate logo.png',
+    colors: { primary: '#1F2937', accent: '#FF6600', text: '#111827', muted: '#6B7280' },
+    coverPage: true,
+    footer: 'Prepared by AI Xccelerate',
+  },
+  {
+    id: 'executive',
+    name: 'Executive',
+    description: 'Navy cover page without a logo, for white-label client hand-offs',
+    logo: null,
+    colors: { primary: '#1E3A5F', accent: '#C9A227', text: '#1F2933', muted: '#7B8794' },
+    coverPage: true,
+    footer: null,
+  },
+  {
+    id: 'minimal',
+    name: 'Minimal',
+    description: 'Black and white, no cover page',
+    logo: null,
+    colors: { primary: '#111111', accent: '#999999', text: '#111111', muted: '#777777' },
+    coverPage: false,
+    footer: null,
+  },
+];
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Logo paths of built-in templates are relative to public/, custom ones to their JSON file
+const templateBaseDirs = new Map<string, string>();
+
+function isValidTemplate(value: any): value is DocumentTemplate {
+  return !!value &&
+    typeof value.id === 'string' && /^[a-z0-9_-]+$/.test(value.id) &&
+    typeof value.name === 'string' &&
+    (value.logo === null || value.logo === undefined || typeof value.logo === 'string') &&
+    !!value.colors && ['primary', 'accent', 'text', 'muted'].every(key => HEX_COLOR.test(value.colors[key]));
+}
+
+async function loadCustomTemplates(): Promise<DocumentTemplate[]> {
+  const directory = process.env.DOCUMENT_TEMPLATES_DIR;
+  if (!directory) return [];
+
+  let files: string[];
+  try {
+    files = (await readdir(directory)).filter(file => file.endsWith('.json'));
+  } catch (error) {
+    console.error('[Document Templates] Cannot read DOCUMENT_TEMPLATES_DIR:', error);
+    return [];
+  }
+
+  const templates: DocumentTemplate[] = [];
+  for (const file of files) {
+    try {
+      const parsed = JSON.parse(await readFile(path.join(directory, file), 'utf8'));
+      if (!isValidTemplate(parsed)) {
+        console.error(`[Document Templates] Skipping ${file}: not a valid template`);
+        continue;
+      }
+      templates.push({
+        id: parsed.id,
+        name: parsed.name,
+        description: parsed.description || '',
+        logo: parsed.logo || null,
+        colors: parsed.colors,
+        coverPage: parsed.coverPage !== false,
+        footer: parsed.footer || null,
+      });
+      templateBaseDirs.set(parsed.id, directory);
+    } catch (error) {
+      console.error(`[Document Templates] Skipping ${file}:`, error);
+    }
+  }
+  return templates;
+}
+
+/**
+ * Built-in templates followed by custom ones (a custom template can replace a built-in one by id)
+ */
+export async function listDocumentTemplates(): Promise<DocumentTemplate[]> {
+  const custom = await loadCustomTemplates();
+  const customIds = new Set(custom.map(template => template.id));
+  return [...BUILT_IN_TEMPLATES.filter(template => !customIds.has(template.id)), ...custom];
+}
+
+/**
+ * The template with this id, or the default one
+ */
+export async function getDocumentTemplate(id?: string | null): Promise<DocumentTemplate> {
+  const templates = await listDocumentTemplates();
+  return templates.find(template => template.id === id) ||
+    templates.find(template => template.id === DEFAULT_TEMPLATE_ID) ||
+    templates[0];
+}
+
+export function toTemplateSummary(template: DocumentTemplate): DocumentTemplateSummary {
+  const { logo, ...rest } = template;
+  return { ...rest, hasLogo: !!logo };
+}
+
+/**
+ * Read a template's logo and its pixel size
+ * Returns null (and logs) when there is none or it can't be read - documents are still exported without it.
+ */
+export async function loadTemplateLogo(template: DocumentTemplate): Promise<TemplateLogo | null> {
+  if (!template.logo) return null;
+
+  const baseDir = templateBaseDirs.get(template.id) || path.join(process.cwd(), 'public');
+  const file = path.resolve(baseDir, template.logo);
+  if (!file.startsWith(path.resolve(baseDir) + path.sep)) {
+    console.error('[Document Templates] Logo path escapes its directory:', template.logo);
+    return null;
+  }
+
+  let data: Buffer;
+  try {
+    data = await readFile(file);
+  } catch (error) {
+    console.error('[Document Templates] Cannot read logo:', error);
+    return null;
+  }
+
+  const size = readImageSize(data);
+  if (!size) {
+    console.error('[Document Templates] Logo is not a PNG or JPEG:', template.logo);
+    return null;
+  }
+  return { data, ...size };
+}
+
+function readImageSize(data: Buffer): Omit<TemplateLogo, 'data'> | null {
+  // PNG: signature, then the IHDR chunk with width and height
+  if (data.length > 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { type: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { type: 'jpeg', height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
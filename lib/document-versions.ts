@@ -0,0 +1,101 @@
+/**
+ * Generated document versions (icp_document_versions)
+ *
+ * Each generation is appended as the chat's next version number with the ICP
+ * it was generated from. Versions are never updated or deleted.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ICPDocument, ICPDocumentVersion, ICPDocumentVersionSummary } from '@/types/document';
+import { ICPData } from '@/types/icp';
+
+const SUMMARY_COLUMNS = 'id, chat_id, version, provider, model, prompt_version, created_at';
+
+// Two generations finishing together can race for the same number
+const MAX_INSERT_ATTEMPTS = 3;
+
+export interface NewDocumentVersion {
+  document: ICPDocument;
+  icpData: ICPData;
+  provider: string | null;
+  model: string | null;
+  promptVersion: number;
+}
+
+/**
+ * Store a generation as the chat's next version
+ */
+export async function saveDocumentVersion(
+  supabase: SupabaseClient,
+  chatId: string,
+  input: NewDocumentVersion
+): Promise<ICPDocumentVersionSummary> {
+  // The document itself isn't part of the snapshot - it is the version
+  const { generated_document: _document, document_generated_at: _generatedAt, ...icpSnapshot } = input.icpData;
+
+  for (let attempt = 1; ; attempt++) {
+    const { data: latest, error: latestError } = await supabase
+      .from('icp_document_versions')
+      .select('version')
+      .eq('chat_id', chatId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) throw latestError;
+
+    const { data, error } = await supabase
+      .from('icp_document_versions')
+      .insert({
+        chat_id: chatId,
+        version: (latest?.version ?? 0) + 1,
+        document: input.document,
+        icp_snapshot: icpSnapshot,
+        provider: input.provider,
+        model: input.model,
+        prompt_version: input.promptVersion,
+      })
+      .select(SUMMARY_COLUMNS)
+      .single();
+
+    if (!error) return data as ICPDocumentVersionSummary;
+    // 23505: unique violation on (chat_id, version)
+    if (error.code !== '23505' || attempt >= MAX_INSERT_ATTEMPTS) throw error;
+  }
+}
+
+/**
+ * The chat's versions, newest first
+ */
+export async function listDocumentVersions(
+  supabase: SupabaseClient,
+  chatId: string
+): Promise<ICPDocumentVersionSummary[]> {
+  const { data, error } = await supabase
+    .from('icp_document_versions')
+    .select(SUMMARY_COLUMNS)
+    .eq('chat_id', chatId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ICPDocumentVersionSummary[];
+}
+
+/**
+ * One version with its document and ICP snapshot, or null if there is no such version
+ */
+export async function getDocumentVersion(
+  supabase: SupabaseClient,
+  chatId: string,
+  version: number
+): Promise<ICPDocumentVersion | null> {
+  const { data, error } = await supabase
+    .from('icp_document_versions')
+    .select('*')
+    .eq('chat_id', chatId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ICPDocumentVersion | null;
+}
@@ -0,0 +1,255 @@
+/**
+ * DOCX rendering of an ICP document (server only)
+ *
+ * Writes the WordprocessingML parts directly with JSZip. The template's colors
+ * go into the styles (headings, table headers, bullets), so the document stays
+ * editable in Word with the branding intact. Letter size, 1 inch margins.
+ */
+
+import { isKeyValueTable, buildSourcesTable, splitCitationMarkers, tableColumnShares, toRenderBlocks } from '@/lib/icp-document';
+import { TemplateLogo } from '@/lib/document-templates';
+import { DocumentTemplate, ICPDocument, ICPRenderBlock, ICPTableBlock } from '@/types/document';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PIC_NS = 'http://schemas.openxmlformats.org/drawingml/2006/picture';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Letter page, 1 inch margins, in twentieths of a point
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const MARGIN = 1440;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+// English Metric Units per inch, for the logo
+const EMU_PER_INCH = 914400;
+
+function escapeXML(text: string): string {
+  return text
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function color(hex: string): string {
+  return hex.replace('#', '').toUpperCase();
+}
+
+function run(text: string, properties = ''): string {
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXML(text)}</w:t></w:r>`;
+}
+
+// Citation markers are set small and muted so they don't interrupt the text
+function textRuns(text: string, template: DocumentTemplate, properties = ''): string {
+  return splitCitationMarkers(text)
+    .map(part => part.citation
+      ? run(part.text, `${properties}<w:color w:val="${color(template.colors.muted)}"/><w:vertAlign w:val="superscript"/>`)
+      : run(part.text, properties))
+    .join('');
+}
+
+function paragraph(content: string, properties = ''): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function logoRun(logo: TemplateLogo, maxWidthInches: number, maxHeightInches: number): string {
+  const scale = Math.min(maxWidthInches / logo.width, maxHeightInches / logo.height);
+  const cx = Math.round(logo.width * scale * EMU_PER_INCH);
+  const cy = Math.round(logo.height * scale * EMU_PER_INCH);
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+    `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="1" name="Logo"/>` +
+    `<a:graphic xmlns:a="${A_NS}"><a:graphicData uri="${PIC_NS}"><pic:pic xmlns:pic="${PIC_NS}">` +
+    `<pic:nvPicPr><pic:cNvPr id="1" name="logo.${logo.type}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="rIdLogo"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+}
+
+function renderTable(block: ICPTableBlock, template: DocumentTemplate): string {
+  const keyValue = isKeyValueTable(block);
+  const widths = tableColumnShares(block).map(share => Math.round(share * TEXT_WIDTH));
+
+  const cell = (text: string, width: number, cellProperties: string, runProperties: string) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${cellProperties}</w:tcPr>${paragraph(textRuns(text, template, runProperties), '<w:spacing w:after="0"/>')}</w:tc>`;
+
+  const header = keyValue
+    ? ''
+    : `<w:tr><w:trPr><w:tblHeader/></w:trPr>${block.columns
+        .map((column, c) => cell(column, widths[c], `<w:shd w:val="clear" w:color="auto" w:fill="${color(template.colors.primary)}"/>`, '<w:b/><w:color w:val="FFFFFF"/>'))
+        .join('')}</w:tr>`;
+
+  const rows = block.rows
+    .map(row => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${block.columns
+      .map((_column, c) => cell(row[c] || '', widths[c], '', keyValue && c === 0 ? '<w:b/>' : ''))
+      .join('')}</w:tr>`)
+    .join('');
+
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="ICPTable"/><w:tblW w:w="${TEXT_WIDTH}" w:type="dxa"/><w:tblLayout w:type="fixed"/></w:tblPr>` +
+    `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>${header}${rows}</w:tbl>` +
+    // Word needs a paragraph after a table, and it separates it from what follows
+    paragraph('', '<w:spacing w:after="120"/>');
+}
+
+function renderBlock(block: ICPRenderBlock, template: DocumentTemplate): string {
+  switch (block.type) {
+    case 'subheading':
+      return paragraph(run(block.text), '<w:pStyle w:val="Heading2"/>');
+    case 'paragraph':
+      return paragraph(textRuns(block.text, template));
+    case 'bullets':
+      return block.items.map(item => paragraph(textRuns(item, template), '<w:pStyle w:val="ListBullet"/>')).join('');
+    case 'table':
+      return renderTable(block, template);
+  }
+}
+
+function renderBody(document: ICPDocument, template: DocumentTemplate, logo: TemplateLogo | null): string {
+  const parts: string[] = [];
+  const date = new Date(document.generatedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  if (template.coverPage) {
+    if (logo) parts.push(paragraph(logoRun(logo, 2.5, 1), '<w:spacing w:after="0"/>'));
+    parts.push(
+      paragraph('', '<w:spacing w:before="3600" w:after="0"/>'),
+      paragraph(
+        run(document.title, '<w:color w:val="FFFFFF"/>'),
+        `<w:pStyle w:val="Title"/><w:shd w:val="clear" w:color="auto" w:fill="${color(template.colors.primary)}"/><w:spacing w:before="240" w:after="240"/><w:ind w:left="240" w:right="240"/>`
+      ),
+      paragraph('', `<w:pBdr><w:bottom w:val="single" w:sz="24" w:space="1" w:color="${color(template.colors.accent)}"/></w:pBdr>`)
+    );
+    if (document.companyName) parts.push(paragraph(run(document.companyName), '<w:pStyle w:val="Subtitle"/><w:spacing w:before="240"/>'));
+    parts.push(
+      paragraph(run(date, `<w:color w:val="${color(template.colors.muted)}"/>`)),
+      paragraph('<w:r><w:br w:type="page"/></w:r>')
+    );
+  } else {
+    if (logo) parts.push(paragraph(logoRun(logo, 1.6, 0.6)));
+    parts.push(paragraph(run(document.title), '<w:pStyle w:val="Title"/>'));
+    const subtitle = [document.companyName, date].filter(Boolean).join(' - ');
+    parts.push(paragraph(run(subtitle), '<w:pStyle w:val="Subtitle"/>'));
+  }
+
+  for (const section of document.sections) {
+    parts.push(paragraph(run(section.title), '<w:pStyle w:val="Heading1"/>'));
+    parts.push(...section.blocks.flatMap(toRenderBlocks).map(block => renderBlock(block, template)));
+  }
+
+  if (document.sources.length > 0) {
+    parts.push(paragraph(run('Sources'), '<w:pStyle w:val="Heading1"/>'));
+    parts.push(renderTable(buildSourcesTable(document.sources), template));
+  }
+
+  const sectionProperties =
+    `<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/>` +
+    `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>` +
+    `<w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="720" w:footer="720" w:gutter="0"/>` +
+    // No footer on the cover page
+    `${template.coverPage ? '<w:titlePg/>' : ''}</w:sectPr>`;
+
+  return `<w:body>${parts.join('')}${sectionProperties}</w:body>`;
+}
+
+function renderStyles(template: DocumentTemplate): string {
+  const { primary, accent, text, muted } = template.colors;
+  return `${XML_HEADER}<w:styles xmlns:w="${W_NS}">` +
+    `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>` +
+    `<w:color w:val="${color(text)}"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>` +
+    `<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>` +
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:spacing w:after="120"/></w:pPr><w:rPr><w:b/><w:color w:val="${color(primary)}"/><w:sz w:val="52"/><w:szCs w:val="52"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:color w:val="${color(muted)}"/><w:sz w:val="30"/><w:szCs w:val="30"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="360" w:after="160"/><w:pBdr><w:bottom w:val="single" w:sz="8" w:space="4" w:color="${color(accent)}"/></w:pBdr><w:outlineLvl w:val="0"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${color(primary)}"/><w:sz w:val="32"/><w:szCs w:val="32"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${color(primary)}"/><w:sz w:val="24"/><w:szCs w:val="24"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/>` +
+    `<w:pPr><w:numPr><w:numId w:val="1"/></w:numPr><w:spacing w:after="60"/></w:pPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/>` +
+    `<w:pPr><w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs><w:spacing w:after="0"/></w:pPr><w:rPr><w:color w:val="${color(muted)}"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>` +
+    `<w:style w:type="table" w:styleId="ICPTable"><w:name w:val="ICP Table"/><w:tblPr>` +
+    `<w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="${color(muted)}"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="${color(muted)}"/>` +
+    `<w:insideH w:val="single" w:sz="4" w:space="0" w:color="${color(muted)}"/></w:tblBorders>` +
+    `<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar>` +
+    `</w:tblPr><w:rPr><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style>` +
+    `</w:styles>`;
+}
+
+function renderNumbering(template: DocumentTemplate): string {
+  return `${XML_HEADER}<w:numbering xmlns:w="${W_NS}">` +
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>` +
+    `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/>` +
+    `<w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr><w:rPr><w:color w:val="${color(template.colors.accent)}"/></w:rPr></w:lvl>` +
+    `</w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+}
+
+function renderFooter(template: DocumentTemplate): string {
+  const field = (instruction: string) =>
+    `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r>` +
+    `<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>`;
+  return `${XML_HEADER}<w:ftr xmlns:w="${W_NS}" xmlns:r="${R_NS}">` +
+    paragraph(
+      `${template.footer ? run(template.footer) : ''}<w:r><w:tab/></w:r>${run('Page ')}${field('PAGE')}${run(' of ')}${field('NUMPAGES')}`,
+      '<w:pStyle w:val="Footer"/>'
+    ) +
+    `</w:ftr>`;
+}
+
+/**
+ * Render the document as a .docx file
+ */
+export async function renderDocx(
+  document: ICPDocument,
+  template: DocumentTemplate,
+  logo: TemplateLogo | null
+): Promise<Buffer> {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+  const title = document.companyName ? `${document.title} - ${document.companyName}` : document.title;
+
+  zip.file('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Default Extension="png" ContentType="image/png"/>` +
+    `<Default Extension="jpeg" ContentType="image/jpeg"/>` +
+    `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+    `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+    `<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>` +
+    `<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>` +
+    `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+    `</Types>`);
+
+  zip.file('_rels/.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>` +
+    `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>` +
+    `</Relationships>`);
+
+  zip.file('docProps/core.xml', `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    `xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    `<dc:title>${escapeXML(title)}</dc:title><dc:creator>${escapeXML(template.footer || template.name)}</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date(document.generatedAt).toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:created>` +
+    `</cp:coreProperties>`);
+
+  zip.file('word/_rels/document.xml.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    `<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>` +
+    `<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>` +
+    (logo ? `<Relationship Id="rIdLogo" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/logo.${logo.type}"/>` : '') +
+    `</Relationships>`);
+
+  zip.file('word/document.xml', `${XML_HEADER}<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}" xmlns:wp="${WP_NS}">` +
+    `${renderBody(document, template, logo)}</w:document>`);
+  zip.file('word/styles.xml', renderStyles(template));
+  zip.file('word/numbering.xml', renderNumbering(template));
+  zip.file('word/footer1.xml', renderFooter(template));
+  if (logo) zip.file(`word/media/logo.${logo.type}`, logo.data);
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -1,4 +1,9 @@
-import { ICPData, ICP_SECTIONS } from '@/types/icp';
+/**
+ * Regex-based ICP analyzer
+ * Offline fallback for /icp/extract and PDF processing when no LLM is reachable
+ */
+
+import { ICPData } from '@/types/icp';
 
 /**
  * Extract structured data from AI summary messages
@@ -471,50 +476,137 @@ export function analyzeMessageForICP(message: string, role: 'user' | 'assistant'
     }
   }
 
-  return detected;
-}
+  // Product / Solution
+  if (lowerMessage.includes('product') || lowerMessage.includes('solution') || lowerMessage.includes('platform') ||
+    lowerMessage.includes('service') || lowerMessage.includes('we sell') || lowerMessage.includes('we offer')) {
 
-/**
- * Check if a section is complete based on filled fields
- * 
- * Company Basics: Requires ALL 4 fields (company_name, company_size, industry, location)
- * Other sections: Requires ALL fields in that section
- */
-export function checkSectionComplete(section: typeof ICP_SECTIONS[0], icpData: ICPData): boolean {
-  const filledFields = section.fields.filter(field => {
-    const value = icpData[field as keyof ICPData];
-    return value && typeof value === 'string' && value.trim().length > 0;
-  });
-
-  // Company Basics requires ALL 4 fields to be complete
-  if (section.name === 'Company Basics') {
-    return filledFields.length === section.fields.length; // Must have all 4 fields
+    const productPatterns = [
+      /(?:our|the|main)\s+(?:product|solution|platform|offering)\s+(?:is|helps?|lets?|does)[\s:]+([^\n\.\?\!]+)/i,
+      /(?:we\s+sell|we\s+offer|we\s+provide|we\s+build)\s+([^\n\.\?\!]+)/i,
+    ];
+
+    for (const pattern of productPatterns) {
+      const match = message.match(pattern);
+      if (match && match[1].trim().length > 5) {
+        detected.product_description = match[1].trim();
+        break;
+      }
+    }
+
+    // Delivery model
+    if (lowerMessage.match(/self[- ]?serve|self[- ]?service/)) {
+      detected.delivery_model = 'Self-serve';
+    } else if (lowerMessage.match(/managed\s+service|fully\s+managed|we\s+manage\s+it/)) {
+      detected.delivery_model = 'Managed service';
+    }
+
+    // Value & outcomes
+    const outcomePatterns = [
+      /(?:outcomes?|results?|value)\s+(?:is|are|include|:)[\s:]*([^\n\.\?\!]+)/i,
+      /(?:helps?|enables?)\s+(?:customers|clients|them|teams)\s+(?:to\s+)?([^\n\.\?\!]+)/i,
+    ];
+
+    for (const pattern of outcomePatterns) {
+      const match = message.match(pattern);
+      if (match && match[1].trim().length > 5) {
+        detected.value_outcomes = match[1].trim();
+        break;
+      }
+    }
   }
 
-  // For other sections, require ALL fields as well
-  // This ensures completeness before marking section as done
-  return filledFields.length === section.fields.length;
-}
+  // Buying Triggers & Timing
+  if (lowerMessage.includes('trigger') || lowerMessage.includes('when they') || lowerMessage.includes('urgent') ||
+    lowerMessage.includes('urgency') || lowerMessage.includes('timing') || lowerMessage.includes('start looking')) {
 
-/**
- * Update section completion status
- */
-export function updateSectionCompletion(icpData: ICPData): ICPData {
-  const updated = { ...icpData };
+    const triggerPatterns = [
+      /(?:trigger|triggers|trigger\s+events?)\s*(?:is|are|include|:)[\s:]*([^\n\.\?\!]+)/i,
+      /(?:start|starts|begin)\s+(?:looking|evaluating|searching)\s+(?:when|after)\s+([^\n\.\?\!]+)/i,
+    ];
+
+    for (const pattern of triggerPatterns) {
+      const match = message.match(pattern);
+      if (match && match[1].trim().length > 5) {
+        detected.buying_triggers = match[1].trim();
+        break;
+      }
+    }
+
+    const urgencyPatterns = [
+      /(?:urgency|timing|timeline)\s*(?:is|are|:)[\s:]*([^\n\.\?\!]+)/i,
+      /(?:usually|typically)\s+(?:buy|purchase|decide)\s+(?:within|in|during)\s+([^\n\.\?\!]+)/i,
+    ];
+
+    for (const pattern of urgencyPatterns) {
+      const match = message.match(pattern);
+      if (match && match[1].trim().length > 3) {
+        detected.urgency_timing = match[1].trim();
+        break;
+      }
+    }
+  }
+
+  // Fit Indicators & Exclusions
+  if (lowerMessage.includes('fit') || lowerMessage.includes('red flag') || lowerMessage.includes('exclude') ||
+    lowerMessage.includes('not a good') || lowerMessage.includes('avoid') || lowerMessage.includes('ideal')) {
+
+    const fitPatterns = [
+      /(?:good|great|best|perfect|ideal)\s+fit\s+(?:customers?\s+)?(?:is|are|has|have|when)[\s:]+([^\n\.\?\!]+)/i,
+      /(?:fit\s+indicators?|positive\s+signals?)[\s:]+([^\n\.\?\!]+)/i,
+    ];
+
+    for (const pattern of fitPatterns) {
+      const match = message.match(pattern);
+      if (match && match[1].trim().length > 5) {
+        detected.fit_indicators = match[1].trim();
+        break;
+      }
+    }
+
+    const exclusionPatterns = [
+      /(?:red\s+flags?|exclusions?|deal[- ]?breakers?)\s*(?:is|are|include|:)[\s:]*([^\n\.\?\!]+)/i,
+      /(?:not\s+a\s+(?:good\s+)?fit|we\s+avoid|we\s+exclude)[\s:]+([^\n\.\?\!]+)/i,
+    ];
 
-  for (const section of ICP_SECTIONS) {
-    (updated as any)[section.completeKey] = checkSectionComplete(section, icpData);
+    for (const pattern of exclusionPatterns) {
+      const match = message.match(pattern);
+      if (match && match[1].trim().length > 5) {
+        detected.exclusions = match[1].trim();
+        break;
+      }
+    }
   }
 
-  // Log completion status for debugging
-  console.log('[ICP Analyzer] Section completion:', {
-    company_basics: updated.company_basics_complete,
-    target_customer: updated.target_customer_complete,
-    problem_pain: updated.problem_pain_complete,
-    buying_process: updated.buying_process_complete,
-    budget_decision: updated.budget_decision_complete,
-  });
+  // Emotional & Strategic Drivers
+  if (lowerMessage.includes('emotional') || lowerMessage.includes('strategic') || lowerMessage.includes('goal') ||
+    lowerMessage.includes('fear') || lowerMessage.includes('ambition')) {
 
-  return updated;
-}
+    const emotionalPatterns = [
+      /(?:emotional(?:ly)?\s+(?:drivers?|driven|motivations?))\s*(?:is|are|by|include|:)?[\s:]*([^\n\.\?\!]+)/i,
+      /(?:they|buyers|customers)\s+(?:fear|worry\s+about|want\s+to\s+feel)\s+([^\n\.\?\!]+)/i,
+    ];
+
+    for (const pattern of emotionalPatterns) {
+      const match = message.match(pattern);
+      if (match && match[1].trim().length > 5) {
+        detected.emotional_drivers = match[1].trim();
+        break;
+      }
+    }
+
+    const goalPatterns = [
+      /(?:strategic\s+goals?|goals?)\s*(?:is|are|include|:)[\s:]*([^\n\.\?\!]+)/i,
+      /(?:they|buyers|customers)\s+(?:want|aim|need)\s+to\s+([^\n\.\?\!]+)/i,
+    ];
 
+    for (const pattern of goalPatterns) {
+      const match = message.match(pattern);
+      if (match && match[1].trim().length > 5) {
+        detected.strategic_goals = match[1].trim();
+        break;
+      }
+    }
+  }
+
+  return detected;
+}
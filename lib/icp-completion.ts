@@ -0,0 +1,167 @@
+/**
+ * ICP section completion engine
+ *
+ * The server decides section completion here, and only here. saveICPData
+ * recomputes every *_complete flag on each write, so clients can't set them.
+ * A section is complete once every required field has a value that passes the
+ * quality checks. A person confirming a section is recorded separately in
+ * section_confirmations: "confirmed" is shown to the user, but it never
+ * completes a section whose requirements aren't met.
+ */
+
+import { isValidCompanyName } from '@/lib/icp-analyzer';
+import {
+  ICPCompletionKey,
+  ICPData,
+  ICPFieldDefinition,
+  ICPFieldKey,
+  ICPRevisionSource,
+  ICPSection,
+  ICPSectionConfirmations,
+  ICPSectionId,
+  ICP_SECTIONS,
+  getSectionForField,
+} from '@/types/icp';
+
+export type ICPSectionStatus = 'incomplete' | 'detected' | 'confirmed';
+
+export interface ICPFieldIssue {
+  field: ICPFieldKey;
+  reason: string;
+}
+
+export interface ICPSectionEvaluation {
+  section: ICPSectionId;
+  status: ICPSectionStatus;
+  complete: boolean;
+  // Required fields that are empty or fail a quality check
+  missing: ICPFieldKey[];
+  // Why each filled field (required or optional) failed its quality check
+  issues: ICPFieldIssue[];
+}
+
+// Values that mean "we don't know" rather than an answer
+export const PLACEHOLDER_VALUES = /^(n\/a|na|none|unknown|not specified|not mentioned|not provided|tbd|-)$/i;
+
+const DEFAULT_MIN_LENGTH = 2;
+
+// Field-specific checks on top of length and placeholder detection
+const FIELD_VALIDATORS: Partial<Record<ICPFieldKey, (value: string) => string | null>> = {
+  company_name: value => (isValidCompanyName(value) ? null : 'Not a valid company name'),
+};
+
+// A change from any other source withdraws the sign-off on the field's section
+const CONFIRMATION_PRESERVING_SOURCES: ICPRevisionSource[] = ['user_edit', 'confirmation_card', 'rollback'];
+
+/**
+ * Check one field value - returns why it doesn't count, or null if it does
+ */
+export function checkFieldQuality(field: ICPFieldDefinition, value: unknown): string | null {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) return 'Missing';
+  if (PLACEHOLDER_VALUES.test(text)) return 'Placeholder value';
+
+  const minLength = field.minLength ?? DEFAULT_MIN_LENGTH;
+  if (text.length < minLength) return `Shorter than ${minLength} characters`;
+
+  return FIELD_VALIDATORS[field.key]?.(text) ?? null;
+}
+
+function evaluateFields(section: ICPSection, icpData: Partial<ICPData>) {
+  const missing: ICPFieldKey[] = [];
+  const issues: ICPFieldIssue[] = [];
+
+  for (const field of section.fields) {
+    const reason = checkFieldQuality(field, icpData[field.key]);
+    if (!reason) continue;
+
+    if (!field.optional) missing.push(field.key);
+    if (reason !== 'Missing') issues.push({ field: field.key, reason });
+  }
+
+  return { missing, issues };
+}
+
+/**
+ * Evaluate every section of an ICP
+ * The synthesis section has no fields - it completes once every other section is complete.
+ */
+export function evaluateCompletion(icpData: Partial<ICPData> | null): Record<ICPSectionId, ICPSectionEvaluation> {
+  const data = icpData || {};
+  const confirmations = data.section_confirmations || {};
+  const result = {} as Record<ICPSectionId, ICPSectionEvaluation>;
+
+  for (const section of ICP_SECTIONS.filter(candidate => candidate.fields.length > 0)) {
+    const { missing, issues } = evaluateFields(section, data);
+    result[section.id] = buildEvaluation(section, missing.length === 0, missing, issues, confirmations);
+  }
+
+  for (const section of ICP_SECTIONS.filter(candidate => candidate.fields.length === 0)) {
+    const othersComplete = Object.values(result).every(evaluation => evaluation.complete);
+    result[section.id] = buildEvaluation(section, othersComplete, [], [], confirmations);
+  }
+
+  return result;
+}
+
+function buildEvaluation(
+  section: ICPSection,
+  complete: boolean,
+  missing: ICPFieldKey[],
+  issues: ICPFieldIssue[],
+  confirmations: ICPSectionConfirmations
+): ICPSectionEvaluation {
+  let status: ICPSectionStatus = 'incomplete';
+  if (complete) {
+    status = confirmations[section.id] ? 'confirmed' : 'detected';
+  }
+  return { section: section.id, status, complete, missing, issues };
+}
+
+export function evaluateSection(section: ICPSection, icpData: Partial<ICPData> | null): ICPSectionEvaluation {
+  return evaluateCompletion(icpData)[section.id];
+}
+
+/**
+ * The *_complete flags for an ICP, as stored in icp_data
+ */
+export function computeCompletionFlags(icpData: Partial<ICPData> | null): Record<ICPCompletionKey, boolean> {
+  const evaluations = evaluateCompletion(icpData);
+  const flags = {} as Record<ICPCompletionKey, boolean>;
+  for (const section of ICP_SECTIONS) {
+    flags[section.completeKey] = evaluations[section.id].complete;
+  }
+  return flags;
+}
+
+/**
+ * Apply a write to the section sign-offs
+ * Sections whose fields were changed by an automatic source lose their sign-off;
+ * newly confirmed sections are added.
+ */
+export function updateSectionConfirmations(
+  existing: ICPSectionConfirmations | undefined,
+  changedFields: ICPFieldKey[],
+  source: ICPRevisionSource,
+  confirmSections: ICPSectionId[] = []
+): ICPSectionConfirmations {
+  const confirmations: ICPSectionConfirmations = { ...(existing || {}) };
+
+  if (!CONFIRMATION_PRESERVING_SOURCES.includes(source)) {
+    for (const field of changedFields) {
+      const section = getSectionForField(field);
+      if (section && confirmations[section.id]) {
+        delete confirmations[section.id];
+        // Synthesis summarises everything, so any withdrawn sign-off withdraws it too
+        delete confirmations.synthesis;
+      }
+    }
+  }
+
+  const now = new Date().toISOString();
+  for (const sectionId of confirmSections) {
+    confirmations[sectionId] = { confirmed_at: now, source };
+  }
+
+  return confirmations;
+}
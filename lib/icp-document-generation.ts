@@ -0,0 +1,428 @@
+/**
+ * ICP document generation
+ *
+ * The document is written one section (GENERATED_SECTIONS) at a time so it can
+ * be streamed as it is generated and single sections can be regenerated. For
+ * each section the `document` LLM route answers with JSON matching
+ * documentSectionSchema: a summary and bullets, plus persona cards, the
+ * pain-point table or the value proposition in their sections. Answers are
+ * validated before they become part of an ICPDocument - invalid parts are
+ * dropped and reported, and citation markers the source list doesn't have are
+ * removed.
+ */
+
+import { LLMJSONSchema, LLMMessage, LLMProvider } from '@/lib/llm';
+import {
+  BUYING_ROLE_LABELS,
+  DocumentCitation,
+  ICPDocumentContent,
+  ICP_DOCUMENT_SECTIONS,
+  emptyDocumentContent,
+} from '@/lib/icp-document';
+import { ICPBuyingRole } from '@/types/document';
+import { ICPData } from '@/types/icp';
+
+// Bumped when the prompt or schema changes - stored with each document version
+export const DOCUMENT_PROMPT_VERSION = 3;
+
+const MAX_CONVERSATION_CHARS = 10000;
+const MAX_TEXT_LENGTH = 1500;
+const MAX_LIST_ITEMS = 12;
+const MAX_PERSONAS = 6;
+const MAX_PAIN_POINTS = 10;
+// Sections generated at the same time
+const SECTION_CONCURRENCY = 3;
+// Longest guidance accepted for a regenerated section
+export const MAX_GUIDANCE_LENGTH = 1000;
+
+const stringList = { type: 'array', items: { type: 'string' } };
+
+// Structured parts that belong to one section, with what the prompt asks for
+const SECTION_EXTRAS: Record<string, { key: string; schema: Record<string, unknown>; instruction: string }> = {
+  buyer_personas: {
+    key: 'personas',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'role', 'buying_role', 'goals', 'frustrations'],
+        properties: {
+          name: { type: 'string' },
+          role: { type: 'string' },
+          buying_role: { type: 'string', enum: Object.keys(BUYING_ROLE_LABELS) },
+          goals: stringList,
+          frustrations: stringList,
+        },
+      },
+    },
+    instruction: '"personas": the buyer personas (decision makers, champions, influencers, end users, blockers) with their goals and frustrations - these are shown as cards, so don\'t repeat them in the bullets',
+  },
+  pain_points: {
+    key: 'pain_points',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['pain', 'impact', 'current_solution'],
+        properties: {
+          pain: { type: 'string' },
+          impact: { type: 'string' },
+          current_solution: { type: ['string', 'null'] },
+        },
+      },
+    },
+    instruction: '"pain_points": each problem with its business impact (quantified where the data allows) and the current solution - shown as a table, so don\'t repeat them in the bullets',
+  },
+  value_proposition: {
+    key: 'value_proposition',
+    schema: {
+      anyOf: [
+        { type: 'null' },
+        {
+          type: 'object',
+          additionalProperties: false,
+          required: ['statement', 'benefits', 'success_metrics'],
+          properties: {
+            statement: { type: 'string' },
+            benefits: stringList,
+            success_metrics: stringList,
+          },
+        },
+      ],
+    },
+    instruction: '"value_proposition": a one-sentence positioning "statement", the key "benefits" and the "success_metrics" buyers care about, or null',
+  },
+};
+
+export interface DocumentGenerationContext {
+  icpData: ICPData;
+  citations: DocumentCitation[];
+  messages: { role: string; content: string }[];
+  // The user's instructions for a section being regenerated
+  guidance?: string;
+}
+
+/**
+ * JSON schema for one section's answer
+ */
+export function documentSectionSchema(sectionId: string): LLMJSONSchema {
+  const extra = SECTION_EXTRAS[sectionId];
+  const properties: Record<string, unknown> = sectionId === 'introduction'
+    ? { introduction: { type: ['string', 'null'] } }
+    : { summary: { type: ['string', 'null'] }, bullets: stringList, ...(extra ? { [extra.key]: extra.schema } : {}) };
+
+  return {
+    name: `icp_document_${sectionId}`,
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: Object.keys(properties),
+      properties,
+    },
+  };
+}
+
+/**
+ * Build the request for one section from the ICP, the numbered sources and the conversation
+ */
+export function buildSectionMessages(sectionId: string, context: DocumentGenerationContext): LLMMessage[] {
+  const { icpData, citations, messages, guidance } = context;
+  // Provenance is shown to the model as a numbered source list instead of raw JSON
+  const { field_provenance: _provenance, generated_document: _document, ...icpFields } = icpData;
+  const sourceList = citations
+    .map(c => `[${c.marker}] ${c.field.label}: ${c.description}${c.provenance.evidence ? ` - "${c.provenance.evidence}"` : ''}`)
+    .join('\n');
+  const conversation = messages.map(m => `${m.role}: ${m.content}`).join('\n\n');
+  const definition = ICP_DOCUMENT_SECTIONS.find(section => section.id === sectionId);
+  const extra = SECTION_EXTRAS[sectionId];
+
+  const task = definition
+    ? `SECTION: ${definition.title}
+It covers: ${definition.points.join('; ')}
+The other sections (${ICP_DOCUMENT_SECTIONS.filter(section => section !== definition).map(section => section.title).join(', ')}) are written separately - don't repeat their content here.
+
+Respond with JSON:
+- "summary": a short paragraph for this section, or null
+- "bullets": the specific details, or an empty list if there is nothing for this section
+${extra ? `- ${extra.instruction}\n` : ''}`
+    : `SECTION: Introduction
+The document's sections are ${ICP_DOCUMENT_SECTIONS.map(section => section.title).join(', ')}.
+
+Respond with JSON:
+- "introduction": two or three sentences introducing the profile, or null
+`;
+
+  const prompt = `You are writing one section of a professional Ideal Customer Profile (ICP) document.
+
+Use ALL the information provided below that belongs in this section.
+
+COLLECTED ICP DATA:
+${JSON.stringify(icpFields, null, 2)}
+${citations.length > 0 ? `
+SOURCES (where each field value came from):
+${sourceList}
+` : ''}
+CONVERSATION HISTORY (for additional context):
+${conversation.substring(0, MAX_CONVERSATION_CHARS)}
+
+${task}${guidance ? `
+GUIDANCE FROM THE USER FOR THIS SECTION (follow it, but don't invent facts the data doesn't support):
+${guidance}
+` : ''}
+RULES:
+- Plain text in every string: no markdown (**, ##, *), no numbering
+- Write in a clear, professional business tone and include all specific details from the data
+- If something is unknown, leave it out rather than saying "not provided"
+${citations.length > 0 ? `- After each statement that uses a field listed in SOURCES, add its marker in square brackets, e.g. [S1]
+- Only use markers from the SOURCES list - the sources themselves are listed automatically
+` : ''}`;
+
+  return [
+    {
+      role: 'system',
+      content: 'You are an expert business analyst creating professional ICP documents. Always return valid JSON matching the requested schema.',
+    },
+    { role: 'user', content: prompt },
+  ];
+}
+
+/**
+ * Generate one section and validate it
+ * The content only has this section's parts; it is empty when the model had nothing for it.
+ */
+export async function generateDocumentSection(
+  llm: LLMProvider,
+  sectionId: string,
+  context: DocumentGenerationContext,
+  signal?: AbortSignal
+): Promise<{ content: ICPDocumentContent; errors: string[] }> {
+  const response = await llm.complete({
+    messages: buildSectionMessages(sectionId, context),
+    temperature: 0.3,
+    responseFormat: 'json',
+    jsonSchema: documentSectionSchema(sectionId),
+    signal,
+  });
+
+  let raw: any;
+  try {
+    raw = JSON.parse(response);
+  } catch (error) {
+    console.error('[Document Generation] Failed to parse LLM response:', response);
+    throw new Error('Invalid JSON response from LLM');
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Generated section is not a JSON object');
+  }
+
+  // Validated in the shape of a whole document, so every section goes through the same checks
+  const extra = SECTION_EXTRAS[sectionId];
+  return validateDocumentContent(
+    sectionId === 'introduction'
+      ? { introduction: raw.introduction }
+      : {
+          sections: [{ id: sectionId, summary: raw.summary, bullets: raw.bullets }],
+          ...(extra ? { [extra.key]: raw[extra.key] } : {}),
+        },
+    context.citations
+  );
+}
+
+/**
+ * Generate several sections with a small worker pool
+ * onSection is called as each one finishes - with the error when it failed.
+ * Stops taking new sections once the signal is aborted.
+ */
+export async function generateDocumentSections(
+  llm: LLMProvider,
+  sectionIds: string[],
+  context: DocumentGenerationContext,
+  onSection: (sectionId: string, result: { content: ICPDocumentContent; errors: string[] } | null, error?: Error) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < sectionIds.length && !signal?.aborted) {
+      const sectionId = sectionIds[next++];
+      try {
+        onSection(sectionId, await generateDocumentSection(llm, sectionId, context, signal));
+      } catch (error: any) {
+        if (signal?.aborted) return;
+        console.error(`[Document Generation] Section ${sectionId} failed:`, error);
+        onSection(sectionId, null, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(SECTION_CONCURRENCY, sectionIds.length) }, worker));
+}
+
+/**
+ * Combine the content of separately generated sections
+ */
+export function mergeDocumentContent(parts: ICPDocumentContent[]): ICPDocumentContent {
+  return parts.reduce((merged, part) => ({
+    introduction: merged.introduction || part.introduction,
+    sections: [...merged.sections, ...part.sections.filter(section => !merged.sections.some(existing => existing.id === section.id))],
+    personas: [...merged.personas, ...part.personas],
+    painPoints: [...merged.painPoints, ...part.painPoints],
+    valueProposition: merged.valueProposition || part.valueProposition,
+  }), emptyDocumentContent());
+}
+
+/**
+ * Validate generated content against the schema
+ * Invalid entries are dropped and listed in `errors`.
+ */
+export function validateDocumentContent(
+  raw: unknown,
+  citations: DocumentCitation[]
+): { content: ICPDocumentContent; errors: string[] } {
+  const errors: string[] = [];
+  const markers = new Set(citations.map(citation => citation.marker));
+  const candidate = raw as any;
+
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+    throw new Error('Generated document is not a JSON object');
+  }
+
+  const text = (value: unknown, path: string, required: boolean): string | null => {
+    if (value === null || value === undefined) {
+      if (required) errors.push(`${path} is missing`);
+      return null;
+    }
+    if (typeof value !== 'string') {
+      errors.push(`${path} is not a string`);
+      return null;
+    }
+    const cleaned = cleanText(value, markers);
+    if (!cleaned && required) errors.push(`${path} is empty`);
+    return cleaned ? truncate(cleaned, MAX_TEXT_LENGTH) : null;
+  };
+
+  const list = (value: unknown, path: string): string[] => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      errors.push(`${path} is not a list`);
+      return [];
+    }
+    if (value.length > MAX_LIST_ITEMS) errors.push(`${path} has more than ${MAX_LIST_ITEMS} items`);
+    return value
+      .slice(0, MAX_LIST_ITEMS)
+      .map((item, i) => text(item, `${path}[${i}]`, false))
+      .filter((item): item is string => !!item);
+  };
+
+  const array = (value: unknown, path: string, max: number): any[] => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      errors.push(`${path} is not a list`);
+      return [];
+    }
+    if (value.length > max) errors.push(`${path} has more than ${max} items`);
+    return value.slice(0, max);
+  };
+
+  const sectionIds = new Set(ICP_DOCUMENT_SECTIONS.map(section => section.id));
+  const sections: ICPDocumentContent['sections'] = [];
+  array(candidate.sections, 'sections', ICP_DOCUMENT_SECTIONS.length * 2).forEach((section, i) => {
+    const path = sectionIds.has(section?.id) ? section.id : `sections[${i}]`;
+    if (!section || typeof section !== 'object' || !sectionIds.has(section.id)) {
+      errors.push(`${path} has an unknown section id "${section?.id}"`);
+      return;
+    }
+    if (sections.some(existing => existing.id === section.id)) {
+      errors.push(`${path} repeats section "${section.id}"`);
+      return;
+    }
+    const summary = text(section.summary, `${path}.summary`, false);
+    const bullets = list(section.bullets, `${path}.bullets`);
+    if (summary || bullets.length > 0) sections.push({ id: section.id, summary, bullets });
+  });
+
+  const personas: ICPDocumentContent['personas'] = [];
+  array(candidate.personas, 'personas', MAX_PERSONAS).forEach((persona, i) => {
+    const path = `personas[${i}]`;
+    const name = text(persona?.name, `${path}.name`, true);
+    const role = text(persona?.role, `${path}.role`, false);
+    if (!name && !role) return;
+
+    let buyingRole: ICPBuyingRole = 'influencer';
+    if (Object.keys(BUYING_ROLE_LABELS).includes(persona.buying_role)) {
+      buyingRole = persona.buying_role;
+    } else {
+      errors.push(`${path}.buying_role "${persona.buying_role}" is not a known role`);
+    }
+    personas.push({
+      name: name || role!,
+      role: role || '',
+      buyingRole,
+      goals: list(persona.goals, `${path}.goals`),
+      frustrations: list(persona.frustrations, `${path}.frustrations`),
+    });
+  });
+
+  const painPoints: ICPDocumentContent['painPoints'] = [];
+  array(candidate.pain_points, 'pain_points', MAX_PAIN_POINTS).forEach((point, i) => {
+    const path = `pain_points[${i}]`;
+    const pain = text(point?.pain, `${path}.pain`, true);
+    if (!pain) return;
+    painPoints.push({
+      pain,
+      impact: text(point.impact, `${path}.impact`, false) || '',
+      currentSolution: text(point.current_solution, `${path}.current_solution`, false),
+    });
+  });
+
+  let valueProposition: ICPDocumentContent['valueProposition'] = null;
+  const proposition = candidate.value_proposition;
+  if (proposition !== null && proposition !== undefined) {
+    const statement = typeof proposition === 'object' ? text(proposition.statement, 'value_proposition.statement', true) : null;
+    if (typeof proposition !== 'object') errors.push('value_proposition is not an object');
+    if (statement) {
+      valueProposition = {
+        statement,
+        benefits: list(proposition.benefits, 'value_proposition.benefits'),
+        successMetrics: list(proposition.success_metrics, 'value_proposition.success_metrics'),
+      };
+    }
+  }
+
+  const content: ICPDocumentContent = {
+    introduction: text(candidate.introduction, 'introduction', false),
+    sections,
+    personas,
+    painPoints,
+    valueProposition,
+  };
+  return { content, errors };
+}
+
+export function hasDocumentContent(content: ICPDocumentContent): boolean {
+  return !!content.introduction ||
+    content.sections.length > 0 ||
+    content.personas.length > 0 ||
+    content.painPoints.length > 0 ||
+    !!content.valueProposition;
+}
+
+// Markdown the model writes despite being asked not to, and markers the source list doesn't have
+function cleanText(value: string, markers: Set<string>): string {
+  return value
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s*(?:[-*•]|#{1,6})\s+/, '')
+    .replace(/\s*\[(S\d+(?:,\s*S\d+)*)\]/g, (_match, list: string) => {
+      const known = list.split(/,\s*/).filter(marker => markers.has(marker));
+      return known.length > 0 ? ` [${known.join(', ')}]` : '';
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.substring(0, length - 3).trimEnd()}...` : value;
+}
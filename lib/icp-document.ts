@@ -0,0 +1,556 @@
+/**
+ * ICP document model
+ *
+ * ICP_DOCUMENT_SECTIONS is the outline the document generation asks for. The
+ * validated content (lib/icp-document-generation.ts) is placed into those
+ * sections, and the at-a-glance and sources tables are built straight from
+ * the ICP data. Exporters render richer blocks (persona cards, pain points,
+ * value proposition) through toRenderBlocks, so every format shows the same
+ * structure. No server-only imports - the viewer uses this too.
+ */
+
+import {
+  ICPData,
+  ICPFieldDefinition,
+  ICPFieldKey,
+  ICPFieldProvenance,
+  ICP_FIELDS,
+} from '@/types/icp';
+import {
+  ICPBuyingRole,
+  ICPDocument,
+  ICPDocumentBlock,
+  ICPDocumentSection,
+  ICPDocumentSource,
+  ICPPainPoint,
+  ICPPersona,
+  ICPRenderBlock,
+  ICPTableBlock,
+  ICP_DOCUMENT_SCHEMA_VERSION,
+} from '@/types/document';
+
+export interface ICPDocumentSectionDefinition {
+  id: string;
+  title: string;
+  // What the section should cover - listed in the generation prompt
+  points: string[];
+}
+
+export const ICP_DOCUMENT_SECTIONS: ICPDocumentSectionDefinition[] = [
+  {
+    id: 'company_overview',
+    title: 'Company Overview',
+    points: ['Company Name', 'Industry', 'Size', 'Location', 'Brief Description'],
+  },
+  {
+    id: 'product_solution',
+    title: 'Product / Solution',
+    points: ['What is being sold', 'Delivery model (managed vs self-serve)', 'Outcomes and value delivered'],
+  },
+  {
+    id: 'target_customer',
+    title: 'Target Customer',
+    points: [
+      'Customer Type (B2B/B2C)',
+      'Firmographics (company size, revenue, industry)',
+      'Psychographics (beliefs, motivations, frustrations)',
+    ],
+  },
+  {
+    id: 'buyer_personas',
+    title: 'Buyer Personas & Decision Making',
+    points: [
+      'Key decision makers, champions and their roles',
+      'Primary decision maker',
+      'Budget range and budget holder',
+      'Buying stages and approval process',
+    ],
+  },
+  {
+    id: 'pain_points',
+    title: 'Problems & Pain Points',
+    points: [
+      'Top challenges they face',
+      'Specific pain points with impact',
+      'Current solutions they use',
+      'Quantified pain (costs, time, metrics)',
+    ],
+  },
+  {
+    id: 'buying_triggers',
+    title: 'Buying Triggers & Timing',
+    points: ['Trigger events', 'Urgency and typical timeline', 'Evaluation criteria'],
+  },
+  {
+    id: 'fit_exclusions',
+    title: 'Fit Indicators & Exclusions',
+    points: ['Signals of a great-fit customer', 'Red flags and who is not a fit'],
+  },
+  {
+    id: 'emotional_drivers',
+    title: 'Emotional & Strategic Drivers',
+    points: ['What motivates buyers emotionally', 'Strategic goals they want to achieve'],
+  },
+  {
+    id: 'value_proposition',
+    title: 'Value Proposition & Positioning',
+    points: ['How solutions should address their pain', 'Key benefits they seek', 'Success metrics they care about'],
+  },
+];
+
+// Fields summarized in the table at the top of the document
+const AT_A_GLANCE_FIELDS: ICPFieldKey[] = [
+  'company_name',
+  'industry',
+  'company_size',
+  'location',
+  'target_customer_type',
+  'decision_maker_role',
+  'budget_range',
+];
+
+const MAX_GLANCE_VALUE_LENGTH = 160;
+
+export interface DocumentCitation {
+  marker: string;
+  field: ICPFieldDefinition;
+  provenance: ICPFieldProvenance;
+  description: string;
+}
+
+/**
+ * Number every field that has provenance so the document can cite it as [S1], [S2]...
+ */
+export function buildCitations(
+  icpData: ICPData,
+  messages: { id: string; role: string; created_at: string }[]
+): DocumentCitation[] {
+  const provenance = icpData.field_provenance || {};
+
+  return ICP_FIELDS
+    .filter(field => icpData[field.key] && provenance[field.key])
+    .map((field, index) => {
+      const entry = provenance[field.key]!;
+      const message = messages.find(m => m.id === entry.source_id);
+
+      let description: string;
+      if (message) {
+        description = `${message.role === 'user' ? 'Founder' : 'Assistant'} message, ${new Date(message.created_at).toLocaleDateString()}`;
+      } else if (entry.source === 'pdf' && entry.source_id) {
+        description = `Document "${entry.source_id}"`;
+      } else if (entry.source === 'confirmation_card' || entry.source === 'user_edit') {
+        description = 'Entered or confirmed by the founder';
+      } else {
+        description = entry.source.replace(/_/g, ' ');
+      }
+
+      return { marker: `S${index + 1}`, field, provenance: entry, description };
+    });
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.substring(0, length - 3).trimEnd()}...` : value;
+}
+
+/**
+ * Key facts as a two-column table, straight from the ICP data
+ */
+function buildAtAGlance(icpData: Partial<ICPData>): ICPDocumentSection | null {
+  const rows = AT_A_GLANCE_FIELDS
+    .map(key => ICP_FIELDS.find(field => field.key === key)!)
+    .filter(field => icpData[field.key])
+    .map(field => [field.label, truncate(String(icpData[field.key]).replace(/\s+/g, ' '), MAX_GLANCE_VALUE_LENGTH)]);
+
+  if (rows.length === 0) return null;
+  return {
+    id: 'at_a_glance',
+    title: 'At a Glance',
+    blocks: [{ type: 'table', columns: ['', ''], rows }],
+  };
+}
+
+export function toDocumentSources(citations: DocumentCitation[]): ICPDocumentSource[] {
+  return citations.map(citation => ({
+    marker: citation.marker,
+    field: citation.field.key,
+    label: citation.field.label,
+    description: citation.description,
+    evidence: citation.provenance.evidence,
+    confidence: citation.provenance.confidence,
+  }));
+}
+
+export const BUYING_ROLE_LABELS: Record<ICPBuyingRole, string> = {
+  decision_maker: 'Decision maker',
+  champion: 'Champion',
+  influencer: 'Influencer',
+  end_user: 'End user',
+  blocker: 'Potential blocker',
+};
+
+/**
+ * Validated content of a generated document, before it is placed into sections
+ */
+export interface ICPDocumentContent {
+  introduction: string | null;
+  sections: { id: string; summary: string | null; bullets: string[] }[];
+  personas: ICPPersona[];
+  painPoints: ICPPainPoint[];
+  valueProposition: { statement: string; benefits: string[]; successMetrics: string[] } | null;
+}
+
+// Sections the document generation writes, in document order - the introduction, then the outline
+export const GENERATED_SECTIONS: { id: string; title: string }[] = [
+  { id: 'introduction', title: 'Introduction' },
+  ...ICP_DOCUMENT_SECTIONS.map(({ id, title }) => ({ id, title })),
+];
+
+const SECTION_ORDER = ['at_a_glance', ...GENERATED_SECTIONS.map(section => section.id)];
+
+export function isDocumentSectionId(value: unknown): value is string {
+  return typeof value === 'string' && GENERATED_SECTIONS.some(section => section.id === value);
+}
+
+export function emptyDocumentContent(): ICPDocumentContent {
+  return { introduction: null, sections: [], personas: [], painPoints: [], valueProposition: null };
+}
+
+/**
+ * One generated section (GENERATED_SECTIONS) from the content, or null if the content has nothing for it
+ * Persona cards, the pain-point table and the value proposition go into their sections.
+ */
+export function buildGeneratedSection(id: string, content: ICPDocumentContent): ICPDocumentSection | null {
+  if (id === 'introduction') {
+    return content.introduction
+      ? { id, title: 'Introduction', blocks: [{ type: 'paragraph', text: content.introduction }] }
+      : null;
+  }
+
+  const definition = ICP_DOCUMENT_SECTIONS.find(section => section.id === id);
+  if (!definition) return null;
+
+  const generated = content.sections.find(section => section.id === id);
+  const blocks: ICPDocumentBlock[] = [];
+  if (generated?.summary) blocks.push({ type: 'paragraph', text: generated.summary });
+  if (generated && generated.bullets.length > 0) blocks.push({ type: 'bullets', items: generated.bullets });
+
+  if (id === 'buyer_personas' && content.personas.length > 0) {
+    blocks.push({ type: 'personas', personas: content.personas });
+  } else if (id === 'pain_points' && content.painPoints.length > 0) {
+    blocks.push({ type: 'pain_points', painPoints: content.painPoints });
+  } else if (id === 'value_proposition' && content.valueProposition) {
+    blocks.push({ type: 'value_proposition', ...content.valueProposition });
+  }
+
+  return blocks.length > 0 ? { id, title: definition.title, blocks } : null;
+}
+
+/**
+ * Assemble the document from the generated content, the ICP data and the citations
+ */
+export function buildICPDocument(
+  icpData: Partial<ICPData>,
+  content: ICPDocumentContent,
+  citations: DocumentCitation[],
+  generatedAt: string = new Date().toISOString()
+): ICPDocument {
+  const sections: ICPDocumentSection[] = [];
+
+  const atAGlance = buildAtAGlance(icpData);
+  if (atAGlance) sections.push(atAGlance);
+  for (const { id } of GENERATED_SECTIONS) {
+    const section = buildGeneratedSection(id, content);
+    if (section) sections.push(section);
+  }
+
+  return {
+    schemaVersion: ICP_DOCUMENT_SCHEMA_VERSION,
+    title: 'Ideal Customer Profile',
+    companyName: icpData.company_name || null,
+    generatedAt,
+    sections,
+    sources: toDocumentSources(citations),
+  };
+}
+
+/**
+ * Put a section into the document in its place, replacing the one with the same id
+ * A null section removes it. Sources are merged by marker when citations are given.
+ */
+export function replaceDocumentSection(
+  document: ICPDocument,
+  id: string,
+  section: ICPDocumentSection | null,
+  citations: DocumentCitation[] = []
+): ICPDocument {
+  const rank = (sectionId: string) => {
+    const index = SECTION_ORDER.indexOf(sectionId);
+    return index === -1 ? SECTION_ORDER.length : index;
+  };
+  const sections = document.sections.filter(existing => existing.id !== id);
+  if (section) {
+    const at = sections.findIndex(existing => rank(existing.id) > rank(id));
+    sections.splice(at === -1 ? sections.length : at, 0, section);
+  }
+
+  const sources = new Map(document.sources.map(source => [source.marker, source]));
+  for (const source of toDocumentSources(citations)) sources.set(source.marker, source);
+
+  return {
+    ...document,
+    sections,
+    sources: Array.from(sources.values()).sort((a, b) => markerNumber(a.marker) - markerNumber(b.marker)),
+  };
+}
+
+function markerNumber(marker: string): number {
+  return parseInt(marker.slice(1), 10) || 0;
+}
+
+const BULLET_LINE = /^\s*[-*•]\s+/;
+
+/**
+ * A section's paragraphs and bullet lists as editable text
+ * Paragraphs are separated by blank lines and bullets start with "- ".
+ * Tables, persona cards, pain points and the value proposition aren't included.
+ */
+export function sectionToEditableText(section: ICPDocumentSection): string {
+  return section.blocks
+    .map(block =>
+      block.type === 'paragraph' ? block.text :
+      block.type === 'bullets' ? block.items.map(item => `- ${item}`).join('\n') :
+      null
+    )
+    .filter((text): text is string => text !== null)
+    .join('\n\n');
+}
+
+/**
+ * Put edited text (sectionToEditableText's format) back into a section
+ * The blocks the text doesn't cover are kept after it.
+ */
+export function applySectionText(section: ICPDocumentSection, text: string): ICPDocumentSection {
+  const blocks: ICPDocumentBlock[] = [];
+  for (const chunk of text.split(/\n\s*\n/)) {
+    let paragraph: string[] = [];
+    let bullets: string[] = [];
+    const flush = () => {
+      if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      if (bullets.length > 0) blocks.push({ type: 'bullets', items: bullets });
+      paragraph = [];
+      bullets = [];
+    };
+
+    for (const line of chunk.split('\n').map(line => line.trim()).filter(Boolean)) {
+      if (BULLET_LINE.test(line)) {
+        if (paragraph.length > 0) flush();
+        bullets.push(line.replace(BULLET_LINE, ''));
+      } else {
+        if (bullets.length > 0) flush();
+        paragraph.push(line);
+      }
+    }
+    flush();
+  }
+
+  return {
+    ...section,
+    blocks: [...blocks, ...section.blocks.filter(block => block.type !== 'paragraph' && block.type !== 'bullets')],
+  };
+}
+
+/**
+ * Renumber citations to match a document's existing sources
+ * Fields the document already cites keep their marker so the sections that
+ * aren't regenerated stay correct; other fields get the next free numbers.
+ */
+export function alignCitations(citations: DocumentCitation[], sources: ICPDocumentSource[]): DocumentCitation[] {
+  const markers = new Map(sources.map(source => [source.field, source.marker]));
+  let next = sources.reduce((max, source) => Math.max(max, markerNumber(source.marker)), 0);
+  return citations.map(citation => ({ ...citation, marker: markers.get(citation.field.key) ?? `S${++next}` }));
+}
+
+/**
+ * Lower a block to what exporters draw: paragraphs, bullet lists, tables and subheadings
+ */
+export function toRenderBlocks(block: ICPDocumentBlock): ICPRenderBlock[] {
+  switch (block.type) {
+    case 'paragraph':
+    case 'bullets':
+    case 'table':
+      return [block];
+
+    case 'personas':
+      return block.personas.flatMap((persona): ICPRenderBlock[] => [
+        { type: 'subheading', text: persona.role && persona.role !== persona.name ? `${persona.name} (${persona.role})` : persona.name },
+        {
+          type: 'table',
+          columns: ['', ''],
+          rows: [
+            ['Buying role', BUYING_ROLE_LABELS[persona.buyingRole]],
+            ['Goals', persona.goals.join('; ')],
+            ['Frustrations', persona.frustrations.join('; ')],
+          ].filter(([, value]) => value),
+        },
+      ]);
+
+    case 'pain_points': {
+      const withSolutions = block.painPoints.some(point => point.currentSolution);
+      return [{
+        type: 'table',
+        columns: withSolutions ? ['Pain point', 'Impact', 'Current solution'] : ['Pain point', 'Impact'],
+        rows: block.painPoints.map(point =>
+          withSolutions ? [point.pain, point.impact, point.currentSolution || ''] : [point.pain, point.impact]
+        ),
+      }];
+    }
+
+    case 'value_proposition':
+      return [
+        { type: 'paragraph', text: block.statement },
+        ...(block.benefits.length > 0
+          ? [{ type: 'subheading', text: 'Key Benefits' } as const, { type: 'bullets', items: block.benefits } as const]
+          : []),
+        ...(block.successMetrics.length > 0
+          ? [{ type: 'subheading', text: 'Success Metrics' } as const, { type: 'bullets', items: block.successMetrics } as const]
+          : []),
+      ];
+  }
+}
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+function isDocumentBlock(block: any): boolean {
+  switch (block?.type) {
+    case 'paragraph':
+      return typeof block.text === 'string';
+    case 'bullets':
+      return isStringArray(block.items);
+    case 'table':
+      return isStringArray(block.columns) && Array.isArray(block.rows) && block.rows.every(isStringArray);
+    case 'personas':
+      return Array.isArray(block.personas) && block.personas.every((persona: any) =>
+        typeof persona?.name === 'string' &&
+        typeof persona.role === 'string' &&
+        Object.keys(BUYING_ROLE_LABELS).includes(persona.buyingRole) &&
+        isStringArray(persona.goals) &&
+        isStringArray(persona.frustrations)
+      );
+    case 'pain_points':
+      return Array.isArray(block.painPoints) && block.painPoints.every((point: any) =>
+        typeof point?.pain === 'string' &&
+        typeof point.impact === 'string' &&
+        (point.currentSolution === null || typeof point.currentSolution === 'string')
+      );
+    case 'value_proposition':
+      return typeof block.statement === 'string' && isStringArray(block.benefits) && isStringArray(block.successMetrics);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a stored or client-supplied document against the current schema
+ */
+export function isICPDocument(value: any): value is ICPDocument {
+  return !!value &&
+    value.schemaVersion === ICP_DOCUMENT_SCHEMA_VERSION &&
+    typeof value.title === 'string' &&
+    (value.companyName === null || typeof value.companyName === 'string') &&
+    typeof value.generatedAt === 'string' &&
+    Array.isArray(value.sections) &&
+    value.sections.every((section: any) =>
+      typeof section?.id === 'string' &&
+      typeof section.title === 'string' &&
+      Array.isArray(section.blocks) &&
+      section.blocks.every(isDocumentBlock) &&
+      (section.locked === undefined || typeof section.locked === 'boolean') &&
+      (section.editedAt === undefined || section.editedAt === null || typeof section.editedAt === 'string')
+    ) &&
+    Array.isArray(value.sources) &&
+    value.sources.every((source: any) =>
+      typeof source?.marker === 'string' && typeof source.label === 'string' && typeof source.description === 'string'
+    );
+}
+
+/**
+ * Sources as a table block - shared by the exporters
+ */
+export function buildSourcesTable(sources: ICPDocumentSource[]): ICPTableBlock {
+  return {
+    type: 'table',
+    columns: ['Ref', 'Field', 'Source', 'Confidence'],
+    rows: sources.map(source => [
+      source.marker,
+      source.label,
+      source.evidence ? `${source.description}: "${source.evidence}"` : source.description,
+      `${Math.round(source.confidence * 100)}%`,
+    ]),
+  };
+}
+
+/**
+ * Two columns without headings - rendered as label/value pairs
+ */
+export function isKeyValueTable(block: ICPTableBlock): boolean {
+  return block.columns.length === 2 && block.columns.every(column => !column);
+}
+
+/**
+ * The document as plain text (copying, and the legacy `document` string)
+ */
+export function documentToPlainText(document: ICPDocument): string {
+  const lines: string[] = [document.title.toUpperCase()];
+  if (document.companyName) lines.push(document.companyName);
+  lines.push('');
+
+  document.sections.forEach((section, i) => {
+    lines.push(`${i + 1}. ${section.title.toUpperCase()}`, '');
+    for (const block of section.blocks.flatMap(toRenderBlocks)) {
+      if (block.type === 'subheading') {
+        lines.push(`${block.text}:`);
+      } else if (block.type === 'paragraph') {
+        lines.push(block.text, '');
+      } else if (block.type === 'bullets') {
+        lines.push(...block.items.map(item => `- ${item}`), '');
+      } else if (isKeyValueTable(block)) {
+        lines.push(...block.rows.map(([label, value]) => `${label}: ${value}`), '');
+      } else {
+        lines.push(block.columns.join(' | '), ...block.rows.map(row => row.join(' | ')), '');
+      }
+    }
+  });
+
+  if (document.sources.length > 0) {
+    lines.push('SOURCES', '');
+    lines.push(...document.sources.map(source =>
+      `[${source.marker}] ${source.label} - ${source.description}${source.evidence ? `: "${source.evidence}"` : ''} (confidence ${Math.round(source.confidence * 100)}%)`
+    ));
+  }
+  return lines.join('\n').trim();
+}
+
+/**
+ * Relative column widths for a table, from the length of what is in each column
+ * Every column gets at least a small share so short ones stay readable.
+ */
+export function tableColumnShares(block: ICPTableBlock): number[] {
+  const lengths = block.columns.map((column, c) => Math.max(
+    column.length,
+    ...block.rows.map(row => Math.min((row[c] || '').length, 60))
+  ) + 4);
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const shares = lengths.map(length => Math.max(length / total, 0.1));
+  const sum = shares.reduce((total, share) => total + share, 0);
+  return shares.map(share => share / sum);
+}
+
+/**
+ * Split text into plain runs and citation markers ([S1]) so renderers can set the markers smaller
+ */
+export function splitCitationMarkers(text: string): { text: string; citation: boolean }[] {
+  return text
+    .split(/(\[S\d+(?:,\s*S\d+)*\])/)
+    .filter(Boolean)
+    .map(part => ({ text: part, citation: /^\[S\d+(?:,\s*S\d+)*\]$/.test(part) }));
+}
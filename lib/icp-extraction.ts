@@ -0,0 +1,282 @@
+/**
+ * Incremental ICP extraction
+ *
+ * After each user/assistant exchange the latest turns and the current ICP are
+ * sent to the LLM, which answers with a field-level diff (set/append/clear).
+ * Every operation is validated before it is merged. The regex analyzer is only
+ * used as an offline fallback when no LLM is reachable.
+ */
+
+import { LLMJSONSchema, LLMMessage, LLMProvider } from '@/lib/llm';
+import { analyzeMessageForICP, isValidCompanyName } from '@/lib/icp-analyzer';
+import { PLACEHOLDER_VALUES } from '@/lib/icp-completion';
+import { ICPData, ICPFieldKey, ICPFieldValues, ICP_FIELDS, ICP_FIELD_KEYS, isICPFieldKey } from '@/types/icp';
+
+export type ICPDiffOp = 'set' | 'append' | 'clear';
+
+export interface ICPFieldOperation {
+  op: ICPDiffOp;
+  field: ICPFieldKey;
+  value: string | null;
+  evidence: string | null;
+  confidence?: number;
+  // Which message of the exchange the value came from
+  from: 'user' | 'assistant';
+}
+
+export interface RejectedOperation {
+  operation: unknown;
+  reason: string;
+}
+
+export interface ExtractionTurn {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Messages are trimmed before being sent - uploaded documents can be very long
+const MAX_TURN_CHARS = 6000;
+const MAX_VALUE_LENGTH = 1000;
+
+export const ICP_DIFF_SCHEMA: LLMJSONSchema = {
+  name: 'icp_diff',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['operations'],
+    properties: {
+      operations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['op', 'field', 'value', 'evidence', 'confidence', 'from'],
+          properties: {
+            op: { type: 'string', enum: ['set', 'append', 'clear'] },
+            field: { type: 'string', enum: ICP_FIELD_KEYS },
+            value: { type: ['string', 'null'] },
+            evidence: { type: ['string', 'null'] },
+            confidence: { type: 'number' },
+            from: { type: 'string', enum: ['user', 'assistant'] },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Build the extraction request for the latest exchange
+ * Earlier turns are included for context only
+ */
+export function buildExtractionMessages(current: ICPData | null, turns: ExtractionTurn[]): LLMMessage[] {
+  const fieldList = ICP_FIELDS
+    .map(field => `- ${field.key}: ${field.description}`)
+    .join('\n');
+
+  const currentValues = Object.fromEntries(
+    ICP_FIELD_KEYS.map(key => [key, current?.[key] || null])
+  );
+
+  const transcript = turns
+    .map(turn => {
+      const content = turn.content.length > MAX_TURN_CHARS
+        ? `${turn.content.substring(0, MAX_TURN_CHARS)}...`
+        : turn.content;
+      return `${turn.role === 'user' ? 'FOUNDER' : 'ASSISTANT'}: ${content}`;
+    })
+    .join('\n\n');
+
+  const prompt = `Update an Ideal Customer Profile (ICP) from the latest conversation turns.
+
+ICP FIELDS:
+${fieldList}
+
+CURRENT ICP VALUES (null = not yet known):
+${JSON.stringify(currentValues, null, 2)}
+
+RECENT CONVERSATION (the last FOUNDER/ASSISTANT exchange is new; earlier turns are context):
+"""
+${transcript}
+"""
+
+Return the changes the NEW exchange makes to the ICP as a list of operations:
+- "set": replace the field with "value" (new information, or a correction of the current value)
+- "append": add "value" to the current value (extra detail that doesn't replace what is there)
+- "clear": the founder said the current value is wrong and gave no replacement ("value": null)
+
+RULES:
+- Only use information the founder stated or explicitly confirmed. An assistant question is NOT information; an assistant summary the founder confirmed is.
+- Write clean, self-contained values - never prefixes like "Size:" or concatenated fragments.
+- Don't repeat what the current value already says. If nothing changed, return an empty list.
+- "evidence" is the exact sentence from the conversation that supports the change, quoted verbatim.
+- "from" is "user" if the evidence comes from the founder's message, "assistant" if from the assistant's.
+- "confidence" is 0.0-1.0 (1.0 = stated explicitly, 0.5 = reasonably inferred).
+
+Respond with JSON: { "operations": [ { "op", "field", "value", "evidence", "confidence", "from" } ] }`;
+
+  return [
+    {
+      role: 'system',
+      content: 'You maintain a structured Ideal Customer Profile from a discovery conversation. Always return valid JSON matching the requested schema.',
+    },
+    { role: 'user', content: prompt },
+  ];
+}
+
+/**
+ * Ask the LLM for a diff and parse it (unvalidated)
+ */
+export async function requestICPDiff(
+  llm: LLMProvider,
+  current: ICPData | null,
+  turns: ExtractionTurn[]
+): Promise<unknown[]> {
+  const content = await llm.complete({
+    messages: buildExtractionMessages(current, turns),
+    temperature: 0.1,
+    responseFormat: 'json',
+    jsonSchema: ICP_DIFF_SCHEMA,
+  });
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    console.error('[ICP Extraction] Failed to parse LLM response:', content);
+    throw new Error('Invalid JSON response from LLM');
+  }
+
+  if (!parsed || !Array.isArray(parsed.operations)) {
+    throw new Error('LLM response is missing an operations list');
+  }
+  return parsed.operations;
+}
+
+/**
+ * Validate raw operations against the schema and the current ICP
+ * Operations are checked in order, so later ones see earlier ones applied.
+ */
+export function validateOperations(
+  rawOperations: unknown[],
+  current: ICPData | null
+): { valid: ICPFieldOperation[]; rejected: RejectedOperation[] } {
+  const valid: ICPFieldOperation[] = [];
+  const rejected: RejectedOperation[] = [];
+  const working: ICPFieldValues = {};
+  for (const key of ICP_FIELD_KEYS) {
+    working[key] = current?.[key] ?? null;
+  }
+
+  for (const raw of rawOperations) {
+    const reject = (reason: string) => rejected.push({ operation: raw, reason });
+    const candidate = raw as any;
+
+    if (!candidate || typeof candidate !== 'object') {
+      reject('Operation is not an object');
+      continue;
+    }
+    if (!['set', 'append', 'clear'].includes(candidate.op)) {
+      reject(`Unknown op "${candidate.op}"`);
+      continue;
+    }
+    if (typeof candidate.field !== 'string' || !isICPFieldKey(candidate.field)) {
+      reject(`Unknown field "${candidate.field}"`);
+      continue;
+    }
+
+    const field: ICPFieldKey = candidate.field;
+    const existing = working[field]?.trim() || '';
+    const value = typeof candidate.value === 'string' ? candidate.value.trim() : '';
+
+    if (candidate.op === 'clear') {
+      if (!existing) {
+        reject('Field is already empty');
+        continue;
+      }
+    } else {
+      if (!value || PLACEHOLDER_VALUES.test(value)) {
+        reject('Missing or placeholder value');
+        continue;
+      }
+      if (value.length > MAX_VALUE_LENGTH) {
+        reject(`Value longer than ${MAX_VALUE_LENGTH} characters`);
+        continue;
+      }
+      if (field === 'company_name' && !isValidCompanyName(value)) {
+        reject('Not a valid company name');
+        continue;
+      }
+      if (candidate.op === 'set' && value.toLowerCase() === existing.toLowerCase()) {
+        reject('Value unchanged');
+        continue;
+      }
+      if (candidate.op === 'append' && existing.toLowerCase().includes(value.toLowerCase())) {
+        reject('Value already present');
+        continue;
+      }
+    }
+
+    const operation: ICPFieldOperation = {
+      op: candidate.op,
+      field,
+      value: candidate.op === 'clear' ? null : value,
+      evidence: typeof candidate.evidence === 'string' && candidate.evidence.trim() ? candidate.evidence.trim() : null,
+      confidence: typeof candidate.confidence === 'number' ? candidate.confidence : undefined,
+      from: candidate.from === 'assistant' ? 'assistant' : 'user',
+    };
+
+    valid.push(operation);
+    Object.assign(working, applyOperations(working, [operation]));
+  }
+
+  return { valid, rejected };
+}
+
+/**
+ * Apply validated operations and return only the changed fields
+ */
+export function applyOperations(
+  current: ICPData | ICPFieldValues | null,
+  operations: ICPFieldOperation[]
+): ICPFieldValues {
+  const updates: ICPFieldValues = {};
+
+  for (const operation of operations) {
+    const existing = (operation.field in updates ? updates[operation.field] : current?.[operation.field])?.trim();
+
+    if (operation.op === 'clear') {
+      updates[operation.field] = null;
+    } else if (operation.op === 'append' && existing) {
+      updates[operation.field] = `${existing}; ${operation.value}`;
+    } else {
+      updates[operation.field] = operation.value;
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Offline fallback: turn regex analyzer hits for the latest exchange into "set" operations
+ * A valid existing company name is never replaced.
+ */
+export function regexFallbackOperations(current: ICPData | null, turns: ExtractionTurn[]): unknown[] {
+  const operations: unknown[] = [];
+  const latestExchange = turns.slice(-2);
+
+  for (const turn of latestExchange) {
+    const detected = analyzeMessageForICP(turn.content, turn.role);
+
+    for (const [key, value] of Object.entries(detected)) {
+      if (!isICPFieldKey(key) || typeof value !== 'string') continue;
+      if (key === 'company_name' && current?.company_name && isValidCompanyName(current.company_name)) {
+        continue;
+      }
+      operations.push({ op: 'set', field: key, value, evidence: null, from: turn.role });
+    }
+  }
+
+  return operations;
+}
@@ -0,0 +1,291 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { computeCompletionFlags, updateSectionConfirmations } from '@/lib/icp-completion';
+import {
+  DEFAULT_SOURCE_CONFIDENCE,
+  ICPData,
+  ICPFieldKey,
+  ICPFieldProvenance,
+  ICPFieldValues,
+  ICPProvenanceMap,
+  ICPRevisionSource,
+  ICPSectionId,
+  ICP_FIELD_KEYS,
+  ICP_SECTIONS,
+} from '@/types/icp';
+
+/**
+ * Evidence and confidence a writer reports for one field
+ */
+export interface ICPFieldDetail {
+  evidence?: string | null;
+  confidence?: number;
+  // Message id the value came from, when it differs from the write's messageId
+  sourceId?: string | null;
+}
+
+/**
+ * Who/what is writing to the ICP, recorded on every field revision and in field provenance
+ */
+export interface ICPWriteContext {
+  source: ICPRevisionSource;
+  messageId?: string | null;
+  // Non-message origin, e.g. the uploaded document's name
+  sourceId?: string | null;
+  fieldDetails?: Partial<Record<ICPFieldKey, ICPFieldDetail>>;
+  // Text the values were taken from - used to quote evidence the writer didn't supply.
+  // Defaults to the content of messageId.
+  sourceText?: string;
+  // Sections a person signed off on with this write
+  confirmSections?: ICPSectionId[];
+}
+
+// Columns managed by the database or by this module, never written from a request body
+const SERVER_MANAGED_COLUMNS = [
+  'id',
+  'chat_id',
+  'created_at',
+  'updated_at',
+  'field_provenance',
+  'section_confirmations',
+  'generated_document',
+  'document_generated_at',
+  ...ICP_SECTIONS.map(section => section.completeKey),
+];
+
+const MAX_EVIDENCE_LENGTH = 300;
+
+/**
+ * Treat undefined, null and blank strings as "no value" so they don't produce revisions
+ */
+function normalizeValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value);
+  return text.trim() === '' ? null : text;
+}
+
+/**
+ * Find the sentence in a source text that contains a value, to quote as evidence
+ */
+export function findEvidenceSpan(text: string, value: string): string | null {
+  if (!text || !value) return null;
+
+  const lowerText = text.toLowerCase();
+  // Long values are often lightly rephrased - anchor on their opening words
+  const needle = value.trim().toLowerCase().slice(0, 40);
+  const index = lowerText.indexOf(needle);
+  if (index === -1) return null;
+
+  const before = text.slice(0, index);
+  const sentenceStart = Math.max(
+    before.lastIndexOf('. '),
+    before.lastIndexOf('\n'),
+    before.lastIndexOf('? '),
+    before.lastIndexOf('! ')
+  ) + 1;
+  const endMatch = text.slice(index + needle.length).search(/[.?!\n]/);
+  const sentenceEnd = endMatch === -1 ? text.length : index + needle.length + endMatch + 1;
+
+  const span = text.slice(sentenceStart, sentenceEnd).trim();
+  return span.length > MAX_EVIDENCE_LENGTH ? `${span.slice(0, MAX_EVIDENCE_LENGTH)}...` : span;
+}
+
+/**
+ * Clamp a reported confidence into 0-1, falling back to the source default
+ */
+function normalizeConfidence(confidence: unknown, source: ICPRevisionSource): number {
+  const value = typeof confidence === 'number' ? confidence : parseFloat(String(confidence));
+  if (Number.isNaN(value)) return DEFAULT_SOURCE_CONFIDENCE[source];
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Save ICP updates for a chat, record a revision for every text field that changed
+ * and update each changed field's provenance
+ *
+ * All writes to icp_data should go through here so the audit trail stays complete.
+ * A confirmation card write also marks every field it carries as confirmed (confidence 1).
+ * Section completion flags are recomputed from the merged row on every write
+ * (see lib/icp-completion.ts); flags in the updates are ignored.
+ * Throws if the ICP row can't be saved; a failed revision insert is logged but
+ * doesn't block the save.
+ */
+export async function saveICPData(
+  supabase: SupabaseClient,
+  chatId: string,
+  updates: Partial<ICPData> | ICPFieldValues,
+  context: ICPWriteContext
+): Promise<ICPData> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('icp_data')
+    .select('*')
+    .eq('chat_id', chatId)
+    .single();
+
+  if (fetchError && fetchError.code !== 'PGRST116') {
+    // PGRST116 is "not found" - we'll create the row below
+    throw new Error(`Failed to load ICP data: ${fetchError.message}`);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (!SERVER_MANAGED_COLUMNS.includes(key)) {
+      values[key] = value;
+    }
+  }
+
+  const changedFields = ICP_FIELD_KEYS.filter(field =>
+    field in values && normalizeValue(values[field]) !== normalizeValue(existing?.[field])
+  );
+
+  // Fields whose provenance gets refreshed: everything that changed, plus
+  // every filled field a person just confirmed
+  const confirmedFields = context.source === 'confirmation_card'
+    ? ICP_FIELD_KEYS.filter(field => field in values && normalizeValue(values[field]) !== null)
+    : [];
+  const provenanceFields = Array.from(new Set([...changedFields, ...confirmedFields]));
+
+  const revisionDetails: Partial<Record<ICPFieldKey, ICPFieldProvenance>> = {};
+  if (provenanceFields.length > 0) {
+    const sourceText = context.sourceText ?? await loadMessageContent(supabase, context.messageId);
+    const provenance: ICPProvenanceMap = { ...(existing?.field_provenance || {}) };
+    const now = new Date().toISOString();
+
+    for (const field of provenanceFields) {
+      const newValue = normalizeValue(values[field]);
+      if (newValue === null) {
+        delete provenance[field];
+        continue;
+      }
+
+      const detail = context.fieldDetails?.[field];
+      const previous = provenance[field];
+      const unchanged = !changedFields.includes(field);
+
+      const entry: ICPFieldProvenance = {
+        source: context.source,
+        // Confirming an unchanged value keeps its original source and evidence
+        source_id: detail?.sourceId || context.messageId || context.sourceId || (unchanged ? previous?.source_id ?? null : null),
+        evidence: detail?.evidence
+          || (sourceText ? findEvidenceSpan(sourceText, newValue) : null)
+          || (unchanged ? previous?.evidence ?? null : null),
+        confidence: normalizeConfidence(detail?.confidence, context.source),
+        updated_at: now,
+      };
+      provenance[field] = entry;
+      revisionDetails[field] = entry;
+    }
+
+    values.field_provenance = provenance;
+  }
+
+  const sectionConfirmations = updateSectionConfirmations(
+    existing?.section_confirmations,
+    changedFields,
+    context.source,
+    context.confirmSections
+  );
+  values.section_confirmations = sectionConfirmations;
+  Object.assign(values, computeCompletionFlags({ ...(existing || {}), ...values }));
+
+  let saved: ICPData;
+  if (existing) {
+    const { data, error } = await supabase
+      .from('icp_data')
+      .update(values)
+      .eq('chat_id', chatId)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update ICP data: ${error.message}`);
+    }
+    saved = data;
+  } else {
+    const { data, error } = await supabase
+      .from('icp_data')
+      .insert({ ...values, chat_id: chatId })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create ICP data: ${error.message}`);
+    }
+    saved = data;
+  }
+
+  if (changedFields.length > 0) {
+    const revisions = changedFields.map(field => ({
+      chat_id: chatId,
+      field,
+      old_value: normalizeValue(existing?.[field]),
+      new_value: normalizeValue(saved[field]),
+      source: context.source,
+      message_id: context.messageId || null,
+      source_id: revisionDetails[field]?.source_id ?? context.sourceId ?? null,
+      evidence: revisionDetails[field]?.evidence ?? null,
+      confidence: revisionDetails[field]?.confidence ?? null,
+    }));
+
+    const { error: revisionError } = await supabase
+      .from('icp_field_revisions')
+      .insert(revisions);
+
+    if (revisionError) {
+      console.error('[ICP Store] Failed to record field revisions:', revisionError);
+    } else {
+      console.log(`[ICP Store] Recorded ${revisions.length} revision(s) from ${context.source}:`, changedFields);
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Load a message's text so evidence can be quoted from it
+ */
+async function loadMessageContent(supabase: SupabaseClient, messageId?: string | null): Promise<string | undefined> {
+  if (!messageId) return undefined;
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('content')
+    .eq('id', messageId)
+    .single();
+
+  if (error) {
+    console.warn('[ICP Store] Could not load source message for evidence:', error.message);
+    return undefined;
+  }
+  return data?.content;
+}
+
+/**
+ * Restore a field to the value it had before a given revision
+ * The rollback is itself recorded as a revision with source "rollback"
+ */
+export async function rollbackICPField(
+  supabase: SupabaseClient,
+  chatId: string,
+  revisionId: string
+): Promise<{ icpData: ICPData; field: ICPFieldKey; restoredValue: string | null } | null> {
+  const { data: revision, error } = await supabase
+    .from('icp_field_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .eq('chat_id', chatId)
+    .single();
+
+  if (error || !revision) {
+    return null;
+  }
+
+  const field = revision.field as ICPFieldKey;
+  const icpData = await saveICPData(
+    supabase,
+    chatId,
+    { [field]: revision.old_value },
+    { source: 'rollback' }
+  );
+
+  return { icpData, field, restoredValue: revision.old_value };
+}
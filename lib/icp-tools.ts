@@ -0,0 +1,267 @@
+/**
+ * Tools the chat agent can call to drive ICP state directly
+ *
+ * Each tool runs server-side against icp_data while the reply is streaming.
+ * Results go back to the model as tool messages and to the client as typed SSE events.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LLMToolCall, LLMToolDefinition } from '@/lib/llm';
+import { evaluateSection } from '@/lib/icp-completion';
+import { applyOperations, validateOperations } from '@/lib/icp-extraction';
+import { ICPFieldDetail, saveICPData } from '@/lib/icp-store';
+import {
+  ICPConflict,
+  ICPData,
+  ICPFieldKey,
+  ICP_FIELD_KEYS,
+  ICP_SECTIONS,
+  isICPComplete,
+  isICPFieldKey,
+} from '@/types/icp';
+
+export type ICPToolName =
+  | 'update_icp_fields'
+  | 'mark_section_complete'
+  | 'flag_conflict'
+  | 'request_document_generation';
+
+export interface ICPToolContext {
+  supabase: SupabaseClient;
+  chatId: string;
+  // Latest user message - the turn the agent is reacting to
+  userMessageId?: string | null;
+  userMessageText?: string;
+}
+
+export interface ICPToolResult {
+  ok: boolean;
+  // Sent back to the model as the tool message
+  result: Record<string, unknown>;
+  // Set when the tool changed icp_data
+  icpData?: ICPData;
+  conflict?: ICPConflict;
+  documentRequested?: boolean;
+}
+
+export const ICP_AGENT_TOOLS: LLMToolDefinition[] = [
+  {
+    name: 'update_icp_fields',
+    description: 'Record ICP information the founder stated or confirmed in this conversation. Call it whenever you learn something new or the founder corrects something.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['operations'],
+      properties: {
+        operations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['op', 'field', 'value', 'evidence'],
+            properties: {
+              op: { type: 'string', enum: ['set', 'append', 'clear'], description: 'set replaces, append adds detail, clear removes a wrong value' },
+              field: { type: 'string', enum: ICP_FIELD_KEYS },
+              value: { type: ['string', 'null'], description: 'Clean, self-contained value (null for clear)' },
+              evidence: { type: 'string', description: "The founder's words that support the change, quoted verbatim" },
+              confidence: { type: 'number', description: '0.0-1.0 (1.0 = stated explicitly)' },
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    name: 'mark_section_complete',
+    description: 'Record that the founder confirmed your summary of a discovery stage. Only works once the stage has all its required information.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['section'],
+      properties: {
+        section: { type: 'string', enum: ICP_SECTIONS.map(section => section.id) },
+      },
+    },
+  },
+  {
+    name: 'flag_conflict',
+    description: 'Record contradicting information (e.g. the conversation and an uploaded document disagree) so it can be resolved. Still ask the founder which is right.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['description'],
+      properties: {
+        field: { type: 'string', enum: ICP_FIELD_KEYS, description: 'ICP field the conflict is about, if any' },
+        description: { type: 'string' },
+        current_value: { type: 'string' },
+        conflicting_value: { type: 'string' },
+      },
+    },
+  },
+  {
+    name: 'request_document_generation',
+    description: 'Generate the final ICP document once every stage is complete and the founder asks for it or agrees to it.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {},
+    },
+  },
+];
+
+/**
+ * Run one tool call from the agent
+ * Bad arguments and refused actions come back as ok: false so the model can recover;
+ * only database failures throw.
+ */
+export async function executeICPTool(call: LLMToolCall, context: ICPToolContext): Promise<ICPToolResult> {
+  let args: any;
+  try {
+    args = JSON.parse(call.arguments || '{}');
+  } catch (error) {
+    return { ok: false, result: { error: 'Arguments are not valid JSON' } };
+  }
+
+  switch (call.name as ICPToolName) {
+    case 'update_icp_fields':
+      return updateICPFields(args, context);
+    case 'mark_section_complete':
+      return markSectionComplete(args, context);
+    case 'flag_conflict':
+      return flagConflict(args, context);
+    case 'request_document_generation':
+      return requestDocumentGeneration(context);
+    default:
+      return { ok: false, result: { error: `Unknown tool "${call.name}"` } };
+  }
+}
+
+async function loadICP(context: ICPToolContext): Promise<ICPData | null> {
+  const { data, error } = await context.supabase
+    .from('icp_data')
+    .select('*')
+    .eq('chat_id', context.chatId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to load ICP data: ${error.message}`);
+  }
+  return data || null;
+}
+
+async function updateICPFields(args: any, context: ICPToolContext): Promise<ICPToolResult> {
+  if (!Array.isArray(args?.operations)) {
+    return { ok: false, result: { error: 'operations must be an array' } };
+  }
+
+  const current = await loadICP(context);
+  // The agent only records what the founder said, so every operation is attributed to the user turn
+  const { valid, rejected } = validateOperations(
+    args.operations.map((operation: any) => ({ ...operation, from: 'user' })),
+    current
+  );
+
+  if (valid.length === 0) {
+    return {
+      ok: false,
+      result: { applied: [], rejected: rejected.map(({ reason }) => reason) },
+    };
+  }
+
+  const updates = applyOperations(current, valid);
+
+  const fieldDetails: Partial<Record<ICPFieldKey, ICPFieldDetail>> = {};
+  for (const operation of valid) {
+    fieldDetails[operation.field] = { evidence: operation.evidence, confidence: operation.confidence };
+  }
+
+  const icpData = await saveICPData(
+    context.supabase,
+    context.chatId,
+    updates,
+    {
+      source: 'agent_tool',
+      messageId: context.userMessageId,
+      fieldDetails,
+      sourceText: context.userMessageText,
+    }
+  );
+
+  return {
+    ok: true,
+    result: {
+      applied: valid.map(operation => `${operation.op} ${operation.field}`),
+      rejected: rejected.map(({ reason }) => reason),
+    },
+    icpData,
+  };
+}
+
+async function markSectionComplete(args: any, context: ICPToolContext): Promise<ICPToolResult> {
+  const section = ICP_SECTIONS.find(candidate => candidate.id === args?.section);
+  if (!section) {
+    return { ok: false, result: { error: `Unknown section "${args?.section}"` } };
+  }
+
+  const current = await loadICP(context);
+  const evaluation = evaluateSection(section, current);
+  if (!evaluation.complete) {
+    return {
+      ok: false,
+      result: { error: `${section.name} is missing information`, missing: evaluation.missing, issues: evaluation.issues },
+    };
+  }
+
+  if (evaluation.status === 'confirmed') {
+    return { ok: true, result: { section: section.id, alreadyConfirmed: true } };
+  }
+
+  const icpData = await saveICPData(
+    context.supabase,
+    context.chatId,
+    {},
+    { source: 'agent_tool', messageId: context.userMessageId, confirmSections: [section.id] }
+  );
+
+  return { ok: true, result: { section: section.id }, icpData };
+}
+
+async function flagConflict(args: any, context: ICPToolContext): Promise<ICPToolResult> {
+  const description = typeof args?.description === 'string' ? args.description.trim() : '';
+  if (!description) {
+    return { ok: false, result: { error: 'description is required' } };
+  }
+
+  const field = typeof args.field === 'string' && isICPFieldKey(args.field) ? args.field : null;
+
+  const { data: conflict, error } = await context.supabase
+    .from('icp_conflicts')
+    .insert({
+      chat_id: context.chatId,
+      field,
+      description,
+      current_value: typeof args.current_value === 'string' ? args.current_value : null,
+      conflicting_value: typeof args.conflicting_value === 'string' ? args.conflicting_value : null,
+      message_id: context.userMessageId || null,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record ICP conflict: ${error.message}`);
+  }
+
+  return { ok: true, result: { conflictId: conflict.id }, conflict };
+}
+
+async function requestDocumentGeneration(context: ICPToolContext): Promise<ICPToolResult> {
+  const current = await loadICP(context);
+  if (!isICPComplete(current)) {
+    const incomplete = ICP_SECTIONS
+      .filter(section => current?.[section.completeKey] !== true)
+      .map(section => section.id);
+    return { ok: false, result: { error: 'ICP is not complete yet', incomplete } };
+  }
+
+  return { ok: true, result: { requested: true }, documentRequested: true };
+}
@@ -0,0 +1,201 @@
+/**
+ * Anthropic Messages API provider
+ */
+
+import { readSSEData } from './sse';
+import {
+  LLMCompletionOptions,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMStreamEvent,
+  LLMToolCall,
+  LLMUnavailableError,
+} from './types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export interface AnthropicConfig {
+  apiKey: string;
+  model: string;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private apiKey: string;
+
+  constructor(config: AnthropicConfig) {
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+  }
+
+  private buildBody(options: LLMCompletionOptions, stream: boolean) {
+    // Anthropic takes the system prompt separately from the conversation
+    const systemParts = options.messages.filter(m => m.role === 'system').map(m => m.content);
+    const conversation = options.messages.filter(m => m.role !== 'system') as LLMMessage[];
+
+    // No native JSON mode - ask for it explicitly
+    if (options.responseFormat === 'json') {
+      systemParts.push('Respond with a single valid JSON object only. Do not include any text before or after the JSON.');
+      if (options.jsonSchema) {
+        systemParts.push(`The JSON object must match this JSON Schema exactly:\n${JSON.stringify(options.jsonSchema.schema)}`);
+      }
+    }
+
+    return {
+      model: this.model,
+      system: systemParts.join('\n\n') || undefined,
+      messages: toAnthropicMessages(conversation),
+      tools: options.tools?.length
+        ? options.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+        : undefined,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens || 4096,
+      stream,
+    };
+  }
+
+  private async request(options: LLMCompletionOptions, stream: boolean): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(this.buildBody(options, stream)),
+        signal: options.signal,
+      });
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      throw new LLMUnavailableError(`Failed to reach anthropic provider: ${error.message}`, 502);
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('[LLM:anthropic] API error:', errorData);
+      throw new LLMProviderError(
+        errorData.error?.message || 'anthropic request failed',
+        response.status,
+        errorData
+      );
+    }
+
+    return response;
+  }
+
+  async complete(options: LLMCompletionOptions): Promise<string> {
+    const response = await this.request(options, false);
+    const data = await response.json();
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    if (!text) {
+      throw new LLMProviderError('No content received from anthropic', 502, data);
+    }
+
+    return options.responseFormat === 'json' ? extractJSONObject(text) : text;
+  }
+
+  async stream(options: LLMCompletionOptions): Promise<AsyncIterable<LLMStreamEvent>> {
+    const response = await this.request(options, true);
+    if (!response.body) {
+      throw new LLMProviderError('No response body from anthropic', 502);
+    }
+
+    return parseAnthropicStream(response.body);
+  }
+}
+
+/**
+ * Map our message shape onto Anthropic content blocks
+ * Tool results are user turns, so consecutive results are merged into one message.
+ */
+function toAnthropicMessages(conversation: LLMMessage[]) {
+  const messages: { role: 'user' | 'assistant'; content: any }[] = [];
+
+  for (const message of conversation) {
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = messages[messages.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        messages.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      messages.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: parseToolInput(call.arguments),
+          })),
+        ],
+      });
+    } else {
+      messages.push({ role: message.role as 'user' | 'assistant', content: message.content });
+    }
+  }
+
+  return messages;
+}
+
+function parseToolInput(args: string): unknown {
+  try {
+    return JSON.parse(args || '{}');
+  } catch (e) {
+    return {};
+  }
+}
+
+async function* parseAnthropicStream(body: ReadableStream<Uint8Array>): AsyncGenerator<LLMStreamEvent> {
+  // tool_use blocks stream their input as JSON fragments, keyed by block index
+  const pendingCalls = new Map<number, LLMToolCall>();
+
+  for await (const data of readSSEData(body)) {
+    try {
+      const event = JSON.parse(data);
+      if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+        pendingCalls.set(event.index, { id: event.content_block.id, name: event.content_block.name, arguments: '' });
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        if (event.delta.text) {
+          yield { type: 'content', content: event.delta.text };
+        }
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+        const call = pendingCalls.get(event.index);
+        if (call) call.arguments += event.delta.partial_json || '';
+      } else if (event.type === 'content_block_stop' && pendingCalls.has(event.index)) {
+        const call = pendingCalls.get(event.index)!;
+        pendingCalls.delete(event.index);
+        yield { type: 'tool_call', call: { ...call, arguments: call.arguments || '{}' } };
+      } else if (event.type === 'message_stop') {
+        return;
+      } else if (event.type === 'error') {
+        throw new LLMProviderError(event.error?.message || 'anthropic stream error', 502, event);
+      }
+    } catch (e) {
+      if (e instanceof LLMProviderError) throw e;
+      // Skip invalid JSON
+    }
+  }
+}
+
+/**
+ * Trim any prose the model put around the JSON object
+ */
+function extractJSONObject(text: string): string {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return text;
+  return text.slice(start, end + 1);
+}
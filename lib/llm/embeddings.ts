@@ -0,0 +1,226 @@
+/**
+ * Text embeddings for document retrieval
+ *
+ * EMBEDDING_PROVIDER picks the backend: 'openai', 'azure' and 'local' call an
+ * OpenAI-compatible /embeddings endpoint with the same credentials as the chat
+ * providers; 'hash' is an in-process bag-of-words embedding that needs no
+ * network and is the default for the mock and Anthropic providers (Anthropic
+ * has no embeddings API). The model can be set with EMBEDDING_MODEL.
+ */
+
+import { LLMProviderError } from './types';
+
+export type EmbeddingProviderName = 'openai' | 'azure' | 'local' | 'hash';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  // Stored with every vector - vectors from different models can't be compared
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = ['openai', 'azure', 'local', 'hash'];
+
+// Inputs per request - well under the OpenAI limit, keeps request bodies small
+const EMBEDDING_BATCH_SIZE = 64;
+
+interface OpenAICompatibleEmbeddingsConfig {
+  name: EmbeddingProviderName;
+  url: string;
+  headers: Record<string, string>;
+  model: string;
+  sendModel?: boolean;
+}
+
+class OpenAICompatibleEmbeddings implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+
+  constructor(private config: OpenAICompatibleEmbeddingsConfig) {
+    this.name = config.name;
+    this.model = config.model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const body: Record<string, unknown> = { input: batch };
+      if (this.config.sendModel !== false) body.model = this.model;
+
+      let response: Response;
+      try {
+        response = await fetch(this.config.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.config.headers },
+          body: JSON.stringify(body),
+        });
+      } catch (error: any) {
+        throw new LLMProviderError(`Failed to reach ${this.name} embeddings: ${error.message}`, 502);
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error(`[Embeddings:${this.name}] API error:`, errorData);
+        throw new LLMProviderError(
+          errorData.error?.message || `${this.name} embeddings request failed`,
+          response.status,
+          errorData
+        );
+      }
+
+      const data = await response.json();
+      const batchVectors = (data.data || [])
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding);
+      if (batchVectors.length !== batch.length) {
+        throw new LLMProviderError(`${this.name} returned ${batchVectors.length} embeddings for ${batch.length} inputs`, 502, data);
+      }
+      vectors.push(...batchVectors);
+    }
+
+    return vectors;
+  }
+}
+
+const HASH_DIMENSIONS = 512;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our',
+  'out', 'has', 'his', 'how', 'its', 'who', 'did', 'yes', 'she', 'too', 'use', 'that', 'with', 'have',
+  'this', 'will', 'your', 'from', 'they', 'been', 'were', 'what', 'when', 'them', 'than', 'then', 'into',
+  'also', 'each', 'which', 'their', 'there', 'about', 'would', 'these', 'other', 'some', 'such', 'only',
+]);
+
+/**
+ * Feature-hashed bag of words and word pairs, L2-normalized
+ * Only lexical overlap counts, but it is deterministic and always available.
+ */
+class HashEmbeddings implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName = 'hash';
+  readonly model = `hash-v1-${HASH_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => hashEmbedding(text));
+  }
+}
+
+function hashEmbedding(text: string): number[] {
+  const vector = new Array(HASH_DIMENSIONS).fill(0);
+  const words = (text.toLowerCase().match(/[a-z0-9$%]+/g) || [])
+    .filter(word => word.length > 2 && !STOPWORDS.has(word));
+
+  const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    // One bit of the hash picks the sign so collisions tend to cancel out
+    vector[hash % HASH_DIMENSIONS] += (hash & 0x80000000) ? -1 : 1;
+  }
+
+  // Dampen repeated terms, then normalize
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = Math.sign(vector[i]) * Math.log1p(Math.abs(vector[i]));
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * The in-process embedding - used whenever stored vectors can't be compared with the configured provider
+ */
+export function getHashEmbeddingProvider(): EmbeddingProvider {
+  return new HashEmbeddings();
+}
+
+/**
+ * Create the configured embedding provider
+ * Throws LLMProviderError if the provider's credentials are missing
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const chatDefault = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  const configured = (
+    process.env.EMBEDDING_PROVIDER ||
+    (['openai', 'azure', 'local'].includes(chatDefault) ? chatDefault : 'hash')
+  ).toLowerCase();
+
+  if (!EMBEDDING_PROVIDER_NAMES.includes(configured as EmbeddingProviderName)) {
+    throw new LLMProviderError(
+      `Unknown embedding provider "${configured}". Expected one of: ${EMBEDDING_PROVIDER_NAMES.join(', ')}`,
+      500
+    );
+  }
+
+  const modelOverride = process.env.EMBEDDING_MODEL;
+
+  switch (configured as EmbeddingProviderName) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new LLMProviderError('OpenAI API key not configured', 500);
+      }
+      return new OpenAICompatibleEmbeddings({
+        name: 'openai',
+        url: `${process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1'}/embeddings`,
+        headers: { Authorization: `Bearer ${apiKey}` },
+        model: modelOverride || 'text-embedding-3-small',
+      });
+    }
+
+    case 'azure': {
+      const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+      const apiKey = process.env.AZURE_OPENAI_API_KEY;
+      const deployment = modelOverride || process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+      if (!endpoint || !apiKey || !deployment) {
+        throw new LLMProviderError(
+          'Azure OpenAI embeddings not configured (AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY and AZURE_OPENAI_EMBEDDING_DEPLOYMENT are required)',
+          500
+        );
+      }
+      const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2024-06-01';
+      return new OpenAICompatibleEmbeddings({
+        name: 'azure',
+        url: `${endpoint.replace(/\/$/, '')}/openai/deployments/${deployment}/embeddings?api-version=${apiVersion}`,
+        headers: { 'api-key': apiKey },
+        model: deployment,
+        sendModel: false,
+      });
+    }
+
+    case 'local': {
+      const baseUrl = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1';
+      const apiKey = process.env.LOCAL_LLM_API_KEY;
+      return new OpenAICompatibleEmbeddings({
+        name: 'local',
+        url: `${baseUrl.replace(/\/$/, '')}/embeddings`,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        model: modelOverride || 'nomic-embed-text',
+      });
+    }
+
+    case 'hash':
+      return new HashEmbeddings();
+  }
+}
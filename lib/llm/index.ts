@@ -0,0 +1,117 @@
+/**
+ * LLM provider factory
+ *
+ * Each route asks for a provider by name ('chat', 'extraction', 'turn_extraction', 'document', 'summary').
+ * The vendor is picked from LLM_PROVIDER_<ROUTE>, falling back to LLM_PROVIDER,
+ * then 'openai'. The model can be overridden per route with LLM_MODEL_<ROUTE>.
+ * LLM_PROVIDER=mock replays fixtures from fixtures/llm and needs no network.
+ */
+
+import path from 'path';
+import { AnthropicProvider } from './anthropic';
+import { MockProvider } from './mock';
+import { OpenAICompatibleProvider } from './openai';
+import { LLMProvider, LLMProviderError, LLMProviderName, LLMRoute, LLMUnavailableError } from './types';
+
+export * from './types';
+export * from './embeddings';
+export * from './tokens';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'azure', 'anthropic', 'local', 'mock'];
+
+/**
+ * Resolve which provider a route should use
+ */
+export function getProviderNameForRoute(route: LLMRoute): LLMProviderName {
+  const configured = (
+    process.env[`LLM_PROVIDER_${route.toUpperCase()}`] ||
+    process.env.LLM_PROVIDER ||
+    'openai'
+  ).toLowerCase();
+
+  if (!PROVIDER_NAMES.includes(configured as LLMProviderName)) {
+    throw new LLMProviderError(
+      `Unknown LLM provider "${configured}". Expected one of: ${PROVIDER_NAMES.join(', ')}`,
+      500
+    );
+  }
+
+  return configured as LLMProviderName;
+}
+
+/**
+ * Create the provider configured for a route
+ * Throws LLMUnavailableError if the provider's credentials are missing
+ */
+export function getLLMProvider(route: LLMRoute): LLMProvider {
+  const name = getProviderNameForRoute(route);
+  const modelOverride = process.env[`LLM_MODEL_${route.toUpperCase()}`];
+
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new LLMUnavailableError('OpenAI API key not configured', 500);
+      }
+      return new OpenAICompatibleProvider({
+        name,
+        url: `${process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1'}/chat/completions`,
+        headers: { Authorization: `Bearer ${apiKey}` },
+        model: modelOverride || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      });
+    }
+
+    case 'azure': {
+      const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+      const apiKey = process.env.AZURE_OPENAI_API_KEY;
+      // On Azure the deployment decides the model, so a per-route override names a deployment
+      const deployment = modelOverride || process.env.AZURE_OPENAI_DEPLOYMENT;
+      if (!endpoint || !apiKey || !deployment) {
+        throw new LLMUnavailableError(
+          'Azure OpenAI not configured (AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY and AZURE_OPENAI_DEPLOYMENT are required)',
+          500
+        );
+      }
+      const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2024-06-01';
+      return new OpenAICompatibleProvider({
+        name,
+        url: `${endpoint.replace(/\/$/, '')}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`,
+        headers: { 'api-key': apiKey },
+        model: deployment,
+        sendModel: false,
+      });
+    }
+
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new LLMUnavailableError('Anthropic API key not configured', 500);
+      }
+      return new AnthropicProvider({
+        apiKey,
+        model: modelOverride || process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+      });
+    }
+
+    case 'local': {
+      // Ollama, llama.cpp server, LM Studio, vLLM... anything speaking the OpenAI wire format
+      const baseUrl = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1';
+      const apiKey = process.env.LOCAL_LLM_API_KEY;
+      return new OpenAICompatibleProvider({
+        name,
+        url: `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        model: modelOverride || process.env.LOCAL_LLM_MODEL || 'llama3.1',
+      });
+    }
+
+    case 'mock': {
+      return new MockProvider({
+        route,
+        fixturesDir: process.env.LLM_MOCK_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm'),
+        scenario: process.env.LLM_MOCK_SCENARIO || 'default',
+        chunkDelayMs: parseInt(process.env.LLM_MOCK_CHUNK_DELAY_MS || '20', 10),
+      });
+    }
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Deterministic mock provider for offline development and tests
+ *
+ * Replays fixture files instead of calling a model:
+ *   <fixtures>/<scenario>/<route>/turn-<n>.(sse|json|txt)
+ *   <fixtures>/<scenario>/<route>/<json schema name>.(sse|json|txt)
+ *   <fixtures>/<scenario>/<route>/default.(sse|json|txt)
+ *
+ * <n> is the number of user messages in the request, so a scripted
+ * conversation gets the same reply at the same point every time. The JSON
+ * schema name tells apart requests made at the same turn, such as the
+ * sections of a generated document.
+ * When the request ends with tool results, turn-<n>.followup.* or
+ * followup.* is used instead; without one the follow-up reply is empty.
+ * .sse files hold raw OpenAI-style `data:` chunks ending in `data: [DONE]`
+ * and are fed through the same parser as the real OpenAI provider.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseOpenAIStream } from './openai';
+import { LLMCompletionOptions, LLMProvider, LLMProviderError, LLMRoute, LLMStreamEvent } from './types';
+
+const FIXTURE_EXTENSIONS = ['sse', 'json', 'txt'] as const;
+
+interface Fixture {
+  kind: typeof FIXTURE_EXTENSIONS[number];
+  body: string;
+}
+
+export interface MockConfig {
+  route: LLMRoute;
+  fixturesDir: string;
+  scenario: string;
+  // Delay between streamed events, to make UI streaming visible
+  chunkDelayMs: number;
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly model: string;
+  private config: MockConfig;
+
+  constructor(config: MockConfig) {
+    this.config = config;
+    this.model = `mock:${config.scenario}`;
+  }
+
+  /**
+   * Find the fixture for this request - turn-specific first, then the route default
+   */
+  private async loadFixture(options: LLMCompletionOptions): Promise<Fixture> {
+    const turn = options.messages.filter(m => m.role === 'user').length;
+    const routeDir = path.join(this.config.fixturesDir, this.config.scenario, this.config.route);
+    const isFollowUp = options.messages[options.messages.length - 1]?.role === 'tool';
+    const baseNames = isFollowUp
+      ? [`turn-${turn}.followup`, 'followup']
+      : [`turn-${turn}`, ...(options.jsonSchema ? [options.jsonSchema.name] : []), 'default'];
+
+    for (const baseName of baseNames) {
+      for (const kind of FIXTURE_EXTENSIONS) {
+        try {
+          const body = await fs.readFile(path.join(routeDir, `${baseName}.${kind}`), 'utf8');
+          return { kind, body };
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') throw error;
+        }
+      }
+    }
+
+    if (isFollowUp) {
+      return { kind: 'sse', body: 'data: [DONE]' };
+    }
+
+    throw new LLMProviderError(
+      `No mock fixture found for route "${this.config.route}" (turn ${turn}) in ${routeDir}`,
+      500
+    );
+  }
+
+  async complete(options: LLMCompletionOptions): Promise<string> {
+    const fixture = await this.loadFixture(options);
+    if (fixture.kind !== 'sse') {
+      return fixture.body.trim();
+    }
+
+    let content = '';
+    for await (const event of parseOpenAIStream(this.toStream(fixture.body, options.signal))) {
+      if (event.type === 'content') content += event.content;
+    }
+    return content;
+  }
+
+  async stream(options: LLMCompletionOptions): Promise<AsyncIterable<LLMStreamEvent>> {
+    const fixture = await this.loadFixture(options);
+    const sse = fixture.kind === 'sse' ? fixture.body : textToSSE(fixture.body.trim());
+    return parseOpenAIStream(this.toStream(sse, options.signal));
+  }
+
+  /**
+   * Replay an SSE transcript as a byte stream, one event at a time
+   */
+  private toStream(sse: string, signal?: AbortSignal): ReadableStream<Uint8Array> {
+    const events = sse.split(/\n\n+/).filter(event => event.trim() !== '');
+    const encoder = new TextEncoder();
+    const delay = this.config.chunkDelayMs;
+    let index = 0;
+
+    return new ReadableStream({
+      async pull(controller) {
+        if (signal?.aborted || index >= events.length) {
+          controller.close();
+          return;
+        }
+        if (delay > 0 && index > 0) {
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+        controller.enqueue(encoder.encode(`${events[index++]}\n\n`));
+      },
+    });
+  }
+}
+
+/**
+ * Wrap plain text fixtures as word-sized OpenAI deltas so they can be streamed too
+ */
+function textToSSE(text: string): string {
+  const words = text.match(/\S+\s*/g) || [];
+  const events = words.map(word =>
+    `data: ${JSON.stringify({ choices: [{ delta: { content: word } }] })}`
+  );
+  events.push('data: [DONE]');
+  return events.join('\n\n');
+}
@@ -0,0 +1,177 @@
+/**
+ * OpenAI-compatible chat completions provider
+ * Covers OpenAI, Azure OpenAI and local OpenAI-compatible servers (Ollama, llama.cpp)
+ */
+
+import { readSSEData } from './sse';
+import {
+  LLMCompletionOptions,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderName,
+  LLMStreamEvent,
+  LLMToolCall,
+  LLMUnavailableError,
+} from './types';
+
+export interface OpenAICompatibleConfig {
+  name: LLMProviderName;
+  // Full chat completions URL (Azure needs deployment + api-version baked in)
+  url: string;
+  headers: Record<string, string>;
+  model: string;
+  // Azure ignores the model field (deployment decides) - omit it from the body
+  sendModel?: boolean;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.model = config.model;
+    this.config = config;
+  }
+
+  private buildBody(options: LLMCompletionOptions, stream: boolean) {
+    const body: Record<string, any> = {
+      messages: options.messages.map(toOpenAIMessage),
+      temperature: options.temperature ?? 0.7,
+      stream,
+    };
+
+    if (this.config.sendModel !== false) {
+      body.model = this.model;
+    }
+    if (options.maxTokens) {
+      body.max_tokens = options.maxTokens;
+    }
+    if (options.tools?.length) {
+      body.tools = options.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }));
+    }
+    if (options.responseFormat === 'json') {
+      body.response_format = options.jsonSchema
+        ? {
+            type: 'json_schema',
+            json_schema: { name: options.jsonSchema.name, schema: options.jsonSchema.schema, strict: true },
+          }
+        : { type: 'json_object' };
+    }
+
+    return body;
+  }
+
+  private async request(options: LLMCompletionOptions, stream: boolean): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.config.headers,
+        },
+        body: JSON.stringify(this.buildBody(options, stream)),
+        signal: options.signal,
+      });
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      throw new LLMUnavailableError(`Failed to reach ${this.name} provider: ${error.message}`, 502);
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error(`[LLM:${this.name}] API error:`, errorData);
+      throw new LLMProviderError(
+        errorData.error?.message || `${this.name} request failed`,
+        response.status,
+        errorData
+      );
+    }
+
+    return response;
+  }
+
+  async complete(options: LLMCompletionOptions): Promise<string> {
+    const response = await this.request(options, false);
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new LLMProviderError(`No content received from ${this.name}`, 502, data);
+    }
+
+    return content;
+  }
+
+  async stream(options: LLMCompletionOptions): Promise<AsyncIterable<LLMStreamEvent>> {
+    const response = await this.request(options, true);
+    if (!response.body) {
+      throw new LLMProviderError(`No response body from ${this.name}`, 502);
+    }
+
+    return parseOpenAIStream(response.body);
+  }
+}
+
+/**
+ * Map our message shape onto the chat completions wire format
+ */
+function toOpenAIMessage(message: LLMMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+/**
+ * Turn an OpenAI-style SSE body into content deltas and tool calls
+ * Tool call arguments arrive in fragments keyed by index and are emitted once complete.
+ */
+export async function* parseOpenAIStream(body: ReadableStream<Uint8Array>): AsyncGenerator<LLMStreamEvent> {
+  const pendingCalls = new Map<number, LLMToolCall>();
+
+  for await (const data of readSSEData(body)) {
+    if (data === '[DONE]') break;
+
+    try {
+      const json = JSON.parse(data);
+      const choice = json.choices?.[0];
+      const content = choice?.delta?.content || '';
+      if (content) {
+        yield { type: 'content', content };
+      }
+
+      for (const fragment of choice?.delta?.tool_calls || []) {
+        const index = fragment.index ?? 0;
+        const call = pendingCalls.get(index) || { id: '', name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        pendingCalls.set(index, call);
+      }
+    } catch (e) {
+      // Skip invalid JSON
+    }
+  }
+
+  for (const [index, call] of Array.from(pendingCalls.entries()).sort((a, b) => a[0] - b[0])) {
+    yield { type: 'tool_call', call: { ...call, id: call.id || `call_${index}` } };
+  }
+}
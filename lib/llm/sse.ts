@@ -0,0 +1,38 @@
+/**
+ * Server-Sent Events helpers shared by the streaming providers
+ */
+
+/**
+ * Read an SSE response body and yield the payload of every `data:` line
+ * Buffers partial lines so events split across network chunks are not dropped
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) {
+          yield trimmed.slice(5).trim();
+        }
+      }
+    }
+
+    const trailing = buffer.trim();
+    if (trailing.startsWith('data:')) {
+      yield trailing.slice(5).trim();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Token estimates for context budgeting
+ * About four characters per token for English text with the GPT and Claude
+ * tokenizers - close enough to keep prompts inside a budget without shipping a tokenizer.
+ */
+
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut text to roughly maxTokens, at a line or word boundary where possible
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+
+  const slice = text.slice(0, maxChars);
+  const boundary = Math.max(slice.lastIndexOf('\n'), slice.lastIndexOf(' '));
+  return `${boundary > maxChars / 2 ? slice.slice(0, boundary) : slice}...`;
+}
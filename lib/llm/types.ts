@@ -0,0 +1,99 @@
+/**
+ * Shared types for the pluggable LLM provider layer
+ */
+
+export type LLMProviderName = 'openai' | 'azure' | 'anthropic' | 'local' | 'mock';
+
+// Routes that talk to an LLM - each can be pointed at a different provider/model
+export type LLMRoute = 'chat' | 'extraction' | 'turn_extraction' | 'document' | 'summary';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments, exactly as the model produced them
+  arguments: string;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Assistant turns that called tools
+  toolCalls?: LLMToolCall[];
+  // Tool results answer the call with this id
+  toolCallId?: string;
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments object
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Event yielded by a streaming completion
+ * Tool calls are emitted once their arguments are complete.
+ */
+export type LLMStreamEvent =
+  | { type: 'content'; content: string }
+  | { type: 'tool_call'; call: LLMToolCall };
+
+export interface LLMJSONSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMCompletionOptions {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // 'json' asks the provider for a single JSON object as the completion
+  responseFormat?: 'text' | 'json';
+  // With responseFormat 'json', constrain the object to this schema where the provider supports it
+  jsonSchema?: LLMJSONSchema;
+  // Tools the model may call (streaming only)
+  tools?: LLMToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+
+  /**
+   * Run a blocking completion and return the full text
+   */
+  complete(options: LLMCompletionOptions): Promise<string>;
+
+  /**
+   * Start a streaming completion
+   * Resolves once the upstream request succeeded, then yields content deltas and tool calls
+   */
+  stream(options: LLMCompletionOptions): Promise<AsyncIterable<LLMStreamEvent>>;
+}
+
+/**
+ * Error raised by providers - carries the upstream HTTP status so routes can pass it through
+ */
+export class LLMProviderError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(message: string, status: number = 500, details?: unknown) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * No model can be used at all: the provider isn't configured or can't be reached
+ * Routes with an offline fallback use it for these errors only, never for a bad answer.
+ */
+export class LLMUnavailableError extends LLMProviderError {
+  constructor(message: string, status: number = 503, details?: unknown) {
+    super(message, status, details);
+    this.name = 'LLMUnavailableError';
+  }
+}
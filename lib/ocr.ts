@@ -0,0 +1,209 @@
+/**
+ * OCR for scanned PDF pages (server only)
+ *
+ * Pages are rendered to images with poppler's pdftoppm and read with the
+ * tesseract CLI. Tesseract's TSV output gives a 0-100 confidence per word; a
+ * page's confidence is the mean over its words, weighted by word length.
+ *
+ * OCR_ENGINE=tesseract (default) or off. The binaries are found on PATH or via
+ * TESSERACT_PATH / PDFTOPPM_PATH; OCR_LANGUAGES (default 'eng', e.g. 'eng+deu'),
+ * OCR_DPI (default 300) and OCR_MAX_PAGES (default 50) tune the run.
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface OCRPageReport {
+  // 1-based page number
+  page: number;
+  // Mean word confidence, 0-100 (0 when no words were found)
+  confidence: number;
+  words: number;
+}
+
+export interface DocumentOCRReport {
+  engine: string;
+  // Pages that were read with OCR
+  pages: OCRPageReport[];
+  averageConfidence: number;
+  // Pages that needed OCR but were past OCR_MAX_PAGES or failed
+  skippedPages: number[];
+}
+
+export interface OCRPageResult extends OCRPageReport {
+  text: string;
+}
+
+/**
+ * Error raised when OCR can't run at all (disabled, binaries missing)
+ */
+export class OCRUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OCRUnavailableError';
+  }
+}
+
+// Pages below this confidence are called out to the user
+export const LOW_OCR_CONFIDENCE = 60;
+
+// Per page - rendering and recognizing a dense 300 DPI page takes a few seconds
+const OCR_PAGE_TIMEOUT_MS = 60_000;
+const OCR_MAX_BUFFER = 20 * 1024 * 1024;
+
+interface OCRConfig {
+  tesseract: string;
+  pdftoppm: string;
+  languages: string;
+  dpi: number;
+  maxPages: number;
+}
+
+function getOCRConfig(): OCRConfig {
+  return {
+    tesseract: process.env.TESSERACT_PATH || 'tesseract',
+    pdftoppm: process.env.PDFTOPPM_PATH || 'pdftoppm',
+    languages: process.env.OCR_LANGUAGES || 'eng',
+    dpi: parseInt(process.env.OCR_DPI || '', 10) || 300,
+    maxPages: parseInt(process.env.OCR_MAX_PAGES || '', 10) || 50,
+  };
+}
+
+// Result of the binary check, per configured path pair
+let availability: { key: string; version: Promise<string | null> } | null = null;
+
+/**
+ * Tesseract's version if OCR can run here, null otherwise
+ * Checked once per process (per configured binaries).
+ */
+export async function getOCREngineVersion(): Promise<string | null> {
+  if ((process.env.OCR_ENGINE || 'tesseract').toLowerCase() === 'off') return null;
+
+  const config = getOCRConfig();
+  const key = `${config.tesseract}|${config.pdftoppm}`;
+  if (availability?.key !== key) {
+    availability = {
+      key,
+      version: (async () => {
+        try {
+          const { stdout, stderr } = await execFileAsync(config.tesseract, ['--version'], { timeout: 10_000 });
+          // pdftoppm -v prints its version and exits 0 (older releases exit 99 - still installed)
+          await execFileAsync(config.pdftoppm, ['-v'], { timeout: 10_000 }).catch(error => {
+            if (error.code === 'ENOENT') throw error;
+          });
+          const version = `${stdout}${stderr}`.split('\n')[0].trim();
+          return version || 'tesseract';
+        } catch (error: any) {
+          console.error('[OCR] OCR unavailable:', error.code === 'ENOENT' ? `${error.path} not found` : error.message);
+          return null;
+        }
+      })(),
+    };
+  }
+  return availability.version;
+}
+
+/**
+ * Render and recognize the given pages of a PDF, one at a time
+ * Pages past OCR_MAX_PAGES, and pages that fail, are left out of the result.
+ * Throws OCRUnavailableError if OCR can't run here.
+ */
+export async function ocrPDFPages(buffer: Buffer, pageNumbers: number[]): Promise<OCRPageResult[]> {
+  const version = await getOCREngineVersion();
+  if (!version) {
+    throw new OCRUnavailableError('OCR is not available (install tesseract and poppler-utils, or check OCR_ENGINE)');
+  }
+
+  const config = getOCRConfig();
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'icp-ocr-'));
+  const results: OCRPageResult[] = [];
+
+  try {
+    const input = path.join(directory, 'input.pdf');
+    await writeFile(input, buffer);
+
+    for (const page of pageNumbers.slice(0, config.maxPages)) {
+      const imageBase = path.join(directory, `page-${page}`);
+      try {
+        await execFileAsync(
+          config.pdftoppm,
+          ['-png', '-gray', '-r', String(config.dpi), '-f', String(page), '-l', String(page), '-singlefile', input, imageBase],
+          { timeout: OCR_PAGE_TIMEOUT_MS }
+        );
+        const { stdout } = await execFileAsync(
+          config.tesseract,
+          [`${imageBase}.png`, 'stdout', '-l', config.languages, 'tsv'],
+          { timeout: OCR_PAGE_TIMEOUT_MS, maxBuffer: OCR_MAX_BUFFER }
+        );
+        results.push({ page, ...parseTesseractTSV(stdout) });
+      } catch (error: any) {
+        console.error(`[OCR] Failed on page ${page}:`, error.message);
+      } finally {
+        await rm(`${imageBase}.png`, { force: true });
+      }
+    }
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+
+  console.log('[OCR] Recognized pages:', results.map(({ page, confidence, words }) => ({ page, confidence, words })));
+  return results;
+}
+
+/**
+ * Text and confidence from tesseract's TSV output
+ * Words are rebuilt into lines, and lines into paragraphs separated by a blank line.
+ */
+function parseTesseractTSV(tsv: string): { text: string; confidence: number; words: number } {
+  const paragraphs: string[][] = [];
+  let currentParagraph = '';
+  let currentLine = '';
+  let lineWords: string[] = [];
+  let weightedConfidence = 0;
+  let weight = 0;
+  let words = 0;
+
+  const flushLine = () => {
+    if (lineWords.length > 0) paragraphs[paragraphs.length - 1].push(lineWords.join(' '));
+    lineWords = [];
+  };
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t');
+    // level page block par line word left top width height conf text
+    if (columns.length < 12 || columns[0] !== '5') continue;
+
+    const text = columns.slice(11).join('\t').trim();
+    const confidence = parseFloat(columns[10]);
+    if (!text || !(confidence >= 0)) continue;
+
+    const paragraph = `${columns[2]}.${columns[3]}`;
+    const line = `${paragraph}.${columns[4]}`;
+    if (paragraph !== currentParagraph) {
+      flushLine();
+      paragraphs.push([]);
+      currentParagraph = paragraph;
+    } else if (line !== currentLine) {
+      flushLine();
+    }
+    currentLine = line;
+
+    lineWords.push(text);
+    weightedConfidence += confidence * text.length;
+    weight += text.length;
+    words++;
+  }
+  flushLine();
+
+  return {
+    text: paragraphs.map(lines => lines.join('\n')).filter(Boolean).join('\n\n'),
+    confidence: weight > 0 ? Math.round(weightedConfidence / weight) : 0,
+    words,
+  };
+}
+
@@ -0,0 +1,616 @@
+/**
+ * PDF rendering of an ICP document (server only)
+ *
+ * A small PDF writer instead of a layout dependency: text is set in the
+ * standard Helvetica fonts (not embedded, WinAnsi encoding) and wrapped with
+ * their metrics, tables are drawn as rules and filled header rows, and the
+ * template logo becomes an image XObject (JPEG passed through, PNG decoded
+ * with zlib so transparency survives). Letter size, 1 inch margins.
+ */
+
+import { deflateSync, inflateSync } from 'zlib';
+import { isKeyValueTable, buildSourcesTable, splitCitationMarkers, tableColumnShares, toRenderBlocks } from '@/lib/icp-document';
+import { TemplateLogo } from '@/lib/document-templates';
+import { DocumentTemplate, ICPDocument, ICPRenderBlock, ICPTableBlock } from '@/types/document';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_Y = 40;
+
+const BODY_SIZE = 10.5;
+const BODY_LEADING = 15;
+const TABLE_SIZE = 9.5;
+const TABLE_LEADING = 13;
+const CELL_PADDING = 5;
+const BULLET_INDENT = 14;
+
+type FontName = 'regular' | 'bold';
+
+// Glyph widths (1/1000 em) of ASCII 32-126 in the standard 14 fonts' metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// WinAnsi punctuation outside ASCII (Latin-1 letters default to 556)
+const WIN_ANSI_WIDTHS: Record<number, [number, number]> = {
+  0x85: [1000, 1000], 0x91: [222, 278], 0x92: [222, 278], 0x93: [333, 500], 0x94: [333, 500],
+  0x95: [350, 350], 0x96: [556, 556], 0x97: [1000, 1000], 0xa0: [278, 278],
+};
+// Unicode characters WinAnsi has outside Latin-1
+const WIN_ANSI_MAP: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+function toWinAnsi(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code >= 32 && code <= 126) encoded += char;
+    else if (WIN_ANSI_MAP[char]) encoded += String.fromCharCode(WIN_ANSI_MAP[char]);
+    else if (code >= 0xa0 && code <= 0xff) encoded += char;
+    else if (char === '\t' || char === '\n') encoded += ' ';
+    else if (code >= 32) encoded += '?';
+  }
+  return encoded;
+}
+
+function measure(encoded: string, font: FontName, size: number): number {
+  let width = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    if (code >= 32 && code <= 126) {
+      width += (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+    } else {
+      width += WIN_ANSI_WIDTHS[code]?.[font === 'bold' ? 1 : 0] ?? 556;
+    }
+  }
+  return (width * size) / 1000;
+}
+
+function pdfString(encoded: string): string {
+  return `(${encoded.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')})`;
+}
+
+function rgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => (c / 255).toFixed(3)).join(' ');
+}
+
+interface TextStyle {
+  font: FontName;
+  size: number;
+  color: string;
+  // Baseline shift, for citation markers
+  rise?: number;
+}
+
+interface PlacedWord {
+  text: string;
+  x: number;
+  style: TextStyle;
+}
+
+/**
+ * Break styled runs into lines no wider than width
+ * Words longer than a line are split by character.
+ */
+function wrapRuns(runs: { text: string; style: TextStyle }[], width: number): PlacedWord[][] {
+  const lines: PlacedWord[][] = [[]];
+  let x = 0;
+
+  for (const { text, style } of runs) {
+    const words = toWinAnsi(text).split(/ +/);
+    words.forEach((word, i) => {
+      // A run that starts mid-word (a marker right after a word) isn't preceded by a space
+      const spaced = x > 0 && (i > 0 || /^ /.test(text));
+      if (!word) return;
+      const space = spaced ? measure(' ', style.font, style.size) : 0;
+      let wordWidth = measure(word, style.font, style.size);
+
+      if (x + space + wordWidth > width && x > 0) {
+        lines.push([]);
+        x = 0;
+      } else {
+        x += space;
+      }
+
+      while (wordWidth > width) {
+        let fit = word.length - 1;
+        while (fit > 1 && measure(word.substring(0, fit), style.font, style.size) > width) fit--;
+        lines[lines.length - 1].push({ text: word.substring(0, fit), x, style });
+        lines.push([]);
+        word = word.substring(fit);
+        wordWidth = measure(word, style.font, style.size);
+        x = 0;
+      }
+
+      lines[lines.length - 1].push({ text: word, x, style });
+      x += wordWidth;
+    });
+  }
+  return lines.filter(line => line.length > 0).map(mergeWords);
+}
+
+// Words in the same style on a line become one string, so text copies with its spaces
+function mergeWords(line: PlacedWord[]): PlacedWord[] {
+  const merged: PlacedWord[] = [];
+  for (const word of line) {
+    const last = merged[merged.length - 1];
+    if (last && last.style === word.style) {
+      last.text += ' ' + word.text;
+    } else {
+      merged.push({ ...word });
+    }
+  }
+  return merged;
+}
+
+interface PDFImage {
+  width: number;
+  height: number;
+  // Object body (dictionary + stream) and optional soft mask
+  stream: { dictionary: string; data: Buffer };
+  mask: { dictionary: string; data: Buffer } | null;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced PNG into raw color and alpha planes
+ */
+function decodePNG(data: Buffer): PDFImage | null {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channelsByType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+  const channels = channelsByType[colorType];
+  if (bitDepth !== 8 || interlace !== 0 || !channels || (colorType === 3 && !palette)) return null;
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+
+  // Undo the per-row filters
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = pixels.subarray(y * stride, (y + 1) * stride);
+    const previous = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : null;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? out[i - channels] : 0;
+      const up = previous ? previous[i] : 0;
+      const upLeft = previous && i >= channels ? previous[i - channels] : 0;
+      let value = row[i];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[i] = value & 255;
+    }
+  }
+
+  const gray = colorType === 0 || colorType === 4;
+  const colorChannels = gray ? 1 : 3;
+  const color = Buffer.alloc(width * height * colorChannels);
+  const alpha = colorType === 4 || colorType === 6 || (colorType === 3 && transparency) ? Buffer.alloc(width * height) : null;
+
+  for (let p = 0; p < width * height; p++) {
+    if (colorType === 3) {
+      const index = pixels[p];
+      palette!.copy(color, p * 3, index * 3, index * 3 + 3);
+      if (alpha) alpha[p] = index < transparency!.length ? transparency![index] : 255;
+    } else {
+      pixels.copy(color, p * colorChannels, p * channels, p * channels + colorChannels);
+      if (alpha) alpha[p] = pixels[p * channels + channels - 1];
+    }
+  }
+
+  return {
+    width,
+    height,
+    stream: {
+      dictionary: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /${gray ? 'DeviceGray' : 'DeviceRGB'} /BitsPerComponent 8 /Filter /FlateDecode`,
+      data: deflateSync(color),
+    },
+    mask: alpha
+      ? {
+          dictionary: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+          data: deflateSync(alpha),
+        }
+      : null,
+  };
+}
+
+function loadImage(logo: TemplateLogo): PDFImage | null {
+  if (logo.type === 'png') {
+    try {
+      return decodePNG(logo.data);
+    } catch (error) {
+      console.error('[PDF Export] Failed to decode logo:', error);
+      return null;
+    }
+  }
+
+  // JPEG goes in as is; the component count picks the color space
+  let offset = 2;
+  let components = 3;
+  while (offset + 9 < logo.data.length && logo.data[offset] === 0xff) {
+    const marker = logo.data[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      components = logo.data[offset + 9];
+      break;
+    }
+    offset += 2 + logo.data.readUInt16BE(offset + 2);
+  }
+  const colorSpace = components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB';
+  return {
+    width: logo.width,
+    height: logo.height,
+    stream: {
+      dictionary: `/Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : ''}`,
+      data: logo.data,
+    },
+    mask: null,
+  };
+}
+
+/**
+ * Page-by-page layout: a cursor moving down the page, new pages as needed
+ */
+class PDFLayout {
+  pages: string[][] = [];
+  y = 0;
+
+  constructor(private template: DocumentTemplate) {}
+
+  get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Start a new page unless height still fits above the footer
+  ensureSpace(height: number): void {
+    if (this.pages.length === 0 || this.y - height < MARGIN) this.newPage();
+  }
+
+  text(x: number, y: number, encoded: string, style: TextStyle): void {
+    this.ops.push(
+      `BT /${style.font === 'bold' ? 'F2' : 'F1'} ${style.size} Tf ${rgb(style.color)} rg ${(style.rise ?? 0).toFixed(2)} Ts ` +
+      `${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(encoded)} Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: string): void {
+    this.ops.push(`${rgb(fill)} rg ${x.toFixed(2)} ${y.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, stroke: string, width: number): void {
+    this.ops.push(`${rgb(stroke)} RG ${width} w ${x1.toFixed(2)} ${y1.toFixed(2)} m ${x2.toFixed(2)} ${y2.toFixed(2)} l S`);
+  }
+
+  image(name: string, x: number, y: number, width: number, height: number): void {
+    this.ops.push(`q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /${name} Do Q`);
+  }
+
+  drawLines(lines: PlacedWord[][], x: number, leading: number): void {
+    for (const line of lines) {
+      this.ensureSpace(leading);
+      this.y -= leading;
+      for (const word of line) {
+        this.text(x + word.x, this.y, word.text, word.style);
+      }
+    }
+  }
+
+  styledRuns(text: string, style: TextStyle): { text: string; style: TextStyle }[] {
+    return splitCitationMarkers(text).map(part => ({
+      text: part.text,
+      style: part.citation
+        ? { font: 'regular', size: style.size * 0.7, color: this.template.colors.muted, rise: style.size * 0.35 }
+        : style,
+    }));
+  }
+}
+
+function logoSize(image: PDFImage, maxWidth: number, maxHeight: number): { width: number; height: number } {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+}
+
+function renderTable(layout: PDFLayout, block: ICPTableBlock, template: DocumentTemplate): void {
+  const keyValue = isKeyValueTable(block);
+  const widths = tableColumnShares(block).map(share => share * CONTENT_WIDTH);
+  const bodyStyle: TextStyle = { font: 'regular', size: TABLE_SIZE, color: template.colors.text };
+
+  const layoutRow = (cells: string[], styleFor: (c: number) => TextStyle) => {
+    const wrapped = cells.map((cell, c) =>
+      wrapRuns(layout.styledRuns(cell, styleFor(c)), widths[c] - 2 * CELL_PADDING)
+    );
+    const height = Math.max(1, ...wrapped.map(lines => lines.length)) * TABLE_LEADING + 2 * CELL_PADDING;
+    return { wrapped, height };
+  };
+
+  const drawRow = (row: ReturnType<typeof layoutRow>, fill: string | null) => {
+    const top = layout.y;
+    if (fill) layout.rect(MARGIN, top - row.height, CONTENT_WIDTH, row.height, fill);
+    let x = MARGIN;
+    row.wrapped.forEach((lines, c) => {
+      lines.forEach((line, l) => {
+        const baseline = top - CELL_PADDING - (l + 1) * TABLE_LEADING + 3;
+        for (const word of line) {
+          layout.text(x + CELL_PADDING + word.x, baseline, word.text, word.style);
+        }
+      });
+      x += widths[c];
+    });
+    layout.y = top - row.height;
+    layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, template.colors.muted, 0.5);
+  };
+
+  const header = keyValue
+    ? null
+    : layoutRow(block.columns, () => ({ font: 'bold', size: TABLE_SIZE, color: '#FFFFFF' }));
+
+  const rows = block.rows.map(row =>
+    layoutRow(block.columns.map((_column, c) => row[c] || ''), c => (keyValue && c === 0 ? { ...bodyStyle, font: 'bold' } : bodyStyle))
+  );
+
+  // Keep the header with at least the first row
+  layout.ensureSpace((header?.height ?? 0) + (rows[0]?.height ?? 0));
+  if (header) drawRow(header, template.colors.primary);
+  else layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, template.colors.muted, 0.5);
+
+  for (const row of rows) {
+    if (layout.y - row.height < MARGIN) {
+      layout.newPage();
+      // Repeat the header on the next page
+      if (header) drawRow(header, template.colors.primary);
+      else layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, template.colors.muted, 0.5);
+    }
+    drawRow(row, null);
+  }
+  layout.y -= 12;
+}
+
+function renderBlock(layout: PDFLayout, block: ICPRenderBlock, template: DocumentTemplate): void {
+  const bodyStyle: TextStyle = { font: 'regular', size: BODY_SIZE, color: template.colors.text };
+
+  switch (block.type) {
+    case 'subheading': {
+      // Keep it with the start of what it introduces
+      const lines = wrapRuns([{ text: block.text, style: { font: 'bold', size: 12, color: template.colors.primary } }], CONTENT_WIDTH);
+      layout.ensureSpace(lines.length * 16 + 40);
+      layout.y -= 4;
+      layout.drawLines(lines, MARGIN, 16);
+      layout.y -= 4;
+      return;
+    }
+
+    case 'paragraph':
+      layout.drawLines(wrapRuns(layout.styledRuns(block.text, bodyStyle), CONTENT_WIDTH), MARGIN, BODY_LEADING);
+      layout.y -= 8;
+      return;
+
+    case 'bullets':
+      for (const item of block.items) {
+        const lines = wrapRuns(layout.styledRuns(item, bodyStyle), CONTENT_WIDTH - BULLET_INDENT);
+        layout.ensureSpace(BODY_LEADING);
+        layout.text(MARGIN + 2, layout.y - BODY_LEADING, toWinAnsi('•'), { ...bodyStyle, color: template.colors.accent });
+        layout.drawLines(lines, MARGIN + BULLET_INDENT, BODY_LEADING);
+        layout.y -= 4;
+      }
+      layout.y -= 4;
+      return;
+
+    case 'table':
+      renderTable(layout, block, template);
+      return;
+  }
+}
+
+function renderHeading(layout: PDFLayout, title: string, template: DocumentTemplate): void {
+  // Keep the heading with the start of its section
+  layout.ensureSpace(60);
+  if (layout.y < PAGE_HEIGHT - MARGIN) layout.y -= 14;
+  layout.y -= 18;
+  layout.text(MARGIN, layout.y, toWinAnsi(title), { font: 'bold', size: 16, color: template.colors.primary });
+  layout.y -= 7;
+  layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, template.colors.accent, 1);
+  layout.y -= 6;
+}
+
+function renderCover(layout: PDFLayout, document: ICPDocument, template: DocumentTemplate, logo: PDFImage | null, date: string): void {
+  layout.newPage();
+  layout.rect(0, PAGE_HEIGHT - 12, PAGE_WIDTH, 12, template.colors.accent);
+
+  if (logo) {
+    const size = logoSize(logo, 200, 70);
+    layout.image('Logo', MARGIN, PAGE_HEIGHT - MARGIN - size.height, size.width, size.height);
+  }
+
+  const bandTop = PAGE_HEIGHT * 0.58;
+  layout.rect(0, bandTop - 110, PAGE_WIDTH, 110, template.colors.primary);
+  layout.rect(0, bandTop - 116, PAGE_WIDTH, 6, template.colors.accent);
+  layout.text(MARGIN, bandTop - 68, toWinAnsi(document.title), { font: 'bold', size: 30, color: '#FFFFFF' });
+
+  let y = bandTop - 160;
+  if (document.companyName) {
+    layout.text(MARGIN, y, toWinAnsi(document.companyName), { font: 'bold', size: 20, color: template.colors.text });
+    y -= 26;
+  }
+  layout.text(MARGIN, y, toWinAnsi(date), { font: 'regular', size: 12, color: template.colors.muted });
+
+  if (template.footer) {
+    layout.text(MARGIN, FOOTER_Y + 20, toWinAnsi(template.footer), { font: 'regular', size: 10, color: template.colors.muted });
+  }
+}
+
+function renderTitleBlock(layout: PDFLayout, document: ICPDocument, template: DocumentTemplate, logo: PDFImage | null, date: string): void {
+  layout.newPage();
+  if (logo) {
+    const size = logoSize(logo, 130, 40);
+    layout.image('Logo', MARGIN, layout.y - size.height, size.width, size.height);
+    layout.y -= size.height + 18;
+  }
+  layout.y -= 24;
+  layout.text(MARGIN, layout.y, toWinAnsi(document.title), { font: 'bold', size: 24, color: template.colors.primary });
+  layout.y -= 20;
+  const subtitle = [document.companyName, date].filter(Boolean).join(' - ');
+  layout.text(MARGIN, layout.y, toWinAnsi(subtitle), { font: 'regular', size: 12, color: template.colors.muted });
+  layout.y -= 10;
+}
+
+/**
+ * Serialize pages and resources into a PDF file
+ */
+function writePDF(pages: string[][], image: PDFImage | null, title: string): Buffer {
+  const objects: Buffer[] = [];
+  const reserve = () => objects.push(Buffer.alloc(0));
+  const set = (id: number, body: string | Buffer) => {
+    objects[id - 1] = Buffer.isBuffer(body) ? body : Buffer.from(body, 'latin1');
+  };
+  const stream = (dictionary: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream', 'latin1')]);
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const regularId = reserve();
+  const boldId = reserve();
+  const infoId = reserve();
+  const imageId = image ? reserve() : 0;
+  const maskId = image?.mask ? reserve() : 0;
+  const pageIds = pages.map(() => [reserve(), reserve()]);
+
+  set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(([pageId]) => `${pageId} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  set(regularId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  set(boldId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  set(infoId, `<< /Title ${pdfString(toWinAnsi(title))} /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').substring(0, 14)}Z) >>`);
+  if (image) {
+    set(imageId, stream(`${image.stream.dictionary}${maskId ? ` /SMask ${maskId} 0 R` : ''}`, image.stream.data));
+    if (image.mask) set(maskId, stream(image.mask.dictionary, image.mask.data));
+  }
+
+  const resources = `<< /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >>${image ? ` /XObject << /Logo ${imageId} 0 R >>` : ''} >>`;
+  pages.forEach((ops, i) => {
+    const [pageId, contentId] = pageIds[i];
+    set(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentId} 0 R >>`);
+    set(contentId, stream('/Filter /FlateDecode', deflateSync(Buffer.from(ops.join('\n'), 'latin1'))));
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${length}\n%%EOF\n`;
+  chunks.push(Buffer.from(xref, 'latin1'));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Render the document as a PDF file
+ */
+export async function renderPdf(
+  document: ICPDocument,
+  template: DocumentTemplate,
+  logo: TemplateLogo | null
+): Promise<Buffer> {
+  const image = logo ? loadImage(logo) : null;
+  const layout = new PDFLayout(template);
+  const date = new Date(document.generatedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  if (template.coverPage) {
+    renderCover(layout, document, template, image, date);
+    layout.newPage();
+  } else {
+    renderTitleBlock(layout, document, template, image, date);
+  }
+  const firstContentPage = template.coverPage ? 1 : 0;
+
+  for (const section of document.sections) {
+    renderHeading(layout, section.title, template);
+    for (const block of section.blocks.flatMap(toRenderBlocks)) {
+      renderBlock(layout, block, template);
+    }
+  }
+
+  if (document.sources.length > 0) {
+    renderHeading(layout, 'Sources', template);
+    renderTable(layout, buildSourcesTable(document.sources), template);
+  }
+
+  // Footer on every page but the cover, once the page count is known
+  const footerStyle: TextStyle = { font: 'regular', size: 8.5, color: template.colors.muted };
+  layout.pages.forEach((ops, i) => {
+    if (i < firstContentPage) return;
+    const label = toWinAnsi(`Page ${i + 1} of ${layout.pages.length}`);
+    if (template.footer) {
+      ops.push(`BT /F1 ${footerStyle.size} Tf ${rgb(footerStyle.color)} rg 0 Ts ${MARGIN} ${FOOTER_Y} Td ${pdfString(toWinAnsi(template.footer))} Tj ET`);
+    }
+    const x = PAGE_WIDTH - MARGIN - measure(label, 'regular', footerStyle.size);
+    ops.push(`BT /F1 ${footerStyle.size} Tf ${rgb(footerStyle.color)} rg 0 Ts ${x.toFixed(2)} ${FOOTER_Y} Td ${pdfString(label)} Tj ET`);
+  });
+
+  const title = document.companyName ? `${document.title} - ${document.companyName}` : document.title;
+  return writePDF(layout.pages, image, title);
+}
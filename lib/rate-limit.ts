@@ -0,0 +1,57 @@
+/**
+ * In-memory rate limiting
+ *
+ * Fixed windows counted per key (a session ID, for example). Counts live in
+ * the server process, so each instance limits on its own and a restart
+ * resets them - enough to stop a single browser from hammering an endpoint.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the current window ends
+  retryAfter: number;
+}
+
+export interface RateLimiter {
+  // `cost` is what the call uses up of the limit - 1 per call unless it's weighed (characters, for example)
+  check(key: string, cost?: number): RateLimitResult;
+}
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Allow up to `limit` calls (or units of cost) per key in each `windowMs`
+ * A call that would go over the limit is refused whole and uses up nothing.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, RateLimitWindow>();
+
+  return {
+    check(key: string, cost: number = 1): RateLimitResult {
+      const now = Date.now();
+
+      // Drop finished windows so keys don't pile up
+      for (const [windowKey, window] of windows) {
+        if (window.resetAt <= now) windows.delete(windowKey);
+      }
+
+      let window = windows.get(key);
+      if (!window) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+      if (window.count + cost > limit) {
+        return { allowed: false, remaining: limit - window.count, retryAfter };
+      }
+
+      window.count += cost;
+      return { allowed: true, remaining: limit - window.count, retryAfter };
+    },
+  };
+}
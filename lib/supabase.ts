@@ -11,9 +11,17 @@ if (!supabaseUrl || !supabaseAnonKey) {
 // Create Supabase client for client-side usage
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// Who a server client acts for - RLS (migration 016) only shows it their rows
+export interface SupabaseIdentity {
+  // Supabase Auth access token of a signed-in user
+  accessToken?: string | null;
+  // Anonymous session, sent as the x-session-id header
+  sessionId?: string | null;
+}
+
 // Create Supabase client for server-side usage
-// Uses the same anon key for Phase 1 (RLS policies handle security)
-export const createServerClient = () => {
+// Uses the anon key on behalf of a requester (see createRequestClient in lib/auth.ts)
+export const createServerClient = (identity: SupabaseIdentity = {}) => {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
@@ -21,6 +29,32 @@ export const createServerClient = () => {
     throw new Error('Missing Supabase environment variables for server client.');
   }
 
-  return createClient(url, key);
+  const headers: Record<string, string> = {};
+  if (identity.accessToken) {
+    headers.Authorization = `Bearer ${identity.accessToken}`;
+  }
+  if (identity.sessionId) {
+    headers['x-session-id'] = identity.sessionId;
+  }
+
+  return createClient(url, key, {
+    global: { headers },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
+
+// Create Supabase client with the service role key - bypasses RLS
+// Only for trusted server work: creating sessions, recording users and claiming sessions
+export const createServiceClient = () => {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY for the service client.');
+  }
+
+  return createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
 };
 
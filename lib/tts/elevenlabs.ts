@@ -0,0 +1,206 @@
+/**
+ * ElevenLabs text-to-speech provider
+ *
+ * Speaks through the multi-context WebSocket (multi-stream-input), so several
+ * utterances can share one upstream connection and each can be cut off on its
+ * own. The API key goes in the xi-api-key header from the server. The
+ * connection is reopened on demand when ElevenLabs closes it after inactivity.
+ */
+
+import WebSocket from 'ws';
+import { TTSProvider, TTSProviderError, TTSStream, TTSStreamEvents, TTSStreamOptions } from './types';
+
+export interface ElevenLabsVoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style: number;
+  use_speaker_boost: boolean;
+  speed: number;
+}
+
+export interface ElevenLabsConfig {
+  apiKey: string;
+  voiceId: string;
+  modelId: string;
+  voiceSettings: ElevenLabsVoiceSettings;
+}
+
+// Seconds without text before ElevenLabs closes the connection (its maximum)
+const INACTIVITY_TIMEOUT = 180;
+
+export class ElevenLabsProvider implements TTSProvider {
+  readonly name = 'elevenlabs' as const;
+  readonly format = 'mp3' as const;
+
+  constructor(private config: ElevenLabsConfig) {}
+
+  async open(options: TTSStreamOptions, events: TTSStreamEvents): Promise<TTSStream> {
+    const stream = new ElevenLabsStream(
+      {
+        ...this.config,
+        voiceId: options.voice || this.config.voiceId,
+        modelId: options.model || this.config.modelId,
+      },
+      events
+    );
+    await stream.connect();
+    return stream;
+  }
+}
+
+class ElevenLabsStream implements TTSStream {
+  private ws: WebSocket | null = null;
+  private connecting: Promise<WebSocket> | null = null;
+  // Contexts initialized on the current connection
+  private contexts = new Set<string>();
+  private closed = false;
+
+  constructor(private config: ElevenLabsConfig, private events: TTSStreamEvents) {}
+
+  /**
+   * Open the upstream connection (or reuse the open one)
+   */
+  connect(): Promise<WebSocket> {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.ws);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    const params = new URLSearchParams({
+      model_id: this.config.modelId,
+      output_format: 'mp3_44100_128',
+      inactivity_timeout: String(INACTIVITY_TIMEOUT),
+    });
+    const url = `wss://api.elevenlabs.io/v1/text-to-speech/${encodeURIComponent(this.config.voiceId)}/multi-stream-input?${params}`;
+
+    this.connecting = new Promise<WebSocket>((resolve, reject) => {
+      const ws = new WebSocket(url, { headers: { 'xi-api-key': this.config.apiKey } });
+
+      ws.on('open', () => {
+        this.ws = ws;
+        this.contexts.clear();
+        resolve(ws);
+      });
+
+      // Refused upgrades (bad key, unknown voice) arrive here with the HTTP status
+      ws.on('unexpected-response', (_request, response) => {
+        reject(new TTSProviderError(`ElevenLabs refused the connection (${response.statusCode})`, response.statusCode || 502));
+        ws.terminate();
+      });
+
+      ws.on('error', (error) => {
+        reject(new TTSProviderError(`Failed to reach ElevenLabs: ${error.message}`, 502));
+      });
+
+      ws.on('message', (data) => this.handleMessage(data.toString()));
+
+      ws.on('close', (code, reason) => {
+        if (this.ws !== ws) return;
+        this.ws = null;
+
+        // Contexts still speaking lose their audio; anything later reconnects
+        for (const contextId of this.contexts) {
+          this.events.onError(
+            new TTSProviderError(`ElevenLabs closed the connection (${code}${reason.length ? `: ${reason}` : ''})`, 502),
+            contextId
+          );
+        }
+        this.contexts.clear();
+      });
+    }).finally(() => {
+      this.connecting = null;
+    });
+
+    return this.connecting;
+  }
+
+  sendText(contextId: string, text: string): void {
+    this.send(contextId, (ws) => {
+      if (!this.contexts.has(contextId)) {
+        // The first message of a context carries its settings
+        this.contexts.add(contextId);
+        ws.send(JSON.stringify({
+          context_id: contextId,
+          text: ' ',
+          voice_settings: this.config.voiceSettings,
+          generation_config: {
+            // Smaller chunks for faster first audio (lower latency)
+            chunk_length_schedule: [50, 90, 120, 150, 200],
+          },
+        }));
+      }
+      ws.send(JSON.stringify({ context_id: contextId, text }));
+    });
+  }
+
+  flush(contextId: string): void {
+    this.send(contextId, (ws) => {
+      if (!this.contexts.has(contextId)) {
+        // Nothing was said in this context
+        this.events.onDone(contextId);
+        return;
+      }
+      ws.send(JSON.stringify({ context_id: contextId, flush: true }));
+      ws.send(JSON.stringify({ context_id: contextId, close_context: true }));
+    });
+  }
+
+  cancel(contextId: string): void {
+    if (!this.contexts.delete(contextId)) return;
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ context_id: contextId, close_context: true }));
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.contexts.clear();
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ close_socket: true }));
+    }
+    this.ws?.close(1000);
+    this.ws = null;
+  }
+
+  private send(contextId: string, write: (ws: WebSocket) => void): void {
+    if (this.closed) return;
+
+    this.connect()
+      .then(write)
+      .catch((error) => {
+        this.events.onError(
+          error instanceof TTSProviderError ? error : new TTSProviderError(error.message, 502),
+          contextId
+        );
+      });
+  }
+
+  private handleMessage(raw: string): void {
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    const contextId: string | undefined = data.contextId ?? data.context_id;
+
+    if (data.error) {
+      this.events.onError(new TTSProviderError(String(data.message || data.error), 502, data), contextId);
+      return;
+    }
+
+    // Audio still arriving for a cancelled context is dropped
+    if (!contextId || !this.contexts.has(contextId)) return;
+
+    if (data.audio) {
+      this.events.onAudio(contextId, Buffer.from(data.audio, 'base64'));
+    }
+    if (data.isFinal || data.is_final) {
+      this.contexts.delete(contextId);
+      this.events.onDone(contextId);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * TTS provider factory
+ *
+ * TTS_PROVIDER lists the providers to try in order, comma-separated
+ * ('elevenlabs', 'openai', 'local'), defaulting to 'elevenlabs'. The relay
+ * speaks with the first one that opens and falls back to the next when it
+ * fails. TTS_PROVIDER=local runs Piper or espeak-ng on the server and needs no
+ * network.
+ */
+
+import { ElevenLabsProvider } from './elevenlabs';
+import { getLocalTTSConfig, LocalTTSProvider } from './local';
+import { OpenAITTSProvider } from './openai';
+import { TTSProvider, TTSProviderError, TTSProviderName } from './types';
+
+export * from './types';
+
+const PROVIDER_NAMES: TTSProviderName[] = ['elevenlabs', 'openai', 'local'];
+
+/**
+ * Resolve the configured providers, in fallback order
+ */
+export function getTTSProviderNames(): TTSProviderName[] {
+  const configured = (process.env.TTS_PROVIDER || 'elevenlabs')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const name of configured) {
+    if (!PROVIDER_NAMES.includes(name as TTSProviderName)) {
+      throw new TTSProviderError(
+        `Unknown TTS provider "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`,
+        500
+      );
+    }
+  }
+
+  return configured as TTSProviderName[];
+}
+
+/**
+ * Create a provider
+ * Throws TTSProviderError if the provider's credentials are missing
+ */
+export function getTTSProvider(name: TTSProviderName): TTSProvider {
+  switch (name) {
+    case 'elevenlabs': {
+      const apiKey = process.env.ELEVENLABS_API_KEY;
+      if (!apiKey) {
+        throw new TTSProviderError('Eleven Labs API key not configured', 500);
+      }
+      return new ElevenLabsProvider({
+        apiKey,
+        voiceId: process.env.ELEVENLABS_VOICE_ID || process.env.NEXT_PUBLIC_ELEVENLABS_VOICE_ID || 'JBFqnCBsd6RMkjVDRZzb',
+        modelId: process.env.ELEVENLABS_MODEL_ID || 'eleven_flash_v2_5',
+        voiceSettings: {
+          stability: 0.5,
+          similarity_boost: 0.75,
+          style: 0.0,
+          use_speaker_boost: true,
+          speed: 1.0,
+        },
+      });
+    }
+
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new TTSProviderError('OpenAI API key not configured', 500);
+      }
+      return new OpenAITTSProvider({
+        apiKey,
+        baseUrl: (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, ''),
+        model: process.env.OPENAI_TTS_MODEL || 'gpt-4o-mini-tts',
+        voice: process.env.OPENAI_TTS_VOICE || 'alloy',
+      });
+    }
+
+    case 'local': {
+      // Checks for the engine when a stream opens, so a missing binary falls back like a missing key
+      return new LocalTTSProvider(getLocalTTSConfig());
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Local text-to-speech provider (server only, no network)
+ *
+ * Runs Piper or espeak-ng on the server a sentence at a time
+ * (SegmentedTTSStream) and emits each sentence as a WAV chunk, so voice mode
+ * works in air-gapped demos and CI.
+ *
+ * LOCAL_TTS_ENGINE=espeak (default) needs only the espeak-ng binary;
+ * LOCAL_TTS_ENGINE=piper needs PIPER_MODEL, the path of an .onnx voice (with
+ * its .onnx.json next to it). The binaries are found on PATH or via
+ * ESPEAK_PATH / PIPER_PATH; ESPEAK_VOICE (default 'en-us'), ESPEAK_RATE
+ * (words per minute, default 175) and PIPER_SPEAKER (multi-speaker voices)
+ * tune the voice.
+ */
+
+import { execFile, spawn } from 'child_process';
+import { access, mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { SegmentedTTSStream } from './segmented';
+import { TTSProvider, TTSProviderError, TTSStream, TTSStreamEvents, TTSStreamOptions } from './types';
+
+const execFileAsync = promisify(execFile);
+
+export type LocalTTSEngine = 'espeak' | 'piper';
+
+export interface LocalTTSConfig {
+  engine: LocalTTSEngine;
+  binary: string;
+  espeakVoice: string;
+  espeakRate: number;
+  piperModel?: string;
+  piperSpeaker?: string;
+}
+
+// Per sentence - Piper on a slow CPU takes a second or two
+const SEGMENT_TIMEOUT_MS = 30_000;
+
+// espeak-ng voice names ('en-us', 'de', 'en+f3'); anything else from the browser is ignored
+const ESPEAK_VOICE_PATTERN = /^[A-Za-z0-9_+-]+$/;
+
+export function getLocalTTSConfig(): LocalTTSConfig {
+  const engine: LocalTTSEngine = (process.env.LOCAL_TTS_ENGINE || 'espeak').toLowerCase() === 'piper' ? 'piper' : 'espeak';
+
+  return {
+    engine,
+    binary: engine === 'piper'
+      ? process.env.PIPER_PATH || 'piper'
+      : process.env.ESPEAK_PATH || 'espeak-ng',
+    espeakVoice: process.env.ESPEAK_VOICE || 'en-us',
+    espeakRate: parseInt(process.env.ESPEAK_RATE || '', 10) || 175,
+    piperModel: process.env.PIPER_MODEL,
+    piperSpeaker: process.env.PIPER_SPEAKER,
+  };
+}
+
+// Result of the engine check, per configured engine
+let availability: { key: string; available: Promise<boolean> } | null = null;
+
+/**
+ * Whether the configured engine can run here
+ * Checked once per process (per configured engine, binary and model).
+ */
+async function isEngineAvailable(config: LocalTTSConfig): Promise<boolean> {
+  const key = `${config.engine}|${config.binary}|${config.piperModel ?? ''}`;
+  if (availability?.key !== key) {
+    availability = {
+      key,
+      available: (async () => {
+        try {
+          if (config.engine === 'piper') {
+            if (!config.piperModel) {
+              console.error('[TTS] Piper needs PIPER_MODEL');
+              return false;
+            }
+            await access(config.piperModel);
+            await execFileAsync(config.binary, ['--help'], { timeout: 10_000 });
+          } else {
+            await execFileAsync(config.binary, ['--version'], { timeout: 10_000 });
+          }
+          return true;
+        } catch (error: any) {
+          console.error('[TTS] Local TTS unavailable:', error.code === 'ENOENT' ? `${error.path} not found` : error.message);
+          return false;
+        }
+      })(),
+    };
+  }
+  return availability.available;
+}
+
+export class LocalTTSProvider implements TTSProvider {
+  readonly name = 'local' as const;
+  readonly format = 'wav' as const;
+
+  constructor(private config: LocalTTSConfig) {}
+
+  async open(options: TTSStreamOptions, events: TTSStreamEvents): Promise<TTSStream> {
+    if (!(await isEngineAvailable(this.config))) {
+      throw new TTSProviderError(
+        this.config.engine === 'piper'
+          ? 'Piper is not available (install piper and set PIPER_MODEL)'
+          : 'espeak-ng is not available (install espeak-ng or set ESPEAK_PATH)',
+        503
+      );
+    }
+
+    const config = { ...this.config };
+    if (config.engine === 'espeak' && options.voice && ESPEAK_VOICE_PATTERN.test(options.voice)) {
+      config.espeakVoice = options.voice;
+    }
+
+    return new SegmentedTTSStream(config.engine, (input, signal) => synthesize(config, input, signal), events);
+  }
+}
+
+/**
+ * Speak one segment into a WAV file and return its bytes
+ */
+async function synthesize(config: LocalTTSConfig, input: string, signal: AbortSignal): Promise<Buffer> {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'icp-tts-'));
+  const output = path.join(directory, 'speech.wav');
+
+  // Both engines read the text from stdin; Piper would start a new file per line
+  const args = config.engine === 'piper'
+    ? ['--model', config.piperModel!, '--output_file', output, ...(config.piperSpeaker ? ['--speaker', config.piperSpeaker] : [])]
+    : ['-v', config.espeakVoice, '-s', String(config.espeakRate), '-w', output, '--stdin'];
+
+  try {
+    await run(config.binary, args, input.replace(/\s+/g, ' '), signal);
+    return await readFile(output);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Run an engine with text on stdin
+ * Killed when the context is cancelled or the segment takes too long.
+ */
+function run(binary: string, args: string[], input: string, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+
+    const stop = () => child.kill();
+    const timeout = setTimeout(stop, SEGMENT_TIMEOUT_MS);
+    signal.addEventListener('abort', stop, { once: true });
+
+    child.stderr.on('data', (data) => {
+      stderr = (stderr + data.toString()).slice(-500);
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timeout);
+      signal.removeEventListener('abort', stop);
+      reject(new TTSProviderError(`Failed to run ${binary}: ${error.message}`, 500));
+    });
+
+    child.on('close', (code, killedBy) => {
+      clearTimeout(timeout);
+      signal.removeEventListener('abort', stop);
+      if (code === 0) {
+        resolve();
+      } else {
+        const reason = killedBy ? `was stopped (${killedBy})` : `exited with code ${code}`;
+        reject(new TTSProviderError(`${path.basename(binary)} ${reason}${stderr.trim() ? `: ${stderr.trim()}` : ''}`, 500));
+      }
+    });
+
+    // A failed spawn also reports EPIPE here; the error event above explains it
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * OpenAI text-to-speech provider
+ *
+ * /audio/speech takes whole inputs, so text is sent a sentence at a time
+ * (SegmentedTTSStream) and each answer is emitted as a single MP3 chunk.
+ */
+
+import { SegmentedTTSStream } from './segmented';
+import { TTSProvider, TTSProviderError, TTSStream, TTSStreamEvents, TTSStreamOptions } from './types';
+
+export interface OpenAITTSConfig {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  voice: string;
+}
+
+export class OpenAITTSProvider implements TTSProvider {
+  readonly name = 'openai' as const;
+  readonly format = 'mp3' as const;
+
+  constructor(private config: OpenAITTSConfig) {}
+
+  async open(options: TTSStreamOptions, events: TTSStreamEvents): Promise<TTSStream> {
+    const config = {
+      ...this.config,
+      voice: options.voice || this.config.voice,
+      model: options.model || this.config.model,
+    };
+    return new SegmentedTTSStream('OpenAI', (input, signal) => speak(config, input, signal), events);
+  }
+}
+
+async function speak(config: OpenAITTSConfig, input: string, signal: AbortSignal): Promise<Buffer> {
+  const response = await fetch(`${config.baseUrl}/audio/speech`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${config.apiKey}`,
+    },
+    body: JSON.stringify({
+      model: config.model,
+      voice: config.voice,
+      input,
+      response_format: 'mp3',
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new TTSProviderError(`OpenAI speech request failed (${response.status})`, response.status, errorText);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -0,0 +1,32 @@
+/**
+ * Wire protocol between the browser and the TTS relay
+ *
+ * JSON text frames in both directions, the same whichever provider speaks.
+ * The browser sends `start` once, then text per context and a `flush` at the
+ * end of each utterance; `cancel` stops one (barge-in). Audio comes back as
+ * base64 chunks that each decode on their own, followed by `done`.
+ * Safe to import from the browser - no Node dependencies.
+ */
+
+import type { TTSAudioFormat, TTSProviderName } from './types';
+
+export type TTSClientMessage =
+  // Voice and model apply to the first configured provider; fallbacks use their own defaults
+  | { type: 'start'; voice?: string; model?: string }
+  | { type: 'text'; contextId: string; text: string }
+  | { type: 'flush'; contextId: string }
+  | { type: 'cancel'; contextId: string };
+
+export type TTSServerMessage =
+  // Sent after `start`, and again whenever the relay falls back to another provider
+  | { type: 'ready'; provider: TTSProviderName; format: TTSAudioFormat }
+  | { type: 'audio'; contextId: string; audio: string }
+  | { type: 'done'; contextId: string }
+  | { type: 'error'; message: string; contextId?: string };
+
+// Close codes the relay uses besides the standard ones
+export const TTS_RELAY_CLOSE_CODES = {
+  unauthorized: 4401,
+  rateLimited: 4429,
+  unavailable: 4503,
+} as const;
@@ -0,0 +1,124 @@
+/**
+ * TTS relay - the per-session character budget
+ *
+ * Runs the relay on a free port with a provider that records the text it
+ * would have spoken, and talks to it as the browser does.
+ */
+
+import { randomUUID } from 'crypto';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeSupabase } from '@/test/fake-supabase';
+import { TTSClientMessage, TTS_RELAY_CLOSE_CODES } from './protocol';
+
+const spoken = vi.hoisted(() => ({ text: [] as string[] }));
+
+vi.mock('@/lib/supabase', async () => (await import('@/test/fake-supabase')).supabaseModule);
+vi.mock('./index', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./index')>()),
+  getTTSProviderNames: () => ['openai'],
+  getTTSProvider: () => ({
+    name: 'openai',
+    format: 'mp3',
+    open: async () => ({
+      sendText: (_contextId: string, text: string) => {
+        spoken.text.push(text);
+      },
+      flush: () => {},
+      cancel: () => {},
+      close: () => {},
+    }),
+  }),
+}));
+
+import { startTTSRelay } from './relay';
+
+const SESSION = randomUUID();
+const OTHER_SESSION = randomUUID();
+
+// The relay's budget per session and window
+const CHARACTER_BUDGET = 30_000;
+
+let port: number;
+
+beforeAll(async () => {
+  const server = startTTSRelay(0);
+  if (!server.listening) await new Promise(resolve => server.once('listening', resolve));
+  port = (server.address() as AddressInfo).port;
+
+  return () => new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  spoken.text = [];
+  fakeSupabase.reset({ sessions: [{ session_id: SESSION }, { session_id: OTHER_SESSION }] });
+});
+
+interface Connection {
+  send(message: TTSClientMessage): void;
+  closed: Promise<{ code: number; reason: string }>;
+  close(): void;
+}
+
+// Connect as the session and wait for `ready`
+async function connect(sessionId: string): Promise<Connection> {
+  const ws = new WebSocket(`ws://localhost:${port}`, { headers: { cookie: `icp_session_id=${sessionId}` } });
+  const closed = new Promise<{ code: number; reason: string }>(resolve => {
+    ws.on('close', (code, reason) => resolve({ code, reason: reason.toString() }));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    ws.on('message', data => {
+      if (JSON.parse(data.toString()).type === 'ready') resolve();
+    });
+    ws.on('open', () => ws.send(JSON.stringify({ type: 'start' })));
+    closed.then(({ reason }) => reject(new Error(reason)));
+  });
+
+  return {
+    send: message => ws.send(JSON.stringify(message)),
+    closed,
+    close: () => ws.close(),
+  };
+}
+
+// Wait until the relay has handled everything sent so far
+function settled() {
+  return new Promise(resolve => setTimeout(resolve, 100));
+}
+
+describe('TTS relay character budget', () => {
+  it('closes the connection once the session has used up its budget', async () => {
+    const connection = await connect(SESSION);
+    const sentence = 'x'.repeat(10_000);
+
+    for (let i = 0; i < 5; i++) {
+      connection.send({ type: 'text', contextId: 'turn-1', text: sentence });
+    }
+
+    const { code, reason } = await connection.closed;
+    expect(code).toBe(TTS_RELAY_CLOSE_CODES.rateLimited);
+    expect(reason).toMatch(/^Too much text to speak, retry in \d+s$/);
+    expect(spoken.text.join('').length).toBe(CHARACTER_BUDGET);
+  });
+
+  it('shares the budget between the connections of a session', async () => {
+    // The session above used up its budget - a new connection can't send more
+    const connection = await connect(SESSION);
+    connection.send({ type: 'text', contextId: 'turn-2', text: 'Hello there.' });
+
+    expect((await connection.closed).code).toBe(TTS_RELAY_CLOSE_CODES.rateLimited);
+    expect(spoken.text).toEqual([]);
+  });
+
+  it("doesn't count other sessions' text", async () => {
+    const connection = await connect(OTHER_SESSION);
+    connection.send({ type: 'text', contextId: 'turn-1', text: 'Hello there.' });
+    await settled();
+
+    expect(spoken.text).toEqual(['Hello there.']);
+    connection.close();
+    await connection.closed;
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * TTS relay - the browser's one text-to-speech endpoint
+ *
+ * A WebSocket server next to the Next.js app (started from instrumentation.ts
+ * on TTS_RELAY_PORT, default 3001). Browsers speak the provider-neutral
+ * protocol in ./protocol; the relay checks the session cookie, limits
+ * connections per session, speaks through the configured providers and falls
+ * back to the next one when a provider fails before any audio of an utterance
+ * went out. Each session has a budget of characters it can have spoken, shared
+ * by its connections; characters spoken are logged per session and provider.
+ */
+
+import http from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import { createRequestClient } from '@/lib/auth';
+import { createRateLimiter } from '@/lib/rate-limit';
+import { getTTSProvider, getTTSProviderNames, TTSProviderError, TTSProviderName, TTSStream, TTSStreamOptions } from './index';
+import { TTSClientMessage, TTSServerMessage, TTS_RELAY_CLOSE_CODES } from './protocol';
+
+export const DEFAULT_TTS_RELAY_PORT = 3001;
+
+// Each voice conversation (and each reconnect) opens a connection
+const connectionLimiter = createRateLimiter({ limit: 20, windowMs: 10 * 60 * 1000 });
+
+// Characters a session can send to the providers - about three times what can be spoken in the window
+const characterLimiter = createRateLimiter({ limit: 30_000, windowMs: 10 * 60 * 1000 });
+
+// Largest client frame - text arrives a sentence or so at a time
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+
+interface RelayContext {
+  // Everything sent so far, replayed to a fallback provider
+  text: string;
+  flushed: boolean;
+  audioSent: boolean;
+}
+
+// Survives dev-server module reloads, so the port is only bound once
+const relayState = globalThis as typeof globalThis & { ttsRelayServer?: http.Server };
+
+/**
+ * Start the relay (once per process)
+ */
+export function startTTSRelay(port: number = parseInt(process.env.TTS_RELAY_PORT || String(DEFAULT_TTS_RELAY_PORT), 10)): http.Server {
+  if (relayState.ttsRelayServer) {
+    return relayState.ttsRelayServer;
+  }
+
+  const server = http.createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('TTS relay: connect with a WebSocket');
+  });
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+
+  server.on('upgrade', async (request, socket, head) => {
+    let sessionId: string | null = null;
+    try {
+      sessionId = await authenticate(request);
+    } catch (error) {
+      console.error('[TTS Relay] Error checking session:', error);
+    }
+
+    // Refusals are sent as close codes - browsers can't read the status of a failed upgrade
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      if (!sessionId) {
+        ws.close(TTS_RELAY_CLOSE_CODES.unauthorized, 'Session required');
+        return;
+      }
+
+      const limit = connectionLimiter.check(sessionId);
+      if (!limit.allowed) {
+        ws.close(TTS_RELAY_CLOSE_CODES.rateLimited, `Too many voice connections, retry in ${limit.retryAfter}s`);
+        return;
+      }
+
+      new RelayConnection(ws, sessionId);
+    });
+  });
+
+  server.on('error', (error) => {
+    console.error('[TTS Relay] Server error:', error);
+  });
+
+  server.listen(port, () => {
+    console.log(`[TTS Relay] Listening on port ${port}`);
+  });
+
+  relayState.ttsRelayServer = server;
+  return server;
+}
+
+/**
+ * The session a connection belongs to, or null when the cookie names no known session
+ */
+async function authenticate(request: http.IncomingMessage): Promise<string | null> {
+  const cookies = parseCookies(request.headers.cookie);
+  const { supabase, requester } = await createRequestClient({
+    get: (name: string) => (cookies.has(name) ? { value: cookies.get(name)! } : undefined),
+  });
+
+  if (!requester.sessionId) return null;
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('session_id')
+    .eq('session_id', requester.sessionId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw error;
+  }
+  return data?.session_id ?? null;
+}
+
+function parseCookies(header: string | undefined): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const part of (header || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    try {
+      cookies.set(part.slice(0, separator).trim(), decodeURIComponent(part.slice(separator + 1).trim()));
+    } catch {
+      // Malformed cookie values are skipped
+    }
+  }
+  return cookies;
+}
+
+/**
+ * One browser connection
+ * Messages and provider failures are handled one at a time, in arrival order.
+ */
+class RelayConnection {
+  private providers: TTSProviderName[] = [];
+  private providerIndex = -1;
+  private stream: TTSStream | null = null;
+  // Bumped on every provider switch, so events from a replaced stream are ignored
+  private generation = 0;
+  private contexts = new Map<string, RelayContext>();
+  private characters = new Map<TTSProviderName, number>();
+  private queue: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(private ws: WebSocket, private sessionId: string) {
+    ws.on('message', (data, isBinary) => {
+      if (isBinary) return;
+
+      let message: TTSClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        this.send({ type: 'error', message: 'Invalid message' });
+        return;
+      }
+      this.run(() => this.handleMessage(message));
+    });
+
+    ws.on('close', () => {
+      this.closed = true;
+      this.stream?.close();
+      this.stream = null;
+      this.logUsage();
+    });
+
+    ws.on('error', (error) => {
+      console.error('[TTS Relay] Connection error:', error);
+    });
+  }
+
+  private run(task: () => Promise<void> | void): void {
+    this.queue = this.queue
+      .then(task)
+      .catch((error) => {
+        console.error('[TTS Relay] Error handling message:', error);
+        this.send({ type: 'error', message: 'Internal error' });
+      });
+  }
+
+  private async handleMessage(message: TTSClientMessage): Promise<void> {
+    // Frames already received when the relay closed the connection are dropped
+    if (this.closed || this.ws.readyState !== WebSocket.OPEN) return;
+
+    if (message.type === 'start') {
+      if (this.providerIndex !== -1) return;
+      try {
+        this.providers = getTTSProviderNames();
+      } catch (error: any) {
+        console.error('[TTS Relay] Invalid TTS configuration:', error.message);
+        this.ws.close(TTS_RELAY_CLOSE_CODES.unavailable, 'Text-to-speech is not configured');
+        return;
+      }
+      if (!(await this.openProvider(0, { voice: message.voice, model: message.model }))) {
+        this.ws.close(TTS_RELAY_CLOSE_CODES.unavailable, 'No text-to-speech provider available');
+      }
+      return;
+    }
+
+    if (typeof message.contextId !== 'string' || !message.contextId) {
+      this.send({ type: 'error', message: 'contextId is required' });
+      return;
+    }
+
+    if (!this.stream) {
+      this.send({ type: 'error', message: 'Send start before text', contextId: message.contextId });
+      return;
+    }
+
+    switch (message.type) {
+      case 'text': {
+        if (typeof message.text !== 'string') return;
+        const context = this.getContext(message.contextId);
+        if (context.flushed || !this.chargeCharacters(message.text.length)) return;
+        context.text += message.text;
+        this.meter(message.text);
+        this.stream.sendText(message.contextId, message.text);
+        break;
+      }
+
+      case 'flush': {
+        const context = this.getContext(message.contextId);
+        if (context.flushed) return;
+        context.flushed = true;
+        this.stream.flush(message.contextId);
+        break;
+      }
+
+      case 'cancel': {
+        if (this.contexts.delete(message.contextId)) {
+          this.stream.cancel(message.contextId);
+        }
+        break;
+      }
+
+      default:
+        this.send({ type: 'error', message: 'Unknown message type' });
+    }
+  }
+
+  private getContext(contextId: string): RelayContext {
+    let context = this.contexts.get(contextId);
+    if (!context) {
+      context = { text: '', flushed: false, audioSent: false };
+      this.contexts.set(contextId, context);
+    }
+    return context;
+  }
+
+  /**
+   * Open the first provider from `start` on that works
+   */
+  private async openProvider(start: number, options: TTSStreamOptions): Promise<boolean> {
+    for (let index = start; index < this.providers.length; index++) {
+      const name = this.providers[index];
+      const generation = ++this.generation;
+
+      try {
+        const provider = getTTSProvider(name);
+        const stream = await provider.open(index === 0 ? options : {}, {
+          onAudio: (contextId, audio) => {
+            if (generation === this.generation) this.handleAudio(contextId, audio);
+          },
+          onDone: (contextId) => {
+            if (generation === this.generation) this.handleDone(contextId);
+          },
+          onError: (error, contextId) => {
+            // Checked again once queued - an earlier error may have switched providers meanwhile
+            this.run(() => {
+              if (generation === this.generation) return this.handleProviderError(error, contextId);
+            });
+          },
+        });
+
+        if (this.closed) {
+          stream.close();
+          return true;
+        }
+
+        this.stream = stream;
+        this.providerIndex = index;
+        this.send({ type: 'ready', provider: provider.name, format: provider.format });
+        return true;
+      } catch (error: any) {
+        console.error(`[TTS Relay] ${name} unavailable:`, error.message);
+      }
+    }
+    return false;
+  }
+
+  private handleAudio(contextId: string, audio: Buffer): void {
+    const context = this.contexts.get(contextId);
+    if (!context) return;
+    context.audioSent = true;
+    this.send({ type: 'audio', contextId, audio: audio.toString('base64') });
+  }
+
+  private handleDone(contextId: string): void {
+    if (!this.contexts.delete(contextId)) return;
+    this.send({ type: 'done', contextId });
+  }
+
+  /**
+   * Fall back to the next provider and replay the utterances that haven't been heard yet
+   * An utterance that already played part of its audio fails instead - replaying it would repeat words.
+   */
+  private async handleProviderError(error: TTSProviderError, contextId?: string): Promise<void> {
+    if (this.closed) return;
+
+    const name = this.providers[this.providerIndex];
+    console.error(`[TTS Relay] ${name} failed${contextId ? ` for ${contextId}` : ''}:`, error.message);
+
+    if (contextId) {
+      const context = this.contexts.get(contextId);
+      if (!context) return;
+      if (context.audioSent) {
+        this.failContext(contextId);
+        return;
+      }
+    }
+
+    // Switching drops everything the old stream was still speaking
+    this.stream?.close();
+    this.stream = null;
+    for (const [id, context] of this.contexts) {
+      if (context.audioSent) this.failContext(id);
+    }
+
+    if (!(await this.openProvider(this.providerIndex + 1, {}))) {
+      for (const id of [...this.contexts.keys()]) {
+        this.failContext(id);
+      }
+      this.ws.close(TTS_RELAY_CLOSE_CODES.unavailable, 'No text-to-speech provider available');
+      return;
+    }
+
+    // Replayed text was charged to the budget when it arrived
+    for (const [id, context] of this.contexts) {
+      if (context.text) {
+        this.meter(context.text);
+        this.stream!.sendText(id, context.text);
+      }
+      if (context.flushed) {
+        this.stream!.flush(id);
+      }
+    }
+  }
+
+  private failContext(contextId: string): void {
+    this.contexts.delete(contextId);
+    this.send({ type: 'error', message: 'Speech failed', contextId });
+  }
+
+  /**
+   * Take text from the session's character budget before it goes to a provider
+   * Once the budget is used up the connection is closed - the browser waits before reconnecting.
+   */
+  private chargeCharacters(count: number): boolean {
+    const limit = characterLimiter.check(this.sessionId, count);
+    if (limit.allowed) return true;
+
+    console.warn(`[TTS Relay] Session ${this.sessionId} used up its character budget`);
+    this.ws.close(TTS_RELAY_CLOSE_CODES.rateLimited, `Too much text to speak, retry in ${limit.retryAfter}s`);
+    return false;
+  }
+
+  private meter(text: string): void {
+    const name = this.providers[this.providerIndex];
+    this.characters.set(name, (this.characters.get(name) || 0) + text.length);
+  }
+
+  private logUsage(): void {
+    if (this.characters.size === 0) return;
+    const usage = [...this.characters].map(([name, count]) => `${name}: ${count}`).join(', ');
+    console.log(`[TTS Relay] Session ${this.sessionId} spoke ${usage} characters`);
+  }
+
+  private send(message: TTSServerMessage): void {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+}
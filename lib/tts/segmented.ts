@@ -0,0 +1,116 @@
+/**
+ * Sentence-at-a-time synthesis for providers that take whole inputs
+ *
+ * Text is collected per context and handed to `speak` a sentence at a time as
+ * sentences complete. Segments of one context are spoken in order and each
+ * result is emitted as a single audio chunk.
+ */
+
+import { TTSProviderError, TTSStream, TTSStreamEvents } from './types';
+
+// Synthesize one segment into one self-contained audio file
+export type SpeakSegment = (input: string, signal: AbortSignal) => Promise<Buffer>;
+
+// Sentences shorter than this wait for the next one, so audio doesn't come in slivers
+const MIN_SEGMENT_CHARS = 40;
+const SENTENCE_END = /[.!?…]["')\]]*\s|\n/g;
+
+interface SegmentedContext {
+  buffer: string;
+  // Segments waiting to be spoken, in order
+  queue: string[];
+  flushed: boolean;
+  speaking: boolean;
+  abort: AbortController;
+}
+
+export class SegmentedTTSStream implements TTSStream {
+  private contexts = new Map<string, SegmentedContext>();
+
+  // `label` names the provider in errors that aren't TTSProviderErrors already
+  constructor(private label: string, private speak: SpeakSegment, private events: TTSStreamEvents) {}
+
+  sendText(contextId: string, text: string): void {
+    const context = this.getContext(contextId);
+    if (context.flushed) return;
+
+    context.buffer += text;
+
+    // Cut after the last sentence end, once there's enough to say
+    let cut = -1;
+    for (const match of context.buffer.matchAll(SENTENCE_END)) {
+      const end = match.index! + match[0].length;
+      if (end >= MIN_SEGMENT_CHARS) cut = end;
+    }
+    if (cut > 0) {
+      this.enqueue(contextId, context, context.buffer.slice(0, cut));
+      context.buffer = context.buffer.slice(cut);
+    }
+  }
+
+  flush(contextId: string): void {
+    const context = this.getContext(contextId);
+    context.flushed = true;
+    this.enqueue(contextId, context, context.buffer);
+    context.buffer = '';
+  }
+
+  cancel(contextId: string): void {
+    const context = this.contexts.get(contextId);
+    if (!context) return;
+    context.abort.abort();
+    this.contexts.delete(contextId);
+  }
+
+  close(): void {
+    for (const contextId of [...this.contexts.keys()]) {
+      this.cancel(contextId);
+    }
+  }
+
+  private getContext(contextId: string): SegmentedContext {
+    let context = this.contexts.get(contextId);
+    if (!context) {
+      context = { buffer: '', queue: [], flushed: false, speaking: false, abort: new AbortController() };
+      this.contexts.set(contextId, context);
+    }
+    return context;
+  }
+
+  private enqueue(contextId: string, context: SegmentedContext, segment: string): void {
+    if (segment.trim()) {
+      context.queue.push(segment.trim());
+    }
+    this.drain(contextId, context);
+  }
+
+  /**
+   * Speak queued segments one after another, then report the context done once flushed
+   */
+  private async drain(contextId: string, context: SegmentedContext): Promise<void> {
+    if (context.speaking) return;
+    context.speaking = true;
+
+    try {
+      while (context.queue.length > 0) {
+        const audio = await this.speak(context.queue.shift()!, context.abort.signal);
+        if (context.abort.signal.aborted) return;
+        this.events.onAudio(contextId, audio);
+      }
+
+      if (context.flushed) {
+        this.contexts.delete(contextId);
+        this.events.onDone(contextId);
+      }
+    } catch (error: any) {
+      if (context.abort.signal.aborted) return;
+      this.contexts.delete(contextId);
+      this.events.onError(
+        error instanceof TTSProviderError ? error : new TTSProviderError(`Failed to reach ${this.label}: ${error.message}`, 502),
+        contextId
+      );
+    } finally {
+      context.speaking = false;
+    }
+  }
+}
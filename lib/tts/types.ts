@@ -0,0 +1,61 @@
+/**
+ * Shared types for the pluggable text-to-speech provider layer
+ */
+
+export type TTSProviderName = 'elevenlabs' | 'openai' | 'local';
+
+// Every audio chunk a provider emits decodes on its own (AudioPlayer plays chunks one by one)
+export type TTSAudioFormat = 'mp3' | 'wav';
+
+export interface TTSStreamOptions {
+  // Provider-specific voice and model; the provider's configured defaults when omitted
+  voice?: string;
+  model?: string;
+}
+
+export interface TTSStreamEvents {
+  onAudio(contextId: string, audio: Buffer): void;
+  // All audio for a flushed context has been emitted
+  onDone(contextId: string): void;
+  // A failure limited to one context, or the whole stream when contextId is omitted
+  onError(error: TTSProviderError, contextId?: string): void;
+}
+
+/**
+ * One open synthesis stream - text goes in per context, audio comes out through the events
+ * A context is a single utterance (one assistant turn); several can be open at once.
+ */
+export interface TTSStream {
+  sendText(contextId: string, text: string): void;
+  // No more text for the context: speak what's left, then onDone
+  flush(contextId: string): void;
+  // Stop the context now and drop its pending audio
+  cancel(contextId: string): void;
+  close(): void;
+}
+
+export interface TTSProvider {
+  readonly name: TTSProviderName;
+  readonly format: TTSAudioFormat;
+
+  /**
+   * Open a stream
+   * Rejects with TTSProviderError when the provider can't be reached or refuses the credentials
+   */
+  open(options: TTSStreamOptions, events: TTSStreamEvents): Promise<TTSStream>;
+}
+
+/**
+ * Error raised by providers - carries the upstream HTTP status where there is one
+ */
+export class TTSProviderError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(message: string, status: number = 500, details?: unknown) {
+    super(message);
+    this.name = 'TTSProviderError';
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * TTS Relay Client for Text-to-Speech
+ * Streams text to the server's TTS relay and receives audio chunks, whichever provider speaks
+ * Each assistant turn is a context, so it can be cut off on its own for barge-in
+ */
+
+import type { TTSClientMessage, TTSServerMessage } from '@/lib/tts/protocol';
+import { TTS_RELAY_CLOSE_CODES } from '@/lib/tts/protocol';
+
+export interface TTSOptions {
+  // Voice and model of the relay's first provider; its configured defaults when omitted
+  voiceId?: string;
+  modelId?: string;
+  // Relay address; NEXT_PUBLIC_TTS_RELAY_URL, or port 3001 on this host
+  url?: string;
+}
+
+export interface AudioChunk {
+  audio: ArrayBuffer;
+  contextId: string;
+}
+
+const DEFAULT_RELAY_PORT = 3001;
+
+// After the relay refuses a connection (no session, rate limit, no provider), wait before trying again
+const REFUSED_RETRY_MS = 30000;
+
+export class TTSRelayClient {
+  private ws: WebSocket | null = null;
+  private connecting: Promise<void> | null = null;
+  private currentContextId: string | null = null;
+  private isReady: boolean = false;
+  private isIntentionallyDisconnecting: boolean = false;
+  private refusedUntil: number = 0;
+  private refusedReason: string | null = null;
+  private options: TTSOptions;
+
+  // Callbacks
+  private onAudioChunkCallback?: (chunk: AudioChunk) => void;
+  private onErrorCallback?: (error: Error) => void;
+  private onConnectCallback?: () => void;
+  private onDisconnectCallback?: () => void;
+
+  constructor(options: TTSOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Connect to the relay
+   * Resolves once a provider is ready to speak.
+   */
+  connect(): Promise<void> {
+    this.isIntentionallyDisconnecting = false;
+
+    if (this.getConnectionStatus()) {
+      return Promise.resolve();
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+    if (Date.now() < this.refusedUntil) {
+      return Promise.reject(new Error(this.refusedReason || 'Voice connection refused'));
+    }
+
+    this.connecting = new Promise<void>((resolve, reject) => {
+      const ws = new WebSocket(this.getRelayUrl());
+      this.ws = ws;
+
+      ws.onopen = () => {
+        this.send({ type: 'start', voice: this.options.voiceId, model: this.options.modelId });
+      };
+
+      ws.onmessage = (event) => {
+        let message: TTSServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          // Silently skip corrupted messages
+          return;
+        }
+
+        if (message.type === 'ready') {
+          const wasReady = this.isReady;
+          this.isReady = true;
+          console.log('[TTS Relay] Speaking with', message.provider);
+          if (!wasReady) {
+            this.onConnectCallback?.();
+            resolve();
+          }
+          return;
+        }
+
+        this.handleMessage(message);
+      };
+
+      ws.onerror = () => {
+        // onclose follows with the details
+      };
+
+      ws.onclose = (event) => {
+        if (this.ws === ws) {
+          this.ws = null;
+        }
+        const wasReady = this.isReady;
+        this.isReady = false;
+        this.currentContextId = null;
+
+        console.log('[TTS Relay] Connection closed', {
+          code: event.code,
+          reason: event.reason || 'No reason provided',
+          isIntentionallyDisconnecting: this.isIntentionallyDisconnecting,
+        });
+
+        const refused = (Object.values(TTS_RELAY_CLOSE_CODES) as number[]).includes(event.code);
+        if (refused) {
+          this.refusedUntil = Date.now() + REFUSED_RETRY_MS;
+          this.refusedReason = event.reason || 'Voice connection refused';
+          this.onErrorCallback?.(new Error(this.refusedReason));
+        }
+
+        if (!wasReady) {
+          reject(new Error(event.reason || 'Failed to connect to the voice relay'));
+        } else if (!this.isIntentionallyDisconnecting) {
+          this.onDisconnectCallback?.();
+        }
+      };
+    }).finally(() => {
+      this.connecting = null;
+    });
+
+    return this.connecting;
+  }
+
+  /**
+   * Create a new context for speech
+   */
+  createContext(): string {
+    const contextId = `context_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    this.currentContextId = contextId;
+    return contextId;
+  }
+
+  /**
+   * Cancel a specific context (for barge-in)
+   */
+  closeContext(contextId: string): void {
+    this.send({ type: 'cancel', contextId });
+    if (this.currentContextId === contextId) {
+      this.currentContextId = null;
+    }
+  }
+
+  /**
+   * Cancel current context (for barge-in)
+   */
+  closeCurrentContext(): void {
+    if (this.currentContextId) {
+      this.closeContext(this.currentContextId);
+    }
+  }
+
+  /**
+   * Send text chunk to TTS
+   * With flush, the context is finished: the rest is spoken and later text starts a new context.
+   */
+  sendText(text: string, flush: boolean = false): void {
+    if (!this.getConnectionStatus()) {
+      // Silently skip if not connected - will reconnect automatically
+      return;
+    }
+
+    const contextId = this.currentContextId || this.createContext();
+
+    if (text) {
+      this.send({ type: 'text', contextId, text });
+    }
+    if (flush) {
+      this.send({ type: 'flush', contextId });
+      this.currentContextId = null;
+    }
+  }
+
+  /**
+   * Handle relay messages
+   */
+  private handleMessage(message: TTSServerMessage): void {
+    switch (message.type) {
+      case 'audio': {
+        const audio = Uint8Array.from(atob(message.audio), c => c.charCodeAt(0));
+        this.onAudioChunkCallback?.({ audio: audio.buffer, contextId: message.contextId });
+        break;
+      }
+
+      case 'error':
+        if (message.contextId) {
+          // One utterance failed - the next one can still be spoken
+          console.warn('[TTS Relay] Speech failed for', message.contextId, message.message);
+        } else {
+          this.onErrorCallback?.(new Error(message.message));
+        }
+        break;
+    }
+  }
+
+  private send(message: TTSClientMessage): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private getRelayUrl(): string {
+    if (this.options.url) return this.options.url;
+    if (process.env.NEXT_PUBLIC_TTS_RELAY_URL) return process.env.NEXT_PUBLIC_TTS_RELAY_URL;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+    return `${protocol}://${window.location.hostname}:${DEFAULT_RELAY_PORT}`;
+  }
+
+  /**
+   * Disconnect from the relay
+   */
+  disconnect(): void {
+    this.isIntentionallyDisconnecting = true;
+    if (this.ws) {
+      this.ws.close(1000, 'Intentional disconnect');
+      this.ws = null;
+    }
+    this.isReady = false;
+    this.currentContextId = null;
+  }
+
+  /**
+   * Set callback for audio chunks
+   */
+  onAudioChunk(callback: (chunk: AudioChunk) => void): void {
+    this.onAudioChunkCallback = callback;
+  }
+
+  /**
+   * Set callback for errors
+   */
+  onError(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  /**
+   * Set callback for connection
+   */
+  onConnect(callback: () => void): void {
+    this.onConnectCallback = callback;
+  }
+
+  /**
+   * Set callback for disconnection
+   */
+  onDisconnect(callback: () => void): void {
+    this.onDisconnectCallback = callback;
+  }
+
+  /**
+   * Get connection status
+   */
+  getConnectionStatus(): boolean {
+    return this.isReady && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Get current context ID
+   */
+  getCurrentContextId(): string | null {
+    return this.currentContextId;
+  }
+}
@@ -22,6 +22,9 @@ const nextConfig = {
     return config;
   },
   
+  // ws loads optional native addons at runtime - keep it out of the server bundle (TTS relay)
+  serverExternalPackages: ['ws'],
+
   // Performance optimizations
   experimental: {
     optimizePackageImports: ['lucide-react'],
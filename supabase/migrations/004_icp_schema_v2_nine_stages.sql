@@ -0,0 +1,48 @@
+-- ICP schema version 2: store all nine discovery stages
+-- Adds the stages the system prompt walks through but v1 never persisted,
+-- and folds Buying Process + Budget & Decision Maker into Buyer Personas
+
+-- Schema version (existing rows are v1 until backfilled below)
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
+
+-- Product / Solution
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS product_description TEXT;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS delivery_model TEXT;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS value_outcomes TEXT;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS product_solution_complete BOOLEAN DEFAULT FALSE;
+
+-- Buyer Personas & Decision Makers (reuses the v1 decision/budget/approval columns)
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS buyer_personas_complete BOOLEAN DEFAULT FALSE;
+
+-- Buying Triggers & Timing (evaluation_criteria moves here from v1 Buying Process)
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS buying_triggers TEXT;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS urgency_timing TEXT;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS buying_triggers_complete BOOLEAN DEFAULT FALSE;
+
+-- Fit Indicators & Exclusions
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS fit_indicators TEXT;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS exclusions TEXT;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS fit_exclusions_complete BOOLEAN DEFAULT FALSE;
+
+-- Emotional & Strategic Drivers
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS emotional_drivers TEXT;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS strategic_goals TEXT;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS emotional_drivers_complete BOOLEAN DEFAULT FALSE;
+
+-- ICP Synthesis Confirmation
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS synthesis_complete BOOLEAN DEFAULT FALSE;
+
+-- Backfill v1 rows: Buyer Personas is complete only if both v1 sections it replaces were.
+-- The new stages start incomplete so the agent picks them up on the next turn.
+UPDATE icp_data
+SET
+  buyer_personas_complete = COALESCE(buying_process_complete, FALSE) AND COALESCE(budget_decision_complete, FALSE),
+  schema_version = 2
+WHERE schema_version < 2;
+
+-- New rows are v2
+ALTER TABLE icp_data ALTER COLUMN schema_version SET DEFAULT 2;
+
+-- The v1 flags are kept for rollback but no longer read by the app
+COMMENT ON COLUMN icp_data.buying_process_complete IS 'Deprecated (schema v1) - replaced by buyer_personas_complete';
+COMMENT ON COLUMN icp_data.budget_decision_complete IS 'Deprecated (schema v1) - replaced by buyer_personas_complete';
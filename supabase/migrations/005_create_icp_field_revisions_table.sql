@@ -0,0 +1,32 @@
+-- Create ICP field revisions table
+-- Every change to an ICP text field is recorded here so consultants can see
+-- why a value changed and roll back bad auto-extractions
+
+CREATE TABLE IF NOT EXISTS icp_field_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  source TEXT NOT NULL CHECK (source IN ('user_edit', 'regex_analyzer', 'llm_extraction', 'pdf', 'confirmation_card', 'rollback')),
+  -- Message that triggered the change, if any
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for history lookups (per chat, per field, newest first)
+CREATE INDEX IF NOT EXISTS idx_icp_field_revisions_chat_field ON icp_field_revisions(chat_id, field, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_icp_field_revisions_created_at ON icp_field_revisions(chat_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE icp_field_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow read revisions for any chat
+CREATE POLICY "Allow read icp_field_revisions" ON icp_field_revisions
+  FOR SELECT
+  USING (true);
+
+-- Policy: Allow insert revisions (revisions are append-only - no update/delete policies)
+CREATE POLICY "Allow insert icp_field_revisions" ON icp_field_revisions
+  FOR INSERT
+  WITH CHECK (true);
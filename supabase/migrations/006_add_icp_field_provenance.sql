@@ -0,0 +1,10 @@
+-- Add per-field provenance to ICP data
+-- Maps field name -> { source, source_id, evidence, confidence, updated_at }
+-- Written by the server on every save; values with no entry predate provenance tracking
+
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS field_provenance JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Record the evidence and confidence on each revision too, so history shows why a value was chosen
+ALTER TABLE icp_field_revisions ADD COLUMN IF NOT EXISTS source_id TEXT;
+ALTER TABLE icp_field_revisions ADD COLUMN IF NOT EXISTS evidence TEXT;
+ALTER TABLE icp_field_revisions ADD COLUMN IF NOT EXISTS confidence REAL;
@@ -0,0 +1,43 @@
+-- Support ICP updates made by the chat agent through tool calls
+
+-- Allow the new 'agent_tool' revision source
+ALTER TABLE icp_field_revisions DROP CONSTRAINT IF EXISTS icp_field_revisions_source_check;
+ALTER TABLE icp_field_revisions ADD CONSTRAINT icp_field_revisions_source_check
+  CHECK (source IN ('user_edit', 'regex_analyzer', 'llm_extraction', 'pdf', 'confirmation_card', 'rollback', 'agent_tool'));
+
+-- Create ICP conflicts table
+-- Contradictions the agent noticed (e.g. conversation vs uploaded document) and raised with the founder
+CREATE TABLE IF NOT EXISTS icp_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  field TEXT,
+  description TEXT NOT NULL,
+  current_value TEXT,
+  conflicting_value TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  -- User message the conflict was raised on, if any
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
+-- Create index for listing a chat's open conflicts
+CREATE INDEX IF NOT EXISTS idx_icp_conflicts_chat_status ON icp_conflicts(chat_id, status, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE icp_conflicts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow read conflicts for any chat
+CREATE POLICY "Allow read icp_conflicts" ON icp_conflicts
+  FOR SELECT
+  USING (true);
+
+-- Policy: Allow insert conflicts
+CREATE POLICY "Allow insert icp_conflicts" ON icp_conflicts
+  FOR INSERT
+  WITH CHECK (true);
+
+-- Policy: Allow update conflicts (resolving)
+CREATE POLICY "Allow update icp_conflicts" ON icp_conflicts
+  FOR UPDATE
+  USING (true);
@@ -0,0 +1,7 @@
+-- Separate "confirmed by the user" from "auto-detected" section completion
+-- Maps section id -> { confirmed_at, source }
+-- The *_complete flags are recomputed by the server on every save (lib/icp-completion.ts)
+
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS section_confirmations JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN icp_data.section_confirmations IS 'Sections a person signed off on; completion flags are derived from field values on every save';
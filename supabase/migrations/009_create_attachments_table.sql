@@ -0,0 +1,54 @@
+-- Create attachments table
+-- Uploaded documents: the original file lives in blob storage (local disk or S3),
+-- its extracted text and ICP extraction results live here
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  -- User message the document was sent with (set once the message is saved)
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  format TEXT NOT NULL CHECK (format IN ('pdf', 'docx', 'pptx', 'xlsx', 'csv', 'txt', 'md', 'html')),
+  size_bytes INTEGER NOT NULL,
+  storage_backend TEXT NOT NULL CHECK (storage_backend IN ('local', 's3')),
+  storage_key TEXT NOT NULL,
+  extracted_text TEXT NOT NULL DEFAULT '',
+  -- Text of each page / slide / sheet
+  pages JSONB NOT NULL DEFAULT '[]',
+  page_count INTEGER NOT NULL DEFAULT 0,
+  -- Fields found, the pages they came from, conflicts and the upload summary
+  extraction JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for listing a chat's attachments and a message's attachments
+CREATE INDEX IF NOT EXISTS idx_attachments_chat_id ON attachments(chat_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_attachments_message_id ON attachments(message_id);
+
+-- Enable Row Level Security
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow read attachments for any chat
+CREATE POLICY "Allow read attachments" ON attachments
+  FOR SELECT
+  USING (true);
+
+-- Policy: Allow insert attachments
+CREATE POLICY "Allow insert attachments" ON attachments
+  FOR INSERT
+  WITH CHECK (true);
+
+-- Policy: Allow update attachments (linking to a message, re-extracting)
+CREATE POLICY "Allow update attachments" ON attachments
+  FOR UPDATE
+  USING (true);
+
+-- Policy: Allow delete attachments
+CREATE POLICY "Allow delete attachments" ON attachments
+  FOR DELETE
+  USING (true);
+
+-- Blobs are not removed by ON DELETE CASCADE: deleting a chat leaves its files in storage
+-- until they are cleaned up (DELETE /api/chats/[chatId] removes them first)
@@ -0,0 +1,41 @@
+-- Create document chunks table
+-- Uploaded documents cut into small chunks with their embeddings, for retrieval in the chat route.
+-- Vectors are compared in-process (lib/document-retrieval.ts), so a plain REAL[] is enough and
+-- the pgvector extension isn't required; embedding_model keeps vectors of different models apart.
+
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attachment_id UUID NOT NULL REFERENCES attachments(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  -- 1-based pages / slides / sheets the chunk's text came from
+  pages INTEGER[] NOT NULL DEFAULT '{}',
+  heading TEXT,
+  content TEXT NOT NULL,
+  token_count INTEGER NOT NULL DEFAULT 0,
+  embedding REAL[] NOT NULL,
+  -- '<provider>:<model>', e.g. 'openai:text-embedding-3-small' or 'hash:hash-v1-512'
+  embedding_model TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index for loading an attachment's chunks in order
+CREATE INDEX IF NOT EXISTS idx_document_chunks_attachment ON document_chunks(attachment_id, embedding_model, chunk_index);
+
+-- Enable Row Level Security
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow read document chunks for any chat
+CREATE POLICY "Allow read document_chunks" ON document_chunks
+  FOR SELECT
+  USING (true);
+
+-- Policy: Allow insert document chunks
+CREATE POLICY "Allow insert document_chunks" ON document_chunks
+  FOR INSERT
+  WITH CHECK (true);
+
+-- Policy: Allow delete document chunks (re-indexing)
+CREATE POLICY "Allow delete document_chunks" ON document_chunks
+  FOR DELETE
+  USING (true);
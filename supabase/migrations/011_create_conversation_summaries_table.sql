@@ -0,0 +1,41 @@
+-- Create conversation summaries table
+-- Rolling per-stage summaries of older chat turns, sent to the model instead of those turns
+-- (lib/conversation-memory.ts). message_ids are the messages a summary covers and fingerprint
+-- hashes their text, so a summary whose messages were edited or deleted is detected and rebuilt.
+
+CREATE TABLE IF NOT EXISTS conversation_summaries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  -- Discovery stage (ICP section id) or 'general'
+  stage TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  message_ids UUID[] NOT NULL DEFAULT '{}',
+  fingerprint TEXT NOT NULL,
+  token_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (chat_id, stage)
+);
+
+-- Enable Row Level Security
+ALTER TABLE conversation_summaries ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow read conversation summaries for any chat
+CREATE POLICY "Allow read conversation_summaries" ON conversation_summaries
+  FOR SELECT
+  USING (true);
+
+-- Policy: Allow insert conversation summaries
+CREATE POLICY "Allow insert conversation_summaries" ON conversation_summaries
+  FOR INSERT
+  WITH CHECK (true);
+
+-- Policy: Allow update conversation summaries (folding in newer turns)
+CREATE POLICY "Allow update conversation_summaries" ON conversation_summaries
+  FOR UPDATE
+  USING (true);
+
+-- Policy: Allow delete conversation summaries (stale after an edit or delete)
+CREATE POLICY "Allow delete conversation_summaries" ON conversation_summaries
+  FOR DELETE
+  USING (true);
@@ -0,0 +1,8 @@
+-- Add OCR results to attachments
+-- Scanned PDF pages are read with OCR (lib/ocr.ts); this keeps which pages were
+-- and the per-page confidence, so low-confidence values can be checked later
+
+ALTER TABLE attachments
+  ADD COLUMN IF NOT EXISTS ocr JSONB;
+
+COMMENT ON COLUMN attachments.ocr IS 'OCR report: engine, pages [{page, confidence 0-100, words}], averageConfidence, skippedPages';
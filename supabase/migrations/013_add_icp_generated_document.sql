@@ -0,0 +1,19 @@
+-- Store the generated ICP document as structured JSON
+-- generate-document used to write plain text to a generated_document column that
+-- was never created by a migration; databases that added it by hand keep that
+-- text as generated_document_text
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'icp_data' AND column_name = 'generated_document' AND data_type <> 'jsonb'
+  ) THEN
+    ALTER TABLE icp_data RENAME COLUMN generated_document TO generated_document_text;
+  END IF;
+END $$;
+
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS generated_document JSONB;
+ALTER TABLE icp_data ADD COLUMN IF NOT EXISTS document_generated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN icp_data.generated_document IS 'Last generated document (types/document.ts ICPDocument): schemaVersion, title, companyName, generatedAt, sections [{id, title, blocks}], sources';
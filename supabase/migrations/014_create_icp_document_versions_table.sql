@@ -0,0 +1,33 @@
+-- Create ICP document versions table
+-- Every document generation is kept as a numbered version with the ICP it was generated
+-- from and the model and prompt version used, so teams can compare how the ICP evolved.
+-- icp_data.generated_document still holds the latest one.
+
+CREATE TABLE IF NOT EXISTS icp_document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  -- 1, 2, 3... per chat
+  version INTEGER NOT NULL,
+  -- types/document.ts ICPDocument
+  document JSONB NOT NULL,
+  -- icp_data row at generation time
+  icp_snapshot JSONB NOT NULL,
+  provider TEXT,
+  model TEXT,
+  prompt_version INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (chat_id, version)
+);
+
+-- Enable Row Level Security
+ALTER TABLE icp_document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow read document versions for any chat
+CREATE POLICY "Allow read icp_document_versions" ON icp_document_versions
+  FOR SELECT
+  USING (true);
+
+-- Policy: Allow insert document versions (versions are append-only - no update/delete policies)
+CREATE POLICY "Allow insert icp_document_versions" ON icp_document_versions
+  FOR INSERT
+  WITH CHECK (true);
@@ -0,0 +1,42 @@
+-- Create users table and link sessions and chats to accounts
+-- Accounts are Supabase Auth users (email/password or magic link); this table holds
+-- the app's copy of each one. An anonymous session is claimed when its browser signs
+-- in: the session and its chats get the user's id, so they follow the account to
+-- other devices.
+
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Set once the session is claimed
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- A chat with a user_id belongs to that account; without one, to its session
+ALTER TABLE chats
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_chats_user_id ON chats(user_id, updated_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow read users
+CREATE POLICY "Allow read users" ON users
+  FOR SELECT
+  USING (true);
+
+-- Policy: Allow insert users (on first sign-in)
+CREATE POLICY "Allow insert users" ON users
+  FOR INSERT
+  WITH CHECK (true);
+
+-- Policy: Allow update users (email changes)
+CREATE POLICY "Allow update users" ON users
+  FOR UPDATE
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,228 @@
+-- Replace the open RLS policies with ownership checks
+-- Until now every policy was USING (true): anyone with the anon key and a chat UUID could
+-- read or change it. Rows are now visible only to their owner:
+--   - a signed-in user (auth.uid() from the access token sent as the Authorization header)
+--   - an anonymous session (its ID sent by the API routes in the x-session-id header)
+-- A chat with a user_id belongs to that account, one without to its session, and every
+-- chat-scoped table follows its chat. Creating sessions, recording users and claiming
+-- sessions happen server-side with the service role, which bypasses RLS.
+
+-- Session ID of the request, or NULL when the header is missing or not a UUID
+CREATE OR REPLACE FUNCTION request_session_id()
+RETURNS UUID AS $$
+  SELECT CASE
+    WHEN header ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN header::uuid
+  END
+  FROM (SELECT current_setting('request.headers', true)::json->>'x-session-id' AS header) AS request;
+$$ LANGUAGE sql STABLE;
+
+-- Whether the requester owns the chat
+-- SECURITY DEFINER so policies on chat-scoped tables can check chats without recursing into its RLS
+CREATE OR REPLACE FUNCTION owns_chat(target_chat_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM chats
+    WHERE id = target_chat_id
+      AND CASE
+        WHEN user_id IS NOT NULL THEN user_id = auth.uid()
+        ELSE session_id = request_session_id()
+      END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- sessions: the session itself, or the account that claimed it; created by the server only
+DROP POLICY IF EXISTS "Allow read sessions" ON sessions;
+DROP POLICY IF EXISTS "Allow insert sessions" ON sessions;
+DROP POLICY IF EXISTS "Allow update own session" ON sessions;
+
+CREATE POLICY "Owner can read sessions" ON sessions
+  FOR SELECT
+  USING (session_id = request_session_id() OR user_id = auth.uid());
+
+CREATE POLICY "Owner can update sessions" ON sessions
+  FOR UPDATE
+  USING (session_id = request_session_id() OR user_id = auth.uid())
+  WITH CHECK (session_id = request_session_id() OR user_id = auth.uid());
+
+-- users: each user their own row; recorded by the server only
+DROP POLICY IF EXISTS "Allow read users" ON users;
+DROP POLICY IF EXISTS "Allow insert users" ON users;
+DROP POLICY IF EXISTS "Allow update users" ON users;
+
+CREATE POLICY "Owner can read users" ON users
+  FOR SELECT
+  USING (id = auth.uid());
+
+CREATE POLICY "Owner can update users" ON users
+  FOR UPDATE
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+-- chats: created in the requester's session, for the signed-in user or nobody
+-- Checked on the row itself - owns_chat() can't see a chat being inserted (INSERT ... RETURNING)
+DROP POLICY IF EXISTS "Allow read chats" ON chats;
+DROP POLICY IF EXISTS "Allow insert chats" ON chats;
+DROP POLICY IF EXISTS "Allow update own chats" ON chats;
+DROP POLICY IF EXISTS "Allow delete own chats" ON chats;
+
+CREATE POLICY "Owner can read chats" ON chats
+  FOR SELECT
+  USING (CASE
+    WHEN user_id IS NOT NULL THEN user_id = auth.uid()
+    ELSE session_id = request_session_id()
+  END);
+
+CREATE POLICY "Owner can insert chats" ON chats
+  FOR INSERT
+  WITH CHECK (session_id = request_session_id() AND (user_id IS NULL OR user_id = auth.uid()));
+
+-- The owner can't hand a chat to another account
+CREATE POLICY "Owner can update chats" ON chats
+  FOR UPDATE
+  USING (CASE
+    WHEN user_id IS NOT NULL THEN user_id = auth.uid()
+    ELSE session_id = request_session_id()
+  END)
+  WITH CHECK (user_id IS NULL OR user_id = auth.uid());
+
+CREATE POLICY "Owner can delete chats" ON chats
+  FOR DELETE
+  USING (CASE
+    WHEN user_id IS NOT NULL THEN user_id = auth.uid()
+    ELSE session_id = request_session_id()
+  END);
+
+-- messages
+DROP POLICY IF EXISTS "Allow read messages" ON messages;
+DROP POLICY IF EXISTS "Allow insert messages" ON messages;
+
+CREATE POLICY "Chat owner can read messages" ON messages
+  FOR SELECT
+  USING (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can insert messages" ON messages
+  FOR INSERT
+  WITH CHECK (owns_chat(chat_id));
+
+-- icp_data
+DROP POLICY IF EXISTS "Allow read icp_data" ON icp_data;
+DROP POLICY IF EXISTS "Allow insert icp_data" ON icp_data;
+DROP POLICY IF EXISTS "Allow update icp_data" ON icp_data;
+
+CREATE POLICY "Chat owner can read icp_data" ON icp_data
+  FOR SELECT
+  USING (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can insert icp_data" ON icp_data
+  FOR INSERT
+  WITH CHECK (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can update icp_data" ON icp_data
+  FOR UPDATE
+  USING (owns_chat(chat_id))
+  WITH CHECK (owns_chat(chat_id));
+
+-- icp_field_revisions (append-only)
+DROP POLICY IF EXISTS "Allow read icp_field_revisions" ON icp_field_revisions;
+DROP POLICY IF EXISTS "Allow insert icp_field_revisions" ON icp_field_revisions;
+
+CREATE POLICY "Chat owner can read icp_field_revisions" ON icp_field_revisions
+  FOR SELECT
+  USING (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can insert icp_field_revisions" ON icp_field_revisions
+  FOR INSERT
+  WITH CHECK (owns_chat(chat_id));
+
+-- icp_conflicts
+DROP POLICY IF EXISTS "Allow read icp_conflicts" ON icp_conflicts;
+DROP POLICY IF EXISTS "Allow insert icp_conflicts" ON icp_conflicts;
+DROP POLICY IF EXISTS "Allow update icp_conflicts" ON icp_conflicts;
+
+CREATE POLICY "Chat owner can read icp_conflicts" ON icp_conflicts
+  FOR SELECT
+  USING (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can insert icp_conflicts" ON icp_conflicts
+  FOR INSERT
+  WITH CHECK (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can update icp_conflicts" ON icp_conflicts
+  FOR UPDATE
+  USING (owns_chat(chat_id))
+  WITH CHECK (owns_chat(chat_id));
+
+-- attachments
+DROP POLICY IF EXISTS "Allow read attachments" ON attachments;
+DROP POLICY IF EXISTS "Allow insert attachments" ON attachments;
+DROP POLICY IF EXISTS "Allow update attachments" ON attachments;
+DROP POLICY IF EXISTS "Allow delete attachments" ON attachments;
+
+CREATE POLICY "Chat owner can read attachments" ON attachments
+  FOR SELECT
+  USING (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can insert attachments" ON attachments
+  FOR INSERT
+  WITH CHECK (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can update attachments" ON attachments
+  FOR UPDATE
+  USING (owns_chat(chat_id))
+  WITH CHECK (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can delete attachments" ON attachments
+  FOR DELETE
+  USING (owns_chat(chat_id));
+
+-- document_chunks
+DROP POLICY IF EXISTS "Allow read document_chunks" ON document_chunks;
+DROP POLICY IF EXISTS "Allow insert document_chunks" ON document_chunks;
+DROP POLICY IF EXISTS "Allow delete document_chunks" ON document_chunks;
+
+CREATE POLICY "Chat owner can read document_chunks" ON document_chunks
+  FOR SELECT
+  USING (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can insert document_chunks" ON document_chunks
+  FOR INSERT
+  WITH CHECK (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can delete document_chunks" ON document_chunks
+  FOR DELETE
+  USING (owns_chat(chat_id));
+
+-- conversation_summaries
+DROP POLICY IF EXISTS "Allow read conversation_summaries" ON conversation_summaries;
+DROP POLICY IF EXISTS "Allow insert conversation_summaries" ON conversation_summaries;
+DROP POLICY IF EXISTS "Allow update conversation_summaries" ON conversation_summaries;
+DROP POLICY IF EXISTS "Allow delete conversation_summaries" ON conversation_summaries;
+
+CREATE POLICY "Chat owner can read conversation_summaries" ON conversation_summaries
+  FOR SELECT
+  USING (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can insert conversation_summaries" ON conversation_summaries
+  FOR INSERT
+  WITH CHECK (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can update conversation_summaries" ON conversation_summaries
+  FOR UPDATE
+  USING (owns_chat(chat_id))
+  WITH CHECK (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can delete conversation_summaries" ON conversation_summaries
+  FOR DELETE
+  USING (owns_chat(chat_id));
+
+-- icp_document_versions (append-only)
+DROP POLICY IF EXISTS "Allow read icp_document_versions" ON icp_document_versions;
+DROP POLICY IF EXISTS "Allow insert icp_document_versions" ON icp_document_versions;
+
+CREATE POLICY "Chat owner can read icp_document_versions" ON icp_document_versions
+  FOR SELECT
+  USING (owns_chat(chat_id));
+
+CREATE POLICY "Chat owner can insert icp_document_versions" ON icp_document_versions
+  FOR INSERT
+  WITH CHECK (owns_chat(chat_id));
@@ -0,0 +1,27 @@
+-- Keep ownership columns out of the requester's reach
+-- Migration 016 let a chat's owner rewrite chats.session_id (its update check only looked at
+-- user_id) and let an anonymous session set sessions.user_id to any account. Ownership only
+-- changes when the server claims a session for a signed-in user, with the service role.
+
+-- sessions: written by the server only
+DROP POLICY IF EXISTS "Owner can update sessions" ON sessions;
+
+-- chats: the owner can still rename a chat, but not move it to another session or account
+-- A policy can't compare the new row with the old one, so a trigger does
+CREATE OR REPLACE FUNCTION prevent_chat_owner_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND (NEW.session_id IS DISTINCT FROM OLD.session_id OR NEW.user_id IS DISTINCT FROM OLD.user_id) THEN
+    RAISE EXCEPTION 'A chat''s session and account can only be changed by the server'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_chat_owner_change ON chats;
+CREATE TRIGGER trigger_prevent_chat_owner_change
+  BEFORE UPDATE ON chats
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_chat_owner_change();
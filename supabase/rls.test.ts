@@ -0,0 +1,202 @@
+/**
+ * Row-level security of migrations 016 and 017
+ *
+ * Runs every migration on an in-process Postgres and queries it as the API
+ * routes do (anon key, access token, x-session-id header), so these tests
+ * check the database's own policies and triggers - not the routes' checks.
+ */
+
+import { randomUUID } from 'crypto';
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { asRequester, createMigratedDatabase, SQLRequester } from '@/test/supabase-postgres';
+
+const SESSION_A = randomUUID();
+const SESSION_B = randomUUID();
+const USER_A = randomUUID();
+const USER_B = randomUUID();
+
+// Started anonymously in session A
+const ANONYMOUS_CHAT = randomUUID();
+// Started in session A and claimed by user A
+const CLAIMED_CHAT = randomUUID();
+
+// Every chat-scoped table goes through owns_chat()
+const CHAT_TABLES = [
+  'messages',
+  'icp_data',
+  'icp_field_revisions',
+  'icp_conflicts',
+  'attachments',
+  'document_chunks',
+  'conversation_summaries',
+  'icp_document_versions',
+];
+
+function seedChat(chatId: string, userId: string | null): string {
+  const attachmentId = randomUUID();
+  return `
+    INSERT INTO chats (id, session_id, user_id, title) VALUES ('${chatId}', '${SESSION_A}', ${userId ? `'${userId}'` : 'NULL'}, 'Private chat');
+    INSERT INTO messages (chat_id, role, content) VALUES ('${chatId}', 'user', 'Our pricing is confidential');
+    INSERT INTO icp_data (chat_id, company_name) VALUES ('${chatId}', 'Acme');
+    INSERT INTO icp_field_revisions (chat_id, field, source, new_value) VALUES ('${chatId}', 'company_name', 'user_edit', 'Acme');
+    INSERT INTO icp_conflicts (chat_id, description) VALUES ('${chatId}', 'Two company sizes');
+    INSERT INTO attachments (id, chat_id, storage_backend, storage_key, file_name, size_bytes, format)
+      VALUES ('${attachmentId}', '${chatId}', 'local', '${chatId}/plan.pdf', 'plan.pdf', 10, 'pdf');
+    INSERT INTO document_chunks (chat_id, attachment_id, chunk_index, content, embedding, embedding_model)
+      VALUES ('${chatId}', '${attachmentId}', 0, 'Pricing starts at', ARRAY[0.1, 0.2], 'test');
+    INSERT INTO conversation_summaries (chat_id, stage, summary, fingerprint) VALUES ('${chatId}', 'company', 'Acme sells widgets', 'abc');
+    INSERT INTO icp_document_versions (chat_id, version, document, icp_snapshot, prompt_version) VALUES ('${chatId}', 1, '{}', '{}', 1);
+  `;
+}
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createMigratedDatabase();
+  await db.exec(`
+    INSERT INTO auth.users (id, email) VALUES ('${USER_A}', 'a@example.com'), ('${USER_B}', 'b@example.com');
+    INSERT INTO users (id, email) VALUES ('${USER_A}', 'a@example.com'), ('${USER_B}', 'b@example.com');
+    INSERT INTO sessions (session_id, user_id) VALUES ('${SESSION_A}', '${USER_A}'), ('${SESSION_B}', NULL);
+    ${seedChat(ANONYMOUS_CHAT, null)}
+    ${seedChat(CLAIMED_CHAT, USER_A)}
+  `);
+}, 60_000);
+
+afterAll(async () => {
+  await db?.close();
+});
+
+const anonymous = (sessionId: string): SQLRequester => ({ role: 'anon', sessionId });
+const signedIn = (userId: string, sessionId: string): SQLRequester => ({ role: 'authenticated', userId, sessionId });
+
+// Requesters that must not reach the chat
+const INTRUDERS: { name: string; chatId: string; requester: SQLRequester }[] = [
+  { name: 'another anonymous session', chatId: ANONYMOUS_CHAT, requester: anonymous(SESSION_B) },
+  { name: 'a request without a session', chatId: ANONYMOUS_CHAT, requester: { role: 'anon' } },
+  { name: 'another account', chatId: CLAIMED_CHAT, requester: signedIn(USER_B, SESSION_B) },
+  { name: 'another account signed in on the same browser', chatId: CLAIMED_CHAT, requester: signedIn(USER_B, SESSION_A) },
+  { name: 'the starting session once an account claimed the chat', chatId: CLAIMED_CHAT, requester: anonymous(SESSION_A) },
+];
+
+const OWNERS: { name: string; chatId: string; requester: SQLRequester }[] = [
+  { name: 'the anonymous session that started it', chatId: ANONYMOUS_CHAT, requester: anonymous(SESSION_A) },
+  { name: 'the account that claimed it, from another browser', chatId: CLAIMED_CHAT, requester: signedIn(USER_A, SESSION_B) },
+];
+
+describe.each(INTRUDERS)('$name', ({ chatId, requester }) => {
+  it('sees neither the chat nor any of its data', async () => {
+    await asRequester(db, requester, async sql => {
+      expect((await sql('SELECT id FROM chats WHERE id = $1', [chatId])).rows).toEqual([]);
+      for (const table of CHAT_TABLES) {
+        const { rows, error } = await sql(`SELECT chat_id FROM ${table} WHERE chat_id = $1`, [chatId]);
+        expect(error, table).toBeNull();
+        expect(rows, table).toEqual([]);
+      }
+    });
+  });
+
+  it("can't change or delete the chat or its data", async () => {
+    await asRequester(db, requester, async sql => {
+      expect((await sql("UPDATE chats SET title = 'Taken' WHERE id = $1", [chatId])).affectedRows).toBe(0);
+      expect((await sql("UPDATE icp_data SET company_name = 'Taken' WHERE chat_id = $1", [chatId])).affectedRows).toBe(0);
+      expect((await sql('DELETE FROM attachments WHERE chat_id = $1', [chatId])).affectedRows).toBe(0);
+      expect((await sql('DELETE FROM conversation_summaries WHERE chat_id = $1', [chatId])).affectedRows).toBe(0);
+      expect((await sql('DELETE FROM chats WHERE id = $1', [chatId])).affectedRows).toBe(0);
+    });
+  });
+
+  it("can't add data to the chat", async () => {
+    await asRequester(db, requester, async sql => {
+      const message = await sql("INSERT INTO messages (chat_id, role, content) VALUES ($1, 'user', 'Injected')", [chatId]);
+      expect(message.error).toMatch(/row-level security/);
+
+      const revision = await sql(
+        "INSERT INTO icp_field_revisions (chat_id, field, source, new_value) VALUES ($1, 'company_name', 'user_edit', 'Taken')",
+        [chatId]
+      );
+      expect(revision.error).toMatch(/row-level security/);
+    });
+  });
+});
+
+describe.each(OWNERS)('$name', ({ chatId, requester }) => {
+  it('sees the chat and all of its data', async () => {
+    await asRequester(db, requester, async sql => {
+      expect((await sql('SELECT id FROM chats WHERE id = $1', [chatId])).rows).toHaveLength(1);
+      for (const table of CHAT_TABLES) {
+        expect((await sql(`SELECT chat_id FROM ${table} WHERE chat_id = $1`, [chatId])).rows, table).toHaveLength(1);
+      }
+    });
+  });
+
+  it('can rename the chat and add messages', async () => {
+    await asRequester(db, requester, async sql => {
+      expect((await sql("UPDATE chats SET title = 'Renamed' WHERE id = $1", [chatId])).affectedRows).toBe(1);
+      expect((await sql("INSERT INTO messages (chat_id, role, content) VALUES ($1, 'user', 'Hello')", [chatId])).error).toBeNull();
+    });
+  });
+
+  it("can't move the chat to another session or account (prevent_chat_owner_change)", async () => {
+    await asRequester(db, requester, async sql => {
+      const moved = await sql('UPDATE chats SET session_id = $2 WHERE id = $1', [chatId, SESSION_B]);
+      expect(moved.error).toMatch(/can only be changed by the server/);
+
+      const handedOver = await sql('UPDATE chats SET user_id = $2 WHERE id = $1', [chatId, USER_B]);
+      expect(handedOver.error).not.toBeNull();
+    });
+  });
+});
+
+describe('chats', () => {
+  it("can't be created in another session", async () => {
+    await asRequester(db, anonymous(SESSION_B), async sql => {
+      const { error } = await sql("INSERT INTO chats (session_id, title) VALUES ($1, 'Planted')", [SESSION_A]);
+      expect(error).toMatch(/row-level security/);
+    });
+  });
+
+  it("can't be claimed by the anonymous session's own account through the anon key", async () => {
+    // USING and WITH CHECK both pass here - only the trigger stops it
+    await asRequester(db, signedIn(USER_A, SESSION_A), async sql => {
+      const { error } = await sql('UPDATE chats SET user_id = $2 WHERE id = $1', [ANONYMOUS_CHAT, USER_A]);
+      expect(error).toMatch(/can only be changed by the server/);
+    });
+  });
+
+  it('are claimed by the server with the service role', async () => {
+    await asRequester(db, { role: 'service_role' }, async sql => {
+      const claimed = await sql('UPDATE chats SET user_id = $2 WHERE session_id = $1 AND user_id IS NULL', [SESSION_A, USER_A]);
+      expect(claimed).toMatchObject({ error: null, affectedRows: 1 });
+    });
+  });
+});
+
+describe('sessions', () => {
+  it.each([
+    ['an anonymous session', anonymous(SESSION_B)],
+    ['a signed-in user', signedIn(USER_B, SESSION_B)],
+  ])("can't be given an account by %s", async (_, requester) => {
+    await asRequester(db, requester, async sql => {
+      expect((await sql('UPDATE sessions SET user_id = $2 WHERE session_id = $1', [SESSION_B, USER_B])).affectedRows).toBe(0);
+      expect((await sql('UPDATE sessions SET user_id = $2 WHERE session_id = $1', [SESSION_A, USER_B])).affectedRows).toBe(0);
+    });
+  });
+
+  it('are only visible to themselves and the account that claimed them', async () => {
+    await asRequester(db, anonymous(SESSION_B), async sql => {
+      expect((await sql('SELECT session_id FROM sessions')).rows).toEqual([{ session_id: SESSION_B }]);
+    });
+    await asRequester(db, signedIn(USER_A, SESSION_B), async sql => {
+      expect((await sql('SELECT session_id FROM sessions ORDER BY session_id')).rows.map(row => row.session_id).sort())
+        .toEqual([SESSION_A, SESSION_B].sort());
+    });
+  });
+
+  it('are claimed by the server with the service role', async () => {
+    await asRequester(db, { role: 'service_role' }, async sql => {
+      const claimed = await sql('UPDATE sessions SET user_id = $2 WHERE session_id = $1', [SESSION_B, USER_B]);
+      expect(claimed).toMatchObject({ error: null, affectedRows: 1 });
+    });
+  });
+});
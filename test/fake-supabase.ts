@@ -0,0 +1,158 @@
+/**
+ * In-memory stand-in for the Supabase client, for route tests
+ *
+ * Supports the query builder calls the routes make (select/insert/update/
+ * upsert/delete, the comparison filters, order, limit, single) on plain
+ * arrays of rows, and auth.getUser for access tokens registered in `users`.
+ * It applies no RLS: every query sees every row.
+ *
+ * Tests swap it in for @/lib/supabase:
+ *   vi.mock('@/lib/supabase', async () => (await import('@/test/fake-supabase')).supabaseModule);
+ */
+
+type Row = Record<string, any>;
+
+interface QueryResult {
+  data: any;
+  error: { code?: string; message: string } | null;
+}
+
+const tables: Record<string, Row[]> = {};
+// Access token -> user, for auth.getUser
+const users = new Map<string, { id: string; email: string }>();
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'update' | 'delete' | 'upsert' = 'select';
+  private values: Row[] = [];
+  private filters: ((row: Row) => boolean)[] = [];
+  private sort: { column: string; ascending: boolean } | null = null;
+  private maxRows: number | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private conflictColumn = 'id';
+
+  constructor(private table: string) {}
+
+  select() { return this; }
+  insert(values: Row | Row[]) { this.operation = 'insert'; this.values = [values].flat(); return this; }
+  upsert(values: Row | Row[], options?: { onConflict?: string }) {
+    this.operation = 'upsert';
+    this.values = [values].flat();
+    this.conflictColumn = options?.onConflict || 'id';
+    return this;
+  }
+  update(values: Row) { this.operation = 'update'; this.values = [values]; return this; }
+  delete() { this.operation = 'delete'; return this; }
+
+  eq(column: string, value: unknown) { return this.where(row => row[column] === value); }
+  neq(column: string, value: unknown) { return this.where(row => row[column] !== value); }
+  is(column: string, value: unknown) { return this.where(row => (row[column] ?? null) === value); }
+  in(column: string, values: unknown[]) { return this.where(row => values.includes(row[column])); }
+  lt(column: string, value: any) { return this.where(row => row[column] < value); }
+  lte(column: string, value: any) { return this.where(row => row[column] <= value); }
+  gt(column: string, value: any) { return this.where(row => row[column] > value); }
+  gte(column: string, value: any) { return this.where(row => row[column] >= value); }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.sort = { column, ascending: options?.ascending ?? true };
+    return this;
+  }
+  limit(count: number) { this.maxRows = count; return this; }
+  single() { this.mode = 'single'; return this; }
+  maybeSingle() { this.mode = 'maybeSingle'; return this; }
+
+  then<T1 = QueryResult, T2 = never>(
+    onfulfilled?: ((value: QueryResult) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected);
+  }
+
+  private where(filter: (row: Row) => boolean) {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private run(): QueryResult {
+    const rows = (tables[this.table] ??= []);
+    const matches = (row: Row) => this.filters.every(filter => filter(row));
+    let result: Row[];
+
+    switch (this.operation) {
+      case 'insert':
+        result = this.values.map(values => ({ id: crypto.randomUUID(), created_at: new Date().toISOString(), ...values }));
+        rows.push(...result);
+        break;
+      case 'upsert':
+        result = this.values.map(values => {
+          const existing = rows.find(row => row[this.conflictColumn] === values[this.conflictColumn]);
+          if (existing) return Object.assign(existing, values);
+          const row = { id: crypto.randomUUID(), ...values };
+          rows.push(row);
+          return row;
+        });
+        break;
+      case 'update':
+        result = rows.filter(matches);
+        result.forEach(row => Object.assign(row, this.values[0]));
+        break;
+      case 'delete':
+        result = rows.filter(matches);
+        tables[this.table] = rows.filter(row => !matches(row));
+        break;
+      default:
+        result = rows.filter(matches);
+    }
+
+    if (this.sort) {
+      const { column, ascending } = this.sort;
+      result = [...result].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    }
+    if (this.maxRows !== null) {
+      result = result.slice(0, this.maxRows);
+    }
+
+    const data = structuredClone(result);
+    if (this.mode === 'many') {
+      return { data, error: null };
+    }
+    if (data.length > 1) {
+      return { data: null, error: { code: 'PGRST116', message: 'Multiple rows returned' } };
+    }
+    if (data.length === 0) {
+      return this.mode === 'single'
+        ? { data: null, error: { code: 'PGRST116', message: 'No rows returned' } }
+        : { data: null, error: null };
+    }
+    return { data: data[0], error: null };
+  }
+}
+
+const client = {
+  from: (table: string) => new FakeQuery(table),
+  auth: {
+    getUser: async (accessToken: string) => {
+      const user = users.get(accessToken);
+      return user
+        ? { data: { user }, error: null }
+        : { data: { user: null }, error: { message: 'Invalid token' } };
+    },
+  },
+};
+
+/**
+ * Replace every table's rows and forget the registered users
+ */
+function reset(seed: Record<string, Row[]>) {
+  for (const table of Object.keys(tables)) delete tables[table];
+  Object.assign(tables, structuredClone(seed));
+  users.clear();
+}
+
+export const fakeSupabase = { client, tables, users, reset };
+
+// Module shape of @/lib/supabase, every client being the fake
+export const supabaseModule = {
+  supabase: client,
+  createServerClient: () => client,
+  createServiceClient: () => client,
+};
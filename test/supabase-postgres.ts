@@ -0,0 +1,97 @@
+/**
+ * The app's migrations on an in-process Postgres (PGlite), for testing RLS
+ *
+ * Stands in for the parts of Supabase the migrations rely on: the anon,
+ * authenticated and service_role roles (service_role bypasses RLS),
+ * auth.users, and auth.uid() / auth.role() reading the request's JWT claims.
+ * Queries run the way PostgREST runs them: in a transaction, as the
+ * requester's role, with request.jwt.claims and request.headers set.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'supabase', 'migrations');
+
+const SUPABASE_SHIM = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id UUID PRIMARY KEY, email TEXT);
+  CREATE FUNCTION auth.uid() RETURNS UUID AS $$
+    SELECT nullif(current_setting('request.jwt.claims', true)::json->>'sub', '')::uuid;
+  $$ LANGUAGE sql STABLE;
+  CREATE FUNCTION auth.role() RETURNS TEXT AS $$
+    SELECT current_setting('request.jwt.claims', true)::json->>'role';
+  $$ LANGUAGE sql STABLE;
+
+  GRANT USAGE ON SCHEMA public, auth TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+`;
+
+// Who a query runs as - what the API routes send to Supabase
+export interface SQLRequester {
+  role: 'anon' | 'authenticated' | 'service_role';
+  // The x-session-id header
+  sessionId?: string;
+  // The access token's user
+  userId?: string;
+}
+
+export interface SQLResult {
+  rows: Record<string, any>[];
+  affectedRows: number;
+  // Set when the statement was refused (RLS, a trigger, a constraint)
+  error: string | null;
+}
+
+export type SQL = (query: string, params?: unknown[]) => Promise<SQLResult>;
+
+/**
+ * A fresh database with every migration applied, in order
+ */
+export async function createMigratedDatabase(): Promise<PGlite> {
+  const db = new PGlite();
+  await db.exec(SUPABASE_SHIM);
+
+  const migrations = (await readdir(MIGRATIONS_DIR)).filter(file => file.endsWith('.sql')).sort();
+  for (const migration of migrations) {
+    await db.exec(await readFile(path.join(MIGRATIONS_DIR, migration), 'utf8'));
+  }
+  return db;
+}
+
+/**
+ * Run queries as a requester; everything they change is rolled back afterwards
+ * A refused statement comes back with `error` set and doesn't abort the ones after it.
+ */
+export async function asRequester<T>(db: PGlite, requester: SQLRequester, run: (sql: SQL) => Promise<T>): Promise<T> {
+  const claims = { role: requester.role, ...(requester.userId ? { sub: requester.userId } : {}) };
+  const headers = requester.sessionId ? { 'x-session-id': requester.sessionId } : {};
+
+  await db.exec('BEGIN');
+  try {
+    await db.exec(`SET LOCAL ROLE ${requester.role}`);
+    await db.query(
+      "SELECT set_config('request.jwt.claims', $1, true), set_config('request.headers', $2, true)",
+      [JSON.stringify(claims), JSON.stringify(headers)]
+    );
+
+    return await run(async (query, params) => {
+      await db.exec('SAVEPOINT statement');
+      try {
+        const result = await db.query<Record<string, any>>(query, params);
+        await db.exec('RELEASE SAVEPOINT statement');
+        return { rows: result.rows, affectedRows: result.affectedRows ?? 0, error: null };
+      } catch (error: any) {
+        await db.exec('ROLLBACK TO SAVEPOINT statement');
+        return { rows: [], affectedRows: 0, error: error.message };
+      }
+    });
+  } finally {
+    await db.exec('ROLLBACK');
+  }
+}
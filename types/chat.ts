@@ -1,3 +1,9 @@
+import { DocumentFormat } from '@/lib/document-formats';
+import type { BlobStorageBackend } from '@/lib/blob-storage';
+import type { DocumentFieldConflict } from '@/lib/document-icp-extraction';
+import type { DocumentOCRReport } from '@/lib/ocr';
+import type { ICPFieldKey, ICPFieldValues } from '@/types/icp';
+
 export interface Chat {
   id: string;
   session_id: string;
@@ -22,6 +28,51 @@ export interface Message {
   created_at: string;
 }
 
+// ICP extraction results kept with an attachment (see lib/document-processing.ts)
+export interface AttachmentExtraction {
+  fields: ICPFieldValues;
+  fieldPages: Partial<Record<ICPFieldKey, number[]>>;
+  conflicts: DocumentFieldConflict[];
+  failedPages: number[];
+  usedRegexFallback: boolean;
+  summary: string;
+}
+
+// Uploaded document, stored in blob storage with its extracted text
+export interface Attachment {
+  id: string;
+  chat_id: string;
+  // User message the document was sent with (null until the message is saved)
+  message_id: string | null;
+  file_name: string;
+  mime_type: string | null;
+  format: DocumentFormat;
+  size_bytes: number;
+  storage_backend: BlobStorageBackend;
+  storage_key: string;
+  extracted_text: string;
+  pages: string[];
+  page_count: number;
+  extraction: AttachmentExtraction | null;
+  // Pages read with OCR and their confidence (scanned PDFs)
+  ocr: DocumentOCRReport | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Attachment as sent to the client - without the stored text
+export interface AttachmentSummary {
+  id: string;
+  messageId: string | null;
+  name: string;
+  size: number;
+  type: string;
+  format: DocumentFormat;
+  pageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // For UI display (converts created_at string to Date)
 export interface MessageDisplay {
   id: string;
@@ -32,6 +83,10 @@ export interface MessageDisplay {
     name: string;
     size: number;
     type: string;
+    // Format the document was parsed as (unset for unparsed files)
+    format?: DocumentFormat;
+    // Stored attachment, when the document was kept (re-open / re-extract / delete)
+    attachmentId?: string;
   };
   icpExtraction?: {
     summary: string;
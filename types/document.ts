@@ -0,0 +1,120 @@
+/**
+ * Generated ICP document - the structure generate-document produces, stores in
+ * icp_data.generated_document, and the viewer and exporters (Markdown, DOCX,
+ * PDF) render
+ */
+
+import type { ICPData, ICPFieldKey } from '@/types/icp';
+
+// Bumped when the stored structure changes incompatibly
+export const ICP_DOCUMENT_SCHEMA_VERSION = 1;
+
+export type ICPBuyingRole = 'decision_maker' | 'champion' | 'influencer' | 'end_user' | 'blocker';
+
+export interface ICPPersona {
+  name: string;
+  // Job title
+  role: string;
+  buyingRole: ICPBuyingRole;
+  goals: string[];
+  frustrations: string[];
+}
+
+export interface ICPPainPoint {
+  pain: string;
+  impact: string;
+  currentSolution: string | null;
+}
+
+export type ICPTableBlock = { type: 'table'; columns: string[]; rows: string[][] };
+
+export type ICPDocumentBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'bullets'; items: string[] }
+  | ICPTableBlock
+  | { type: 'personas'; personas: ICPPersona[] }
+  | { type: 'pain_points'; painPoints: ICPPainPoint[] }
+  | { type: 'value_proposition'; statement: string; benefits: string[]; successMetrics: string[] };
+
+// What exporters draw - persona cards, pain points and the value proposition are lowered to these
+export type ICPRenderBlock =
+  | Extract<ICPDocumentBlock, { type: 'paragraph' | 'bullets' | 'table' }>
+  | { type: 'subheading'; text: string };
+
+export interface ICPDocumentSection {
+  id: string;
+  title: string;
+  blocks: ICPDocumentBlock[];
+  // Kept as it is when the document is generated again
+  locked?: boolean;
+  // When the section's text was last edited by hand
+  editedAt?: string | null;
+}
+
+// A field the document cites as [S1], [S2]...
+export interface ICPDocumentSource {
+  marker: string;
+  field: ICPFieldKey;
+  label: string;
+  description: string;
+  evidence: string | null;
+  // 0-1
+  confidence: number;
+}
+
+export interface ICPDocument {
+  schemaVersion: number;
+  title: string;
+  companyName: string | null;
+  generatedAt: string;
+  sections: ICPDocumentSection[];
+  sources: ICPDocumentSource[];
+}
+
+export type DocumentExportFormat = 'md' | 'docx' | 'pdf';
+
+/**
+ * Branding for exported documents
+ * Colors are hex ('#RRGGBB'); the logo is a PNG or JPEG file.
+ */
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Path relative to public/ (built-in templates) or to the template's JSON file
+  logo: string | null;
+  colors: {
+    // Headings, cover page band, table headers
+    primary: string;
+    // Rules under headings
+    accent: string;
+    text: string;
+    // Footer, captions, table borders
+    muted: string;
+  };
+  coverPage: boolean;
+  // Shown in the footer of every page
+  footer: string | null;
+}
+
+// Template as listed to the client - without the logo path
+export type DocumentTemplateSummary = Omit<DocumentTemplate, 'logo'> & { hasLogo: boolean };
+
+/**
+ * A stored generation of the document (icp_document_versions row)
+ */
+export interface ICPDocumentVersion {
+  id: string;
+  chat_id: string;
+  version: number;
+  document: ICPDocument;
+  // icp_data at generation time
+  icp_snapshot: Partial<ICPData>;
+  provider: string | null;
+  model: string | null;
+  prompt_version: number;
+  created_at: string;
+}
+
+// Version as listed - without the document and snapshot
+export type ICPDocumentVersionSummary = Omit<ICPDocumentVersion, 'document' | 'icp_snapshot'>;
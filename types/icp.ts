@@ -1,98 +1,286 @@
+/**
+ * ICP schema - the single definition of the nine discovery stages
+ *
+ * ICP_SECTIONS drives progress, the agent's "still needed" prompt, the
+ * extraction prompt and the confirmation cards. Bump ICP_SCHEMA_VERSION
+ * (and add a migration) whenever fields are added, renamed or moved.
+ */
+
+import type { ICPDocument } from '@/types/document';
+
+export const ICP_SCHEMA_VERSION = 2;
+
 export interface ICPData {
   id?: string;
   chat_id: string;
-  
-  // Company Basics
+  schema_version?: number;
+
+  // 1. Company Overview
   company_name?: string;
   company_size?: string;
   industry?: string;
   location?: string;
   company_basics_complete?: boolean;
-  
-  // Target Customer
+
+  // 2. Product / Solution
+  product_description?: string;
+  delivery_model?: string;
+  value_outcomes?: string;
+  product_solution_complete?: boolean;
+
+  // 3. Target Customer & Market
   target_customer_type?: string;
   target_demographics?: string;
   target_psychographics?: string;
   target_customer_complete?: boolean;
-  
-  // Problem & Pain
+
+  // 4. Buyer Personas & Decision Makers
+  decision_makers?: string;
+  decision_maker_role?: string;
+  budget_range?: string;
+  buying_process_steps?: string;
+  approval_process?: string;
+  buyer_personas_complete?: boolean;
+
+  // 5. Pain Points & Motivations
   main_problems?: string;
   pain_points?: string;
   current_solutions?: string;
   problem_pain_complete?: boolean;
-  
-  // Buying Process
-  decision_makers?: string;
-  buying_process_steps?: string;
+
+  // 6. Buying Triggers & Timing
+  buying_triggers?: string;
+  urgency_timing?: string;
   evaluation_criteria?: string;
+  buying_triggers_complete?: boolean;
+
+  // 7. Fit Indicators & Exclusions
+  fit_indicators?: string;
+  exclusions?: string;
+  fit_exclusions_complete?: boolean;
+
+  // 8. Emotional & Strategic Drivers
+  emotional_drivers?: string;
+  strategic_goals?: string;
+  emotional_drivers_complete?: boolean;
+
+  // 9. ICP Synthesis Confirmation
+  synthesis_complete?: boolean;
+
+  // Where each field's current value came from (server-managed)
+  field_provenance?: ICPProvenanceMap;
+  // Sections a person signed off on (server-managed)
+  section_confirmations?: ICPSectionConfirmations;
+  // Last generated document (server-managed)
+  generated_document?: ICPDocument | null;
+  document_generated_at?: string | null;
+
+  // Schema v1 flags - folded into buyer_personas_complete by migration 004
   buying_process_complete?: boolean;
-  
-  // Budget & Decision Maker
-  budget_range?: string;
-  decision_maker_role?: string;
-  approval_process?: string;
   budget_decision_complete?: boolean;
-  
+
   created_at?: string;
   updated_at?: string;
 }
 
+export type ICPSectionId =
+  | 'company_overview'
+  | 'product_solution'
+  | 'target_market'
+  | 'buyer_personas'
+  | 'pain_points'
+  | 'buying_triggers'
+  | 'fit_exclusions'
+  | 'emotional_drivers'
+  | 'synthesis';
+
+export type ICPCompletionKey =
+  | 'company_basics_complete'
+  | 'product_solution_complete'
+  | 'target_customer_complete'
+  | 'buyer_personas_complete'
+  | 'problem_pain_complete'
+  | 'buying_triggers_complete'
+  | 'fit_exclusions_complete'
+  | 'emotional_drivers_complete'
+  | 'synthesis_complete';
+
+export type ICPFieldKey =
+  | 'company_name' | 'company_size' | 'industry' | 'location'
+  | 'product_description' | 'delivery_model' | 'value_outcomes'
+  | 'target_customer_type' | 'target_demographics' | 'target_psychographics'
+  | 'decision_makers' | 'decision_maker_role' | 'budget_range' | 'buying_process_steps' | 'approval_process'
+  | 'main_problems' | 'pain_points' | 'current_solutions'
+  | 'buying_triggers' | 'urgency_timing' | 'evaluation_criteria'
+  | 'fit_indicators' | 'exclusions'
+  | 'emotional_drivers' | 'strategic_goals';
+
+// Field values as written to the database - null clears a field
+export type ICPFieldValues = Partial<Record<ICPFieldKey, string | null>>;
+
+export interface ICPFieldDefinition {
+  key: ICPFieldKey;
+  label: string;
+  // What the extractor should put in this field
+  description: string;
+  // What the agent still needs to explore while this field is empty
+  prompt: string;
+  // Optional fields don't hold up section completion
+  optional?: boolean;
+  // Minimum length for a value to count (see lib/icp-completion.ts for the default)
+  minLength?: number;
+  // Holds one fact (a name, a size) - differing values from a document conflict instead of being combined
+  singleValue?: boolean;
+}
+
 export interface ICPSection {
+  id: ICPSectionId;
+  // Stage name as used in the agent's system prompt
   name: string;
-  key: keyof ICPData;
-  completeKey: keyof ICPData;
-  fields: string[];
+  stage: number;
+  intent: string;
+  completeKey: ICPCompletionKey;
+  // Synthesis has no fields of its own - it completes once every other stage is complete
+  fields: ICPFieldDefinition[];
 }
 
 export const ICP_SECTIONS: ICPSection[] = [
   {
-    name: 'Company Basics',
-    key: 'company_name',
+    id: 'company_overview',
+    name: 'Company Overview',
+    stage: 1,
+    intent: 'Understand what the company is and its operating context.',
     completeKey: 'company_basics_complete',
-    fields: ['company_name', 'company_size', 'industry', 'location'],
+    fields: [
+      { key: 'company_name', label: 'Company Name', description: 'Exact company name', prompt: 'What the company does and company name', singleValue: true },
+      { key: 'company_size', label: 'Company Size', description: 'Number of employees or size range', prompt: 'Company size and maturity', singleValue: true },
+      { key: 'industry', label: 'Industry', description: 'Specific industry or business type', prompt: 'Industry focus', singleValue: true },
+      { key: 'location', label: 'Location', description: 'City, state, or country (NOT industry terms)', prompt: 'Geography/location', singleValue: true },
+    ],
+  },
+  {
+    id: 'product_solution',
+    name: 'Product / Solution Overview',
+    stage: 2,
+    intent: 'Understand what is being sold and how it creates value.',
+    completeKey: 'product_solution_complete',
+    fields: [
+      { key: 'product_description', label: 'Product / Solution', description: 'Core offerings and what the product does', prompt: 'Core offerings and what the product does', minLength: 10 },
+      { key: 'delivery_model', label: 'Delivery Model', description: 'Managed service vs self-serve, how customers use it', prompt: 'Managed vs self-serve delivery' },
+      { key: 'value_outcomes', label: 'Value & Outcomes', description: 'Outcomes and value the product delivers to customers', prompt: 'Outcome vs feature orientation and the value delivered' },
+    ],
   },
   {
-    name: 'Target Customer',
-    key: 'target_customer_type',
+    id: 'target_market',
+    name: 'Target Customer & Market',
+    stage: 3,
+    intent: 'Identify the ideal company profile.',
     completeKey: 'target_customer_complete',
-    fields: ['target_customer_type', 'target_demographics', 'target_psychographics'],
+    fields: [
+      { key: 'target_customer_type', label: 'Customer Type', description: 'B2B or B2C', prompt: 'Customer type (B2B/B2C) and market segment', singleValue: true },
+      { key: 'target_demographics', label: 'Demographics', description: 'Size, revenue, industries, or characteristics of target customers', prompt: 'Company size sweet spot, revenue scale, demographics' },
+      { key: 'target_psychographics', label: 'Psychographics', description: 'Values, beliefs, motivations of target customers', prompt: 'Psychographics, values, motivations', optional: true },
+    ],
+  },
+  {
+    id: 'buyer_personas',
+    name: 'Buyer Personas & Decision Makers',
+    stage: 4,
+    intent: 'Understand who buys and who influences.',
+    completeKey: 'buyer_personas_complete',
+    fields: [
+      { key: 'decision_makers', label: 'Decision Makers', description: 'Roles of people involved in buying decisions, including champions', prompt: 'Decision makers, champions, budget owners' },
+      { key: 'decision_maker_role', label: 'Primary Decision Maker', description: 'Specific role or title of the primary decision maker', prompt: 'Decision maker role and job title', singleValue: true },
+      { key: 'budget_range', label: 'Budget Range', description: 'Budget, pricing, or cost information (include all dollar amounts found)', prompt: 'Budget owner, budget range and typical spending', optional: true },
+      { key: 'buying_process_steps', label: 'Buying Process', description: 'Steps in the buying process', prompt: 'Buying process steps' },
+      { key: 'approval_process', label: 'Approval Process', description: 'How approvals are obtained', prompt: 'Approval process and who has final sign-off', optional: true },
+    ],
   },
   {
-    name: 'Problem & Pain',
-    key: 'main_problems',
+    id: 'pain_points',
+    name: 'Pain Points & Motivations',
+    stage: 5,
+    intent: 'Capture real customer problems in business language.',
     completeKey: 'problem_pain_complete',
-    fields: ['main_problems', 'pain_points', 'current_solutions'],
+    fields: [
+      { key: 'main_problems', label: 'Main Problems', description: 'Core problems the company solves', prompt: 'Main problems customers face', minLength: 10 },
+      { key: 'pain_points', label: 'Pain Points', description: 'Specific pain points customers face (not table headers)', prompt: 'Operational, strategic, and people pain points', minLength: 10 },
+      { key: 'current_solutions', label: 'Current Solutions', description: 'How customers currently solve these problems', prompt: 'Current solutions they use' },
+    ],
   },
   {
-    name: 'Buying Process',
-    key: 'decision_makers',
-    completeKey: 'buying_process_complete',
-    fields: ['decision_makers', 'buying_process_steps', 'evaluation_criteria'],
+    id: 'buying_triggers',
+    name: 'Buying Triggers & Timing',
+    stage: 6,
+    intent: 'Understand when they are most receptive.',
+    completeKey: 'buying_triggers_complete',
+    fields: [
+      { key: 'buying_triggers', label: 'Trigger Events', description: 'Events that make customers start looking for a solution', prompt: 'Trigger events that start an evaluation' },
+      { key: 'urgency_timing', label: 'Urgency & Timing', description: 'Urgency, business phase and typical timing of purchases', prompt: 'Urgency, business phase and timing', optional: true },
+      { key: 'evaluation_criteria', label: 'Evaluation Criteria', description: 'How customers evaluate solutions', prompt: 'Evaluation criteria and decision factors' },
+    ],
   },
   {
-    name: 'Budget & Decision Maker',
-    key: 'budget_range',
-    completeKey: 'budget_decision_complete',
-    fields: ['budget_range', 'decision_maker_role', 'approval_process'],
+    id: 'fit_exclusions',
+    name: 'Fit Indicators & Exclusions',
+    stage: 7,
+    intent: 'Understand what makes a customer a perfect fit or not.',
+    completeKey: 'fit_exclusions_complete',
+    fields: [
+      { key: 'fit_indicators', label: 'Fit Indicators', description: 'Positive signals and ideal characteristics of a great-fit customer', prompt: 'Positive fit signals and ideal characteristics' },
+      { key: 'exclusions', label: 'Exclusions', description: 'Red flags and customers that are not a fit', prompt: 'Red flags and exclusions' },
+    ],
+  },
+  {
+    id: 'emotional_drivers',
+    name: 'Emotional & Strategic Drivers',
+    stage: 8,
+    intent: 'Understand deeper motivations and values.',
+    completeKey: 'emotional_drivers_complete',
+    fields: [
+      { key: 'emotional_drivers', label: 'Emotional Drivers', description: 'What motivates buyers emotionally (status, fear, relief, ambition)', prompt: 'Emotional drivers and what motivates them' },
+      { key: 'strategic_goals', label: 'Strategic Goals', description: 'Strategic goals buyers want to achieve', prompt: 'Strategic goals' },
+    ],
+  },
+  {
+    id: 'synthesis',
+    name: 'ICP Synthesis Confirmation',
+    stage: 9,
+    intent: 'Confirm understanding and synthesize the complete ICP.',
+    completeKey: 'synthesis_complete',
+    fields: [],
   },
 ];
 
+// Every text field in stage order
+export const ICP_FIELDS: ICPFieldDefinition[] = ICP_SECTIONS.flatMap(section => section.fields);
+
+export const ICP_FIELD_KEYS: ICPFieldKey[] = ICP_FIELDS.map(field => field.key);
+
+export function isICPFieldKey(key: string): key is ICPFieldKey {
+  return (ICP_FIELD_KEYS as string[]).includes(key);
+}
+
+export function getSectionForField(key: ICPFieldKey): ICPSection | undefined {
+  return ICP_SECTIONS.find(section => section.fields.some(field => field.key === key));
+}
+
 /**
  * Calculate progress percentage based on completed sections
  */
 export function calculateProgress(icpData: ICPData | null): number {
   if (!icpData) return 0;
-  
+
   const sections = ICP_SECTIONS;
   let completedSections = 0;
-  
+
   for (const section of sections) {
     const isComplete = icpData[section.completeKey] === true;
     if (isComplete) {
       completedSections++;
     }
   }
-  
+
   return Math.round((completedSections / sections.length) * 100);
 }
 
@@ -101,13 +289,132 @@ export function calculateProgress(icpData: ICPData | null): number {
  */
 export function getCurrentSection(icpData: ICPData | null): ICPSection | null {
   if (!icpData) return ICP_SECTIONS[0];
-  
+
   for (const section of ICP_SECTIONS) {
     if (icpData[section.completeKey] !== true) {
       return section;
     }
   }
-  
+
   return null; // All sections complete
 }
 
+/**
+ * Check whether every discovery stage is complete
+ */
+export function isICPComplete(icpData: ICPData | null): boolean {
+  return !!icpData && ICP_SECTIONS.every(section => icpData[section.completeKey] === true);
+}
+
+/**
+ * Completion flags keyed by section id (for logging)
+ */
+export function getCompletionStatus(icpData: Partial<ICPData> | null): Record<ICPSectionId, boolean> {
+  const status = {} as Record<ICPSectionId, boolean>;
+  for (const section of ICP_SECTIONS) {
+    status[section.id] = icpData?.[section.completeKey] === true;
+  }
+  return status;
+}
+
+/**
+ * Where an ICP field change came from
+ */
+export type ICPRevisionSource =
+  | 'user_edit'
+  | 'regex_analyzer'
+  | 'llm_extraction'
+  // Any uploaded document - the name predates support for formats other than PDF
+  | 'pdf'
+  | 'confirmation_card'
+  | 'rollback'
+  | 'agent_tool';
+
+export const ICP_REVISION_SOURCES: ICPRevisionSource[] = [
+  'user_edit',
+  'regex_analyzer',
+  'llm_extraction',
+  'pdf',
+  'confirmation_card',
+  'rollback',
+  'agent_tool',
+];
+
+/**
+ * One change to one ICP field (row in icp_field_revisions)
+ */
+export interface ICPFieldRevision {
+  id: string;
+  chat_id: string;
+  field: ICPFieldKey;
+  old_value: string | null;
+  new_value: string | null;
+  source: ICPRevisionSource;
+  message_id: string | null;
+  source_id: string | null;
+  evidence: string | null;
+  confidence: number | null;
+  created_at: string;
+}
+
+/**
+ * Contradicting information the chat agent flagged for the founder to resolve (row in icp_conflicts)
+ */
+export interface ICPConflict {
+  id: string;
+  chat_id: string;
+  // ICP field the conflict is about, if it maps to one
+  field: ICPFieldKey | null;
+  description: string;
+  current_value: string | null;
+  conflicting_value: string | null;
+  status: 'open' | 'resolved';
+  message_id: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+/**
+ * A person's sign-off on a section, kept separately from the auto-detected completion flag
+ */
+export interface ICPSectionConfirmation {
+  confirmed_at: string;
+  // confirmation_card when confirmed in the UI, agent_tool when the founder confirmed the agent's summary
+  source: ICPRevisionSource;
+}
+
+export type ICPSectionConfirmations = Partial<Record<ICPSectionId, ICPSectionConfirmation>>;
+
+/**
+ * Where a field's current value came from and how much to trust it
+ */
+export interface ICPFieldProvenance {
+  source: ICPRevisionSource;
+  // Message id or document name the value was taken from
+  source_id: string | null;
+  // Quoted span from the source that supports the value
+  evidence: string | null;
+  // 0-1; values a person typed or confirmed are 1
+  confidence: number;
+  updated_at: string;
+}
+
+export type ICPProvenanceMap = Partial<Record<ICPFieldKey, ICPFieldProvenance>>;
+
+// Fields below this confidence are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Confidence assumed when a writer doesn't report one
+export const DEFAULT_SOURCE_CONFIDENCE: Record<ICPRevisionSource, number> = {
+  user_edit: 1,
+  confirmation_card: 1,
+  rollback: 1,
+  agent_tool: 0.8,
+  llm_extraction: 0.7,
+  pdf: 0.7,
+  regex_analyzer: 0.4,
+};
+
+export function isLowConfidence(provenance: ICPFieldProvenance | undefined): boolean {
+  return !!provenance && provenance.confidence < LOW_CONFIDENCE_THRESHOLD;
+}